@@ -0,0 +1,154 @@
+import joplin from 'api';
+import debounce from 'lodash.debounce';
+import type { PanelChatMessage } from './commands/chat';
+import { getLogger } from './utils/logger';
+
+const log = getLogger();
+
+const SAVE_DELAY_MS = 2000;
+const MAX_CONVERSATIONS = 200;  // oldest conversations are dropped
+const MAX_SETTING_CONVERSATIONS = 20;  // kept in the settings when there is no file system
+const CONVERSATIONS_KEY = 'chat_panel_conversations';
+const TITLE_CHARS = 60;
+
+/**
+ * A chat panel conversation, persisted in the plugin data directory, or in
+ * the plugin settings (most recent conversations only) on mobile.
+ */
+export interface PanelConversation {
+  id: string;
+  title: string;  // empty until renamed: derived from the first prompt
+  created_at: string;  // local timestamp, used in the title of saved notes
+  updated_at: number;  // ms since epoch
+  use_notes: boolean;
+  note_id: string;  // note the conversation was saved to (or resumed from)
+  history: PanelChatMessage[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  updated_at: number;
+  messages: number;
+}
+
+let conversations: PanelConversation[] | null = null;  // loaded on first use
+
+const save_debounced = debounce(async () => {
+  try {
+    const fs = get_fs();
+    if (fs) {
+      await fs.outputJson(await history_path(), conversations ?? []);
+    } else {
+      const recent = [...(conversations ?? [])]
+        .sort((a, b) => b.updated_at - a.updated_at)
+        .slice(0, MAX_SETTING_CONVERSATIONS);
+      await joplin.settings.setValue(CONVERSATIONS_KEY, JSON.stringify(recent));
+    }
+  } catch (error) {
+    log.warn('[Chat] Conversations not saved', error);
+  }
+}, SAVE_DELAY_MS);
+
+// fs-extra, or null when there is no file system (mobile)
+function get_fs(): any {
+  try {
+    return joplin.require('fs-extra');
+  } catch {
+    return null;
+  }
+}
+
+async function history_path(): Promise<string> {
+  return `${await joplin.plugins.dataDir()}/chats.json`;
+}
+
+async function load(): Promise<PanelConversation[]> {
+  if (conversations) { return conversations; }
+  conversations = [];
+  try {
+    const fs = get_fs();
+    let stored: any = null;
+    if (fs) {
+      const path = await history_path();
+      stored = (await fs.pathExists(path)) ? await fs.readJson(path) : null;
+    } else {
+      stored = JSON.parse(await joplin.settings.value(CONVERSATIONS_KEY) || '[]');
+    }
+    if (Array.isArray(stored)) {
+      conversations = stored.filter(c => c && typeof c.id === 'string' && Array.isArray(c.history));
+    }
+  } catch (error) {
+    log.warn('[Chat] Conversations not loaded', error);
+  }
+  return conversations;
+}
+
+export function new_conversation_id(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/** Display title: the given title, or the beginning of the first prompt. */
+export function conversation_title(conversation: PanelConversation): string {
+  if (conversation.title) { return conversation.title; }
+  const first = conversation.history.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim() ?? '';
+  if (!first) { return `Chat ${conversation.created_at}`; }
+  return first.length > TITLE_CHARS ? `${first.substring(0, TITLE_CHARS)}...` : first;
+}
+
+/**
+ * Stored conversations, most recently updated first.
+ *
+ * @param query - only conversations whose title or messages contain this text
+ */
+export async function list_conversations(query: string = ''): Promise<ConversationSummary[]> {
+  const needle = query.trim().toLowerCase();
+  return (await load())
+    .filter(c => !needle || conversation_title(c).toLowerCase().includes(needle) ||
+      c.history.some(m => m.content.toLowerCase().includes(needle)))
+    .sort((a, b) => b.updated_at - a.updated_at)
+    .map(c => ({ id: c.id, title: conversation_title(c), updated_at: c.updated_at, messages: c.history.length }));
+}
+
+export async function get_conversation(id: string): Promise<PanelConversation | null> {
+  return (await load()).find(c => c.id === id) ?? null;
+}
+
+/** The conversation that was resumed from (or saved to) a note. */
+export async function get_conversation_by_note(note_id: string): Promise<PanelConversation | null> {
+  return (await load()).find(c => c.note_id === note_id) ?? null;
+}
+
+/** The most recently updated conversation (restored after a restart). */
+export async function get_latest_conversation(): Promise<PanelConversation | null> {
+  const all = await load();
+  return all.reduce((latest, c) => (!latest || c.updated_at > latest.updated_at) ? c : latest, null);
+}
+
+/** Add or replace a conversation. */
+export async function put_conversation(conversation: PanelConversation): Promise<void> {
+  const all = await load();
+  conversation.updated_at = Date.now();
+  const i = all.findIndex(c => c.id === conversation.id);
+  if (i >= 0) {
+    all[i] = conversation;
+  } else {
+    all.push(conversation);
+  }
+  if (all.length > MAX_CONVERSATIONS) {
+    all.sort((a, b) => b.updated_at - a.updated_at).splice(MAX_CONVERSATIONS);
+  }
+  save_debounced();
+}
+
+export async function rename_conversation(id: string, title: string): Promise<void> {
+  const conversation = await get_conversation(id);
+  if (!conversation) { return; }
+  conversation.title = title.trim();
+  save_debounced();
+}
+
+export async function delete_conversation(id: string): Promise<void> {
+  conversations = (await load()).filter(c => c.id !== id);
+  save_debounced();
+}
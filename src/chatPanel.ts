@@ -1,16 +1,58 @@
 import joplin from 'api';
 import MarkdownIt from 'markdown-it';
-import type { TextEmbeddingModel, TextGenerationModel } from './models/models';
+import debounce from 'lodash.debounce';
+import type { StreamCallback, TextEmbeddingModel, TextGenerationModel } from './models/models';
 import type { JarvisSettings } from './ux/settings';
 import { chat_with_notes_panel, format_as_note_chat, type PanelChatMessage } from './commands/chat';
+import { type ChatCitation, find_citation, replace_outside_code } from './notes/citations';
+import { open_note_at_line } from './ux/panel';
 import { clearObjectReferences } from './utils';
+import { with_usage } from './models/usage';
+import {
+  type PanelConversation, delete_conversation, get_conversation, get_conversation_by_note,
+  get_latest_conversation, list_conversations, new_conversation_id, put_conversation, rename_conversation,
+} from './chatHistory';
 
 const md = new MarkdownIt({ linkify: true, breaks: true });
 
+// citation links ([n](jarvis-citation:n), see render_markdown) point to the cited block
+const CITATION_SCHEME = 'jarvis-citation:';
+const render_link_open = md.renderer.rules.link_open
+  ?? ((tokens, idx, options, env, self) => self.renderToken(tokens, idx, options));
+md.renderer.rules.link_open = (tokens, idx, options, env, self) => {
+  const token = tokens[idx];
+  const href = token.attrGet('href') ?? '';
+  const citation: ChatCitation | undefined = href.startsWith(CITATION_SCHEME)
+    ? env?.citations?.get(parseInt(href.substring(CITATION_SCHEME.length)))
+    : undefined;
+  if (citation) {
+    token.attrSet('href', `:/${citation.note_id}`);
+    token.attrSet('class', 'jarvis-citation');
+    token.attrSet('data-note', citation.note_id);
+    token.attrSet('data-line', String(citation.line));
+    token.attrSet('title', citation.excerpt ? `${citation.title}\n\n${citation.excerpt}` : citation.title);
+  }
+  return render_link_open(tokens, idx, options, env, self);
+};
+
+/** Render a message, linking each citation (outside code) to the block it refers to. */
+function render_markdown(text: string, citations: ChatCitation[] = []): string {
+  if (citations.length === 0) {
+    return md.render(text);
+  }
+  const by_number = new Map(citations.map(c => [c.number, c]));
+  const linked = replace_outside_code(text, segment => segment.replace(find_citation, (match, n: string) =>
+    by_number.has(parseInt(n)) ? `[\\[${n}\\]](${CITATION_SCHEME}${n})` : match));
+  return md.render(linked, { citations: by_number });
+}
+
+const STREAM_UPDATE_MS = 150;  // minimal interval between streamed panel updates
+
 type ChatPanelContext = {
   model_embed: TextEmbeddingModel;
   model_gen: TextGenerationModel;
   settings: JarvisSettings;
+  delay_scroll: number;
 };
 
 function sanitize_history(history: unknown): PanelChatMessage[] {
@@ -54,15 +96,34 @@ async function resolve_parent_notebook_id(): Promise<string> {
   throw new Error('No target notebook is available to save this chat.');
 }
 
-type CachedMessage = { role: 'user' | 'assistant'; content: string; html?: string };
+/** Forward a streamed reply to the webview as rendered markdown.
+ *  Updates are throttled; cancel() drops a pending update once the
+ *  final response is ready. */
+function stream_to_panel(panel: string): { on_token: StreamCallback, cancel: () => void } {
+  const post = debounce((partial: string) => {
+    joplin.views.panels.postMessage(panel, { type: 'stream', html: md.render(partial) });
+  }, STREAM_UPDATE_MS, { maxWait: STREAM_UPDATE_MS });
+  return {
+    on_token: (partial: string) => post(partial),
+    cancel: () => post.cancel(),
+  };
+}
 
-/** Build cache entries from frontend history, rendering markdown for all messages. */
-function cache_history(history: {role: string; content: string}[]): CachedMessage[] {
-  return history.map(m => ({
-    role: m.role as 'user' | 'assistant',
-    content: m.content,
-    html: md.render(m.content),
-  }));
+type CachedMessage = PanelChatMessage & { html?: string };
+
+/** Build cache entries from frontend history, rendering markdown for all messages.
+ *  The frontend doesn't keep citations, so they are carried over from the
+ *  previous cache for unchanged messages. */
+function cache_history(history: PanelChatMessage[], previous: CachedMessage[] = []): CachedMessage[] {
+  return history.map((m, i) => {
+    const citations = m.citations ?? (previous[i]?.content === m.content ? previous[i].citations : undefined);
+    return {
+      role: m.role,
+      content: m.content,
+      citations,
+      html: render_markdown(m.content, citations),
+    };
+  });
 }
 
 function local_timestamp(date: Date): string {
@@ -77,13 +138,55 @@ const panelCache: {
   draft: string;
   noteId: string;
   createdAt: string;
+  conversationId: string;  // stored conversation (empty until the first reply)
+  title: string;
 } = {
   history: [],
   useNotes: true,
   draft: '',
   noteId: '',
   createdAt: '',
+  conversationId: '',
+  title: '',
 };
+let latest_restored = false;  // the latest stored conversation is restored once per session
+
+/** Load a stored conversation into the panel (null for a new chat). */
+function load_panel_chat(conversation: PanelConversation | null) {
+  panelCache.history = cache_history(conversation?.history ?? []);
+  panelCache.useNotes = conversation?.use_notes ?? panelCache.useNotes;
+  panelCache.draft = '';
+  panelCache.noteId = conversation?.note_id ?? '';
+  panelCache.createdAt = conversation?.created_at ?? '';
+  panelCache.conversationId = conversation?.id ?? '';
+  panelCache.title = conversation?.title ?? '';
+}
+
+/** Store the panel conversation in the chat history (once it has messages). */
+async function persist_panel_chat() {
+  if (panelCache.history.length === 0) { return; }
+  if (!panelCache.conversationId) { panelCache.conversationId = new_conversation_id(); }
+  if (!panelCache.createdAt) { panelCache.createdAt = local_timestamp(new Date()); }
+  await put_conversation({
+    id: panelCache.conversationId,
+    title: panelCache.title,
+    created_at: panelCache.createdAt,
+    updated_at: Date.now(),
+    use_notes: panelCache.useNotes,
+    note_id: panelCache.noteId,
+    history: panelCache.history.map(m => ({ role: m.role, content: m.content, citations: m.citations })),
+  });
+}
+
+function restore_message(settings: JarvisSettings) {
+  return {
+    type: 'restore',
+    history: panelCache.history,
+    useNotes: panelCache.useNotes,
+    draft: panelCache.draft || '',
+    platform: settings.notes_device_platform || 'desktop',
+  };
+}
 
 export async function initialize_chat_panel(get_context: () => ChatPanelContext): Promise<string> {
   const panel = await joplin.views.panels.create('jarvis_chat_panel');
@@ -91,7 +194,14 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
   await joplin.views.panels.addScript(panel, 'chatPanelWebview.js');
   await joplin.views.panels.setHtml(panel, `
   <div class="jarvis-chat-panel">
-<div id="chat-log" class="jarvis-chat-log" aria-live="polite"></div>
+    <div class="jarvis-chat-body">
+      <div id="chat-sidebar" class="jarvis-chat-sidebar" hidden>
+        <input id="chat-search" class="jarvis-chat-search" type="search" placeholder="Search conversations...">
+        <div id="chat-list" class="jarvis-chat-list"></div>
+        <button id="chat-resume" type="button" title="Continue the chat in the selected note">Resume from note</button>
+      </div>
+      <div id="chat-log" class="jarvis-chat-log" aria-live="polite"></div>
+    </div>
     <div class="jarvis-chat-input-wrap">
       <span id="chat-mode" class="jarvis-chat-mode" title="Toggle Notes/Chat mode (Shift+Tab)">Notes</span>
       <textarea id="chat-input" class="jarvis-chat-input" placeholder="Ask Jarvis about your notes..." rows="2"></textarea>
@@ -100,6 +210,7 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
       <button id="chat-send" type="button">Send</button>
       <button id="chat-save" type="button">Save</button>
       <button id="chat-new" type="button">New Chat</button>
+      <button id="chat-history" type="button" title="Show saved conversations">History</button>
     </div>
   </div>
   `);
@@ -110,23 +221,87 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
     }
 
     if (message.type === 'initPanel') {
-      return {
-        type: 'restore',
-        history: panelCache.history,
-        useNotes: panelCache.useNotes,
-        draft: panelCache.draft || '',
-        platform: get_context().settings.notes_device_platform || 'desktop',
-      };
+      if (!latest_restored) {
+        latest_restored = true;
+        if (panelCache.history.length === 0 && !panelCache.conversationId) {
+          const draft = panelCache.draft;
+          load_panel_chat(await get_latest_conversation());
+          panelCache.draft = draft;
+        }
+      }
+      return restore_message(get_context().settings);
     }
 
     if (message.type === 'newChat') {
-      panelCache.history = [];
-      panelCache.draft = '';
-      panelCache.noteId = '';
-      panelCache.createdAt = '';
+      load_panel_chat(null);
+      return { type: 'ack' };
+    }
+
+    if (message.type === 'listChats') {
+      const query = typeof message.query === 'string' ? message.query : '';
+      return { type: 'chats', active: panelCache.conversationId, items: await list_conversations(query) };
+    }
+
+    if (message.type === 'openChat') {
+      const conversation = await get_conversation(String(message.id ?? ''));
+      if (!conversation) {
+        return { type: 'response', error: true, text: 'Conversation not found.' };
+      }
+      load_panel_chat(conversation);
+      return restore_message(get_context().settings);
+    }
+
+    if (message.type === 'renameChat') {
+      const title = typeof message.title === 'string' ? message.title : '';
+      await rename_conversation(String(message.id ?? ''), title);
+      if (message.id === panelCache.conversationId) {
+        panelCache.title = title.trim();
+      }
       return { type: 'ack' };
     }
 
+    if (message.type === 'deleteChat') {
+      await delete_conversation(String(message.id ?? ''));
+      const current = message.id === panelCache.conversationId;
+      if (current) {
+        load_panel_chat(null);
+      }
+      return { type: 'deleted', current };
+    }
+
+    if (message.type === 'resumeNoteChat') {
+      const runtime = get_context();
+      const note = await joplin.workspace.selectedNote();
+      if (!note) {
+        return { type: 'response', error: true, text: 'Select a note with a Jarvis chat to resume it.' };
+      }
+      try {
+        const history = sanitize_history(runtime.model_gen._parse_chat(note.body)
+          .filter(entry => entry.role === 'user' || entry.role === 'assistant'));
+        if (history.length === 0) {
+          return { type: 'response', error: true, text: `No chat found in the note "${note.title}".` };
+        }
+        // resuming the same note again continues its stored conversation
+        const stored = await get_conversation_by_note(note.id);
+        load_panel_chat({
+          id: stored?.id ?? new_conversation_id(),
+          title: stored?.title || note.title,
+          created_at: stored?.created_at ?? local_timestamp(new Date()),
+          updated_at: Date.now(),
+          use_notes: panelCache.useNotes,
+          note_id: note.id,
+          history,
+        });
+        await persist_panel_chat();
+        return restore_message(runtime.settings);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        return { type: 'response', error: true, text: `Resume failed: ${msg}` };
+      } finally {
+        clearObjectReferences(note);
+      }
+    }
+
     if (message.type === 'modeChange') {
       panelCache.useNotes = !!message.useNotes;
       return { type: 'ack' };
@@ -154,21 +329,26 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
         return { type: 'response', error: true, text: 'Jarvis models are not initialized yet. Please try again in a moment.' };
       }
 
+      const stream = stream_to_panel(panel);
       try {
         const history = sanitize_history(message.history);
-        panelCache.history = cache_history(history);
+        panelCache.history = cache_history(history, panelCache.history);
         if (!panelCache.createdAt) panelCache.createdAt = local_timestamp(new Date());
-        const text = await chat_with_notes_panel(
+        const { text, citations } = await chat_with_notes_panel(
           prompt,
           history,
-          runtime.model_embed,
-          runtime.model_gen,
+          with_usage(runtime.model_embed, 'chat panel'),
+          with_usage(runtime.model_gen, 'chat panel'),
           runtime.settings,
+          stream.on_token,
         );
-        const html = md.render(text);
-        panelCache.history.push({ role: 'assistant', content: text, html });
+        stream.cancel();
+        const html = render_markdown(text, citations);
+        panelCache.history.push({ role: 'assistant', content: text, citations, html });
+        await persist_panel_chat();
         return { type: 'response', text, html };
       } catch (error) {
+        stream.cancel();
         const msg = error instanceof Error ? error.message : 'Unknown error';
         return { type: 'response', error: true, text: `Chat failed: ${msg}` };
       }
@@ -188,21 +368,26 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
         return { type: 'response', error: true, text: 'Jarvis model is not initialised yet. Please try again in a moment.' };
       }
 
+      const stream = stream_to_panel(panel);
       try {
         const history = sanitize_history(message.history);
-        panelCache.history = cache_history(history);
+        panelCache.history = cache_history(history, panelCache.history);
         if (!panelCache.createdAt) panelCache.createdAt = local_timestamp(new Date());
         const full_prompt = format_as_note_chat(history, runtime.settings);
 
-        const raw = await runtime.model_gen.chat(full_prompt);
+        const raw = await with_usage(runtime.model_gen, 'chat panel')
+          .chat(full_prompt, false, undefined, stream.on_token);
+        stream.cancel();
         const text = (raw || '')
           .replace(runtime.model_gen.model_prefix, '')
           .replace(runtime.model_gen.user_prefix, '')
           .trim();
         const html = md.render(text);
         panelCache.history.push({ role: 'assistant', content: text, html });
+        await persist_panel_chat();
         return { type: 'response', text, html };
       } catch (error) {
+        stream.cancel();
         const msg = error instanceof Error ? error.message : 'Unknown error';
         return { type: 'response', error: true, text: `Chat failed: ${msg}` };
       }
@@ -231,6 +416,7 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
           parent_id,
         });
         panelCache.noteId = note.id;
+        await persist_panel_chat();
         return { type: 'saved', text: `Saved to note: ${note.title}` };
       } catch (error) {
         const msg = error instanceof Error ? error.message : 'Unknown error';
@@ -238,6 +424,12 @@ export async function initialize_chat_panel(get_context: () => ChatPanelContext)
       }
     }
 
+    if (message.type === 'openNote' && typeof message.note === 'string') {
+      // citation: scroll to the cited block
+      await open_note_at_line(message.note, Number(message.line) || 0, get_context().delay_scroll);
+      return { type: 'ack' };
+    }
+
     if (message.type === 'openNote') {
       const href = typeof message.href === 'string' ? message.href.trim() : '';
       if (href) {
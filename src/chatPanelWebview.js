@@ -10,6 +10,12 @@
   let newButton = null;
   let modeButton = null;
   let draftTimer = null;
+  let streamRow = null;  // placeholder row that receives streamed tokens
+  let touchRequest = null;  // resets the timeout of the request in flight
+  let sidebar = null;
+  let searchInput = null;
+  let chatList = null;
+  let searchTimer = null;
 
   function resolveElements() {
     if (!chatLog) {
@@ -30,6 +36,15 @@
     if (!modeButton) {
       modeButton = document.getElementById('chat-mode');
     }
+    if (!sidebar) {
+      sidebar = document.getElementById('chat-sidebar');
+    }
+    if (!searchInput) {
+      searchInput = document.getElementById('chat-search');
+    }
+    if (!chatList) {
+      chatList = document.getElementById('chat-list');
+    }
   }
 
   function escapeHtml(text) {
@@ -80,6 +95,18 @@
 
   function removeThinking(el) {
     if (el && el.parentNode) el.parentNode.removeChild(el);
+    if (el === streamRow) streamRow = null;
+  }
+
+  // Render a partial reply into the thinking row. The row is removed
+  // as usual once the final response arrives and replaces it.
+  function showStreamedText(html) {
+    if (!streamRow || typeof html !== 'string') return;
+    const atBottom = chatLog && (chatLog.scrollHeight - chatLog.scrollTop - chatLog.clientHeight < 40);
+    streamRow.innerHTML = '<div class="jarvis-chat-message"></div>';
+    streamRow.firstChild.innerHTML = html;
+    if (touchRequest) touchRequest();
+    if (atBottom) scrollToBottom();
   }
 
   // Undo an optimistic user turn: pop it from history, remove its DOM
@@ -117,19 +144,29 @@
     }
   }
 
+  // The timer restarts whenever touchRequest() is called (on every
+  // streamed update), so long streamed replies don't time out.
   function withTimeout(promise, ms) {
     return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error('Request timed out.'));
-      }, ms);
+      let timer = null;
+      const arm = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          reject(new Error('Request timed out.'));
+        }, ms);
+      };
+      arm();
+      touchRequest = arm;
 
       Promise.resolve(promise)
         .then((value) => {
           clearTimeout(timer);
+          if (touchRequest === arm) touchRequest = null;
           resolve(value);
         })
         .catch((error) => {
           clearTimeout(timer);
+          if (touchRequest === arm) touchRequest = null;
           reject(error);
         });
     });
@@ -153,14 +190,14 @@
     }
 
     // restore draft
-    if (typeof message.draft === 'string' && message.draft && chatInput) {
+    if (typeof message.draft === 'string' && chatInput) {
       chatInput.value = message.draft;
       chatInput.style.height = 'auto';
       chatInput.style.height = chatInput.scrollHeight + 'px';
     }
 
-    // restore chat history
-    if (Array.isArray(message.history) && message.history.length > 0) {
+    // restore chat history (replaces the shown conversation)
+    if (Array.isArray(message.history)) {
       history.length = 0;
       if (chatLog) chatLog.innerHTML = '';
       for (const entry of message.history) {
@@ -201,6 +238,155 @@
 
     history.push({ role: 'assistant', content: text });
     appendMessage('assistant', text, html);
+    refreshChatList();
+  }
+
+  function clearChat() {
+    history.length = 0;
+    resolveElements();
+    if (chatLog) chatLog.innerHTML = '';
+    if (chatInput) { chatInput.value = ''; chatInput.focus(); }
+  }
+
+  function formatDate(ms) {
+    const date = new Date(ms);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString();
+  }
+
+  function renderChatList(response) {
+    resolveElements();
+    if (!chatList || !response || response.type !== 'chats') {
+      return;
+    }
+    chatList.innerHTML = '';
+    if (!Array.isArray(response.items) || response.items.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'jarvis-chat-list-empty';
+      empty.textContent = searchInput && searchInput.value.trim() ? 'No matching conversations.' : 'No saved conversations yet.';
+      chatList.appendChild(empty);
+      return;
+    }
+    for (const item of response.items) {
+      const row = document.createElement('div');
+      row.className = item.id === response.active ? 'jarvis-chat-item active' : 'jarvis-chat-item';
+      row.dataset.id = item.id;
+      row.innerHTML =
+        `<div class="jarvis-chat-item-text">` +
+        `<div class="jarvis-chat-item-title" title="${escapeHtml(item.title)}">${escapeHtml(item.title)}</div>` +
+        `<div class="jarvis-chat-item-meta">${escapeHtml(formatDate(item.updated_at))} · ${item.messages} messages</div>` +
+        `</div>` +
+        `<button type="button" class="jarvis-chat-item-rename" title="Rename">&#9998;</button>` +
+        `<button type="button" class="jarvis-chat-item-delete" title="Delete">&#10005;</button>`;
+      chatList.appendChild(row);
+    }
+  }
+
+  function refreshChatList() {
+    resolveElements();
+    if (!sidebar || sidebar.hidden) {
+      return;
+    }
+    webviewApi.postMessage({ type: 'listChats', query: searchInput ? searchInput.value : '' })
+      .then(renderChatList);
+  }
+
+  function toggleSidebar() {
+    resolveElements();
+    if (!sidebar) return;
+    sidebar.hidden = !sidebar.hidden;
+    if (!sidebar.hidden) {
+      refreshChatList();
+      if (searchInput) searchInput.focus();
+    }
+  }
+
+  async function openChat(id) {
+    if (requestInFlight) return;
+    const response = await webviewApi.postMessage({ type: 'openChat', id });
+    if (response && response.type === 'restore') {
+      restoreState(response);
+    } else if (response && typeof response.text === 'string') {
+      appendMessage('assistant', response.text);
+    }
+    refreshChatList();
+  }
+
+  async function resumeFromNote() {
+    if (requestInFlight) return;
+    const response = await webviewApi.postMessage({ type: 'resumeNoteChat' });
+    if (response && response.type === 'restore') {
+      restoreState(response);
+    } else if (response && typeof response.text === 'string') {
+      appendMessage('assistant', response.text);
+    }
+    refreshChatList();
+  }
+
+  async function deleteChat(id) {
+    if (requestInFlight) return;
+    const response = await webviewApi.postMessage({ type: 'deleteChat', id });
+    if (response && response.current) {
+      clearChat();
+    }
+    refreshChatList();
+  }
+
+  // replace the title with an input; Enter or leaving the input renames, Escape cancels
+  function startRename(row) {
+    const titleEl = row.querySelector('.jarvis-chat-item-title');
+    if (!titleEl || row.querySelector('input')) return;
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'jarvis-chat-item-input';
+    input.value = titleEl.textContent;
+    titleEl.replaceWith(input);
+    input.focus();
+    input.select();
+    let done = false;
+    const finish = (save) => {
+      if (done) return;
+      done = true;
+      const title = input.value.trim();
+      if (save && title) {
+        webviewApi.postMessage({ type: 'renameChat', id: row.dataset.id, title }).then(refreshChatList);
+      } else {
+        refreshChatList();
+      }
+    };
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') { event.preventDefault(); finish(true); }
+      if (event.key === 'Escape') { event.preventDefault(); finish(false); }
+    });
+    input.addEventListener('blur', () => finish(true));
+  }
+
+  function handleChatListClick(event) {
+    const row = event.target.closest('.jarvis-chat-item');
+    if (!row) return;
+    const button = event.target.closest('button');
+    if (button && button.classList.contains('jarvis-chat-item-rename')) {
+      startRename(row);
+      return;
+    }
+    if (button && button.classList.contains('jarvis-chat-item-delete')) {
+      // the first click asks for confirmation
+      if (!button.classList.contains('confirm')) {
+        button.classList.add('confirm');
+        button.textContent = 'Delete?';
+        setTimeout(() => {
+          button.classList.remove('confirm');
+          button.innerHTML = '&#10005;';
+        }, 3000);
+        return;
+      }
+      deleteChat(row.dataset.id);
+      return;
+    }
+    if (!row.querySelector('input')) {
+      openChat(row.dataset.id);
+    }
   }
 
   async function sendPrompt() {
@@ -223,6 +409,7 @@
     requestInFlight = true;
     setSending(true);
     const thinking = showThinking();
+    streamRow = thinking;
 
     try {
       const response = await withTimeout(webviewApi.postMessage({
@@ -281,11 +468,17 @@
         return;
       }
       if (target.id === 'chat-new') {
-        history.length = 0;
-        resolveElements();
-        if (chatLog) chatLog.innerHTML = '';
-        if (chatInput) { chatInput.value = ''; chatInput.focus(); }
-        webviewApi.postMessage({ type: 'newChat' });
+        if (requestInFlight) return;
+        clearChat();
+        webviewApi.postMessage({ type: 'newChat' }).then(refreshChatList);
+        return;
+      }
+      if (target.id === 'chat-history') {
+        toggleSidebar();
+        return;
+      }
+      if (target.id === 'chat-resume') {
+        resumeFromNote();
         return;
       }
       if (target.id === 'chat-mode') {
@@ -304,6 +497,11 @@
         const target = event.target.closest('a');
         if (!target) return;
         event.preventDefault();
+        if (target.dataset.note) {
+          // citation: open the note at the cited block
+          webviewApi.postMessage({ type: 'openNote', note: target.dataset.note, line: Number(target.dataset.line) || 0 });
+          return;
+        }
         const href = target.getAttribute('href') || '';
         if (href) {
           webviewApi.postMessage({ type: 'openNote', href });
@@ -311,6 +509,17 @@
       });
     }
 
+    if (chatList) {
+      chatList.addEventListener('click', handleChatListClick);
+    }
+
+    if (searchInput) {
+      searchInput.addEventListener('input', () => {
+        clearTimeout(searchTimer);
+        searchTimer = setTimeout(refreshChatList, 200);
+      });
+    }
+
     if (chatInput) {
       chatInput.addEventListener('input', () => {
         chatInput.style.height = 'auto';
@@ -341,6 +550,14 @@
       }
     });
 
+    // streamed reply tokens pushed by the plugin process
+    webviewApi.onMessage((event) => {
+      const message = event && event.message !== undefined ? event.message : event;
+      if (message && message.type === 'stream') {
+        showStreamedText(message.html);
+      }
+    });
+
     // request cached state from plugin process
     webviewApi.postMessage({ type: 'initPanel' }).then(restoreState);
   }
@@ -0,0 +1,177 @@
+import { TextEmbeddingModel, TextGenerationModel, StreamCallback, ToolCall, ToolChatEntry, ToolChatTurn } from '../models/models';
+import { parse_tool_arguments } from '../models/openai';
+import { BlockEmbedding, NoteEmbedding, extract_blocks_links } from '../notes/embeddings';
+import { AGENT_TOOLS, AgentToolContext, run_agent_tool } from '../notes/agentTools';
+import { check_citations, format_invalid_citations } from '../notes/citations';
+import { JarvisSettings } from '../ux/settings';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const AGENT_INSTRUCTIONS = `You answer the user's questions using their notes, which you can explore with tools.
+Plan which information you need, then call tools to find it: search semantically or by keywords, list notes by tag or notebook, read outlines and whole notes or sections.
+Questions that compare or combine several topics or periods usually need several searches.
+When you have enough information, answer directly. Use the notes as if they are your own knowledge, without decorations such as 'according to my notes'.
+Cite the sources you used by their numbers in the format [number], e.g. [1], [2]. Do not compile a reference list at the end of the reply.`;
+
+const TEXT_PROTOCOL_INSTRUCTIONS = `To call a tool, reply with a single tool call and nothing else, in the format:
+<tool_call>{"name": "tool_name", "arguments": {"argument": "value"}}</tool_call>
+The tool result will be given to you in the next message. When you are ready to answer, reply with the answer only (no tool call).`;
+
+export type AgentResult = {
+  completion: string;
+  note_links: string;
+  nearest: NoteEmbedding[];
+  selected_embd: BlockEmbedding[];
+};
+
+/**
+ * Chat with notes in agent mode: the generation model calls note tools over
+ * several turns until it answers. Uses the provider's native function calling
+ * where available (model_gen.native_tools), and otherwise a text protocol
+ * (<tool_call> blocks) on top of plain completions.
+ *
+ * @param conversation - the chat so far, ending with the user's question
+ * @param exclude_id - the note the chat happens in (excluded from searches)
+ * @param on_token - receives progress messages while tools run
+ * @returns the reply in the same format as the single-pass pipeline, or null if nothing was answered
+ */
+export async function run_notes_agent(
+  conversation: { role: string; content: string }[],
+  exclude_id: string,
+  model_embed: TextEmbeddingModel,
+  model_gen: TextGenerationModel,
+  settings: JarvisSettings,
+  on_token?: StreamCallback,
+): Promise<AgentResult | null> {
+  const max_steps = Math.max(1, settings.notes_agent_max_steps);
+  const ctx: AgentToolContext = {
+    model_embed,
+    model_gen,
+    settings,
+    exclude_id,
+    // spread the notes context budget of the single-pass pipeline over the steps
+    max_tokens: Math.max(256, Math.floor(model_gen.context_tokens / max_steps)),
+    sources: [],
+  };
+
+  let instructions = AGENT_INSTRUCTIONS;
+  if (settings.notes_prompt) {
+    instructions += '\n' + settings.notes_prompt;
+  }
+  const messages: ToolChatEntry[] = [
+    { role: 'system', content: `${settings.chat_system_message}\n\n${instructions}` },
+    ...conversation
+      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+      .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content })),
+  ];
+
+  let answer = '';
+  const progress: string[] = [];
+  for (let step = 0; step <= max_steps; step++) {
+    // the last step withholds the tools to force an answer
+    const tools = step < max_steps ? AGENT_TOOLS : [];
+    const turn = model_gen.native_tools
+      ? await model_gen.chat_with_tools(messages, tools)
+      : await text_protocol_turn(messages, tools.length > 0, model_gen, step);
+
+    if (turn.tool_calls.length === 0) {
+      answer = turn.content;
+      break;
+    }
+
+    messages.push({ role: 'assistant', content: turn.content, tool_calls: turn.tool_calls });
+    for (const call of turn.tool_calls) {
+      progress.push(describe_call(call));
+      on_token?.(progress.join('\n\n'));
+
+      const result = await run_agent_tool(call.name, call.arguments, ctx);
+      if (settings.notes_debug_mode) {
+        log.info(`[Agent] step ${step + 1}: ${call.name}(${JSON.stringify(call.arguments)}) -> ${result.length} chars`);
+      }
+      messages.push({ role: 'tool', content: result, tool_call_id: call.id, name: call.name });
+    }
+  }
+
+  if (!answer.trim()) {
+    return null;
+  }
+
+  const checked = check_citations(answer.trim(), ctx.sources.length);
+  return {
+    completion: model_gen.model_prefix + checked.text + model_gen.user_prefix,
+    note_links: [format_invalid_citations(checked.invalid), extract_blocks_links(ctx.sources)]
+      .filter(text => text)
+      .join('\n\n'),
+    nearest: [{ id: exclude_id, title: 'Chat context', embeddings: ctx.sources, similarity: null }],
+    selected_embd: ctx.sources,
+  };
+}
+
+/**
+ * Fallback for models without native function calling: describe the
+ * tools in the prompt and parse a <tool_call> block from the completion.
+ */
+async function text_protocol_turn(
+  messages: ToolChatEntry[],
+  allow_tools: boolean,
+  model_gen: TextGenerationModel,
+  step: number,
+): Promise<ToolChatTurn> {
+  const lines: string[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      lines.push(msg.content);
+      if (allow_tools) {
+        lines.push('\nTools:\n' + AGENT_TOOLS.map(tool =>
+          `- ${tool.name}: ${tool.description} Arguments: ${JSON.stringify(tool.parameters.properties)}`
+        ).join('\n'));
+        lines.push('\n' + TEXT_PROTOCOL_INSTRUCTIONS);
+      } else {
+        lines.push('\nAnswer now, based on the information gathered so far.');
+      }
+      lines.push('\nConversation:');
+    } else if (msg.role === 'tool') {
+      lines.push(`\nTool result (${msg.name}):\n${msg.content}`);
+    } else if (msg.role === 'assistant') {
+      const calls = (msg.tool_calls ?? []).map(call =>
+        `<tool_call>${JSON.stringify({ name: call.name, arguments: call.arguments })}</tool_call>`);
+      lines.push(`\nAssistant: ${[msg.content, ...calls].filter(Boolean).join('\n')}`);
+    } else {
+      lines.push(`\nUser: ${msg.content}`);
+    }
+  }
+  lines.push('\nAssistant:');
+
+  const response = (await model_gen.complete(lines.join('\n'))) || '';
+  const match = allow_tools ? response.match(/<tool_call>\s*([\s\S]*?)\s*(<\/tool_call>|$)/) : null;
+  if (!match) {
+    return { content: response.trim(), tool_calls: [] };
+  }
+  const call = parse_tool_arguments(match[1].replace(/^```(json)?|```$/g, '').trim());
+  if (!call.name) {
+    return { content: response.replace(match[0], '').trim(), tool_calls: [] };
+  }
+  return {
+    content: response.substring(0, match.index).trim(),
+    tool_calls: [{ id: `call_${step}`, name: String(call.name), arguments: parse_tool_arguments(call.arguments) }],
+  };
+}
+
+// a short progress line shown while the agent works
+function describe_call(call: ToolCall): string {
+  const args = call.arguments ?? {};
+  switch (call.name) {
+    case 'semantic_search':
+    case 'keyword_search':
+      return `_Searching notes: "${args.query ?? ''}"..._`;
+    case 'get_note':
+      return args.heading ? `_Reading section "${args.heading}"..._` : '_Reading a note..._';
+    case 'list_notes':
+      return `_Listing notes${args.tag ? ` tagged "${args.tag}"` : ''}${args.notebook ? ` in "${args.notebook}"` : ''}..._`;
+    case 'get_headings':
+      return '_Reading a note outline..._';
+    default:
+      return `_Running ${call.name}..._`;
+  }
+}
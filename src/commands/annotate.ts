@@ -165,9 +165,14 @@ export async function annotate_tags(model_gen: TextGenerationModel, model_embed:
       summary = await annotate_summary(model_gen, settings, false);
     }
 
-    let tags = (await model_gen.complete(
-      `Note content\n===\n${summary}\n===\n\nInstruction\n===\n${prompt}\n===\n\nSuggested keywords\n===\n`))
-      .split(', ').map(tag => tag.trim().toLowerCase());
+    const response = await model_gen.complete_json<{keywords: string[]}>(
+      `Note content\n===\n${summary}\n===\n\nInstruction\n===\n${prompt}\n===`,
+      {
+        type: 'object',
+        properties: { keywords: { type: 'array', items: { type: 'string' } } },
+        required: ['keywords'],
+      });
+    let tags = response.keywords.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0);
 
     // post-processing
     if (tag_list.length > 0) {
@@ -14,10 +14,12 @@ import { clearApiResponse } from '../utils';
 import { preprocess_note_for_hashing, convert_newlines } from '../notes/embeddings';
 import { search_by_note, search_by_query } from '../notes/searchOrchestration';
 import type { NoteEmbedding } from '../notes/embeddings';
-import type { TextEmbeddingModel } from '../models/models';
+import type { TextEmbeddingModel, TextGenerationModel } from '../models/models';
 import type { JarvisSettings } from '../ux/settings';
 import { getModelStats } from '../notes/modelStats';
 import { corpusCaches } from '../notes/embeddingCache';
+import { SearchFilters, empty_filters, parse_date, parse_markup_language, resolve_note_filter } from '../notes/searchFilters';
+import { get_attachment_text } from '../notes/attachments';
 
 const log = getLogger();
 
@@ -26,6 +28,7 @@ const API_VERSION = 1;
 /** Narrow interface — avoids coupling to the full PluginRuntime. */
 export interface ApiRuntime {
   model_embed: TextEmbeddingModel;
+  model_gen: TextGenerationModel;
   settings: JarvisSettings;
 }
 
@@ -54,12 +57,60 @@ function toSerializableResults(notes: NoteEmbedding[]) {
         level: b.level,
         bodyIdx: b.body_idx,
         length: b.length,
+        resourceId: b.resource_id ?? null,
         similarity: b.similarity ?? 0,
         text: '',  // filled in by attachBlockText
       })),
   }));
 }
 
+/** Build metadata filters from search params. Returns an error message for invalid values. */
+function toSearchFilters(params: any): SearchFilters | string {
+  const filters = empty_filters();
+  const toList = (value: unknown): string[] | null => {
+    if (value === undefined || value === null) { return []; }
+    if (typeof value === 'string') { return value.split(',').map(v => v.trim()).filter(v => v); }
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) { return value.map(v => v.trim()).filter(v => v); }
+    return null;
+  };
+
+  const lists: [string, 'notebooks' | 'tags' | 'exclude_tags'][] =
+    [['notebook', 'notebooks'], ['tags', 'tags'], ['excludeTags', 'exclude_tags']];
+  for (const [param, key] of lists) {
+    const list = toList(params[param]);
+    if (list === null) { return `${param} must be a string or string[]`; }
+    filters[key] = list;
+  }
+
+  const dates = {
+    created_after: params.createdAfter, created_before: params.createdBefore,
+    updated_after: params.updatedAfter, updated_before: params.updatedBefore,
+  };
+  for (const [key, value] of Object.entries(dates)) {
+    if (value === undefined || value === null) { continue; }
+    const date = (typeof value === 'string' || typeof value === 'number')
+      ? parse_date(value, key.endsWith('_before'))
+      : null;
+    if (date === null) { return `Invalid date: ${String(value)}`; }
+    filters[key as keyof typeof dates] = date;
+  }
+
+  if (params.isTodo !== undefined) {
+    if (typeof params.isTodo !== 'boolean') { return 'isTodo must be a boolean'; }
+    filters.is_todo = params.isTodo;
+  }
+  if (params.completed !== undefined) {
+    if (typeof params.completed !== 'boolean') { return 'completed must be a boolean'; }
+    filters.completed = params.completed;
+  }
+  if (params.markupLanguage !== undefined) {
+    const markup = parse_markup_language(params.markupLanguage);
+    if (markup === null) { return 'markupLanguage must be "markdown" or "html"'; }
+    filters.markup_language = markup;
+  }
+  return filters;
+}
+
 /** Fetch note bodies and fill in block text from stored offsets. */
 async function attachBlockText(
   results: ReturnType<typeof toSerializableResults>,
@@ -90,8 +141,10 @@ async function attachBlockText(
     const body = bodies.get(r.noteId);
     if (!body) continue;
     for (const b of r.blocks) {
-      if (b.bodyIdx >= 0 && b.bodyIdx + b.length <= body.length) {
-        b.text = body.substring(b.bodyIdx, b.bodyIdx + b.length);
+      // attachment blocks index the extracted text of the attachment
+      const source = b.resourceId ? await get_attachment_text(b.resourceId) : body;
+      if (source && b.bodyIdx >= 0 && b.bodyIdx + b.length <= source.length) {
+        b.text = source.substring(b.bodyIdx, b.bodyIdx + b.length);
       }
     }
   }
@@ -147,6 +200,11 @@ export async function register_api_commands(runtime: ApiRuntime): Promise<void>
         return errorResponse('not_ready', 'Jarvis embedding index is not initialised');
       }
 
+      const filters = toSearchFilters(params);
+      if (typeof filters === 'string') {
+        return errorResponse('invalid_input', filters);
+      }
+
       // Build overrides for limit / minSimilarity
       const searchSettings = { ...runtime.settings };
       if (typeof limit === 'number' && limit > 0) {
@@ -158,6 +216,7 @@ export async function register_api_commands(runtime: ApiRuntime): Promise<void>
 
       try {
         let results: NoteEmbedding[] | undefined;
+        const noteFilter = await resolve_note_filter(filters);
 
         if (noteId) {
           // note-based search: multi-chunk MaxSim (same as panel)
@@ -167,15 +226,17 @@ export async function register_api_commands(runtime: ApiRuntime): Promise<void>
           const noteBody = note.body ?? '';
           clearApiResponse(note);
 
-          results = await search_by_note(noteId, noteTitle, runtime.model_embed, searchSettings);
+          results = await search_by_note(noteId, noteTitle, runtime.model_embed, searchSettings, noteFilter);
           if (!results) {
             // fallback: text query search using query or note body
             results = await search_by_query(
-              query?.trim() || noteBody, noteId, runtime.model_embed, searchSettings);
+              query?.trim() || noteBody, noteId, runtime.model_embed, searchSettings,
+              undefined, undefined, noteFilter, runtime.model_gen);
           }
         } else {
           results = await search_by_query(
-            query!.trim(), '__jarvis_api__', runtime.model_embed, searchSettings);
+            query!.trim(), '__jarvis_api__', runtime.model_embed, searchSettings,
+            undefined, undefined, noteFilter, runtime.model_gen);
         }
 
         const serialised = toSerializableResults(results);
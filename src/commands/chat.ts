@@ -1,20 +1,37 @@
 import joplin from 'api';
-import { TextEmbeddingModel, TextGenerationModel } from '../models/models';
+import debounce from 'lodash.debounce';
+import { TextEmbeddingModel, TextGenerationModel, StreamCallback, ChatImage } from '../models/models';
 import { BlockEmbedding, NoteEmbedding, extract_blocks_links, extract_blocks_text, find_nearest_notes, get_next_blocks, get_prev_blocks, corpusCaches, userDataStore } from '../notes/embeddings';
 import { read_user_data_embeddings } from '../notes/userDataReader';
+import { get_note_images } from '../notes/noteHelpers';
 import { update_panel } from '../ux/panel';
-import { get_settings, JarvisSettings, ref_notes_prefix, search_notes_cmd, user_notes_cmd, context_cmd, notcontext_cmd } from '../ux/settings';
+import { get_settings, JarvisSettings, ref_notes_prefix, search_notes_cmd, user_notes_cmd, context_cmd, notcontext_cmd, filter_cmds } from '../ux/settings';
 import { split_by_tokens, preprocess_query, clearApiResponse, clearObjectReferences, stripJarvisBlocks } from '../utils';
 import { decompose_query } from '../notes/queryDecomposition';
 import { keyword_rerank } from '../notes/hybridSearch';
-import { maxsim_search } from '../notes/searchOrchestration';
+import { maxsim_search, translated_search } from '../notes/searchOrchestration';
+import { QueryTranslation, translate_query } from '../notes/queryTranslation';
+import { rerank_blocks } from '../notes/rerank';
+import { SearchFilters, empty_filters, parse_filter_command, resolve_note_filter } from '../notes/searchFilters';
+import { ChatCitation, check_citations, format_invalid_citations, get_citations } from '../notes/citations';
+import { ClaimCheck, STRICT_INSTRUCTION, format_grounding_summary, mark_unsupported, unsupported_ratio, verify_grounding } from '../notes/grounding';
+import { run_notes_agent } from './agent';
 import { getLogger } from '../utils/logger';
 
 const log = getLogger();
 
+const STREAM_UPDATE_MS = 150;  // minimal interval between streamed editor updates
+
 export type PanelChatMessage = {
   role: 'user' | 'assistant';
   content: string;
+  citations?: ChatCitation[];  // cited note blocks (answers in notes mode)
+};
+
+/** A chat panel answer, with the note blocks its citations refer to. */
+export type PanelChatReply = {
+  text: string;
+  citations: ChatCitation[];
 };
 
 /** Format panel chat history as note-style conversation text, using the same
@@ -38,7 +55,24 @@ export async function chat_with_jarvis(model_gen: TextGenerationModel) {
 
   await replace_selection('\n\nGenerating response...');
 
-  await replace_selection(await model_gen.chat(prompt));
+  const images = await get_chat_images(model_gen, await get_settings());
+  const stream = stream_to_selection(model_gen.model_prefix);
+  const response = await model_gen.chat(prompt, false, undefined, stream.on_token, images);
+  await stream.flush();
+  await replace_selection(response);
+}
+
+// the images in the current note, followed by those in the given notes
+// (when enabled in the settings and supported by the model)
+async function get_chat_images(model_gen: TextGenerationModel, settings: JarvisSettings, note_ids: string[] = []): Promise<ChatImage[]> {
+  if (!settings.chat_images || !model_gen.vision) {
+    return [];
+  }
+  const note = await joplin.workspace.selectedNote();
+  const current_id = note?.id;
+  clearObjectReferences(note);
+  const ids = [...new Set([current_id, ...note_ids].filter(Boolean))];
+  return await get_note_images(ids, settings.chat_images_max_count, settings.chat_images_max_kb * 1024);
 }
 
 export async function chat_with_notes(model_embed: TextEmbeddingModel, model_gen: TextGenerationModel, panel: string, preview: boolean=false) {
@@ -47,7 +81,9 @@ export async function chat_with_notes(model_embed: TextEmbeddingModel, model_gen
   const settings = await get_settings();
   const prompt_text = await get_chat_prompt(model_gen);
   if (!preview) { await replace_selection('\n\nGenerating notes response...'); }
-  const result = await run_notes_chat_pipeline(prompt_text, model_embed, model_gen, settings, undefined, preview);
+  const stream = preview ? null : stream_to_selection(model_gen.model_prefix);
+  const result = await run_notes_chat_pipeline(prompt_text, model_embed, model_gen, settings, undefined, preview, stream?.on_token);
+  await stream?.flush();
   if (!result) {
     if (!preview) { await replace_selection(settings.chat_prefix + 'No notes found. Perhaps try to rephrase your question, or start a new chat note for fresh context.' + settings.chat_suffix); }
     return;
@@ -64,10 +100,14 @@ export async function chat_with_notes_panel(
   model_embed: TextEmbeddingModel,
   model_gen: TextGenerationModel,
   settings: JarvisSettings,
-): Promise<string> {
-  const result = await run_notes_chat_pipeline(prompt_text, model_embed, model_gen, settings, history);
+  on_token?: StreamCallback,
+): Promise<PanelChatReply> {
+  const result = await run_notes_chat_pipeline(prompt_text, model_embed, model_gen, settings, history, false, on_token);
   if (!result) {
-    return 'No notes found. Perhaps try to rephrase your question, or start a new chat note for fresh context.';
+    return {
+      text: 'No notes found. Perhaps try to rephrase your question, or start a new chat note for fresh context.',
+      citations: [],
+    };
   }
 
   const completion = result.completion
@@ -75,7 +115,10 @@ export async function chat_with_notes_panel(
     .replace(model_gen.user_prefix, '')
     .trim();
 
-  return `${completion}\n\n${result.note_links}`.trim();
+  return {
+    text: `${completion}\n\n${result.note_links}`.trim(),
+    citations: await get_citations(completion, result.selected_embd),
+  };
 }
 
 type NotesChatPipelineResult = {
@@ -92,6 +135,7 @@ async function run_notes_chat_pipeline(
   settings: JarvisSettings,
   history?: PanelChatMessage[],
   preview: boolean = false,
+  on_token?: StreamCallback,
 ): Promise<NotesChatPipelineResult | null> {
   if (model_embed.model === null) {
     return null;
@@ -102,6 +146,16 @@ async function run_notes_chat_pipeline(
     && typeof msg.content === 'string'
     && msg.content.trim().length > 0
   );
+
+  if (settings.notes_agent_mode && !preview) {
+    // multi-step retrieval: the model searches and reads notes with tools
+    const note = await joplin.workspace.selectedNote();
+    const exclude_id = note?.id ?? '';
+    clearObjectReferences(note);
+    const conversation = safe_history.length > 0 ? safe_history : model_gen._parse_chat(prompt_text);
+    return await run_notes_agent(conversation, exclude_id, model_embed, model_gen, settings, on_token);
+  }
+
   let prompt_override_for_retrieval = prompt_text;
   if (safe_history.length > 0 && settings.notes_context_history > 0) {
     const context_slice = safe_history.slice(-settings.notes_context_history);
@@ -113,13 +167,12 @@ async function run_notes_chat_pipeline(
     return null;
   }
 
-  const [note_text, selected_embd] = await extract_blocks_text(nearest[0].embeddings, model_gen, model_gen.context_tokens, prompt.search);
+  const [note_text, selected_embd, included_embd] = await extract_blocks_text(nearest[0].embeddings, model_gen, model_gen.context_tokens, prompt.search);
   if (note_text === '') {
     return null;
   }
 
-  const note_links = extract_blocks_links(selected_embd);
-  let instruct = "Respond to the user prompt that appears at the top. You are given user notes. Use them as if they are your own knowledge, without decorations such as 'according to my notes'. First, determine which notes are relevant to the prompt, without specifying it in the reply. Then, write your reply to the prompt based on these selected notes. In the text of your answer, always cite related notes in the format [number], e.g. [1], [2]. Do not compile a reference list at the end of the reply. Example: 'This is the answer [1], which also relates to [2]'.";
+  let instruct = "Respond to the last user prompt above. You are given user notes. Use them as if they are your own knowledge, without decorations such as 'according to my notes'. First, determine which notes are relevant to the prompt, without specifying it in the reply. Then, write your reply to the prompt based on these selected notes. In the text of your answer, always cite related notes in the format [number], e.g. [1], [2]. Do not compile a reference list at the end of the reply. Example: 'This is the answer [1], which also relates to [2]'.";
   if (settings.notes_prompt) {
     instruct = settings.notes_prompt;
   }
@@ -127,29 +180,44 @@ async function run_notes_chat_pipeline(
   const pipeline_prompt = safe_history.length > 0
     ? format_as_note_chat(safe_history, settings)
     : prompt.prompt;
+  const images = preview ? [] : await get_chat_images(model_gen, settings, selected_embd.map(block => block.id));
 
-  const completion = (await model_gen.chat(`
+  // the notes precede the conversation (a stable, cacheable prefix), and the
+  // instructions follow its last prompt (they change when regenerating)
+  const notes_context = `User Notes\n===\n${note_text}\n===`;
+  const generate = async (instructions: string) => (await model_gen.chat(`
   ${pipeline_prompt}
-  ===
-  End of user prompt
-  ===
-
-  User Notes
-  ===
-  ${note_text}
-  ===
 
   Instructions
   ===
-  ${instruct}
+  ${instructions}
   ===
-  `, preview)) || '';
+  `, preview, undefined, on_token, images, notes_context)) || '';
+
+  let checked = check_citations(await generate(instruct), selected_embd.length);
+
+  // (optional) check the answer against the notes, and regenerate it once if too much is unsupported
+  let claims: ClaimCheck[] | null = null;
+  if (settings.notes_verify_answers !== 'none' && !preview) {
+    const verify = (text: string) => verify_grounding(
+      text.replace(model_gen.model_prefix, '').replace(model_gen.user_prefix, ''),
+      included_embd, note_text, model_embed, model_gen, settings);
+    claims = await verify(checked.text);
+    if (claims && settings.notes_verify_regenerate > 0 && unsupported_ratio(claims) > settings.notes_verify_regenerate) {
+      log.info(`[Grounding] regenerating answer (${Math.round(100 * unsupported_ratio(claims))}% unsupported)`);
+      checked = check_citations(await generate(`${instruct}\n${STRICT_INSTRUCTION}`), selected_embd.length);
+      claims = await verify(checked.text);
+    }
+  }
 
-  // normalise citation format: [note 1], [Note1], etc. → [1]
-  const normalised = completion.replace(/\[note\s*(\d+)\]/gi, '[$1]');
+  const note_links = [
+    claims ? format_grounding_summary(claims) : '',
+    format_invalid_citations(checked.invalid),
+    extract_blocks_links(selected_embd),
+  ].filter(text => text).join('\n\n');
 
   return {
-    completion: normalised,
+    completion: claims ? mark_unsupported(checked.text, claims) : checked.text,
     note_links,
     nearest,
     selected_embd,
@@ -191,7 +259,7 @@ async function get_chat_prompt_and_notes(
   settings: JarvisSettings,
   prompt_override?: string,
 ):
-    Promise<[{prompt: string, search: string, notes: Set<string>, context: string, not_context: string[], last_user_prompt: string}, NoteEmbedding[]]> {
+    Promise<[{prompt: string, search: string, notes: Set<string>, context: string, not_context: string[], filters: SearchFilters, last_user_prompt: string}, NoteEmbedding[]]> {
   const note = await joplin.workspace.selectedNote();
   if (!note) {
     throw new Error('No note selected. Please open a note before using chat.');
@@ -217,6 +285,8 @@ async function get_chat_prompt_and_notes(
         throw error;
       }
     }
+    // (metadata filters) notes that may be scored, or null for all notes
+    const note_filter = await resolve_note_filter(prompt.filters);
     if (sub_embeds.length === 0) {
       sub_embeds = model_embed.embeddings;
     } else {
@@ -248,29 +318,34 @@ async function get_chat_prompt_and_notes(
     if (settings.notes_decompose_query && !prompt.search && prompt.notes.size === 0 && !prompt.context) {
       const source = prompt.last_user_prompt || note.title || '';
       if (source.length > 0) {
-        const sub_queries = await decompose_query(source, model_gen);
+        const sub_queries = await decompose_query(source, model_gen, settings.notes_query_languages);
         if (sub_queries && sub_queries.length > 0) {
           if (settings.notes_debug_mode) {
             log.info(`[Hybrid] decomposed into ${sub_queries.length} sub-queries`);
             for (const sq of sub_queries) {
-              log.info(`[Hybrid] sq: "${sq.semantic.slice(0, 60)}" | keywords: [${sq.keywords.join(', ')}]`);
+              log.info(`[Hybrid] sq: "${sq.semantic.slice(0, 60)}" | keywords: [${sq.keywords.join(', ')}] | translations: ${sq.translations.length}`);
             }
           }
 
-          // embed each sub-query and score via MaxSim
+          // embed each sub-query (and its translations) and score via MaxSim
           const query_embeddings: Float32Array[] = [];
+          const query_labels: string[] = [];
           for (const sq of sub_queries) {
-            query_embeddings.push(await model_embed.embed(sq.semantic, 'query'));
+            for (const text of [sq.semantic, ...sq.translations]) {
+              query_embeddings.push(await model_embed.embed(text, 'query'));
+              query_labels.push(text);
+            }
           }
           const cache = corpusCaches.get(model_embed.id);
-          const scored = maxsim_search(query_embeddings, sub_embeds, cache, note.id, settings);
+          const scored = maxsim_search(query_embeddings, sub_embeds, cache, note.id, settings, note_filter,
+            query_labels);
 
           if (scored.length > 0) {
             const keywords = sub_queries
               .map(sq => sq.keywords.filter(k => k.length > 0).join(' '))
               .filter(k => k.length > 0)
               .map(k => k.includes(' ') ? `any:1 ${k}` : k);
-            const reranked = await keyword_rerank(scored, keywords, settings);
+            const reranked = await keyword_rerank(scored, keywords, settings, model_embed.id);
             nearest = [{id: note.id, title: 'Chat context', embeddings: reranked, similarity: null}];
             decomposed = true;
           }
@@ -279,18 +354,37 @@ async function get_chat_prompt_and_notes(
     }
 
     if (!decomposed) {
-      // existing path: single find_nearest_notes + optional keyword merge
-      nearest = await find_nearest_notes(sub_embeds, note.id, note.markup_language, note.title, note.body, model_embed, settings, false);
+      // existing path: single find_nearest_notes + optional translation and keyword merge
+      const keyword_source = prompt.last_user_prompt || note.title || '';
+      let translations: QueryTranslation[] = [];
+      if (!prompt.search && prompt.notes.size === 0 && !prompt.context && settings.notes_query_languages.length > 0) {
+        translations = await translate_query(keyword_source, settings.notes_query_languages, model_gen);
+      }
+
+      nearest = await find_nearest_notes(sub_embeds, note.id, note.markup_language, note.title, note.body, model_embed, settings, false,
+        undefined, false, undefined, false, note_filter);
       if (nearest.length === 0) {
         nearest.push({id: note.id, title: 'Chat context', embeddings: [], similarity: null});
       }
 
+      // cross-lingual merge: notes matching a translation of the last prompt
+      if (translations.length > 0) {
+        if (settings.notes_debug_mode) {
+          log.info(`[Hybrid] chat query translated into ${translations.length} languages`);
+        }
+        const merged = await translated_search(keyword_source, translations, nearest[0].embeddings,
+          note.id, model_embed, settings, note_filter);
+        if (merged) {
+          nearest[0].embeddings = merged;
+        }
+      }
+
       // keyword merge (when enabled, without decomposition)
       if (!prompt.search && prompt.notes.size === 0) {
-        const keyword_source = prompt.last_user_prompt || note.title || '';
         const keyword_query = preprocess_query(keyword_source).slice(0, 200).trim();
         if (keyword_query.length > 0) {
-          nearest[0].embeddings = await keyword_rerank(nearest[0].embeddings, [keyword_query], settings);
+          const keyword_queries = [keyword_query, ...translations.map(t => t.text)];
+          nearest[0].embeddings = await keyword_rerank(nearest[0].embeddings, keyword_queries, settings, model_embed.id);
         }
       }
     }
@@ -299,6 +393,10 @@ async function get_chat_prompt_and_notes(
       nearest.push({id: note.id, title: 'Chat context', embeddings: [], similarity: null});
     }
 
+    // optional rerank of the top blocks against the question
+    nearest[0].embeddings = await rerank_blocks(
+      prompt.last_user_prompt || note.body, nearest[0].embeddings, model_gen, settings);
+
     // post-processing: attach additional blocks to the nearest ones
     // in userData mode, model_embed.embeddings is empty - load blocks
     // for result notes from userData to enable prev/next/nearest attachment
@@ -359,7 +457,7 @@ async function get_chat_prompt_and_notes(
 }
 
 function get_notes_prompt(prompt: string, note: any, model_gen: TextGenerationModel):
-    {prompt: string, search: string, notes: Set<string>, context: string, not_context: string[], last_user_prompt: string} {
+    {prompt: string, search: string, notes: Set<string>, context: string, not_context: string[], filters: SearchFilters, last_user_prompt: string} {
   // get global commands
   const commands = get_global_commands(note.body);
   note.body = stripJarvisBlocks(note.body);
@@ -425,7 +523,24 @@ function get_notes_prompt(prompt: string, note: any, model_gen: TextGenerationMo
     prompt += '\n' + global_match;
   }
 
-  return {prompt, search, notes, context, not_context, last_user_prompt};
+  // (user input) parse metadata filter commands (e.g. {notebook_cmd}), and strip them from the prompt.
+  // lines with a value that is not a valid filter (e.g. "Since: the last meeting") are kept as text
+  const filters = empty_filters();
+  for (const cmd of filter_cmds) {
+    const is_filter = (line: string) => parse_filter_command(cmd, line.substring(cmd.length), empty_filters());
+    const filter_regex = new RegExp('^' + cmd + '.*$', 'igm');
+    prompt = prompt.replace(filter_regex, (line) => is_filter(line) ? '' : line);
+    let value = commands[cmd.slice(0, -1).toLocaleLowerCase()];
+    const valid = (last_user_prompt.match(filter_regex) ?? []).filter(is_filter);
+    if (valid.length > 0) {
+      value = valid[valid.length - 1].substring(cmd.length).trim();
+    }
+    if (value && !parse_filter_command(cmd, value, filters)) {
+      log.info(`[Filters] Ignoring invalid filter: ${cmd} ${value}`);
+    }
+  }
+
+  return {prompt, search, notes, context, not_context, filters, last_user_prompt};
 }
 
 function get_global_commands(text: string): ParsedData {
@@ -462,6 +577,42 @@ function get_global_commands(text: string): ParsedData {
   return parsed_data;
 }
 
+/**
+ * Show a streamed reply in the editor while it is being generated.
+ * Updates are throttled and written one at a time; the editor command
+ * keeps the inserted text selected, so every update overwrites the
+ * previous one and the final replace_selection() overwrites the last.
+ * Call flush() before writing the final text. In editors without the
+ * command (rich text), updates are dropped and only the final text is
+ * shown, as before.
+ */
+export function stream_to_selection(prefix: string): { on_token: StreamCallback, flush: () => Promise<void> } {
+  let writing: Promise<void> = Promise.resolve();
+  let disabled = false;
+
+  const write = debounce((partial: string) => {
+    if (disabled) { return; }
+    writing = writing.then(async () => {
+      try {
+        await joplin.commands.execute('editor.execCommand', {
+          name: 'jarvis.replaceSelectionAround',
+          args: [prefix + partial],
+        });
+      } catch (error) {
+        disabled = true;
+      }
+    });
+  }, STREAM_UPDATE_MS, { maxWait: STREAM_UPDATE_MS });
+
+  return {
+    on_token: (partial: string) => write(partial),
+    flush: async () => {
+      write.cancel();
+      await writing;
+    },
+  };
+}
+
 export async function replace_selection(text: string) {
   try {
     await joplin.commands.execute('editor.execCommand', {
@@ -0,0 +1,242 @@
+import joplin from 'api';
+import { TextEmbeddingModel, TextGenerationModel } from '../models/models';
+import { NoteCluster, cluster_notes } from '../notes/clustering';
+import { get_folder_titles } from '../notes/noteGraph';
+import { JarvisSettings } from '../ux/settings';
+import { clearApiResponse, clearObjectReferences, with_timeout } from '../utils';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const LABEL_SAMPLE_TITLES = 15;  // most central notes shown to the model
+const MIN_MOVE_CLUSTER_SIZE = 3;
+const MIN_NOTEBOOK_SHARE = 0.5;  // share of a cluster in one notebook to suggest moving the rest there
+const REPORT_NOTES_PER_CLUSTER = 5;
+
+// suggestion markers: checked lines are applied by "Apply organization suggestions"
+const find_move_suggestion = /^- \[[xX]\] (.*)<!-- jarvis-move: (\w+) (\w+) -->$/gm;
+const find_tag_suggestion = /^- \[[xX]\] (.*)<!-- jarvis-tag: ([\p{L}\p{N}_ -]+?): ([\w,]+) -->$/gmu;
+
+const LABEL_SCHEMA = {
+  type: 'object',
+  properties: {
+    label: { type: 'string' },
+    tag: { type: 'string' },
+  },
+  required: ['label', 'tag'],
+};
+
+interface ClusterNote {
+  id: string;
+  title: string;
+  parent_id: string;
+}
+
+/**
+ * Cluster notes by topic, label each cluster with the generation model, and
+ * write a report that suggests notebook moves and tags. Each suggestion is a
+ * checkbox; checked suggestions are applied by apply_cluster_suggestions.
+ */
+export async function cluster_notes_report(
+  model_embed: TextEmbeddingModel,
+  model_gen: TextGenerationModel,
+  settings: JarvisSettings,
+  panel: string,
+) {
+  if (model_embed.model === null) { return; }
+
+  const clusters = await cluster_notes(model_embed, settings, settings.notes_cluster_count, panel);
+  if (clusters.length === 0) {
+    await joplin.views.dialogs.showMessageBox('Not enough notes in the note DB to cluster.');
+    return;
+  }
+
+  const folders = await get_folder_titles();
+  const sections: string[] = [];
+  for (const [i, cluster] of clusters.entries()) {
+    const notes = await get_notes(cluster.note_ids);
+    const label = await label_cluster(cluster, notes, model_gen);
+    sections.push(format_cluster(i + 1, label, cluster, notes, folders));
+    clearObjectReferences(notes);
+  }
+
+  const body = `Jarvis grouped ${clusters.reduce((sum, c) => sum + c.note_ids.length, 0)} notes into ` +
+    `${clusters.length} topics. Check the suggestions you want, then run "Apply organization suggestions" on this note.\n\n` +
+    sections.join('\n\n');
+
+  const folder = await joplin.workspace.selectedFolder();
+  const report = await joplin.data.post(['notes'], null, {
+    title: `Notebook organization suggestions (${new Date().toISOString().substring(0, 10)})`,
+    body,
+    parent_id: folder?.id,
+  });
+  await joplin.commands.execute('openNote', report.id);
+}
+
+/**
+ * Apply the checked suggestions in the organization report that is
+ * currently open, and mark them as applied.
+ */
+export async function apply_cluster_suggestions() {
+  const note = await joplin.workspace.selectedNote();
+  if (!note) { return; }
+
+  try {
+    let moved = 0;
+    let tagged = 0;
+    let failed = 0;
+
+    const body = await replace_async(note.body, find_move_suggestion, async (line, text, note_id, folder_id) => {
+      try {
+        await joplin.data.put(['notes', note_id], null, { parent_id: folder_id });
+        moved++;
+        return `- [x] ${text}(applied)`;
+      } catch (error) {
+        log.warn(`Failed to move note ${note_id}`, error);
+        failed++;
+        return line;
+      }
+    }).then(body => replace_async(body, find_tag_suggestion, async (line, text, tag, note_ids) => {
+      let ok = true;
+      for (const note_id of note_ids.split(',')) {
+        try {
+          await add_tag(note_id, tag);
+        } catch (error) {
+          log.warn(`Failed to tag note ${note_id}`, error);
+          ok = false;
+        }
+      }
+      if (!ok) {
+        failed++;
+        return line;
+      }
+      tagged++;
+      return `- [x] ${text}(applied)`;
+    }));
+
+    if (moved + tagged + failed === 0) {
+      await joplin.views.dialogs.showMessageBox(
+        'No checked suggestions found. Open a notebook organization report and check the suggestions to apply.');
+      return;
+    }
+
+    await joplin.data.put(['notes', note.id], null, { body });
+    await joplin.commands.execute('editor.setText', body);
+    await joplin.views.dialogs.showMessageBox(
+      `Moved ${moved} notes and applied ${tagged} tag suggestions.` + (failed > 0 ? ` ${failed} suggestions failed.` : ''));
+  } finally {
+    clearObjectReferences(note);
+  }
+}
+
+async function label_cluster(
+  cluster: NoteCluster,
+  notes: Map<string, ClusterNote>,
+  model_gen: TextGenerationModel,
+): Promise<{ label: string, tag: string } | null> {
+  if (model_gen?.model === null) { return null; }
+  const titles = cluster.note_ids.slice(0, LABEL_SAMPLE_TITLES)
+    .map(id => notes.get(id)?.title)
+    .filter(title => title)
+    .map(title => `- ${title}`);
+
+  const prompt = `These note titles belong to one topic cluster:\n${titles.join('\n')}\n\n` +
+    'Give the topic a short label (2-4 words) and a single lowercase tag for it (one or two words, no #).';
+  try {
+    const response = await with_timeout(10_000, model_gen.complete_json<{ label: string, tag: string }>(prompt, LABEL_SCHEMA));
+    if (!response?.label) { return null; }
+    return { label: response.label.trim(), tag: clean_tag(response.tag ?? '') };
+  } catch (error) {
+    log.info(`[Cluster] labeling failed: ${error.message || error}`);
+    return null;
+  }
+}
+
+function format_cluster(
+  index: number,
+  label: { label: string, tag: string } | null,
+  cluster: NoteCluster,
+  notes: Map<string, ClusterNote>,
+  folders: Map<string, string>,
+): string {
+  const link = (id: string) => `[${notes.get(id)?.title ?? id}](:/${id})`;
+  const lines = [`## ${index}. ${label?.label ?? `Topic ${index}`} (${cluster.note_ids.length} notes)`, ''];
+  lines.push(...cluster.note_ids.slice(0, REPORT_NOTES_PER_CLUSTER).map(id => `- ${link(id)}`));
+  if (cluster.note_ids.length > REPORT_NOTES_PER_CLUSTER) {
+    lines.push(`- ... and ${cluster.note_ids.length - REPORT_NOTES_PER_CLUSTER} more`);
+  }
+
+  const suggestions: string[] = [];
+
+  // move notes outside the notebook that holds most of the cluster
+  const counts = new Map<string, number>();
+  for (const note of notes.values()) {
+    counts.set(note.parent_id, (counts.get(note.parent_id) ?? 0) + 1);
+  }
+  const [main_folder, main_count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+  if (cluster.note_ids.length >= MIN_MOVE_CLUSTER_SIZE && main_count / cluster.note_ids.length >= MIN_NOTEBOOK_SHARE) {
+    for (const id of cluster.note_ids) {
+      const note = notes.get(id);
+      if (!note || note.parent_id === main_folder) { continue; }
+      suggestions.push(`- [ ] Move ${link(id)} from *${folders.get(note.parent_id) ?? 'unknown'}* ` +
+        `to **${folders.get(main_folder) ?? 'unknown'}** <!-- jarvis-move: ${id} ${main_folder} -->`);
+    }
+  }
+
+  const tag = clean_tag(label?.tag ?? '');
+  if (tag) {
+    suggestions.push(`- [ ] Tag the ${cluster.note_ids.length} notes of this topic with **${tag}** ` +
+      `<!-- jarvis-tag: ${tag}: ${cluster.note_ids.join(',')} -->`);
+  }
+
+  if (suggestions.length > 0) {
+    lines.push('', '### Suggestions', '', ...suggestions);
+  }
+  return lines.join('\n');
+}
+
+// letters, digits, underscores, single hyphens and single spaces only, so
+// that the tag cannot break the suggestion marker (e.g. "-->" or ":")
+function clean_tag(tag: string): string {
+  return tag.toLowerCase()
+    .replace(/[^\p{L}\p{N}_ -]+/gu, ' ')
+    .replace(/-{2,}/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+async function get_notes(note_ids: string[]): Promise<Map<string, ClusterNote>> {
+  const notes = new Map<string, ClusterNote>();
+  for (const id of note_ids) {
+    try {
+      const note = await joplin.data.get(['notes', id], { fields: ['id', 'title', 'parent_id'] });
+      notes.set(id, { id: note.id, title: note.title, parent_id: note.parent_id });
+    } catch {
+      // deleted since the note DB was updated
+    }
+  }
+  return notes;
+}
+
+async function add_tag(note_id: string, tag: string) {
+  const response = await joplin.data.get(['notes', note_id, 'tags'], { fields: ['title'] });
+  const tags: string[] = response.items.map((t: any) => t.title);
+  clearApiResponse(response);
+  if (tags.includes(tag)) { return; }
+  await joplin.data.put(['notes', note_id], null, { tags: tags.concat(tag).join(', ') });
+}
+
+async function replace_async(
+  text: string,
+  pattern: RegExp,
+  replacer: (...match: string[]) => Promise<string>,
+): Promise<string> {
+  const matches = [...text.matchAll(pattern)];
+  let result = '';
+  let pos = 0;
+  for (const match of matches) {
+    result += text.substring(pos, match.index) + await replacer(...match);
+    pos = match.index + match[0].length;
+  }
+  return result + text.substring(pos);
+}
@@ -1,5 +1,5 @@
 import joplin from 'api';
-import { get_chat_prompt, replace_selection } from './chat';
+import { get_chat_prompt, replace_selection, stream_to_selection } from './chat';
 import { TextGenerationModel } from '../models/models';
 import { JarvisSettings } from '../ux/settings';
 import { clearObjectReferences } from '../utils';
@@ -23,8 +23,10 @@ export async function auto_complete(model_gen: TextGenerationModel, settings: Ja
       .replace(/{context}/g, context)
       .replace(/{placeholder}/g, placeholder);
 
-    replace_selection('\n\nGenerating auto-completion....');
-    const response = await model_gen.complete(prompt);
+    await replace_selection('\n\nGenerating auto-completion....');
+    const stream = stream_to_selection('\n');
+    const response = await model_gen.complete(prompt, undefined, stream.on_token);
+    await stream.flush();
     replace_selection('\n' + response);
   } finally {
     clearObjectReferences(note);
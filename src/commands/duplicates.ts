@@ -0,0 +1,180 @@
+import joplin from 'api';
+import { TextEmbeddingModel, TextGenerationModel } from '../models/models';
+import { DuplicateGroup, find_duplicate_groups, pair_similarity } from '../notes/duplicates';
+import { JarvisSettings } from '../ux/settings';
+import { clearObjectReferences, escape_html, split_by_tokens, stripJarvisBlocks } from '../utils';
+
+const MAX_REPORT_GROUPS = 100;
+const group_marker = '<!-- jarvis-duplicates-group:';
+const find_group_markers = /<!-- jarvis-duplicates-group: ([\w,]+) -->/g;
+
+/**
+ * Find groups of duplicate notes and write a report note with side-by-side
+ * links, similarity scores and shared headings of each pair.
+ */
+export async function find_duplicates(model_embed: TextEmbeddingModel, settings: JarvisSettings, panel: string) {
+  if (model_embed.model === null) { return; }
+
+  const threshold = settings.notes_duplicates_threshold;
+  const groups = (await find_duplicate_groups(model_embed, settings, threshold, null, panel))
+    .slice(0, MAX_REPORT_GROUPS);
+  if (groups.length === 0) {
+    await joplin.views.dialogs.showMessageBox(
+      `No duplicate notes found above ${(100 * threshold).toFixed(0)}% similarity.`);
+    return;
+  }
+
+  const notes = await get_notes(groups.flatMap(g => g.note_ids));
+  const link = (id: string) => notes.has(id) ? `[${escape_cell(notes.get(id).title)}](:/${id})` : id;
+
+  const sections = groups.map((group, i) => {
+    const rows = group.pairs.map(pair => {
+      const headings = shared_headings(notes.get(pair.a)?.body ?? '', notes.get(pair.b)?.body ?? '');
+      return `| ${link(pair.a)} | ${link(pair.b)} | ${percent(pair.mean)} | ${percent(pair.maxsim)} | ${escape_cell(headings.join(', '))} |`;
+    });
+    return `## Group ${i + 1} (${percent(group.similarity)})\n\n` +
+      `${group_marker} ${group.note_ids.join(',')} -->\n` +
+      '| Note | Similar note | Mean | MaxSim | Shared headings |\n' +
+      '|---|---|---|---|---|\n' +
+      rows.join('\n');
+  });
+
+  const body = `Found ${groups.length} groups of similar notes (threshold: ${percent(threshold)}). ` +
+    'Run "Merge duplicate notes" on this note to draft a combined note for a group.\n\n' +
+    sections.join('\n\n');
+
+  const folder = await joplin.workspace.selectedFolder();
+  const report = await joplin.data.post(['notes'], null, {
+    title: `Duplicate notes report (${new Date().toISOString().substring(0, 10)})`,
+    body,
+    parent_id: folder?.id,
+  });
+  clearObjectReferences(notes);
+  await joplin.commands.execute('openNote', report.id);
+}
+
+/**
+ * Draft a combined note from duplicate notes with the generation model.
+ * Merges the notes selected in the note list, or a group picked from the
+ * duplicates report that is currently open. The original notes are not
+ * modified.
+ */
+export async function merge_duplicates(model_gen: TextGenerationModel, settings: JarvisSettings, dialogHandle: string) {
+  if (model_gen.model === null) { return; }
+
+  let note_ids: string[] = await joplin.workspace.selectedNoteIds();
+  if (note_ids.length < 2) {
+    note_ids = await pick_report_group(dialogHandle);
+    if (note_ids.length < 2) { return; }
+  }
+
+  const notes = await get_notes(note_ids);
+  if (notes.size < 2) {
+    await joplin.views.dialogs.showMessageBox('Some of the notes to merge were not found.');
+    return;
+  }
+
+  try {
+    const instruction = 'Merge the notes above into a single note in Markdown. ' +
+      'Keep all unique information, remove repetitions, and organize the content under clear headings. ' +
+      'Do not add information that does not appear in the notes. Return only the merged note body.';
+    const text_tokens = model_gen.max_tokens - model_gen.count_tokens(instruction) - 200;
+    const note_tokens = Math.floor(text_tokens / notes.size / 2);  // leave room for the response
+
+    const sections = [...notes.values()].map(note => {
+      const text = split_by_tokens(stripJarvisBlocks(note.body).split('\n'), model_gen, note_tokens, 'first', '\n')[0].join('\n');
+      return `Note: ${note.title}\n===\n${text}\n===`;
+    });
+    const prompt = `${sections.join('\n\n')}\n\nInstruction\n===\n${instruction}\n===\n\nMerged note\n===\n`;
+    const draft = await model_gen.complete(prompt);
+
+    const first = notes.values().next().value;
+    const sources = [...notes.values()].map(n => `[${n.title}](:/${n.id})`).join(', ');
+    const merged = await joplin.data.post(['notes'], null, {
+      title: `Merged: ${first.title}`,
+      body: `${draft.trim()}\n\n---\nMerged draft of: ${sources}`,
+      parent_id: first.parent_id,
+    });
+    await joplin.commands.execute('openNote', merged.id);
+  } finally {
+    clearObjectReferences(notes);
+  }
+}
+
+// let the user pick a group of the duplicates report in the current note
+async function pick_report_group(dialogHandle: string): Promise<string[]> {
+  const note = await joplin.workspace.selectedNote();
+  const groups = note ? [...note.body.matchAll(find_group_markers)].map(m => m[1].split(',')) : [];
+  clearObjectReferences(note);
+  if (groups.length === 0) {
+    await joplin.views.dialogs.showMessageBox(
+      'Select two or more notes to merge, or open a duplicate notes report and run this command again.');
+    return [];
+  }
+
+  const titles = await get_notes(groups.flat());
+  const options = groups.map((ids, i) => {
+    const names = ids.map(id => escape_html(titles.get(id)?.title ?? id)).join(' / ');
+    return `<option value="${i}" ${i === 0 ? 'selected' : ''}>Group ${i + 1}: ${names}</option>`;
+  }).join('');
+  clearObjectReferences(titles);
+
+  await joplin.views.dialogs.setHtml(dialogHandle, `
+    <form name="duplicates">
+      <h3>Merge duplicate notes</h3>
+      <p>Draft a combined note from a group of duplicates. The original notes are not modified.</p>
+      <div>
+        <select title="Group" name="group">${options}</select>
+      </div>
+    </form>
+  `);
+  await joplin.views.dialogs.setButtons(dialogHandle,
+    [{ id: 'merge', title: 'Merge' },
+    { id: 'cancel', title: 'Cancel' }]);
+  await joplin.views.dialogs.setFitToContent(dialogHandle, true);
+
+  const result = await joplin.views.dialogs.open(dialogHandle);
+  if (result.id !== 'merge') { return []; }
+  return groups[parseInt(result.formData?.duplicates?.group)] ?? [];
+}
+
+async function get_notes(note_ids: string[]): Promise<Map<string, any>> {
+  const notes = new Map<string, any>();
+  for (const id of new Set(note_ids)) {
+    try {
+      notes.set(id, await joplin.data.get(['notes', id], { fields: ['id', 'title', 'body', 'parent_id'] }));
+    } catch {
+      // deleted since the report was written
+    }
+  }
+  return notes;
+}
+
+// markdown headings that appear in both notes (outside code blocks)
+function shared_headings(body_a: string, body_b: string): string[] {
+  const headings_b = new Set(get_headings(body_b).map(h => h.toLowerCase()));
+  const shared = get_headings(body_a).filter(h => headings_b.has(h.toLowerCase()));
+  return [...new Set(shared)];
+}
+
+function get_headings(body: string): string[] {
+  const headings: string[] = [];
+  let in_code = false;
+  for (const line of body.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      in_code = !in_code;
+      continue;
+    }
+    const match = !in_code && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) { headings.push(match[1]); }
+  }
+  return headings;
+}
+
+function percent(similarity: number): string {
+  return `${(100 * similarity).toFixed(0)}%`;
+}
+
+function escape_cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
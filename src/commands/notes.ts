@@ -12,6 +12,8 @@ import { getModelStats } from '../notes/modelStats';
 import { checkCapacityWarning, SimpleCorpusCache } from '../notes/embeddingCache';
 import { read_model_metadata } from '../notes/catalogMetadataStore';
 import { should_exclude_note } from '../notes/noteHelpers';
+import { mark_keyword_index_complete } from '../notes/keywordIndex';
+import { get_panel_collections } from '../notes/savedSearches';
 import { RELEASE_NOTES } from '../ux/release';
 
 /** Last sweep failure message; shown in related notes panel until next successful sweep. */
@@ -351,6 +353,9 @@ export async function update_note_db(
     if (!incrementalSweep) {
       await set_model_last_full_sweep_time(model.id, timestamp);
       console.debug(`Jarvis: updated last full sweep time to ${new Date(timestamp).toISOString()}`);
+
+      // Every note was visited, so the keyword index now covers all of them
+      await mark_keyword_index_complete(model.id, settings);
     }
   }
 
@@ -636,11 +641,12 @@ export async function find_notes(model: TextEmbeddingModel, panel: string, expli
   const stats = getModelStats(model.id);
   const profileIsDesktop = settings.notes_device_profile_effective === 'desktop';
   const capacityWarning = stats
-    ? checkCapacityWarning(stats.rowCount, stats.dim, profileIsDesktop)
+    ? checkCapacityWarning(stats.rowCount, stats.dim, profileIsDesktop, settings.notes_ann_index)
     : null;
 
-  // write results to panel
-  await update_panel(panel, nearest, settings, capacityWarning, lastSweepWarning);
+  // write results to panel, with the live collections of pinned saved searches
+  const collections = await get_panel_collections(model, settings);
+  await update_panel(panel, nearest, settings, capacityWarning, lastSweepWarning, collections);
 
   // Clear note body after use
   clearObjectReferences(note);
@@ -0,0 +1,88 @@
+import joplin from 'api';
+import type { TextEmbeddingModel } from './models/models';
+import type { JarvisSettings } from './ux/settings';
+import { build_note_graph, get_folder_titles } from './notes/noteGraph';
+import { empty_filters, parse_filter_command } from './notes/searchFilters';
+import { open_note_at_line } from './ux/panel';
+import { tags_cmd } from './ux/settings';
+
+type GraphPanelContext = {
+  model_embed: TextEmbeddingModel;
+  settings: JarvisSettings;
+  delay_scroll: number;
+};
+
+async function get_notebooks(): Promise<{ id: string, title: string }[]> {
+  const titles = await get_folder_titles();
+  return [...titles.entries()]
+    .map(([id, title]) => ({ id, title }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Create the note graph panel: a force-directed graph of notes connected to
+ * their semantic neighbours and to the notes they link to, colored by cluster.
+ */
+export async function initialize_graph_panel(get_context: () => GraphPanelContext): Promise<string> {
+  const panel = await joplin.views.panels.create('jarvis_graph_panel');
+  await joplin.views.panels.addScript(panel, 'graphPanel.css');
+  await joplin.views.panels.addScript(panel, 'graphPanelWebview.js');
+  await joplin.views.panels.setHtml(panel, `
+  <div class="jarvis-graph-panel">
+    <div class="jarvis-graph-controls">
+      <select id="graph-notebook" title="Notebook"><option value="">All notebooks</option></select>
+      <input id="graph-tags" type="search" placeholder="Tags (e.g. project, -archive)" />
+      <button id="graph-refresh" type="button">Refresh</button>
+    </div>
+    <div id="graph-status" class="jarvis-graph-status"></div>
+    <canvas id="graph-canvas" class="jarvis-graph-canvas"></canvas>
+    <div id="graph-tooltip" class="jarvis-graph-tooltip"></div>
+  </div>
+  `);
+
+  await joplin.views.panels.onMessage(panel, async (message: any) => {
+    if (!message || typeof message !== 'object') {
+      return { type: 'error', text: 'Invalid panel message.' };
+    }
+
+    if (message.type === 'graphData') {
+      if (!(await joplin.views.panels.visible(panel))) {
+        return { type: 'error', text: 'Click Refresh to build the note graph.' };
+      }
+      const runtime = get_context();
+      if (runtime.model_embed?.model === null && typeof runtime.model_embed?.initialize === 'function') {
+        await runtime.model_embed.initialize();
+      }
+      if (!runtime.model_embed?.model) {
+        return { type: 'error', text: 'Jarvis embedding model is not initialized yet. Please try again in a moment.' };
+      }
+
+      const filters = empty_filters();
+      if (typeof message.notebook === 'string' && message.notebook) {
+        filters.notebooks = [message.notebook];
+      }
+      if (typeof message.tags === 'string') {
+        parse_filter_command(tags_cmd, message.tags, filters);
+      }
+      try {
+        const graph = await build_note_graph(runtime.model_embed, runtime.settings, filters,
+          runtime.settings.notes_graph_neighbours);
+        return { type: 'graph', graph, notebooks: await get_notebooks() };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        return { type: 'error', text: `Failed to build the note graph: ${msg}` };
+      }
+    }
+
+    if (message.type === 'openNote') {
+      if (typeof message.note === 'string' && message.note) {
+        await open_note_at_line(message.note, Number(message.line) || 0, get_context().delay_scroll);
+      }
+      return { type: 'ack' };
+    }
+
+    return { type: 'error', text: 'Unsupported panel message type.' };
+  });
+
+  return panel;
+}
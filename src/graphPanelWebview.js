@@ -0,0 +1,283 @@
+(() => {
+  const TICKS = 300;  // layout iterations
+  const TICKS_PER_FRAME = 5;
+  const REPULSION = 400;
+  const SPRING_LENGTH = 40;
+  const SPRING = 0.02;
+  const GRAVITY = 0.01;
+
+  let canvas = null;
+  let tooltip = null;
+  let status = null;
+  let notebookSelect = null;
+  let tagsInput = null;
+  let nodes = [];
+  let edges = [];
+  let tick = 0;
+  let hovered = null;
+  let requestId = 0;
+
+  function resolveElements() {
+    canvas = document.getElementById('graph-canvas');
+    tooltip = document.getElementById('graph-tooltip');
+    status = document.getElementById('graph-status');
+    notebookSelect = document.getElementById('graph-notebook');
+    tagsInput = document.getElementById('graph-tags');
+  }
+
+  function clusterColor(cluster) {
+    return `hsl(${(cluster * 137.5) % 360}, 60%, 55%)`;
+  }
+
+  function setNotebooks(notebooks) {
+    const selected = notebookSelect.value;
+    notebookSelect.innerHTML = '';
+    const all = document.createElement('option');
+    all.value = '';
+    all.textContent = 'All notebooks';
+    notebookSelect.appendChild(all);
+    for (const notebook of notebooks) {
+      const option = document.createElement('option');
+      option.value = notebook.id;
+      option.textContent = notebook.title;
+      notebookSelect.appendChild(option);
+    }
+    notebookSelect.value = selected;
+  }
+
+  function setGraph(graph) {
+    const byId = new Map();
+    nodes = graph.nodes.map((node, i) => {
+      // start on a circle so the layout is deterministic
+      const angle = 2 * Math.PI * i / Math.max(1, graph.nodes.length);
+      const radius = 10 * Math.sqrt(graph.nodes.length);
+      const entry = { ...node, x: radius * Math.cos(angle), y: radius * Math.sin(angle), vx: 0, vy: 0, degree: 0 };
+      byId.set(node.id, entry);
+      return entry;
+    });
+    edges = graph.edges
+      .filter((edge) => byId.has(edge.source) && byId.has(edge.target))
+      .map((edge) => ({ ...edge, source: byId.get(edge.source), target: byId.get(edge.target) }));
+    for (const edge of edges) {
+      edge.source.degree += 1;
+      edge.target.degree += 1;
+    }
+
+    const links = edges.filter((edge) => edge.kind === 'link').length;
+    status.textContent = `${nodes.length} notes, ${edges.length - links} semantic relations, ${links} links` +
+      (graph.truncated ? ' (most recently updated notes only)' : '');
+    tick = 0;
+    requestAnimationFrame(step);
+  }
+
+  function layoutTick() {
+    const cooling = 1 - tick / TICKS;
+    for (let i = 0; i < nodes.length; i++) {
+      const a = nodes[i];
+      for (let j = i + 1; j < nodes.length; j++) {
+        const b = nodes[j];
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const dist2 = Math.max(dx * dx + dy * dy, 1);
+        const force = REPULSION / dist2;
+        const dist = Math.sqrt(dist2);
+        a.vx += force * dx / dist;
+        a.vy += force * dy / dist;
+        b.vx -= force * dx / dist;
+        b.vy -= force * dy / dist;
+      }
+    }
+    for (const edge of edges) {
+      const dx = edge.target.x - edge.source.x;
+      const dy = edge.target.y - edge.source.y;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      const strength = SPRING * (edge.kind === 'link' ? 1 : edge.weight);
+      const force = strength * (dist - SPRING_LENGTH);
+      edge.source.vx += force * dx / dist;
+      edge.source.vy += force * dy / dist;
+      edge.target.vx -= force * dx / dist;
+      edge.target.vy -= force * dy / dist;
+    }
+    for (const node of nodes) {
+      node.vx -= GRAVITY * node.x;
+      node.vy -= GRAVITY * node.y;
+      node.x += Math.max(-10, Math.min(10, node.vx)) * cooling;
+      node.y += Math.max(-10, Math.min(10, node.vy)) * cooling;
+      node.vx *= 0.5;
+      node.vy *= 0.5;
+    }
+    tick += 1;
+  }
+
+  function step() {
+    for (let i = 0; i < TICKS_PER_FRAME && tick < TICKS; i++) {
+      layoutTick();
+    }
+    draw();
+    if (tick < TICKS) {
+      requestAnimationFrame(step);
+    }
+  }
+
+  // map layout coordinates to the canvas (fit the bounding box)
+  function transform() {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const node of nodes) {
+      minX = Math.min(minX, node.x);
+      minY = Math.min(minY, node.y);
+      maxX = Math.max(maxX, node.x);
+      maxY = Math.max(maxY, node.y);
+    }
+    const margin = 15;
+    const scale = Math.min(
+      (canvas.width - 2 * margin) / Math.max(maxX - minX, 1),
+      (canvas.height - 2 * margin) / Math.max(maxY - minY, 1));
+    const offsetX = (canvas.width - scale * (maxX - minX)) / 2;
+    const offsetY = (canvas.height - scale * (maxY - minY)) / 2;
+    return (node) => ({ x: offsetX + scale * (node.x - minX), y: offsetY + scale * (node.y - minY) });
+  }
+
+  function radius(node) {
+    return 3 + Math.min(6, Math.sqrt(node.degree));
+  }
+
+  function draw() {
+    const rect = canvas.getBoundingClientRect();
+    if (canvas.width !== Math.floor(rect.width) || canvas.height !== Math.floor(rect.height)) {
+      canvas.width = Math.floor(rect.width);
+      canvas.height = Math.floor(rect.height);
+    }
+    const ctx = canvas.getContext('2d');
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (nodes.length === 0) {
+      return;
+    }
+    const project = transform();
+    const color = getComputedStyle(document.body).color;
+
+    for (const edge of edges) {
+      const a = project(edge.source);
+      const b = project(edge.target);
+      const highlighted = hovered && (edge.source === hovered || edge.target === hovered);
+      ctx.strokeStyle = color;
+      ctx.globalAlpha = highlighted ? 0.8 : (edge.kind === 'link' ? 0.4 : 0.15);
+      ctx.setLineDash(edge.kind === 'link' ? [] : [3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+
+    for (const node of nodes) {
+      const p = project(node);
+      ctx.fillStyle = clusterColor(node.cluster);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, radius(node) + (node === hovered ? 2 : 0), 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }
+
+  function nodeAt(event) {
+    if (nodes.length === 0) {
+      return null;
+    }
+    const rect = canvas.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const project = transform();
+    let best = null;
+    let bestDist = Infinity;
+    for (const node of nodes) {
+      const p = project(node);
+      const dist = Math.hypot(p.x - x, p.y - y);
+      if (dist <= radius(node) + 4 && dist < bestDist) {
+        best = node;
+        bestDist = dist;
+      }
+    }
+    return best;
+  }
+
+  function showTooltip(node, event) {
+    if (!node) {
+      tooltip.style.display = 'none';
+      return;
+    }
+    tooltip.textContent = node.folder ? `${node.title} (${node.folder})` : node.title;
+    tooltip.style.display = 'block';
+    const panelRect = canvas.parentElement.getBoundingClientRect();
+    tooltip.style.left = `${event.clientX - panelRect.left + 10}px`;
+    tooltip.style.top = `${event.clientY - panelRect.top + 10}px`;
+  }
+
+  function loadGraph() {
+    const id = ++requestId;
+    status.textContent = 'Building note graph...';
+    webviewApi.postMessage({
+      type: 'graphData',
+      notebook: notebookSelect.value,
+      tags: tagsInput.value,
+    }).then((response) => {
+      if (id !== requestId) {
+        return;  // a newer request is in flight
+      }
+      if (!response || response.type !== 'graph') {
+        status.textContent = (response && response.text) || 'Failed to build the note graph.';
+        return;
+      }
+      setNotebooks(response.notebooks);
+      setGraph(response.graph);
+    });
+  }
+
+  function setup() {
+    resolveElements();
+    if (!canvas) {
+      return;
+    }
+
+    canvas.addEventListener('mousemove', (event) => {
+      const node = nodeAt(event);
+      if (node !== hovered) {
+        hovered = node;
+        draw();
+      }
+      canvas.style.cursor = node ? 'pointer' : 'default';
+      showTooltip(node, event);
+    });
+    canvas.addEventListener('mouseleave', () => {
+      hovered = null;
+      showTooltip(null);
+      draw();
+    });
+    canvas.addEventListener('click', (event) => {
+      const node = nodeAt(event);
+      if (node) {
+        webviewApi.postMessage({ type: 'openNote', note: node.id, line: 0 });
+      }
+    });
+
+    document.getElementById('graph-refresh').addEventListener('click', loadGraph);
+    notebookSelect.addEventListener('change', loadGraph);
+    tagsInput.addEventListener('search', loadGraph);
+    window.addEventListener('resize', draw);
+
+    // rebuild requested by the plugin process (e.g. when the panel is shown)
+    webviewApi.onMessage((event) => {
+      const message = event && event.message !== undefined ? event.message : event;
+      if (message && message.type === 'refresh') {
+        loadGraph();
+      }
+    });
+
+    loadGraph();
+  }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', setup);
+  } else {
+    setup();
+  }
+})();
@@ -1,5 +1,5 @@
 import joplin from 'api';
-import { ContentScriptType, MenuItemLocation, ToolbarButtonLocation } from 'api/types';
+import { Command, ContentScriptType, MenuItemLocation, ToolbarButtonLocation } from 'api/types';
 import debounce from 'lodash.debounce';
 import { annotate_title, annotate_summary, annotate_tags, annotate_links } from './commands/annotate';
 import { ask_jarvis, edit_with_jarvis } from './commands/ask';
@@ -13,8 +13,8 @@ import { find_nearest_notes, clear_corpus_cache } from './notes/embeddings';
 import { search_by_query } from './notes/searchOrchestration';
 import { ensure_catalog_note, get_catalog_note_id } from './notes/catalog';
 import { read_model_metadata } from './notes/catalogMetadataStore';
-import { register_panel, update_panel } from './ux/panel';
-import { get_settings, register_settings, set_folders, get_model_last_sweep_time, get_model_last_full_sweep_time, GENERATION_SETTING_KEYS, EMBEDDING_SETTING_KEYS } from './ux/settings';
+import { register_panel, update_panel, render_block_preview, open_note_at_line } from './ux/panel';
+import { get_settings, register_settings, refresh_ollama_models, set_folders, get_model_last_sweep_time, get_model_last_full_sweep_time, GENERATION_SETTING_KEYS, EMBEDDING_SETTING_KEYS } from './ux/settings';
 import type { JarvisSettings } from './ux/settings';
 import { auto_complete } from './commands/complete';
 import { getLogger } from './utils/logger';
@@ -26,10 +26,18 @@ import {
   prompt_model_switch_decision,
 } from './notes/modelSwitch';
 import { open_model_management_dialog } from './ux/modelManagement';
+import { open_usage_dialog } from './ux/usageDialog';
+import { open_saved_search_dialog } from './ux/savedSearchDialog';
+import { find_duplicates, merge_duplicates } from './commands/duplicates';
+import { apply_cluster_suggestions, cluster_notes_report } from './commands/cluster';
+import { get_panel_collections, refresh_collection_notes } from './notes/savedSearches';
+import { configure_usage, with_usage } from './models/usage';
 import { getModelStats } from './notes/modelStats';
 import { checkCapacityWarning } from './notes/embeddingCache';
+import { delete_keyword_index } from './notes/keywordIndex';
 import { RELEASE_NOTES } from './ux/release';
 import { initialize_chat_panel } from './chatPanel';
+import { initialize_graph_panel } from './graphPanel';
 
 const STARTUP_DELAY_SECONDS = 1;
 const PANEL_DEBOUNCE_SECONDS = 1;
@@ -47,10 +55,14 @@ interface PluginRuntime {
   dialogAsk: string;
   model_switch_dialog: string;
   model_management_dialog: string;
+  usage_dialog: string;
+  saved_search_dialog: string;
+  duplicates_dialog: string;
   model_embed: TextEmbeddingModel;
   model_gen: TextGenerationModel;
   panel: string;
   chat_panel: string;
+  graph_panel: string;
   delay_scroll: number;
   delay_db_update: number;
   abort_timeout: number;
@@ -68,6 +80,12 @@ interface UpdateManager {
   is_update_in_progress: () => boolean;
 }
 
+// the models of a command, attributed to it in the usage ledger
+interface CommandModels {
+  model_gen: TextGenerationModel;
+  model_embed: TextEmbeddingModel;
+}
+
 joplin.plugins.register({
 	onStart: async function() {
     // Phase 1: Lightweight initialization (settings, dialogs, panel)
@@ -89,6 +107,7 @@ joplin.plugins.register({
       model_gen: stub_gen,
       panel: panel,
       chat_panel: '',
+      graph_panel: '',
     } as PluginRuntime;
 
     try {
@@ -97,6 +116,13 @@ joplin.plugins.register({
       console.error('Jarvis: chat panel initialization failed (continuing without sidebar chat)', error);
       runtime.chat_panel = '';
     }
+
+    try {
+      runtime.graph_panel = await initialize_graph_panel(() => runtime);
+    } catch (error) {
+      console.error('Jarvis: graph panel initialization failed (continuing without note graph)', error);
+      runtime.graph_panel = '';
+    }
     
     // Hide panels on startup if settings say so (useful on mobile)
     if (!runtime.settings.notes_panel_visible) {
@@ -105,6 +131,9 @@ joplin.plugins.register({
     if (!runtime.settings.chat_panel_visible && runtime.chat_panel) {
       await joplin.views.panels.hide(runtime.chat_panel);
     }
+    if (!runtime.settings.graph_panel_visible && runtime.graph_panel) {
+      await joplin.views.panels.hide(runtime.graph_panel);
+    }
 
     const updates = create_update_manager(runtime);
     const find_notes_debounce = debounce(find_notes, PANEL_DEBOUNCE_SECONDS * 1000);
@@ -154,6 +183,11 @@ async function initialize_runtime_ui(): Promise<Partial<PluginRuntime>> {
   const log = getLogger();
   await register_settings();
   const settings = await get_settings();
+  configure_usage(settings);
+  if (settings.model === 'ollama') {
+    // populate the model dropdown in the background (the server may be down)
+    refresh_ollama_models().catch((error) => log.warn('Jarvis: failed to list Ollama models', { error }));
+  }
 
   const dialogAsk = await joplin.views.dialogs.create('jarvis.ask.dialog');
   const model_switch_dialog = await joplin.views.dialogs.create('jarvis.modelSwitch');
@@ -161,6 +195,13 @@ async function initialize_runtime_ui(): Promise<Partial<PluginRuntime>> {
   const model_management_dialog = await joplin.views.dialogs.create('jarvis.modelManagement');
   await joplin.views.dialogs.addScript(model_management_dialog, 'ux/view.css');
   await joplin.views.dialogs.addScript(model_management_dialog, 'ux/modelManagementDialog.css');
+  const usage_dialog = await joplin.views.dialogs.create('jarvis.usage');
+  await joplin.views.dialogs.addScript(usage_dialog, 'ux/view.css');
+  await joplin.views.dialogs.addScript(usage_dialog, 'ux/usageDialog.css');
+  const saved_search_dialog = await joplin.views.dialogs.create('jarvis.savedSearch');
+  await joplin.views.dialogs.addScript(saved_search_dialog, 'ux/view.css');
+  const duplicates_dialog = await joplin.views.dialogs.create('jarvis.duplicates');
+  await joplin.views.dialogs.addScript(duplicates_dialog, 'ux/view.css');
 
   let delay_scroll = await joplin.settings.value('notes_scroll_delay');
   let delay_db_update = 60 * settings.notes_db_update_delay;
@@ -172,6 +213,9 @@ async function initialize_runtime_ui(): Promise<Partial<PluginRuntime>> {
     dialogAsk,
     model_switch_dialog,
     model_management_dialog,
+    usage_dialog,
+    saved_search_dialog,
+    duplicates_dialog,
     delay_scroll,
     delay_db_update,
     abort_timeout,
@@ -390,116 +434,130 @@ async function register_commands_and_menus(
   updates: UpdateManager,
   find_notes_debounce: (model: TextEmbeddingModel, panel: string, explicit?: boolean) => void,
 ): Promise<void> {
-  await joplin.commands.register({
+  // attribute the model calls of each command in the usage ledger: commands
+  // use views of the current models that record their calls under the command
+  const register_command = (command: Omit<Command, 'execute'> & { execute: (models: CommandModels) => Promise<any> }) =>
+    joplin.commands.register({
+      ...command,
+      execute: async () => {
+        const name = command.name.replace(/^jarvis\./, '');
+        return command.execute({
+          model_gen: with_usage(runtime.model_gen, name),
+          model_embed: with_usage(runtime.model_embed, name),
+        });
+      },
+    });
+
+  await register_command({
     name: 'jarvis.ask',
     label: 'Ask Jarvis',
-    execute: async () => {
-      await ask_jarvis(runtime.model_gen, runtime.dialogAsk);
+    execute: async (models) => {
+      await ask_jarvis(models.model_gen, runtime.dialogAsk);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.chat',
     label: 'Chat with Jarvis',
     iconName: 'fas fa-robot',
-    execute: async () => {
-      await chat_with_jarvis(runtime.model_gen);
+    execute: async (models) => {
+      await chat_with_jarvis(models.model_gen);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.research',
     label: 'Research with Jarvis',
-    execute: async () => {
-      await research_with_jarvis(runtime.model_gen, runtime.dialogAsk);
+    execute: async (models) => {
+      await research_with_jarvis(models.model_gen, runtime.dialogAsk);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.edit',
     label: 'Edit selection with Jarvis',
     iconName: 'far fa-edit',
-    execute: async () => {
-      await edit_with_jarvis(runtime.model_gen, runtime.dialogAsk);
+    execute: async (models) => {
+      await edit_with_jarvis(models.model_gen, runtime.dialogAsk);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.complete',
     label: 'Auto-complete with Jarvis',
     iconName: 'fas fa-magic',
-    execute: async () => {
-      await auto_complete(runtime.model_gen, runtime.settings);
+    execute: async (models) => {
+      await auto_complete(models.model_gen, runtime.settings);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.annotate.title',
     label: 'Annotate note: title',
-    execute: async () => {
-      await annotate_title(runtime.model_gen, runtime.settings);
+    execute: async (models) => {
+      await annotate_title(models.model_gen, runtime.settings);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.annotate.summary',
     label: 'Annotate note: summary',
-    execute: async () => {
-      await annotate_summary(runtime.model_gen, runtime.settings);
+    execute: async (models) => {
+      await annotate_summary(models.model_gen, runtime.settings);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.annotate.tags',
     label: 'Annotate note: tags',
-    execute: async () => {
-      await annotate_tags(runtime.model_gen, runtime.model_embed, runtime.settings);
+    execute: async (models) => {
+      await annotate_tags(models.model_gen, models.model_embed, runtime.settings);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.annotate.links',
     label: 'Annotate note: links',
-    execute: async () => {
-      await annotate_links(runtime.model_embed, runtime.settings);
+    execute: async (models) => {
+      await annotate_links(models.model_embed, runtime.settings);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.annotate.button',
     label: 'Annotate note with Jarvis',
     iconName: 'fas fa-lightbulb',
-    execute: async () => {
+    execute: async (models) => {
       const settings = runtime.settings;
       if (settings.annotate_links_flag) {
-        await annotate_links(runtime.model_embed, settings);
+        await annotate_links(models.model_embed, settings);
       }
 
       if (settings.annotate_summary_flag || settings.annotate_title_flag || settings.annotate_tags_flag) {
-        const summary = await annotate_summary(runtime.model_gen, settings, settings.annotate_summary_flag);
+        const summary = await annotate_summary(models.model_gen, settings, settings.annotate_summary_flag);
         if (settings.annotate_title_flag) {
-          await annotate_title(runtime.model_gen, settings, summary);
+          await annotate_title(models.model_gen, settings, summary);
         }
         if (settings.annotate_tags_flag) {
-          await annotate_tags(runtime.model_gen, runtime.model_embed, settings, summary);
+          await annotate_tags(models.model_gen, models.model_embed, settings, summary);
         }
       }
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.notes.db.update',
     label: 'Update Jarvis note DB',
     iconName: 'fas fa-sync-alt',
-    execute: async () => {
-      if (runtime.model_embed.model === null) {
-        await runtime.model_embed.initialize();
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
       }
       await updates.start_update({ force: true });
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.notes.manage_models',
     label: 'Manage Jarvis note DB',
     execute: async () => {
@@ -507,37 +565,102 @@ async function register_commands_and_menus(
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.notes.find',
     label: 'Find related notes',
     iconName: 'fas fa-search',
-    execute: async () => {
-      if (runtime.model_embed.model === null) {
-        await runtime.model_embed.initialize();
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
+      }
+      find_notes_debounce(models.model_embed, runtime.panel, true);
+    },
+  });
+
+  await register_command({
+    name: 'jarvis.notes.saved_searches',
+    label: 'Manage saved searches',
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
+      }
+      if (await open_saved_search_dialog(runtime.saved_search_dialog, models.model_embed, runtime.settings)) {
+        find_notes_debounce(models.model_embed, runtime.panel, true);
+      }
+    },
+  });
+
+  await register_command({
+    name: 'jarvis.notes.refresh_collections',
+    label: 'Refresh saved search notes',
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
+      }
+      const refreshed = await refresh_collection_notes(models.model_embed, runtime.settings);
+      if (refreshed === 0) {
+        await joplin.views.dialogs.showMessageBox('No saved searches write to a collection note. Enable it in "Manage saved searches".');
+      }
+    },
+  });
+
+  await register_command({
+    name: 'jarvis.notes.find_duplicates',
+    label: 'Find duplicate notes',
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
       }
-      find_notes_debounce(runtime.model_embed, runtime.panel, true);
+      await find_duplicates(models.model_embed, runtime.settings, runtime.panel);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
+    name: 'jarvis.notes.merge_duplicates',
+    label: 'Merge duplicate notes',
+    execute: async (models) => {
+      await merge_duplicates(models.model_gen, runtime.settings, runtime.duplicates_dialog);
+    },
+  });
+
+  await register_command({
+    name: 'jarvis.notes.cluster',
+    label: 'Suggest notebook organization',
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
+      }
+      await cluster_notes_report(models.model_embed, models.model_gen, runtime.settings, runtime.panel);
+    },
+  });
+
+  await register_command({
+    name: 'jarvis.notes.apply_suggestions',
+    label: 'Apply organization suggestions',
+    execute: async () => {
+      await apply_cluster_suggestions();
+    },
+  });
+
+  await register_command({
     name: 'jarvis.notes.toggle_panel',
     label: 'Toggle related notes panel',
-    execute: async () => {
+    execute: async (models) => {
       const visible = await joplin.views.panels.visible(runtime.panel);
       if (visible) {
         await joplin.views.panels.hide(runtime.panel);
       } else {
         await joplin.views.panels.show(runtime.panel);
-        if (runtime.model_embed.model === null) {
-          await runtime.model_embed.initialize();
+        if (models.model_embed.model === null) {
+          await models.model_embed.initialize();
         }
-        find_notes_debounce(runtime.model_embed, runtime.panel, true);
+        find_notes_debounce(models.model_embed, runtime.panel, true);
       }
       await joplin.settings.setValue('notes_panel_visible', !visible);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.chat.toggle_panel',
     label: 'Toggle chat panel',
     execute: async () => {
@@ -555,40 +678,62 @@ async function register_commands_and_menus(
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
+    name: 'jarvis.notes.toggle_graph',
+    label: 'Toggle note graph panel',
+    execute: async () => {
+      if (!runtime.graph_panel) {
+        await joplin.views.dialogs.showMessageBox('Jarvis note graph panel is unavailable. Please restart Joplin and try again.');
+        return;
+      }
+      const visible = await joplin.views.panels.visible(runtime.graph_panel);
+      await joplin.settings.setValue('graph_panel_visible', !visible);
+    },
+  });
+
+  await register_command({
     name: 'jarvis.notes.chat',
     label: 'Chat with your notes',
     iconName: 'fas fa-comments',
-    execute: async () => {
-      if (runtime.model_embed.model === null) {
-        await runtime.model_embed.initialize();
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
       }
-      await chat_with_notes(runtime.model_embed, runtime.model_gen, runtime.panel);
+      await chat_with_notes(models.model_embed, models.model_gen, runtime.panel);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.notes.preview',
     label: 'Preview chat notes context',
-    execute: async () => {
-      if (runtime.model_embed.model === null) {
-        await runtime.model_embed.initialize();
+    execute: async (models) => {
+      if (models.model_embed.model === null) {
+        await models.model_embed.initialize();
       }
-      await chat_with_notes(runtime.model_embed, runtime.model_gen, runtime.panel, true);
+      await chat_with_notes(models.model_embed, models.model_gen, runtime.panel, true);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.utils.count_tokens',
     label: 'Count tokens in selection',
-    execute: async () => {
+    execute: async (models) => {
       const text = await joplin.commands.execute('selectedText');
-      const tokenCount = runtime.model_gen.count_tokens(text);
-      await joplin.views.dialogs.showMessageBox(`Token count: ${tokenCount}`);
+      const result = await models.model_gen.count_tokens_exact(text);
+      await joplin.views.dialogs.showMessageBox(
+        `Token count: ${result.count}\nTokenizer: ${result.tokenizer}${result.exact ? '' : ' (approximate)'}`);
+    },
+  });
+
+  await register_command({
+    name: 'jarvis.utils.usage',
+    label: 'Show usage and costs',
+    execute: async () => {
+      await open_usage_dialog(runtime.usage_dialog);
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.notes.exclude_folder',
     label: 'Exclude notebook from note DB',
     execute: async () => {
@@ -600,7 +745,7 @@ async function register_commands_and_menus(
     },
   });
 
-  await joplin.commands.register({
+  await register_command({
     name: 'jarvis.notes.include_folder',
     label: 'Include notebook in note DB',
     execute: async () => {
@@ -629,10 +774,18 @@ async function register_commands_and_menus(
     { commandName: 'jarvis.notes.find', accelerator: 'CmdOrCtrl+Alt+F' },
     { commandName: 'jarvis.notes.preview' },
     { commandName: 'jarvis.utils.count_tokens' },
+    { commandName: 'jarvis.utils.usage' },
     { commandName: 'jarvis.notes.db.update' },
     { commandName: 'jarvis.notes.manage_models' },
+    { commandName: 'jarvis.notes.saved_searches' },
+    { commandName: 'jarvis.notes.refresh_collections' },
+    { commandName: 'jarvis.notes.find_duplicates' },
+    { commandName: 'jarvis.notes.merge_duplicates' },
+    { commandName: 'jarvis.notes.cluster' },
+    { commandName: 'jarvis.notes.apply_suggestions' },
     { commandName: 'jarvis.notes.toggle_panel' },
     { commandName: 'jarvis.chat.toggle_panel' },
+    { commandName: 'jarvis.notes.toggle_graph' },
     { commandName: 'jarvis.notes.exclude_folder' },
     { commandName: 'jarvis.notes.include_folder' },
   ], MenuItemLocation.Tools);
@@ -794,32 +947,30 @@ async function register_workspace_listeners(
 
   await joplin.views.panels.onMessage(runtime.panel, async (message) => {
     if (message.name === 'openRelatedNote') {
-      // Dismiss plugin panels first (required for web/mobile to allow note opening)
-      try {
-        await joplin.commands.execute('dismissPluginPanels');
-      } catch {
-        // Ignore errors (not on mobile/web, or old version)
-      }
-      await joplin.commands.execute('openNote', message.note);
-      if (message.line > 0) {
-        await wait_ms(runtime.delay_scroll);
-        await joplin.commands.execute('editor.execCommand', {
-          name: 'scrollToJarvisLine',
-          args: [message.line - 1],
-        });
-      }
+      await open_note_at_line(message.note, Number(message.line), runtime.delay_scroll);
     }
     if (message.name === 'searchRelatedNote') {
       const nearest = await search_by_query(
         message.query, '1234', runtime.model_embed, runtime.settings,
-        runtime.panel, updates.is_update_in_progress());
+        runtime.panel, updates.is_update_in_progress(), null, runtime.model_gen);
       // Compute capacity warning from in-memory stats (if available)
       const stats = getModelStats(runtime.model_embed.id);
       const profileIsDesktop = runtime.settings.notes_device_profile_effective === 'desktop';
       const capacityWarning = stats
-        ? checkCapacityWarning(stats.rowCount, stats.dim, profileIsDesktop)
+        ? checkCapacityWarning(stats.rowCount, stats.dim, profileIsDesktop, runtime.settings.notes_ann_index)
         : null;
-      await update_panel(runtime.panel, nearest, runtime.settings, capacityWarning, lastSweepWarning);
+      const collections = await get_panel_collections(runtime.model_embed, runtime.settings);
+      await update_panel(runtime.panel, nearest, runtime.settings, capacityWarning, lastSweepWarning, collections);
+    }
+    if (message.name === 'saveSearch' || message.name === 'editSavedSearch') {
+      const changed = await open_saved_search_dialog(runtime.saved_search_dialog, runtime.model_embed,
+        runtime.settings, message.id ?? '', message.query ?? '');
+      if (changed) {
+        find_notes_debounce(runtime.model_embed, runtime.panel, true);
+      }
+    }
+    if (message.name === 'blockPreview') {
+      return await render_block_preview(message, runtime.settings);
     }
     if (message.name === 'abortUpdate') {
       // Abort both database updates and model deletion operations
@@ -847,8 +998,14 @@ async function register_settings_handler(
     }
 
     runtime.settings = await get_settings();
+    configure_usage(runtime.settings);
 
     const reloadGeneration = event.keys.some((key: string) => GENERATION_SETTING_KEYS.has(key));
+
+    if (runtime.settings.model === 'ollama' &&
+        (event.keys.includes('model') || event.keys.includes('chat_ollama_endpoint'))) {
+      refresh_ollama_models().catch((error) => runtime.log.warn('Jarvis: failed to list Ollama models', { error }));
+    }
     const reloadEmbedding = event.keys.some((key: string) => EMBEDDING_SETTING_KEYS.has(key));
 
     const notesModelChanged = event.keys.includes('notes_model')
@@ -997,6 +1154,19 @@ async function register_settings_handler(
       }
     }
 
+    // Keyword index settings: rebuild the index with a full sweep
+    if ((event.keys.includes('notes_keyword_index') || event.keys.includes('notes_keyword_language'))
+        && runtime.model_embed?.id) {
+      await delete_keyword_index(runtime.model_embed.id);
+      if (runtime.model_embed.model && runtime.settings.notes_keyword_index === 'bm25' && !reloadEmbedding) {
+        try {
+          await updates.start_update({ force: false, silent: true, incrementalSweep: false });
+        } catch (error) {
+          console.warn('Jarvis: keyword index rebuild failed', error);
+        }
+      }
+    }
+
     if (event.keys.includes('notes_scroll_delay')) {
       runtime.delay_scroll = await joplin.settings.value('notes_scroll_delay');
     }
@@ -1067,6 +1237,14 @@ async function register_settings_handler(
         await joplin.views.panels.hide(runtime.chat_panel);
       }
     }
+    if (event.keys.includes('graph_panel_visible') && runtime.graph_panel) {
+      if (runtime.settings.graph_panel_visible) {
+        await joplin.views.panels.show(runtime.graph_panel);
+        await joplin.views.panels.postMessage(runtime.graph_panel, { type: 'refresh' });
+      } else {
+        await joplin.views.panels.hide(runtime.graph_panel);
+      }
+    }
   });
 }
 
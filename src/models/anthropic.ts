@@ -0,0 +1,291 @@
+import { ModelError, show_retry_dialog, truncateErrorForDialog } from '../utils';
+import { extractResponseError, isEventStream, normalizeErrorMessage, read_event_stream } from './openai';
+import type { ChatEntry, StreamCallback, ToolCall, ToolChatEntry, ToolChatTurn, ToolSpec } from './models';
+import type { UsageMeter } from './usage';
+
+/**
+ * Native Anthropic Messages API.
+ *
+ * Used instead of the OpenAI-compatible endpoint for chat requests, because
+ * it supports prompt caching: stable prefixes of a request are marked with
+ * cache_control breakpoints, and later requests that start with the same
+ * prefix (the next turn of a chat, the next step of an agent) read it from
+ * the cache at a fraction of the cost and latency. Prefixes shorter than the
+ * model's minimum (1-4K tokens) are not cached, and breakpoints are ignored.
+ */
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+const CACHE_CONTROL = { type: 'ephemeral' };
+
+type ContentBlock = Record<string, any>;
+type Message = { role: 'user' | 'assistant', content: ContentBlock[] };
+
+function buildHeaders(api_key: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': api_key,
+    'anthropic-version': API_VERSION,
+    // see buildHeaders in openai.ts (CORS in mobile WebViews)
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+}
+
+// get the next response for a chat formatted *input prompt*.
+// the system message (with the notes context, when given) and the earlier turns
+// are cached: a regenerated answer, or a next turn that retrieves the same notes, reads them.
+// when on_token is given the response is streamed (SSE) and reported as it arrives.
+// meter receives the token counts reported in the response
+export async function query_chat(prompt: ChatEntry[], api_key: string, model: string,
+    max_tokens: number, temperature: number, top_p: number,
+    on_token: StreamCallback=null, abort_signal: AbortSignal=null, meter: UsageMeter=null,
+    interactive: boolean=true): Promise<string> {
+
+  const system = prompt.filter((entry) => entry.role === 'system').map((entry) => entry.content).join('\n');
+  const messages = merge_roles(prompt
+    .filter((entry) => entry.role !== 'system' && (entry.content || entry.images?.length))
+    .map((entry): Message => ({
+      role: entry.role === 'assistant' ? 'assistant' : 'user',
+      content: [
+        ...(entry.content ? [{ type: 'text', text: entry.content }] : []),
+        ...(entry.images ?? []).map((image) => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mime, data: image.data },
+        })),
+      ],
+    })));
+  // breakpoint at the end of the turns that precede the last user message
+  const last_user = messages.map((message) => message.role).lastIndexOf('user');
+  if (last_user > 0) {
+    mark_cache(messages[last_user - 1]);
+  }
+
+  const params = build_params(model, system, messages, max_tokens, temperature, top_p);
+  if (on_token) {
+    params.stream = true;
+  }
+
+  let error_message: string | null = null;
+  try {
+    const response = await fetch(ANTHROPIC_MESSAGES_URL, {
+      method: 'POST',
+      headers: buildHeaders(api_key),
+      body: JSON.stringify(params),
+      signal: abort_signal ?? undefined,
+    });
+
+    // output streamed response (usage arrives in the message_start event,
+    // and the output tokens so far in message_delta events)
+    if (on_token && response.ok && isEventStream(response)) {
+      const text = await read_event_stream(response, (event) => {
+        if (event?.type === 'message_start') {
+          read_usage(model, event.message?.usage, meter);
+        } else if (event?.type === 'message_delta' && meter && event.usage?.output_tokens !== undefined) {
+          meter.output_tokens = event.usage.output_tokens;
+        }
+        return event?.type === 'content_block_delta' ? event.delta?.text : null;
+      }, on_token);
+      if (text) {
+        return text;
+      }
+      throw new Error('Empty streamed response');
+    }
+
+    const responseText = await response.text();
+    let data = null;
+    try {
+      data = responseText ? JSON.parse(responseText) : null;
+    } catch (_jsonError) {
+      data = null;
+    }
+
+    // output response
+    const text = text_of(data?.content);
+    if (response.ok && text) {
+      read_usage(model, data.usage, meter);
+      return text;
+    }
+
+    error_message = extractResponseError(response, responseText, data);
+
+  } catch (error) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
+    error_message = normalizeErrorMessage(error);
+  }
+
+  // display error message (truncated for dialog, full message logged)
+  console.error(`Anthropic chat error: ${error_message}`);
+  const errorHandler = await show_retry_dialog(
+    `Anthropic Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`, error_message, interactive);
+
+  // cancel button
+  if (errorHandler === 1) {
+    throw new ModelError(`Anthropic chat failed: ${error_message}`);
+  }
+
+  // retry
+  return await query_chat(prompt, api_key, model, max_tokens, temperature, top_p, on_token, abort_signal, meter,
+    interactive);
+}
+
+// get the next turn of a tool-calling conversation using Anthropic tool use.
+// the whole conversation is cached: the next step of an agent resends it
+// with the new tool results (the retrieved note context) appended.
+// tool_choice forces a call to the named tool (a one-off structured output, not cached)
+export async function query_chat_tools(messages: ToolChatEntry[], tools: ToolSpec[],
+    api_key: string, model: string, max_tokens: number, temperature: number, top_p: number,
+    abort_signal: AbortSignal=null, tool_choice: string=null, meter: UsageMeter=null,
+    interactive: boolean=true): Promise<ToolChatTurn> {
+
+  const system = messages.filter((entry) => entry.role === 'system').map((entry) => entry.content).join('\n');
+  const conversation = merge_roles(messages
+    .filter((entry) => entry.role !== 'system')
+    .map((entry): Message => {
+      if (entry.role === 'tool') {
+        return {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: entry.tool_call_id, content: entry.content || '(empty)' }],
+        };
+      }
+      if (entry.role === 'assistant') {
+        return {
+          role: 'assistant',
+          content: [
+            ...(entry.content ? [{ type: 'text', text: entry.content }] : []),
+            ...(entry.tool_calls ?? []).map((call) => ({
+              type: 'tool_use', id: call.id, name: call.name, input: call.arguments ?? {},
+            })),
+          ],
+        };
+      }
+      return { role: 'user', content: [{ type: 'text', text: entry.content }] };
+    })
+    .filter((message) => message.content.length > 0));
+  if (conversation.length > 0 && !tool_choice) {
+    mark_cache(conversation[conversation.length - 1]);
+  }
+
+  const params = build_params(model, system, conversation, max_tokens, temperature, top_p);
+  if (tools.length > 0) {
+    params.tools = tools.map((tool) => ({
+      name: tool.name, description: tool.description, input_schema: tool.parameters,
+    }));
+  }
+  if (tool_choice) {
+    params.tool_choice = { type: 'tool', name: tool_choice };
+  }
+
+  let error_message: string | null = null;
+  try {
+    const response = await fetch(ANTHROPIC_MESSAGES_URL, {
+      method: 'POST',
+      headers: buildHeaders(api_key),
+      body: JSON.stringify(params),
+      signal: abort_signal ?? undefined,
+    });
+    const responseText = await response.text();
+
+    let data = null;
+    try {
+      data = responseText ? JSON.parse(responseText) : null;
+    } catch (_jsonError) {
+      data = null;
+    }
+
+    if (response.ok && Array.isArray(data?.content)) {
+      read_usage(model, data.usage, meter);
+      const tool_calls: ToolCall[] = data.content
+        .filter((block: any) => block?.type === 'tool_use' && block.name)
+        .map((block: any, i: number) => ({
+          id: block.id ?? `call_${i}`,
+          name: block.name,
+          arguments: (block.input && typeof block.input === 'object') ? block.input : {},
+        }));
+      return { content: text_of(data.content), tool_calls };
+    }
+
+    error_message = extractResponseError(response, responseText, data);
+
+  } catch (error) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
+    error_message = normalizeErrorMessage(error);
+  }
+
+  // display error message (truncated for dialog, full message logged)
+  console.error(`Anthropic tool chat error: ${error_message}`);
+  const errorHandler = await show_retry_dialog(
+    `Anthropic Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`, error_message, interactive);
+
+  // cancel button
+  if (errorHandler === 1) {
+    throw new ModelError(`Anthropic chat failed: ${error_message}`);
+  }
+
+  // retry
+  return await query_chat_tools(messages, tools, api_key, model, max_tokens,
+    temperature, top_p, abort_signal, tool_choice, meter, interactive);
+}
+
+// request body with a cached system prompt (tool definitions precede it, and are cached with it)
+function build_params(model: string, system: string, messages: Message[],
+    max_tokens: number, temperature: number, top_p: number): any {
+  const params: any = {
+    model: model,
+    system: system ? [{ type: 'text', text: system, cache_control: CACHE_CONTROL }] : null,
+    messages: messages,
+    max_tokens: max_tokens,
+    temperature: temperature,
+    top_p: top_p,
+  };
+  for (const key of Object.keys(params)) {
+    if (params[key] === null || params[key] === undefined) {
+      delete params[key];
+    }
+  }
+  return params;
+}
+
+// consecutive messages of the same role (e.g. several tool results) form one message
+function merge_roles(messages: Message[]): Message[] {
+  const merged: Message[] = [];
+  for (const message of messages) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role) {
+      last.content = [...last.content, ...message.content];
+    } else {
+      merged.push({ role: message.role, content: [...message.content] });
+    }
+  }
+  return merged;
+}
+
+// end a cached prefix at the last block of a message
+function mark_cache(message: Message) {
+  const last = message.content[message.content.length - 1];
+  message.content[message.content.length - 1] = { ...last, cache_control: CACHE_CONTROL };
+}
+
+function text_of(content: any): string {
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content.filter((block: any) => block?.type === 'text').map((block: any) => block.text ?? '').join('');
+}
+
+// the token counts of a response (cache reads and writes are input tokens too)
+function read_usage(model: string, usage: any, meter: UsageMeter) {
+  if (!usage) {
+    return;
+  }
+  if (meter) {
+    meter.input_tokens = (usage.input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0) +
+      (usage.cache_creation_input_tokens ?? 0);
+    meter.output_tokens = usage.output_tokens ?? meter.output_tokens;
+  }
+  console.debug(`Anthropic prompt cache (${model}): ${usage.cache_read_input_tokens ?? 0} read, ` +
+    `${usage.cache_creation_input_tokens ?? 0} written, ${usage.input_tokens ?? 0} uncached input tokens`);
+}
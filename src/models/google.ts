@@ -1,17 +1,19 @@
 import joplin from 'api';
-import { GoogleGenAI } from '@google/genai';
-import { ModelError, truncateErrorForDialog } from '../utils';
-import type { EmbedContext } from './models';
+import { GoogleGenAI, GenerateContentResponse, Content, Part } from '@google/genai';
+import { ModelError, show_retry_dialog, truncateErrorForDialog } from '../utils';
+import type { ChatEntry, EmbedContext, StreamCallback, ToolCall, ToolChatEntry, ToolChatTurn, ToolSpec } from './models';
 
-// get the next response for a chat formatted *input prompt* from a *chat model*
-export async function query_chat(ai: GoogleGenAI, modelId: string, prompt: Array<{role: string; content: string;}>,
-    temperature: number, top_p: number): Promise<string> {
+// get the next response for a chat formatted *input prompt* from a *chat model*.
+// when on_token is given the response is streamed and reported as it arrives
+export async function query_chat(ai: GoogleGenAI, modelId: string, prompt: ChatEntry[],
+    temperature: number, top_p: number, on_token: StreamCallback = null, abort_signal: AbortSignal = null,
+    interactive: boolean = true): Promise<string> {
 
   // Remove system messages from the prompt and reformat
   const messages = prompt
     .map((entry) => {
       return {
-        parts: [{ text: entry.content }],
+        parts: to_parts(entry),
         role: (['user', 'system'].includes(entry.role)) ? 'user' : 'model',
       };
   });
@@ -23,11 +25,18 @@ export async function query_chat(ai: GoogleGenAI, modelId: string, prompt: Array
       config: {
         temperature: temperature,
         topP: top_p,
+        abortSignal: abort_signal ?? undefined,
       },
     });
 
+    if (on_token) {
+      return await collect_stream(await chat.sendMessageStream({
+        message: messages.slice(-1)[0].parts,
+      }), on_token);
+    }
+
     const response = await chat.sendMessage({
-      message: prompt.slice(-1)[0].content,
+      message: messages.slice(-1)[0].parts,
     });
     const text = response.text;
     if (!text) {
@@ -36,11 +45,13 @@ export async function query_chat(ai: GoogleGenAI, modelId: string, prompt: Array
     return text;
 
   } catch (e) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
     const message = e instanceof Error ? e.message : String(e);
     console.error(`Gemini chat error: ${message}`);
-    const errorHandler = await joplin.views.dialogs.showMessageBox(
-      `Gemini Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`
-      );
+    const errorHandler = await show_retry_dialog(
+      `Gemini Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`, message, interactive);
 
     // cancel button
     if (errorHandler === 1) {
@@ -48,22 +59,33 @@ export async function query_chat(ai: GoogleGenAI, modelId: string, prompt: Array
     }
 
     // retry
-    return await query_chat(ai, modelId, prompt, temperature, top_p);
+    return await query_chat(ai, modelId, prompt, temperature, top_p, on_token, abort_signal, interactive);
   }
 }
 
-// get the next response for a completion for *arbitrary string prompt* from any model
-export async function query_completion(ai: GoogleGenAI, modelId: string, prompt: string, temperature: number, top_p: number): Promise<string> {
+// get the next response for a completion for *arbitrary string prompt* from any model.
+// response_schema requests a JSON response that matches the given JSON schema
+export async function query_completion(ai: GoogleGenAI, modelId: string, prompt: string, temperature: number, top_p: number,
+    on_token: StreamCallback = null, abort_signal: AbortSignal = null, response_schema: any = null,
+    interactive: boolean = true): Promise<string> {
 
   try {
-    const response = await ai.models.generateContent({
+    const params = {
       model: modelId,
       contents: prompt,
       config: {
         temperature: temperature,
         topP: top_p,
+        abortSignal: abort_signal ?? undefined,
+        responseMimeType: response_schema ? 'application/json' : undefined,
+        responseJsonSchema: response_schema ?? undefined,
       },
-    });
+    };
+    if (on_token) {
+      return await collect_stream(await ai.models.generateContentStream(params), on_token);
+    }
+
+    const response = await ai.models.generateContent(params);
     const text = response.text;
     if (!text) {
       throw new Error(describeEmptyResponse(response));
@@ -71,11 +93,13 @@ export async function query_completion(ai: GoogleGenAI, modelId: string, prompt:
     return text;
 
   } catch (e) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model completion operation cancelled');
+    }
     const message = e instanceof Error ? e.message : String(e);
     console.error(`Gemini completion error: ${message}`);
-    const errorHandler = await joplin.views.dialogs.showMessageBox(
-      `Gemini Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`
-      );
+    const errorHandler = await show_retry_dialog(
+      `Gemini Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`, message, interactive);
 
     // cancel button
     if (errorHandler === 1) {
@@ -83,8 +107,118 @@ export async function query_completion(ai: GoogleGenAI, modelId: string, prompt:
     }
 
     // retry
-    return await query_completion(ai, modelId, prompt, temperature, top_p);
+    return await query_completion(ai, modelId, prompt, temperature, top_p, on_token, abort_signal, response_schema, interactive);
+  }
+}
+
+// get the next turn of a tool-calling conversation using Gemini function calling
+export async function query_chat_tools(ai: GoogleGenAI, modelId: string, messages: ToolChatEntry[], tools: ToolSpec[],
+    temperature: number, top_p: number, abort_signal: AbortSignal = null, interactive: boolean = true): Promise<ToolChatTurn> {
+
+  const system = messages.filter((entry) => entry.role === 'system').map((entry) => entry.content).join('\n');
+  const contents: Content[] = messages
+    .filter((entry) => entry.role !== 'system')
+    .map((entry): Content => {
+      if (entry.role === 'tool') {
+        return {
+          role: 'user',
+          parts: [{ functionResponse: { id: entry.tool_call_id, name: entry.name, response: { result: entry.content } } }],
+        };
+      }
+      if (entry.role === 'assistant') {
+        const parts: Content['parts'] = entry.content ? [{ text: entry.content }] : [];
+        for (const call of entry.tool_calls ?? []) {
+          parts.push({ functionCall: { id: call.id, name: call.name, args: call.arguments } });
+        }
+        return { role: 'model', parts };
+      }
+      return { role: 'user', parts: [{ text: entry.content }] };
+    });
+
+  try {
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents,
+      config: {
+        systemInstruction: system || undefined,
+        tools: tools.length > 0 ? [{ functionDeclarations: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parametersJsonSchema: tool.parameters,
+        })) }] : undefined,
+        temperature: temperature,
+        topP: top_p,
+        abortSignal: abort_signal ?? undefined,
+      },
+    });
+    const tool_calls: ToolCall[] = (response.functionCalls ?? []).map((call, i) => ({
+      id: call.id ?? `call_${i}`,
+      name: call.name,
+      arguments: call.args ?? {},
+    }));
+    const text = tool_calls.length > 0
+      ? (response.candidates?.[0]?.content?.parts ?? []).map((part) => part.text ?? '').join('')
+      : response.text;
+    if (!text && tool_calls.length === 0) {
+      throw new Error(describeEmptyResponse(response));
+    }
+    return { content: text ?? '', tool_calls };
+
+  } catch (e) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Gemini tool chat error: ${message}`);
+    const errorHandler = await show_retry_dialog(
+      `Gemini Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`, message, interactive);
+
+    // cancel button
+    if (errorHandler === 1) {
+      throw new ModelError(`Gemini chat failed: ${message}`);
+    }
+
+    // retry
+    return await query_chat_tools(ai, modelId, messages, tools, temperature, top_p, abort_signal, interactive);
+  }
+}
+
+// count the tokens of a text with the model's own tokenizer
+export async function count_tokens(ai: GoogleGenAI, modelId: string, text: string): Promise<number> {
+  const result = await ai.models.countTokens({ model: modelId, contents: text });
+  if (typeof result?.totalTokens !== 'number') {
+    throw new Error('empty token count');
+  }
+  return result.totalTokens;
+}
+
+// text and inline image parts of a chat message
+function to_parts(entry: ChatEntry): Part[] {
+  return [
+    { text: entry.content },
+    ...(entry.images ?? []).map((image) => ({ inlineData: { mimeType: image.mime, data: image.data } })),
+  ];
+}
+
+/**
+ * Drain a Gemini response stream, reporting the accumulated text after
+ * every chunk. Raises with the block / finish reason if no text arrived.
+ */
+async function collect_stream(stream: AsyncGenerator<GenerateContentResponse>, on_token: StreamCallback): Promise<string> {
+  let text = '';
+  let last: GenerateContentResponse = null;
+  for await (const chunk of stream) {
+    last = chunk;
+    const delta = chunk.text;
+    if (delta) {
+      text += delta;
+      on_token(text);
+    }
+  }
+  if (!text) {
+    throw new Error(describeEmptyResponse(last));
   }
+  return text;
 }
 
 export async function query_embedding(text: string, ai: GoogleGenAI, modelId: string, _abort_on_error: boolean, context?: EmbedContext): Promise<Float32Array> {
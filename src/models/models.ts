@@ -57,48 +57,54 @@ async function loadUSE(): Promise<typeof import('@tensorflow-models/universal-se
 }
 
 import { GoogleGenAI } from '@google/genai';
-// js-tiktoken removed - using estimation only (always was in practice)
-// Better token estimation that handles various text types more accurately than length/4
-// This is what we were using as fallback, now it's the only method
-function estimateTokens(text: string): number {
-  if (!text) return 0;
-  
-  // More sophisticated estimation based on empirical BPE tokenizer behavior:
-  // - ASCII/English: ~4 chars per token
-  // - Mixed case with punctuation: ~3.5 chars per token  
-  // - Unicode/CJK: ~2-3 chars per token
-  // - Code: ~3 chars per token
-  
-  const hasUnicode = /[^\x00-\x7F]/.test(text);
-  const hasCJK = /[\u4E00-\u9FFF\u3040-\u309F\u30A0-\u30FF]/.test(text);
-  const punctuationRatio = (text.match(/[.,:;!?(){}[\]"'`]/g) || []).length / text.length;
-  
-  let charsPerToken = 4.0;
-  
-  if (hasCJK) {
-    // CJK characters are typically 2-3 chars per token
-    charsPerToken = 2.5;
-  } else if (hasUnicode) {
-    // Other Unicode is typically 3-3.5 chars per token
-    charsPerToken = 3.2;
-  } else if (punctuationRatio > 0.1) {
-    // Heavy punctuation (like code) is ~3-3.5 chars per token
-    charsPerToken = 3.5;
-  }
-  
-  return Math.ceil(text.length / charsPerToken);
-}
-
+import { estimate_tokens, get_tokenizer, Tokenizer } from './tokenizers';
+import { check_budget, endpoint_provider, record_usage, UsageMeter } from './usage';
 import { HfInference } from '@huggingface/inference'
-import { JarvisSettings, clear_model_first_build_completed } from '../ux/settings';
-import { consume_rate_limit, timeout_with_retry, escape_regex, replace_last, ModelError, truncateErrorForDialog } from '../utils';
+import { JarvisSettings, clear_model_first_build_completed, get_settings } from '../ux/settings';
+import { consume_rate_limit, timeout_with_retry, escape_regex, replace_last, ModelError, truncateErrorForDialog, show_retry_dialog, with_values, is_transient_error } from '../utils';
+import { JsonSchema, extract_json, validate_json } from '../utils/jsonSchema';
 import * as openai from './openai';
 import * as google from './google';
 import * as ollama from './ollama';
+import * as anthropic from './anthropic';
+import * as transformers from './transformers';
 import { BlockEmbedding } from '../notes/embeddings';  // maybe move definition to this file
 import { clear_deleted_notes, connect_to_db, get_all_embeddings, init_db } from '../notes/db';
+import { get_chunking_version } from '../notes/chunking';
 
 export type EmbeddingKind = 'doc' | 'query';
+
+/** Receives the response text generated so far while a reply is streamed. */
+export type StreamCallback = (partial: string) => void;
+
+/** A tool the model may call. parameters is a JSON schema of its arguments. */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/** A message in a tool-calling conversation. Tool results use role 'tool'
+ *  and refer back to the call by tool_call_id (and name, for Gemini / Ollama). */
+export interface ToolChatEntry {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/** A model reply that may request tool calls instead of (or besides) answering. */
+export interface ToolChatTurn {
+  content: string;
+  tool_calls: ToolCall[];
+}
 export type ConditioningMode = 'flag' | 'prefix' | 'none';
 
 export interface ConditioningAdapter {
@@ -144,6 +150,7 @@ const DEFAULT_ADAPTERS: Record<string, ConditioningAdapter> = {
   'bge': { mode: 'prefix', query: 'Represent this sentence for searching relevant passages: ', doc: '' },
   'nomic': { mode: 'prefix', query: 'search_query:', doc: 'search_document:' },
   'gte': { mode: 'none' },
+  'minilm': { mode: 'none' },
 
   // USE (none)
   'universal sentence encoder': { mode: 'none' },
@@ -287,8 +294,35 @@ const test_prompt = 'I am conducting a communitcation test. I need you to reply
 const dialogPreview = joplin.views.dialogs.create('joplin.preview.dialog');
 
 export async function load_generation_model(settings: JarvisSettings): Promise<TextGenerationModel> {
-  let model: TextGenerationModel = null;
   console.log(`load_generation_model: ${settings.model}`);
+  let model = create_generation_model(settings);
+  if (model === null) {
+    return model;
+  }
+
+  const fallback_ids = (settings.chat_fallback_models ?? '').split(',')
+    .map(id => id.trim())
+    .filter((id, i, ids) => id && id !== settings.model && id !== 'none' && ids.indexOf(id) === i);
+  if (fallback_ids.length > 0 && settings.model !== 'none') {
+    const members = [model];
+    for (const id of fallback_ids) {
+      const member = create_generation_model(await get_settings(id));
+      if (member) {
+        members.push(member);
+      }
+    }
+    if (members.length > 1) {
+      model = new FallbackGeneration(members);
+    }
+  }
+
+  await model.initialize();
+  return model
+}
+
+// create an (uninitialized) generation model for the chat model setting
+function create_generation_model(settings: JarvisSettings): TextGenerationModel {
+  let model: TextGenerationModel = null;
 
   if (settings.model === 'none') {
     model = new NoOpGeneration(settings);
@@ -311,13 +345,14 @@ export async function load_generation_model(settings: JarvisSettings): Promise<T
   } else if (settings.model.startsWith('gemini')) {
     model = new GeminiGeneration(settings);
 
+  } else if (settings.model === 'ollama') {
+    model = new OllamaGeneration(settings);
+
   } else {
     console.error(`Unknown model: ${settings.model}`);
-    return model;
   }
 
-  await model.initialize();
-  return model
+  return model;
 }
 
 export async function load_embedding_model(settings: JarvisSettings): Promise<TextEmbeddingModel> {
@@ -393,6 +428,14 @@ export async function load_embedding_model(settings: JarvisSettings): Promise<Te
       settings.notes_embed_timeout,
       settings.notes_openai_endpoint);
 
+  } else if (settings.notes_model === 'local') {
+    model = new LocalEmbedding(
+      settings.notes_local_model_id,
+      settings.notes_max_tokens,
+      settings.notes_parallel_jobs,
+      settings.notes_abort_on_error,
+      settings.notes_embed_timeout);
+
   } else {
     console.error(`Unknown model: ${settings.notes_model}`);
     return model;
@@ -402,6 +445,7 @@ export async function load_embedding_model(settings: JarvisSettings): Promise<Te
   if (!settings.notes_embed_path) { model.version += 'p'; }
   if (!settings.notes_embed_heading) { model.version += 'h'; }
   if (!settings.notes_embed_tags) { model.version += 't'; }
+  model.version += get_chunking_version(settings);
 
   // Build platform context for model configuration
   const isMobile = settings.notes_device_platform === 'mobile';
@@ -429,6 +473,7 @@ export async function load_embedding_model(settings: JarvisSettings): Promise<Te
 export class TextEmbeddingModel {
   // embeddings
   public embeddings: BlockEmbedding[] = [];  // in-memory
+  public embeddings_version: number = 0;  // incremented when in-memory embeddings are updated
   public db: any = null;  // file system
   public embedding_version: number = 3;
   public disableModelLoad = false;
@@ -438,6 +483,8 @@ export class TextEmbeddingModel {
 
   // model
   public id: string = null;
+  public provider: string = null;  // usage ledger
+  public usage_command: string = null;  // set by with_usage
   public db_idx: number = null;
   public version: string = null;
   public max_block_size: number = null;
@@ -602,6 +649,8 @@ export class TextEmbeddingModel {
     }
 
     const prepared = this.prepareEmbedding(text, kind);
+    const input_tokens = this.count_tokens(prepared.payload);
+    await check_budget(this.provider, this.id, input_tokens);
 
     await this.limit_rate();
 
@@ -619,7 +668,7 @@ export class TextEmbeddingModel {
             : runner();
 
         embeddingPromise
-            .then(result => {
+            .then(async result => {
                 const vector = result instanceof Float32Array ? result : new Float32Array(result);
                 
                 // DIAGNOSTIC: Check raw API response for invalid values
@@ -671,6 +720,10 @@ export class TextEmbeddingModel {
                 }
                 
                 abortSignal?.removeEventListener('abort', handleAbort);
+                await record_usage({
+                  provider: this.provider, model: this.id, input_tokens, output_tokens: 0,
+                  command: (kind === 'doc') ? 'indexing' : (this.usage_command ?? 'search'),
+                });
                 resolve(normalized);
             })
             .catch(error => {
@@ -681,8 +734,9 @@ export class TextEmbeddingModel {
   }
 
   // estimate the number of tokens in the given text
+  // (chunk boundaries depend on it, so embeddings keep the estimator)
   count_tokens(text: string): number {
-    return estimateTokens(text);
+    return estimate_tokens(text);
   }
 
   // rate limiter
@@ -735,6 +789,7 @@ class USEEmbedding extends TextEmbeddingModel {
     this.version = '1.3.3';
     this.max_block_size = max_tokens;
     this.online = false;
+    this.provider = 'use';
     this.page_size = jobs;
     this.abort_on_error = abort_on_error;
     this.embed_timeout = (timeout_secs > 0) ? timeout_secs * 1000 : 0;
@@ -817,6 +872,7 @@ class HuggingFaceEmbedding extends TextEmbeddingModel {
     this.max_block_size = max_tokens;
     this.endpoint = endpoint;
     this.online = true;
+    this.provider = endpoint_provider('huggingface', this.endpoint);
     this.page_size = jobs;
     this.abort_on_error = abort_on_error;
     this.embed_timeout = (timeout_secs > 0) ? timeout_secs * 1000 : 0;
@@ -925,6 +981,7 @@ class OpenAIEmbedding extends TextEmbeddingModel {
     this.max_block_size = max_tokens;
     this.endpoint = endpoint;
     this.online = true;
+    this.provider = endpoint_provider('openai', endpoint);
     this.page_size = jobs;
     this.abort_on_error = abort_on_error;
     this.embed_timeout = (timeout_secs > 0) ? timeout_secs * 1000 : 0;
@@ -978,6 +1035,7 @@ class GeminiEmbedding extends TextEmbeddingModel {
     this.version = '1';
     this.max_block_size = max_tokens;
     this.online = true;
+    this.provider = 'gemini';
     this.page_size = jobs;
     this.abort_on_error = abort_on_error;
     this.embed_timeout = (timeout_secs > 0) ? timeout_secs * 1000 : 0;
@@ -1033,6 +1091,7 @@ class OllamaEmbedding extends TextEmbeddingModel {
     this.max_block_size = max_tokens;
     this.endpoint = endpoint;
     this.online = true;
+    this.provider = 'ollama';
     this.page_size = jobs;
     this.abort_on_error = abort_on_error;
     this.embed_timeout = (timeout_secs > 0) ? timeout_secs * 1000 : 0;
@@ -1072,21 +1131,89 @@ class OllamaEmbedding extends TextEmbeddingModel {
   }
 }
 
-interface ChatEntry {
+// sentence embedding model that runs in-process (ONNX Runtime on CPU)
+class LocalEmbedding extends TextEmbeddingModel {
+  private pooling: transformers.Pooling = 'mean';
+
+  constructor(id: string, max_tokens: number, jobs: number, abort_on_error: boolean, timeout_secs: number) {
+    super();
+    this.id = id;
+    this.version = '1';
+    this.max_block_size = max_tokens;
+    this.online = false;
+    this.provider = 'local';
+    this.page_size = jobs;
+    this.abort_on_error = abort_on_error;
+    this.embed_timeout = (timeout_secs > 0) ? timeout_secs * 1000 : 0;
+
+    // rate limits
+    this.request_queue = [];  // internal rate limit
+    this.requests_per_second = 100;  // internal rate limit
+    this.last_request_time = 0;  // internal rate limit
+    this.configureAdapter(this.id);
+    // BGE models embed the [CLS] token, other sentence-transformers average the tokens
+    this.pooling = (this.adapterKey === 'bge') ? 'cls' : 'mean';
+  }
+
+  async _load_model() {
+    try {
+      console.log(`Loading local embedding model ${this.id} (the first use downloads it)...`);
+      this.model = await transformers.load_model(this.id);
+      console.log('LocalEmbedding loaded');
+
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      console.error(`LocalEmbedding failed to load: ${errorMessage}`);
+      await joplin.views.dialogs.showMessageBox(
+        `Error: Local embedding model ${this.id} failed to load. ${truncateErrorForDialog(errorMessage)}`
+      );
+      this.model = null;
+    }
+  }
+
+  async _calc_embedding(text: string, _context: EmbedContext): Promise<Float32Array> {
+    if (!this.model) {
+      throw new Error('Model not initialized');
+    }
+
+    return transformers.query_embedding(this.model, text, this.pooling);
+  }
+}
+
+// an image attached to a chat message, for models with vision
+export interface ChatImage {
+  mime: string;  // e.g. 'image/png'
+  data: string;  // base64
+  title?: string;
+}
+
+export interface ChatEntry {
   role: string;
   content: string;
+  images?: ChatImage[];
+}
+
+// model families that accept images (other custom and Ollama models set chat_custom_vision)
+const VISION_MODELS = /^(gpt-4o|gpt-4\.1|gpt-5|chatgpt-4o|o[134]\b|claude-|gemini-|llava|bakllava|llama3\.2-vision|llama4|gemma3|qwen2\.5-?vl|minicpm-v|moondream|granite3\.2-vision|mistral-small3\.[12])/i;
+
+function known_vision_model(id: string): boolean {
+  return VISION_MODELS.test((id ?? '').split('/').pop());
 }
 
 export class TextGenerationModel {
   // model
   public model: any = null;
   public id: string = null;
+  public provider: string = null;  // usage ledger
+  public usage_command: string = null;  // set by with_usage
   public max_tokens: number = null;
   public online: boolean = true;
   public type: string = 'completion';  // this may be used to process the prompt differently
   public temperature: number = 0.5;
   public top_p: number = 1;
-  // Using estimation-only for token counting (simpler, instant, good enough)
+  public native_tools: boolean = false;  // provider-native function calling via _chat_tools
+  public vision: boolean = false;  // accepts image parts in chat messages
+  public interactive: boolean = true;  // offer to retry errors (see FallbackGeneration)
 
   // chat
   public base_chat: Array<ChatEntry> = [];
@@ -1124,7 +1251,13 @@ export class TextGenerationModel {
     await this._load_model();  // model-specific initialization
   }
 
-  async chat(prompt: string, preview: boolean=false, abortSignal?: AbortSignal): Promise<string> {
+  // on_token (optional) streams the reply: it is called with the text
+  // generated so far, and the timeout then applies to gaps between tokens.
+  // images (optional) are attached to the last user message if the model has vision.
+  // context (optional, e.g. retrieved notes) is sent with the system message, before
+  // the conversation turns, so that providers can cache it as a stable prefix
+  async chat(prompt: string, preview: boolean=false, abortSignal?: AbortSignal, on_token?: StreamCallback,
+             images?: ChatImage[], context?: string): Promise<string> {
     if (abortSignal?.aborted) {
       throw new Error('Model chat operation cancelled');
     }
@@ -1132,7 +1265,7 @@ export class TextGenerationModel {
 
     let response = '';
     if (preview) {
-      await this._preview_chat(prompt);
+      await this._preview_chat(prompt, context);
       return;
     }
 
@@ -1143,15 +1276,19 @@ export class TextGenerationModel {
       });
 
       if (this.type === 'chat') {
-        const chat_prompt = this._parse_chat(prompt);
-        timeout_with_retry(this.timeout, () => this._chat(chat_prompt, abortSignal))
+        const chat_prompt = this._add_context(this._parse_chat(prompt, false, this.vision ? images : undefined), context);
+        this._metered(chat_prompt.map(message => message.content).join('\n'),
+          (meter) => timeout_with_retry(this.timeout,
+            (touch) => this._chat(chat_prompt, abortSignal, this._stream_handler(on_token, touch, meter), meter),
+            undefined, { idle: Boolean(on_token), interactive: this.interactive }),
+          (response: string) => response)
           .then(resolve)
           .catch(reject);
       } else {
-        prompt = this._parse_chat(prompt, true).map((message: ChatEntry) => {
+        prompt = this._add_context(this._parse_chat(prompt, true), context, 'Context: ').map((message: ChatEntry) => {
           return `${message.role}${message.content}`;
         }).join('') + this.model_prefix;
-        this.complete(prompt, abortSignal)
+        this.complete(prompt, abortSignal, on_token)
           .then(resolve)
           .catch(reject);
       }
@@ -1160,7 +1297,7 @@ export class TextGenerationModel {
     });
   }
 
-  async complete(prompt: string, abortSignal?: AbortSignal): Promise<string> {
+  async complete(prompt: string, abortSignal?: AbortSignal, on_token?: StreamCallback): Promise<string> {
     if (abortSignal?.aborted) {
       throw new Error('Model completion operation cancelled');
     }
@@ -1172,15 +1309,121 @@ export class TextGenerationModel {
         reject(new Error('Model completion operation cancelled'));
       });
 
-      timeout_with_retry(this.timeout, () => this._complete(prompt, abortSignal))
+      this._metered(prompt,
+        (meter) => timeout_with_retry(this.timeout,
+          (touch) => this._complete(prompt, abortSignal, this._stream_handler(on_token, touch, meter), meter),
+          undefined, { idle: Boolean(on_token), interactive: this.interactive }),
+        (response: string) => response)
         .then(resolve)
         .catch(reject);
     });
   }
 
-  // estimate the number of tokens in the given text
+  // complete a prompt with a JSON value that matches the schema. providers with
+  // a structured output mode enforce the schema (_complete_json); the result is
+  // validated in any case, and an invalid response gets one repair attempt
+  async complete_json<T = any>(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal): Promise<T> {
+    const instruct = `${prompt}\n\nRespond with JSON only (no other text), matching this JSON schema:\n${JSON.stringify(schema)}`;
+
+    let response = await this._json_turn(instruct, schema, abortSignal);
+    let value = extract_json(response);
+    let errors = (value === undefined) ? ['the response is not valid JSON'] : validate_json(value, schema);
+    if (errors.length === 0) {
+      return value as T;
+    }
+
+    // repair: show the model its response and what is wrong with it
+    const repair = `${instruct}\n\nYour previous response was:\n${response}\n\n` +
+      `It is invalid:\n- ${errors.join('\n- ')}\n\nRespond again with corrected JSON only.`;
+    response = await this._json_turn(repair, schema, abortSignal);
+    value = extract_json(response);
+    errors = (value === undefined) ? ['the response is not valid JSON'] : validate_json(value, schema);
+    if (errors.length === 0) {
+      return value as T;
+    }
+    throw new ModelError(`Invalid JSON response: ${errors.slice(0, 3).join('; ')}`);
+  }
+
+  async _json_turn(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal): Promise<string> {
+    if (abortSignal?.aborted) {
+      throw new Error('Model completion operation cancelled');
+    }
+    await this.limit_rate();
+
+    return this._metered(prompt,
+      (meter) => timeout_with_retry(this.timeout, () => this._complete_json(prompt, schema, abortSignal, meter),
+        undefined, { interactive: this.interactive }),
+      (response: string) => response);
+  }
+
+  // one turn of a tool-calling conversation (requires native_tools)
+  async chat_with_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal): Promise<ToolChatTurn> {
+    if (abortSignal?.aborted) {
+      throw new Error('Model chat operation cancelled');
+    }
+    await this.limit_rate();
+
+    const input = messages.map(message => message.content + (message.tool_calls ? JSON.stringify(message.tool_calls) : ''))
+      .concat(tools.length > 0 ? [JSON.stringify(tools)] : []).join('\n');
+    return this._metered(input,
+      (meter) => timeout_with_retry(this.timeout, () => this._chat_tools(messages, tools, abortSignal, meter),
+        undefined, { interactive: this.interactive }),
+      (turn: ToolChatTurn) => turn.content + (turn.tool_calls.length > 0 ? JSON.stringify(turn.tool_calls) : ''));
+  }
+
+  // check the usage budget before a call, and record its tokens in the usage ledger after it.
+  // the provider's token counts are used where it reports them (see UsageMeter), and a call
+  // that fails after the provider processed it (e.g. cancelled while streaming) is recorded too
+  async _metered<T>(input: string, call: (meter: UsageMeter) => Promise<T>, output_of: (result: T) => string): Promise<T> {
+    const input_tokens = this.count_tokens(input);
+    await check_budget(this.provider, this.id, input_tokens);
+    const meter: UsageMeter = {};
+    let output: string = null;
+    try {
+      const result = await call(meter);
+      output = output_of(result) ?? '';
+      return result;
+    } finally {
+      if (output !== null || meter.input_tokens !== undefined || meter.partial_output) {
+        // counts reported before a failure may not cover the output streamed so far
+        const estimated = this.count_tokens(output ?? meter.partial_output ?? '');
+        await record_usage({
+          provider: this.provider, model: this.id, command: this.usage_command ?? 'other',
+          input_tokens: meter.input_tokens ?? input_tokens,
+          output_tokens: (output !== null) ? (meter.output_tokens ?? estimated) : Math.max(meter.output_tokens ?? 0, estimated),
+        });
+      }
+    }
+  }
+
+  // wrap a stream callback so that every token also resets the idle timeout
+  // (and keeps the text streamed so far, to meter a call that fails midway)
+  _stream_handler(on_token: StreamCallback, touch?: () => void, meter?: UsageMeter): StreamCallback {
+    if (!on_token) {
+      return undefined;
+    }
+    return (partial: string) => {
+      touch?.();
+      if (meter) { meter.partial_output = partial; }
+      on_token(partial);
+    };
+  }
+
+  // count the tokens in the given text with the tokenizer of the model family
+  // (exact for OpenAI models, estimated otherwise)
   count_tokens(text: string): number {
-    return estimateTokens(text);
+    return this.tokenizer.count(text);
+  }
+
+  get tokenizer(): Tokenizer {
+    return get_tokenizer(this.id);
+  }
+
+  // exact token count for reporting, with the name of the tokenizer that produced it.
+  // providers with a token counting API override this
+  async count_tokens_exact(text: string): Promise<{ count: number, tokenizer: string, exact: boolean }> {
+    const tokenizer = this.tokenizer;
+    return { count: tokenizer.count(text), tokenizer: tokenizer.name, exact: tokenizer.exact };
   }
 
   // rate limiter
@@ -1196,13 +1439,25 @@ export class TextGenerationModel {
     await request_promise;
   }
 
-  // placeholder method, to be overridden by subclasses
-  async _chat(prompt: ChatEntry[], abortSignal?: AbortSignal): Promise<string> {
+  // placeholder method, to be overridden by subclasses.
+  // subclasses that cannot stream may ignore on_token, and those whose
+  // provider reports no token counts may ignore meter
+  async _chat(prompt: ChatEntry[], abortSignal?: AbortSignal, on_token?: StreamCallback, meter?: UsageMeter): Promise<string> {
     throw new Error('Not implemented');
   }
 
   // placeholder method, to be overridden by subclasses
-  async _complete(prompt: string, abortSignal?: AbortSignal): Promise<string> {
+  async _complete(prompt: string, abortSignal?: AbortSignal, on_token?: StreamCallback, meter?: UsageMeter): Promise<string> {
+    throw new Error('Not implemented');
+  }
+
+  // plain completion by default, overridden by subclasses with a structured output mode
+  async _complete_json(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal, meter?: UsageMeter): Promise<string> {
+    return this._complete(prompt, abortSignal, undefined, meter);
+  }
+
+  // placeholder method, to be overridden by subclasses with native_tools
+  async _chat_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal, meter?: UsageMeter): Promise<ToolChatTurn> {
     throw new Error('Not implemented');
   }
 
@@ -1212,7 +1467,18 @@ export class TextGenerationModel {
   }
 
   // extract chat history from the prompt
-  _parse_chat(text: string, convert_roles_to_names=false): ChatEntry[] {
+  // append a context to the system message of a parsed chat (or start the chat with it)
+  _add_context(chat: ChatEntry[], context?: string, role: string = 'system'): ChatEntry[] {
+    if (!context) {
+      return chat;
+    }
+    if (this.base_chat.length === 0) {
+      return [{role, content: context}, ...chat];
+    }
+    return [{...chat[0], content: `${chat[0].content}\n\n${context}`}, ...chat.slice(1)];
+  }
+
+  _parse_chat(text: string, convert_roles_to_names=false, images?: ChatImage[]): ChatEntry[] {
     const chat: ChatEntry[] = [...this.base_chat];
     if (convert_roles_to_names) {
       chat[0].role = 'Context: ';
@@ -1301,16 +1567,19 @@ export class TextGenerationModel {
       }
     }
 
+    // non-text parts go with the latest user message
+    const last_user = collapsed.map(entry => entry.role).lastIndexOf('user');
+    if (images?.length > 0 && last_user >= 0) {
+      collapsed[last_user] = { ...collapsed[last_user], images };
+    }
+
     return collapsed;
   }
 
-  async _preview_chat(chat: string) {
+  async _preview_chat(chat: string, context?: string) {
     let chat_entries = this._parse_chat(chat);
-    // get the last chat entry
-    const last_entry = chat_entries[chat_entries.length - 1].content.split('User Notes\n===');
-    chat_entries[chat_entries.length - 1].content = last_entry[0];
-    if (last_entry.length > 1) {
-      chat_entries.push({role: 'context', content: 'User notes\n===' + last_entry[1]});
+    if (context) {
+      chat_entries.splice(this.base_chat.length, 0, {role: 'context', content: context});
     }
 
     // const chat_entries = [{role: "assistant", content: chat}]
@@ -1391,6 +1660,7 @@ export class HuggingFaceGeneration extends TextGenerationModel {
       settings.chat_timeout);
     this.endpoint = settings.chat_hf_endpoint;
     this.online = true;
+    this.provider = endpoint_provider('huggingface', this.endpoint);
     this.base_chat = [{role: 'system', content: settings.chat_system_message}];
 
     // rate limits
@@ -1444,8 +1714,9 @@ export class HuggingFaceGeneration extends TextGenerationModel {
       // display error message (truncated for dialog, full message logged)
       const errorMessage = e instanceof Error ? e.message : String(e);
       console.error(`HuggingFaceGeneration error: ${errorMessage}`);
-      const errorHandler = await joplin.views.dialogs.showMessageBox(
-        `Error in HuggingFaceGeneration: ${truncateErrorForDialog(errorMessage)}\nPress OK to retry.`);
+      const errorHandler = await show_retry_dialog(
+        `Error in HuggingFaceGeneration: ${truncateErrorForDialog(errorMessage)}\nPress OK to retry.`, errorMessage,
+        this.interactive);
       // cancel button
       if (errorHandler === 1) {
         throw new ModelError(`HuggingFaceGeneration failed: ${errorMessage}`);
@@ -1494,6 +1765,7 @@ export class OpenAIGeneration extends TextGenerationModel {
     if ((settings.model === 'openai-custom') && (settings.chat_openai_endpoint.length > 0)) {
       this.endpoint = settings.chat_openai_endpoint;
     }
+    this.provider = endpoint_provider('openai', this.endpoint);
 
     // model params
     if (model_id.startsWith('gpt-5')) {
@@ -1505,6 +1777,9 @@ export class OpenAIGeneration extends TextGenerationModel {
     }
     this.frequency_penalty = settings.frequency_penalty;
     this.presence_penalty = settings.presence_penalty;
+    this.native_tools = (type === 'chat');
+    this.vision = (type === 'chat') &&
+      ((settings.model === 'openai-custom' && settings.chat_custom_vision) || known_vision_model(model_id));
 
     // rate limiting
     this.requests_per_second = 10;
@@ -1534,32 +1809,55 @@ export class OpenAIGeneration extends TextGenerationModel {
     }
   }
 
-  async _chat(prompt: ChatEntry[]): Promise<string> {
+  async _chat(prompt: ChatEntry[], abortSignal?: AbortSignal, on_token?: StreamCallback, meter?: UsageMeter): Promise<string> {
     return openai.query_chat(prompt, this.api_key, this.id,
       undefined, this.temperature, this.top_p, this.frequency_penalty,
-      this.presence_penalty, this.endpoint);
+      this.presence_penalty, this.endpoint, on_token, abortSignal, null, meter, this.interactive);
   }
 
-  async _complete(prompt: string): Promise<string> {
+  async _complete(prompt: string, abortSignal?: AbortSignal, on_token?: StreamCallback, meter?: UsageMeter): Promise<string> {
     if (this.type == 'chat') {
-      return this._chat([...this.base_chat, {role: 'user', content: prompt}]);
+      return this._chat([...this.base_chat, {role: 'user', content: prompt}], abortSignal, on_token, meter);
     }
     return await openai.query_completion(prompt, this.api_key, this.id,
       this.max_tokens - this.count_tokens(prompt),
       this.temperature, this.top_p, this.frequency_penalty, this.presence_penalty,
-      this.endpoint);
+      this.endpoint, on_token, abortSignal, meter, this.interactive);
+  }
+
+  async _chat_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal, meter?: UsageMeter): Promise<ToolChatTurn> {
+    return openai.query_chat_tools(messages, tools, this.api_key, this.id,
+      undefined, this.temperature, this.top_p, this.endpoint, abortSignal, null, meter, this.interactive);
+  }
+
+  async _complete_json(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal, meter?: UsageMeter): Promise<string> {
+    if (this.type !== 'chat') {
+      return super._complete_json(prompt, schema, abortSignal, meter);
+    }
+    return openai.query_chat([...this.base_chat, {role: 'user', content: prompt}], this.api_key, this.id,
+      undefined, this.temperature, this.top_p, this.frequency_penalty, this.presence_penalty,
+      this.endpoint, null, abortSignal,
+      { type: 'json_schema', json_schema: { name: 'response', schema: schema, strict: false } }, meter,
+      this.interactive);
   }
 }
 
 export class AnthropicGeneration extends OpenAIGeneration {
+  // native Messages API (with prompt caching), unless a custom OpenAI-compatible endpoint is set
+  private native_api: boolean = false;
+
   constructor(settings: JarvisSettings) {
     super(settings);
     if (this.endpoint == null) {
       this.endpoint = 'https://api.anthropic.com/v1/chat/completions';
     }
+    this.native_api = this.endpoint.startsWith('https://api.anthropic.com/');
 
     // Anthropic models are always chat models
     this.type = 'chat';
+    this.native_tools = true;
+    this.vision = true;
+    this.provider = 'anthropic';
 
     // Rate limiting for Anthropic API
     this.requests_per_second = 10;
@@ -1593,10 +1891,41 @@ export class AnthropicGeneration extends OpenAIGeneration {
     }
   }
 
-  async _chat(prompt: ChatEntry[]): Promise<string> {
+  async _chat(prompt: ChatEntry[], abortSignal?: AbortSignal, on_token?: StreamCallback, meter?: UsageMeter): Promise<string> {
+    if (this.native_api) {
+      return anthropic.query_chat(prompt, this.api_key, this.id,
+        this.max_tokens, this.temperature, this.top_p, on_token, abortSignal, meter, this.interactive);
+    }
     return openai.query_chat(prompt, this.api_key, this.id,
       this.max_tokens, this.temperature, this.top_p, this.frequency_penalty,
-      this.presence_penalty, this.endpoint);
+      this.presence_penalty, this.endpoint, on_token, abortSignal, null, meter, this.interactive);
+  }
+
+  async _chat_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal, meter?: UsageMeter,
+      tool_choice: string = null): Promise<ToolChatTurn> {
+    if (this.native_api) {
+      return anthropic.query_chat_tools(messages, tools, this.api_key, this.id,
+        this.max_tokens, this.temperature, this.top_p, abortSignal, tool_choice, meter, this.interactive);
+    }
+    return openai.query_chat_tools(messages, tools, this.api_key, this.id,
+      this.max_tokens, this.temperature, this.top_p, this.endpoint, abortSignal, tool_choice, meter,
+      this.interactive);
+  }
+
+  // structured output via a forced call to a tool whose input is the schema
+  async _complete_json(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal, meter?: UsageMeter): Promise<string> {
+    // tool inputs must be objects: wrap any other schema
+    const wrap = schema.type !== 'object';
+    const parameters = wrap ? {type: 'object', properties: {result: schema}, required: ['result']} : schema;
+    const turn = await this._chat_tools(
+      [...this.base_chat as ToolChatEntry[], {role: 'user', content: prompt}],
+      [{name: 'respond', description: 'Respond with the requested result.', parameters}],
+      abortSignal, meter, 'respond');
+    const call = turn.tool_calls.find((c) => c.name === 'respond');
+    if (!call) {
+      return turn.content;
+    }
+    return JSON.stringify(wrap ? call.arguments.result : call.arguments);
   }
 }
 
@@ -1621,6 +1950,9 @@ export class GeminiGeneration extends TextGenerationModel {
     // model params
     this.temperature = settings.temperature / 2;
     this.top_p = settings.top_p;
+    this.native_tools = true;
+    this.vision = true;
+    this.provider = 'gemini';
 
     // rate limiting
     this.requests_per_second = 10;
@@ -1652,14 +1984,230 @@ export class GeminiGeneration extends TextGenerationModel {
     }
   }
 
-  async _chat(prompt: ChatEntry[]): Promise<string> {
+  async _chat(prompt: ChatEntry[], abortSignal?: AbortSignal, on_token?: StreamCallback): Promise<string> {
     return google.query_chat(
-      this.model, this.id, prompt, this.temperature, this.top_p);
+      this.model, this.id, prompt, this.temperature, this.top_p, on_token, abortSignal, this.interactive);
   }
 
-  async _complete(prompt: string): Promise<string> {
+  async _complete(prompt: string, abortSignal?: AbortSignal, on_token?: StreamCallback): Promise<string> {
     return google.query_completion(
-      this.model, this.id, prompt, this.temperature, this.top_p);
+      this.model, this.id, prompt, this.temperature, this.top_p, on_token, abortSignal, null, this.interactive);
+  }
+
+  async _chat_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal): Promise<ToolChatTurn> {
+    return google.query_chat_tools(
+      this.model, this.id, messages, tools, this.temperature, this.top_p, abortSignal, this.interactive);
+  }
+
+  // Gemini uses a SentencePiece vocabulary: ask the API for the exact count
+  async count_tokens_exact(text: string): Promise<{ count: number, tokenizer: string, exact: boolean }> {
+    try {
+      const count = await google.count_tokens(this.model, this.id, text);
+      return { count, tokenizer: `${this.id} (countTokens API)`, exact: true };
+    } catch (e) {
+      console.warn(`Gemini token count failed: ${e instanceof Error ? e.message : String(e)}`);
+      return super.count_tokens_exact(text);
+    }
+  }
+
+  async _complete_json(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal): Promise<string> {
+    return google.query_completion(
+      this.model, this.id, prompt, this.temperature, this.top_p, null, abortSignal, schema, this.interactive);
+  }
+}
+
+export class OllamaGeneration extends TextGenerationModel {
+  // model
+  private endpoint: string = null;
+  private num_ctx: number = 0;
+  private keep_alive: string = null;
+  public temperature: number = 0.5;
+  public top_p: number = 1;
+
+  constructor(settings: JarvisSettings) {
+    super(settings.chat_ollama_model_id,
+      settings.max_tokens,
+      'chat',
+      settings.memory_tokens,
+      settings.notes_context_tokens,
+      settings.chat_suffix,
+      settings.chat_prefix,
+      settings.chat_timeout);
+    this.base_chat = [{role: 'system', content: settings.chat_system_message}];
+    this.endpoint = settings.chat_ollama_endpoint;
+
+    // model params
+    this.temperature = settings.temperature;
+    this.top_p = settings.top_p;
+    this.num_ctx = settings.chat_ollama_num_ctx;
+    this.keep_alive = settings.chat_ollama_keep_alive;
+    this.native_tools = true;
+    this.vision = settings.chat_custom_vision || known_vision_model(this.id);
+    this.provider = 'ollama';
+
+    // rate limiting
+    this.requests_per_second = 10;
+    this.last_request_time = 0;
+  }
+
+  async _load_model() {
+    if (!this.id) {
+      // no model selected yet: fall back to the first installed model
+      const models = await ollama.list_models(this.endpoint);
+      if (models.length === 0) {
+        joplin.views.dialogs.showMessageBox(
+          `Please specify an Ollama model in the settings (no models found at ${ollama.ollama_base_url(this.endpoint)})`);
+        this.model = null;
+        return;
+      }
+      this.id = models[0];
+    }
+    this.model = this.id;  // anything other than null
+
+    if (COMM_TEST_ON_LOAD) {
+      try {
+        const response = await this.complete(test_prompt);
+      } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        console.error(`OllamaGeneration failed to load: ${errorMessage}`);
+        await joplin.views.dialogs.showMessageBox(
+          `Error: Ollama generation model failed to load. ${truncateErrorForDialog(errorMessage)}`
+        );
+        this.model = null;
+      }
+    }
+  }
+
+  private get_options(): ollama.OllamaOptions {
+    return {
+      temperature: this.temperature,
+      top_p: this.top_p,
+      num_ctx: this.num_ctx,
+      keep_alive: this.keep_alive,
+    };
+  }
+
+  async _chat(prompt: ChatEntry[], abortSignal?: AbortSignal, on_token?: StreamCallback): Promise<string> {
+    return ollama.query_chat(
+      prompt, this.id, this.endpoint, this.get_options(), on_token, abortSignal, this.interactive);
+  }
+
+  async _complete(prompt: string, abortSignal?: AbortSignal, on_token?: StreamCallback): Promise<string> {
+    return ollama.query_completion(
+      prompt, this.id, this.endpoint, this.get_options(), this.base_chat[0]?.content, on_token, abortSignal,
+      this.interactive);
+  }
+
+  async _chat_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal): Promise<ToolChatTurn> {
+    return ollama.query_chat_tools(
+      messages, tools, this.id, this.endpoint, this.get_options(), abortSignal, this.interactive);
+  }
+
+  async _complete_json(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal): Promise<string> {
+    return ollama.query_chat([...this.base_chat, {role: 'user', content: prompt}],
+      this.id, this.endpoint, {...this.get_options(), format: schema}, null, abortSignal, this.interactive);
+  }
+}
+
+/**
+ * A chain of generation models that are tried in order. A call moves on to
+ * the next model when the current one fails with a ModelError, a rate limit
+ * (HTTP 429), a server error (5xx) or a timeout. The last model in the chain
+ * handles errors interactively (retry dialogs), like a single model.
+ * Chat settings (prefixes, context size, tokenizer) follow the first model.
+ */
+export class FallbackGeneration extends TextGenerationModel {
+  public members: TextGenerationModel[] = [];
+  public answered_by: string = null;  // ID of the model that answered the last call
+
+  constructor(members: TextGenerationModel[]) {
+    const primary = members[0];
+    super(primary.id,
+      primary.max_tokens,
+      primary.type,
+      primary.memory_tokens,
+      primary.context_tokens,
+      primary.user_prefix,
+      primary.model_prefix,
+      primary.timeout / 1000);
+    this.members = members;
+    this.provider = primary.provider;
+    this.base_chat = primary.base_chat;
+    this.temperature = primary.temperature;
+    this.top_p = primary.top_p;
+    this.native_tools = primary.native_tools;
+    this.vision = members.some(member => member.vision);
+  }
+
+  async _load_model() {
+    for (const member of this.members) {
+      await member.initialize();
+    }
+    // models that failed to load (e.g. a missing API key) are skipped
+    const loaded = this.members.filter(member => member.model !== null);
+    if (loaded.length > 0) {
+      this.members = loaded;
+    }
+    this.model = this.members[0].model;
+  }
+
+  async chat(prompt: string, preview: boolean=false, abortSignal?: AbortSignal, on_token?: StreamCallback,
+             images?: ChatImage[], context?: string): Promise<string> {
+    if (preview) {
+      return this.members[0].chat(prompt, preview, abortSignal, on_token, undefined, context);
+    }
+    return this._with_fallback(this.members,
+      (member) => member.chat(prompt, preview, abortSignal, on_token, images, context), abortSignal);
+  }
+
+  async complete(prompt: string, abortSignal?: AbortSignal, on_token?: StreamCallback): Promise<string> {
+    return this._with_fallback(this.members,
+      (member) => member.complete(prompt, abortSignal, on_token), abortSignal);
+  }
+
+  async complete_json<T = any>(prompt: string, schema: JsonSchema, abortSignal?: AbortSignal): Promise<T> {
+    return this._with_fallback(this.members,
+      (member) => member.complete_json<T>(prompt, schema, abortSignal), abortSignal);
+  }
+
+  async chat_with_tools(messages: ToolChatEntry[], tools: ToolSpec[], abortSignal?: AbortSignal): Promise<ToolChatTurn> {
+    const members = this.members.filter(member => member.native_tools);
+    if (members.length === 0) {
+      throw new ModelError('No model in the fallback chain supports tool calling');
+    }
+    return this._with_fallback(members,
+      (member) => member.chat_with_tools(messages, tools, abortSignal), abortSignal);
+  }
+
+  async count_tokens_exact(text: string): Promise<{ count: number, tokenizer: string, exact: boolean }> {
+    return this.members[0].count_tokens_exact(text);
+  }
+
+  async _with_fallback<T>(members: TextGenerationModel[], call: (member: TextGenerationModel) => Promise<T>,
+      abortSignal?: AbortSignal): Promise<T> {
+    for (let i = 0; i < members.length; i++) {
+      const member = members[i];
+      const last = (i === members.length - 1);
+      try {
+        // a view of the member that keeps the usage attribution of this call, and
+        // that leaves the errors of all but the last member to the next member
+        const result = await call(with_values(member, {
+          usage_command: this.usage_command,
+          interactive: last && this.interactive,
+        }));
+        if (this.answered_by !== member.id) {
+          console.info(`FallbackGeneration: ${member.id} answered`);
+        }
+        this.answered_by = member.id;
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (last || abortSignal?.aborted || !(error instanceof ModelError || is_transient_error(message))) {
+          throw error;
+        }
+        console.warn(`FallbackGeneration: ${member.id} failed (${message}), trying ${members[i + 1].id}`);
+      }
+    }
   }
 }
 
@@ -1675,6 +2223,7 @@ export class NoOpGeneration extends TextGenerationModel {
       settings.chat_timeout || 60);
     this.base_chat = [{role: 'system', content: settings.chat_system_message || ''}];
     this.online = false;
+    this.provider = 'none';
     
     // rate limiting - set to high values since we're not making real requests
     this.requests_per_second = 1000;
@@ -1702,6 +2251,7 @@ export class NoOpEmbedding extends TextEmbeddingModel {
     this.id = 'none';
     this.version = 'none-1.0';
     this.online = false;
+    this.provider = 'none';
     this.model = null;  // null so existing guards (model === null) work
     this.disableModelLoad = true;
     this.disableDbLoad = true;
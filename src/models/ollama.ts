@@ -1,5 +1,7 @@
-import { ModelError } from '../utils';
-import type { EmbedContext } from './models';
+import joplin from 'api';
+import { ModelError, show_retry_dialog, truncateErrorForDialog, with_timeout } from '../utils';
+import { parse_tool_arguments, read_event_stream } from './openai';
+import type { ChatEntry, EmbedContext, StreamCallback, ToolCall, ToolChatEntry, ToolChatTurn, ToolSpec } from './models';
 
 export async function query_embedding(input: string, api_key: string, model: string, _abort_on_error: boolean, url: string, _context?: EmbedContext): Promise<Float32Array> {
     // Use the correct field name based on the endpoint
@@ -52,3 +54,234 @@ export async function query_embedding(input: string, api_key: string, model: str
 
     return vec;
   }
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+/** Generation options shared by /api/chat and /api/generate. */
+export interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_ctx?: number;  // context window; 0 / undefined keeps the model default
+  keep_alive?: string;  // how long the model stays loaded, e.g. '5m', '1h', '-1'
+  format?: Record<string, any>;  // JSON schema for structured output
+}
+
+// reduce any configured URL (e.g. http://host:11434/api/chat or .../v1) to the server root
+export function ollama_base_url(url: string): string {
+  const base = (url || DEFAULT_OLLAMA_URL).trim().replace(/\/+$/, '');
+  return base.replace(/\/(api|v1)(\/.*)?$/, '');
+}
+
+function build_body(model: string, options: OllamaOptions, stream: boolean): any {
+  const body: any = {
+    model: model,
+    stream: stream,
+    options: {
+      temperature: options.temperature,
+      top_p: options.top_p,
+    },
+  };
+  if (options.num_ctx > 0) {
+    body.options.num_ctx = options.num_ctx;
+  }
+  if (options.format) {
+    body.format = options.format;
+  }
+  if (options.keep_alive) {
+    body.keep_alive = /^-?\d+$/.test(options.keep_alive) ? parseInt(options.keep_alive) : options.keep_alive;
+  }
+  for (const key of Object.keys(body.options)) {
+    if (body.options[key] === null || body.options[key] === undefined) {
+      delete body.options[key];
+    }
+  }
+  return body;
+}
+
+// POST to an Ollama generation endpoint, streaming NDJSON when on_token is given.
+// extract picks the generated text from a (final or streamed) response object
+async function post_generation(url: string, body: any, extract: (data: any) => string,
+    on_token: StreamCallback, abort_signal: AbortSignal): Promise<string> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: abort_signal ?? undefined,
+  });
+
+  if (response.ok && on_token) {
+    const text = await read_event_stream(response, extract, on_token);
+    if (!text) {
+      throw new Error('Empty streamed response');
+    }
+    return text;
+  }
+
+  const responseText = await response.text();
+  let data: any = null;
+  try {
+    data = responseText ? JSON.parse(responseText) : null;
+  } catch (_jsonError) {
+    data = null;
+  }
+  if (response.ok && extract(data)) {
+    return extract(data);
+  }
+  const detail = (typeof data?.error === 'string' ? data.error : null) || responseText.trim() || 'Unknown error';
+  throw new Error(response.ok ? detail : `HTTP ${response.status}: ${detail}`);
+}
+
+// get the next response for a chat formatted *input prompt* from /api/chat
+export async function query_chat(prompt: ChatEntry[], model: string,
+    url: string, options: OllamaOptions, on_token: StreamCallback = null, abort_signal: AbortSignal = null,
+    interactive: boolean = true): Promise<string> {
+  try {
+    return await post_generation(`${ollama_base_url(url)}/api/chat`,
+      { ...build_body(model, options, Boolean(on_token)), messages: prompt.map(to_ollama_chat_message) },
+      (data) => data?.message?.content, on_token, abort_signal);
+
+  } catch (e) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Ollama chat error: ${message}`);
+    const errorHandler = await show_retry_dialog(
+      `Ollama Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`, message, interactive);
+
+    // cancel button
+    if (errorHandler === 1) {
+      throw new ModelError(`Ollama chat failed: ${message}`);
+    }
+
+    // retry
+    return await query_chat(prompt, model, url, options, on_token, abort_signal, interactive);
+  }
+}
+
+// get the next turn of a tool-calling conversation from /api/chat (native tool support)
+export async function query_chat_tools(messages: ToolChatEntry[], tools: ToolSpec[], model: string,
+    url: string, options: OllamaOptions, abort_signal: AbortSignal = null, interactive: boolean = true): Promise<ToolChatTurn> {
+  try {
+    const body = {
+      ...build_body(model, options, false),
+      messages: messages.map(to_ollama_message),
+      tools: tools.length > 0 ? tools.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      })) : undefined,
+    };
+    const response = await fetch(`${ollama_base_url(url)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: abort_signal ?? undefined,
+    });
+    const data = await response.json();
+    if (!response.ok || !data?.message) {
+      throw new Error(typeof data?.error === 'string' ? data.error : `HTTP ${response.status}`);
+    }
+    const tool_calls: ToolCall[] = (data.message.tool_calls ?? [])
+      .filter((call: any) => call?.function?.name)
+      .map((call: any, i: number) => ({
+        id: call.id ?? `call_${i}`,
+        name: call.function.name,
+        arguments: parse_tool_arguments(call.function.arguments),
+      }));
+    return { content: data.message.content ?? '', tool_calls };
+
+  } catch (e) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Ollama tool chat error: ${message}`);
+    const errorHandler = await show_retry_dialog(
+      `Ollama Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`, message, interactive);
+
+    // cancel button
+    if (errorHandler === 1) {
+      throw new ModelError(`Ollama chat failed: ${message}`);
+    }
+
+    // retry
+    return await query_chat_tools(messages, tools, model, url, options, abort_signal, interactive);
+  }
+}
+
+// images are sent as a list of base64 strings
+function to_ollama_chat_message(entry: ChatEntry): any {
+  if (!entry.images?.length) {
+    return { role: entry.role, content: entry.content };
+  }
+  return { role: entry.role, content: entry.content, images: entry.images.map((image) => image.data) };
+}
+
+function to_ollama_message(entry: ToolChatEntry): any {
+  if (entry.role === 'tool') {
+    return { role: 'tool', content: entry.content, tool_name: entry.name };
+  }
+  if (entry.tool_calls?.length > 0) {
+    return {
+      role: 'assistant',
+      content: entry.content ?? '',
+      tool_calls: entry.tool_calls.map((call) => ({
+        function: { name: call.name, arguments: call.arguments ?? {} },
+      })),
+    };
+  }
+  return { role: entry.role, content: entry.content };
+}
+
+// get the next response for a completion for *arbitrary string prompt* from /api/generate
+export async function query_completion(prompt: string, model: string, url: string, options: OllamaOptions,
+    system: string = null, on_token: StreamCallback = null, abort_signal: AbortSignal = null,
+    interactive: boolean = true): Promise<string> {
+  try {
+    const body = { ...build_body(model, options, Boolean(on_token)), prompt: prompt };
+    if (system) {
+      body.system = system;
+    }
+    return await post_generation(`${ollama_base_url(url)}/api/generate`,
+      body, (data) => data?.response, on_token, abort_signal);
+
+  } catch (e) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model completion operation cancelled');
+    }
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Ollama completion error: ${message}`);
+    const errorHandler = await show_retry_dialog(
+      `Ollama Error: ${truncateErrorForDialog(message)}\nPress OK to retry.`, message, interactive);
+
+    // cancel button
+    if (errorHandler === 1) {
+      throw new ModelError(`Ollama completion failed: ${message}`);
+    }
+
+    // retry
+    return await query_completion(prompt, model, url, options, system, on_token, abort_signal, interactive);
+  }
+}
+
+/**
+ * List the models installed on an Ollama server (/api/tags).
+ * Returns an empty list when the server is unreachable, so callers can
+ * fall back to a manually entered model ID.
+ */
+export async function list_models(url: string, timeout_ms: number = 3000): Promise<string[]> {
+  try {
+    const response = await with_timeout(timeout_ms, fetch(`${ollama_base_url(url)}/api/tags`));
+    if (!response.ok) {
+      return [];
+    }
+    const data = await response.json();
+    return (data?.models ?? [])
+      .map((entry: any) => entry?.name ?? entry?.model)
+      .filter((name: any) => typeof name === 'string' && name.length > 0)
+      .sort();
+  } catch (error) {
+    console.debug(`Ollama model list unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
@@ -1,6 +1,8 @@
 import joplin from 'api';
-import { ModelError, truncateErrorForDialog } from '../utils';
-import type { EmbedContext } from './models';
+import { ModelError, show_retry_dialog, truncateErrorForDialog } from '../utils';
+import { createHash } from '../utils/crypto';
+import type { ChatEntry, EmbedContext, StreamCallback, ToolCall, ToolChatEntry, ToolChatTurn, ToolSpec } from './models';
+import type { UsageMeter } from './usage';
 
 function buildHeaders(api_key: string, url: string): Record<string, string> {
   const headers: Record<string, string> = {
@@ -30,10 +32,15 @@ function buildHeaders(api_key: string, url: string): Record<string, string> {
   return headers;
 }
 
-// get the next response for a chat formatted *input prompt* from a *chat model*
-export async function query_chat(prompt: Array<{role: string; content: string;}>,
+// get the next response for a chat formatted *input prompt* from a *chat model*.
+// when on_token is given the response is streamed (SSE) and reported as it arrives.
+// response_format requests structured output (e.g. a json_schema).
+// meter receives the token counts reported in the response
+export async function query_chat(prompt: ChatEntry[],
     api_key: string, model: string, max_tokens: number, temperature: number, top_p: number,
-    frequency_penalty: number, presence_penalty: number, custom_url: string=null): Promise<string> {
+    frequency_penalty: number, presence_penalty: number, custom_url: string=null,
+    on_token: StreamCallback=null, abort_signal: AbortSignal=null, response_format: any=null,
+    meter: UsageMeter=null, interactive: boolean=true): Promise<string> {
 
   let url = '';
   if (custom_url) {
@@ -42,13 +49,21 @@ export async function query_chat(prompt: Array<{role: string; content: string;}>
     url = 'https://api.openai.com/v1/chat/completions';
   }
   let params: any = {
-    messages: prompt,
+    messages: prompt.map(to_openai_chat_message),
     model: model,
     max_tokens: max_tokens,
     temperature: temperature,
     top_p: top_p,
     frequency_penalty: frequency_penalty,
     presence_penalty: presence_penalty,
+    response_format: response_format,
+    prompt_cache_key: is_openai_url(url) ? prompt_cache_key(prompt) : null,
+  }
+  if (on_token) {
+    params.stream = true;
+    if (is_openai_url(url)) {
+      params.stream_options = { include_usage: true };  // a final event with the usage
+    }
   }
   for (const key of Object.keys(params)) {
     if (params[key] === null || params[key] === undefined) {
@@ -63,8 +78,21 @@ export async function query_chat(prompt: Array<{role: string; content: string;}>
       method: 'POST',
       headers: buildHeaders(api_key, url),
       body: JSON.stringify(params),
+      signal: abort_signal ?? undefined,
     });
 
+    // output streamed response (servers that ignore `stream` fall through to JSON)
+    if (on_token && response.ok && isEventStream(response)) {
+      const text = await read_event_stream(response, (event) => {
+        read_usage(model, event?.usage, meter);
+        return event?.choices?.[0]?.delta?.content;
+      }, on_token);
+      if (text) {
+        return text;
+      }
+      throw new Error('Empty streamed response');
+    }
+
     const responseText = await response.text();
 
     try {
@@ -77,21 +105,24 @@ export async function query_chat(prompt: Array<{role: string; content: string;}>
 
     // output response
     if (response.ok && data?.choices?.[0]?.message?.content) {
+      read_usage(model, data.usage, meter);
       return data.choices[0].message.content;
     }
 
     error_message = extractResponseError(response, responseText, data);
 
   } catch (error) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
     // Network failure, aborted fetch, etc. (no response object available)
     error_message = normalizeErrorMessage(error);
   }
 
   // display error message (truncated for dialog, full message logged)
   console.error(`OpenAI chat error: ${error_message}`);
-  const errorHandler = await joplin.views.dialogs.showMessageBox(
-    `Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`
-    );
+  const errorHandler = await show_retry_dialog(
+    `Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`, error_message, interactive);
 
   // cancel button
   if (errorHandler === 1) {
@@ -119,13 +150,174 @@ export async function query_chat(prompt: Array<{role: string; content: string;}>
 
   // retry
   return await query_chat(prompt, api_key, model, max_tokens, temperature, top_p,
-    frequency_penalty, presence_penalty, custom_url);
+    frequency_penalty, presence_penalty, custom_url, on_token, abort_signal, response_format, meter, interactive);
+}
+
+// get the next turn of a tool-calling conversation from a *chat model*, using
+// the provider's native function calling. the reply may request tool calls.
+// tool_choice forces a call to the named tool
+export async function query_chat_tools(messages: ToolChatEntry[], tools: ToolSpec[],
+    api_key: string, model: string, max_tokens: number, temperature: number, top_p: number,
+    custom_url: string=null, abort_signal: AbortSignal=null, tool_choice: string=null,
+    meter: UsageMeter=null, interactive: boolean=true): Promise<ToolChatTurn> {
+
+  const url = custom_url ? custom_url : 'https://api.openai.com/v1/chat/completions';
+  let params: any = {
+    messages: messages.map(to_openai_message),
+    model: model,
+    tools: tools.length > 0 ? tools.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })) : null,
+    tool_choice: tool_choice ? { type: 'function', function: { name: tool_choice } } : null,
+    max_tokens: max_tokens,
+    temperature: temperature,
+    top_p: top_p,
+    prompt_cache_key: is_openai_url(url) ? prompt_cache_key(messages) : null,
+  }
+  for (const key of Object.keys(params)) {
+    if (params[key] === null || params[key] === undefined) {
+      delete params[key];
+    }
+  }
+
+  let error_message: string | null = null;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: buildHeaders(api_key, url),
+      body: JSON.stringify(params),
+      signal: abort_signal ?? undefined,
+    });
+    const responseText = await response.text();
+
+    let data = null;
+    try {
+      data = responseText ? JSON.parse(responseText) : null;
+    } catch (_jsonError) {
+      data = null;
+    }
+
+    const message = data?.choices?.[0]?.message;
+    if (response.ok && message) {
+      read_usage(model, data.usage, meter);
+      const tool_calls: ToolCall[] = (message.tool_calls ?? [])
+        .filter((call: any) => call?.function?.name)
+        .map((call: any, i: number) => ({
+          id: call.id ?? `call_${i}`,
+          name: call.function.name,
+          arguments: parse_tool_arguments(call.function.arguments),
+        }));
+      return { content: message.content ?? '', tool_calls };
+    }
+
+    error_message = extractResponseError(response, responseText, data);
+
+  } catch (error) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model chat operation cancelled');
+    }
+    error_message = normalizeErrorMessage(error);
+  }
+
+  // display error message (truncated for dialog, full message logged)
+  console.error(`OpenAI tool chat error: ${error_message}`);
+  const errorHandler = await show_retry_dialog(
+    `Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`, error_message, interactive);
+
+  // cancel button
+  if (errorHandler === 1) {
+    throw new ModelError(`OpenAI chat failed: ${error_message}`);
+  }
+
+  // retry
+  return await query_chat_tools(messages, tools, api_key, model, max_tokens,
+    temperature, top_p, custom_url, abort_signal, tool_choice, meter, interactive);
+}
+
+/**
+ * OpenAI caches prompt prefixes automatically (1024+ tokens). Requests are
+ * built with the stable parts first (system message, earlier turns and tool
+ * results, then the current turn), and share a cache key per conversation
+ * (its opening messages) so that they are routed to the same cache.
+ */
+function prompt_cache_key(messages: { role: string, content: string }[]): string {
+  const opening = messages.filter((entry) => entry.role !== 'assistant' && entry.role !== 'tool').slice(0, 2);
+  return 'jarvis-' + createHash('md5').update(opening.map((entry) => entry.content).join('\n')).digest('hex');
+}
+
+// the official API (other compatible servers may reject its cache parameters)
+function is_openai_url(url: string): boolean {
+  return url.startsWith('https://api.openai.com/');
+}
+
+// the token counts of a response (and its prompt cache hits, for debugging)
+function read_usage(model: string, usage: any, meter: UsageMeter) {
+  if (!usage?.prompt_tokens) {
+    return;
+  }
+  if (meter) {
+    meter.input_tokens = usage.prompt_tokens;
+    meter.output_tokens = usage.completion_tokens ?? meter.output_tokens;
+  }
+  console.debug(`OpenAI prompt cache (${model}): ${usage.prompt_tokens_details?.cached_tokens ?? 0} ` +
+    `of ${usage.prompt_tokens} input tokens read from the cache`);
+}
+
+// images are sent as data URLs in content parts (also accepted by Anthropic's compatible endpoint)
+function to_openai_chat_message(entry: ChatEntry): any {
+  if (!entry.images?.length) {
+    return { role: entry.role, content: entry.content };
+  }
+  return {
+    role: entry.role,
+    content: [
+      { type: 'text', text: entry.content },
+      ...entry.images.map((image) => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mime};base64,${image.data}` },
+      })),
+    ],
+  };
+}
+
+function to_openai_message(entry: ToolChatEntry): any {
+  if (entry.role === 'tool') {
+    return { role: 'tool', tool_call_id: entry.tool_call_id, content: entry.content };
+  }
+  if (entry.tool_calls?.length > 0) {
+    return {
+      role: 'assistant',
+      content: entry.content || null,
+      tool_calls: entry.tool_calls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+      })),
+    };
+  }
+  return { role: entry.role, content: entry.content };
+}
+
+// tool arguments arrive as a JSON string (OpenAI) or an object (Ollama)
+export function parse_tool_arguments(args: any): Record<string, any> {
+  if (args && typeof args === 'object') {
+    return args;
+  }
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return (parsed && typeof parsed === 'object') ? parsed : {};
+  } catch (_jsonError) {
+    return {};
+  }
 }
 
 // get the next response for a completion for *arbitrary string prompt* from a any model
 export async function query_completion(prompt: string, api_key: string,
     model: string, max_tokens: number, temperature: number, top_p: number,
-    frequency_penalty: number, presence_penalty: number, custom_url: string=null): Promise<string> {
+    frequency_penalty: number, presence_penalty: number, custom_url: string=null,
+    on_token: StreamCallback=null, abort_signal: AbortSignal=null, meter: UsageMeter=null,
+    interactive: boolean=true): Promise<string> {
 
   let url = '';
   if (custom_url) {
@@ -142,6 +334,9 @@ export async function query_completion(prompt: string, api_key: string,
     frequency_penalty: frequency_penalty,
     presence_penalty: presence_penalty,
   }
+  if (on_token) {
+    params.stream = true;
+  }
   for (const key of Object.keys(params)) {
     if (params[key] === null || params[key] === undefined) {
       delete params[key];
@@ -155,8 +350,18 @@ export async function query_completion(prompt: string, api_key: string,
       method: 'POST',
       headers: buildHeaders(api_key, url),
       body: JSON.stringify(params),
+      signal: abort_signal ?? undefined,
     });
 
+    if (on_token && response.ok && isEventStream(response)) {
+      const text = await read_event_stream(response,
+        (event) => event?.choices?.[0]?.text ?? event?.choices?.[0]?.delta?.content, on_token);
+      if (text) {
+        return text;
+      }
+      throw new Error('Empty streamed response');
+    }
+
     const responseText = await response.text();
 
     try {
@@ -167,24 +372,28 @@ export async function query_completion(prompt: string, api_key: string,
 
     // output completion (legacy completions endpoint)
     if (response.ok && data?.choices?.[0]?.text) {
+      read_usage(model, data.usage, meter);
       return data.choices[0].text;
     }
     // output completion (chat-style response routed through the completions path)
     if (response.ok && data?.choices?.[0]?.message?.content) {
+      read_usage(model, data.usage, meter);
       return data.choices[0].message.content;
     }
 
     error_message = extractResponseError(response, responseText, data);
 
   } catch (error) {
+    if (abort_signal?.aborted) {
+      throw new ModelError('Model completion operation cancelled');
+    }
     error_message = normalizeErrorMessage(error);
   }
 
   // display error message (truncated for dialog, full message logged)
   console.error(`OpenAI completion error: ${error_message}`);
-  const errorHandler = await joplin.views.dialogs.showMessageBox(
-    `Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`
-    );
+  const errorHandler = await show_retry_dialog(
+    `Error: ${truncateErrorForDialog(error_message)}\nPress OK to retry.`, error_message, interactive);
 
   // cancel button
   if (errorHandler === 1) {
@@ -213,7 +422,99 @@ export async function query_completion(prompt: string, api_key: string,
 
   // retry
   return await query_completion(prompt, api_key, model, max_tokens,
-    temperature, top_p, frequency_penalty, presence_penalty, custom_url);
+    temperature, top_p, frequency_penalty, presence_penalty, custom_url,
+    on_token, abort_signal, meter, interactive);
+}
+
+export function isEventStream(response: Response): boolean {
+  const contentType = response.headers.get('content-type') || '';
+  return contentType.includes('text/event-stream') || contentType.includes('application/x-ndjson');
+}
+
+/**
+ * Consume a streamed response body and return the full generated text.
+ *
+ * Accepts both server-sent events (`data: {...}` lines, terminated by
+ * `data: [DONE]`) and newline-delimited JSON (one object per line, as
+ * used by Ollama). Each parsed event is passed to extract_delta, and the
+ * text accumulated so far is reported through on_token after every
+ * non-empty delta. Error events raise a ModelError.
+ *
+ * Some runtimes (older mobile WebViews) expose no readable body stream;
+ * there the whole body is read at once and parsed the same way, so the
+ * caller still gets a complete answer, just without incremental updates.
+ */
+export async function read_event_stream(
+    response: Response,
+    extract_delta: (event: any) => string | undefined | null,
+    on_token: StreamCallback): Promise<string> {
+
+  let text = '';
+  let done = false;
+
+  const handle_line = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(':') ||
+        trimmed.startsWith('event:') || trimmed.startsWith('id:') || trimmed.startsWith('retry:')) {
+      return;
+    }
+    const payload = trimmed.startsWith('data:') ? trimmed.slice(5).trim() : trimmed;
+    if (payload === '[DONE]') {
+      done = true;
+      return;
+    }
+    let event: any = null;
+    try {
+      event = JSON.parse(payload);
+    } catch (_jsonError) {
+      return;  // partial or non-JSON keep-alive line
+    }
+    const upstream_error = event?.type === 'error' || event?.error ? pickStructuredError(event) : null;
+    if (upstream_error) {
+      throw new ModelError(upstream_error);
+    }
+    const delta = extract_delta(event);
+    if (typeof delta === 'string' && delta.length > 0) {
+      text += delta;
+      on_token(text);
+    }
+  };
+
+  const reader = response.body?.getReader?.();
+  if (!reader) {
+    for (const line of (await response.text()).split('\n')) {
+      handle_line(line);
+      if (done) { break; }
+    }
+    return text;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (!done) {
+      const { value, done: stream_done } = await reader.read();
+      if (stream_done) { break; }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+      for (const line of lines) {
+        handle_line(line);
+        if (done) { break; }
+      }
+    }
+    if (!done && buffer) {
+      handle_line(buffer);
+    }
+  } finally {
+    if (done) {
+      // stop reading once the server signalled the end of the stream
+      reader.cancel().catch(() => {});
+    }
+    reader.releaseLock?.();
+  }
+
+  return text;
 }
 
 // Maximum length of a raw response body included in user-facing error
@@ -235,7 +536,7 @@ const RAW_BODY_SNIPPET_MAX = 500;
  * or rewrite the upstream message — most reports still need a back and
  * forth, this just shortens the loop.
  */
-function extractResponseError(response: Response, responseText: string, data: any): string {
+export function extractResponseError(response: Response, responseText: string, data: any): string {
   const parts: string[] = [];
 
   if (!response.ok) {
@@ -308,7 +609,7 @@ function pickStructuredError(data: any): string | null {
   return null;
 }
 
-function normalizeErrorMessage(error: any): string {
+export function normalizeErrorMessage(error: any): string {
   if (!error) {
     return 'Unknown error';
   }
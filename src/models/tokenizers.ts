@@ -0,0 +1,142 @@
+/**
+ * Tokenizer registry for generation models.
+ *
+ * Maps a model ID to the tokenizer of its family: exact BPE tables for
+ * OpenAI models (o200k_base, cl100k_base), an estimator calibrated on the
+ * SentencePiece vocabulary of Gemini / Gemma, and a generic estimator for
+ * everything else (e.g. Claude, whose tokenizer is not public). BPE tables
+ * are loaded on first use and shared between models. Providers that expose
+ * a token counting API (e.g. Gemini) report exact counts through
+ * TextGenerationModel.count_tokens_exact.
+ */
+import type { Tiktoken } from 'js-tiktoken/lite';
+
+export interface Tokenizer {
+  name: string;  // e.g. 'o200k_base', 'estimate'
+  exact: boolean;  // false for estimators
+  count(text: string): number;
+}
+
+type TokenizerEntry = {
+  pattern: RegExp;  // matched against the model ID (without a provider/ prefix)
+  factory: () => Tokenizer;
+};
+
+const registry: TokenizerEntry[] = [];
+const by_model = new Map<string, Tokenizer>();
+const bpe_cache = new Map<string, Tokenizer>();
+
+/**
+ * Register a tokenizer for a model family. Later registrations take
+ * precedence, so a specific family can override a built-in one.
+ */
+export function register_tokenizer(pattern: RegExp, factory: () => Tokenizer): void {
+  registry.unshift({ pattern, factory });
+  by_model.clear();
+}
+
+/** Get the tokenizer for a model ID (cached). Falls back to the estimator. */
+export function get_tokenizer(model_id: string): Tokenizer {
+  const key = model_id ?? '';
+  let tokenizer = by_model.get(key);
+  if (tokenizer) { return tokenizer; }
+
+  const family = key.split('/').pop().toLowerCase();
+  const entry = registry.find(e => e.pattern.test(family));
+  try {
+    tokenizer = entry ? entry.factory() : DEFAULT_ESTIMATOR;
+  } catch (error) {
+    console.warn(`Tokenizer for ${model_id} unavailable, using estimation: ${error}`);
+    tokenizer = DEFAULT_ESTIMATOR;
+  }
+  by_model.set(key, tokenizer);
+  return tokenizer;
+}
+
+/**
+ * Estimate the number of tokens from character counts.
+ * Calibrated on BPE tokenizers:
+ * - ASCII/English: ~4 chars per token
+ * - Mixed case with punctuation: ~3.5 chars per token
+ * - Unicode/CJK: ~2-3 chars per token
+ * - Code: ~3 chars per token
+ */
+export function estimate_tokens(text: string): number {
+  if (!text) return 0;
+
+  const hasUnicode = /[^\x00-\x7F]/.test(text);
+  const hasCJK = /[一-鿿぀-ゟ゠-ヿ]/.test(text);
+  const punctuationRatio = (text.match(/[.,:;!?(){}[\]"'`]/g) || []).length / text.length;
+
+  let charsPerToken = 4.0;
+
+  if (hasCJK) {
+    // CJK characters are typically 2-3 chars per token
+    charsPerToken = 2.5;
+  } else if (hasUnicode) {
+    // Other Unicode is typically 3-3.5 chars per token
+    charsPerToken = 3.2;
+  } else if (punctuationRatio > 0.1) {
+    // Heavy punctuation (like code) is ~3-3.5 chars per token
+    charsPerToken = 3.5;
+  }
+
+  return Math.ceil(text.length / charsPerToken);
+}
+
+/**
+ * Estimate the number of Gemini / Gemma tokens (SentencePiece, 256k
+ * vocabulary shared by both families). Characters per token by script,
+ * measured with the Gemma vocabulary:
+ * - Latin prose (incl. accented languages): ~4.2
+ * - Code and punctuation-heavy text: ~3.4
+ * - Cyrillic: ~4.0
+ * - Hebrew / Arabic: ~2.5
+ * - CJK / Hangul: ~1.7
+ * On 1.5k-character samples of English docs, TypeScript code and six other
+ * languages, 90% of the estimates were between 20% below and 30% above the
+ * exact count, and the mean error was below 10%.
+ */
+export function estimate_gemini_tokens(text: string): number {
+  if (!text) return 0;
+
+  const cjk = (text.match(/[\u3000-\u30ff\u3400-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  const rtl = (text.match(/[\u0590-\u06ff]/g) || []).length;
+  const cyrillic = (text.match(/[\u0400-\u04ff]/g) || []).length;
+  const other = text.length - cjk - rtl - cyrillic;
+  const punctuationRatio = (text.match(/[.,:;!?(){}[\]"'`=<>\/*+-]/g) || []).length / text.length;
+
+  return Math.ceil(cjk / 1.7 + rtl / 2.5 + cyrillic / 4.0 + other / (punctuationRatio > 0.08 ? 3.4 : 4.2));
+}
+
+function estimator(name: string, count: (text: string) => number): Tokenizer {
+  return { name, exact: false, count };
+}
+
+// ranks are required lazily: each table is a few MB once parsed
+function bpe(name: string, load_ranks: () => any): () => Tokenizer {
+  return () => {
+    if (!bpe_cache.has(name)) {
+      const { Tiktoken: TiktokenClass } = require('js-tiktoken/lite');
+      const ranks = load_ranks();
+      const encoder: Tiktoken = new TiktokenClass(ranks.default ?? ranks);  // CommonJS or ES module build
+      bpe_cache.set(name, {
+        name,
+        exact: true,
+        count: (text: string) => text ? encoder.encode(text, [], []).length : 0,
+      });
+    }
+    return bpe_cache.get(name);
+  };
+}
+
+const DEFAULT_ESTIMATOR = estimator('estimate', estimate_tokens);
+const GEMINI_ESTIMATOR = estimator('estimate (gemini)', estimate_gemini_tokens);
+
+// built-in families, most specific first
+register_tokenizer(/.*/, () => DEFAULT_ESTIMATOR);
+register_tokenizer(/^(gemini|gemma)/, () => GEMINI_ESTIMATOR);
+register_tokenizer(/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/,
+  bpe('cl100k_base', () => require('js-tiktoken/ranks/cl100k_base')));
+register_tokenizer(/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt|o1|o3|o4)/,
+  bpe('o200k_base', () => require('js-tiktoken/ranks/o200k_base')));
@@ -0,0 +1,134 @@
+import joplin from 'api';
+import { ModelError } from '../utils';
+
+/**
+ * In-process embedding and reranking models (ONNX Runtime on CPU, via transformers.js).
+ *
+ * Model files are downloaded once from the Hugging Face Hub and kept in the
+ * plugin data dir, under models/<model ID>/ (e.g. models/Xenova/bge-small-en-v1.5/
+ * with config.json, tokenizer.json, tokenizer_config.json and onnx/model_quantized.onnx).
+ * Files placed there manually are used as is, without going online.
+ * The ONNX Runtime WebAssembly binaries ship with the plugin (dist/onnx).
+ */
+
+type Transformers = typeof import('@huggingface/transformers');
+export type FeatureExtractor = import('@huggingface/transformers').FeatureExtractionPipeline;
+export type Pooling = 'mean' | 'cls';
+
+// lazy loading, as with TensorFlow.js: only needed when a local model is selected
+let transformers: Transformers | null = null;
+async function load_transformers(): Promise<Transformers> {
+  if (!transformers) {
+    const module = await import('@huggingface/transformers');
+    const env = module.env;
+    env.allowLocalModels = false;  // resolved by the cache below instead
+    env.useBrowserCache = false;
+    env.useCustomCache = true;
+    env.customCache = model_file_cache(`${await joplin.plugins.dataDir()}/models`);
+
+    const install_dir = (await joplin.plugins.installationDir()).replace(/\\/g, '/');
+    env.backends.onnx.wasm.wasmPaths = `file://${install_dir.startsWith('/') ? '' : '/'}${install_dir}/onnx/`;
+    env.backends.onnx.wasm.numThreads = 1;
+    transformers = module;
+  }
+  return transformers;
+}
+
+/**
+ * A Web Cache API-like store for transformers.js that maps Hub URLs
+ * (https://huggingface.co/<model ID>/resolve/<revision>/<file>) to
+ * files under models_dir/<model ID>/<file>.
+ */
+function model_file_cache(models_dir: string) {
+  const fs = joplin.require('fs-extra');
+  const file_of = (key: string): string | null => {
+    const match = String(key).match(/^https?:\/\/[^/]+\/(.+?)\/resolve\/[^/]+\/(.+)$/);
+    return match ? `${models_dir}/${decodeURIComponent(match[1])}/${match[2]}` : null;
+  };
+
+  return {
+    async match(key: string): Promise<Response | undefined> {
+      const path = file_of(key);
+      if (!path || !(await fs.pathExists(path))) {
+        return undefined;
+      }
+      return new Response(await fs.readFile(path));
+    },
+    async put(key: string, response: Response): Promise<void> {
+      const path = file_of(key);
+      if (!path) {
+        return;
+      }
+      await fs.outputFile(path, Buffer.from(await response.arrayBuffer()));
+    },
+  };
+}
+
+// load a feature extraction pipeline (downloads the model files on first use)
+export async function load_model(model_id: string): Promise<FeatureExtractor> {
+  // (the generic signature of pipeline() is too complex for the type checker)
+  const pipeline = (await load_transformers()).pipeline as
+    (task: 'feature-extraction', model: string, options: object) => Promise<FeatureExtractor>;
+  let last_report = 0;
+  return await pipeline('feature-extraction', model_id, {
+    dtype: 'q8',
+    device: 'wasm',
+    progress_callback: (info: any) => {
+      if (info?.status === 'progress' && Date.now() - last_report > 5000) {
+        last_report = Date.now();
+        console.log(`Downloading ${info.file} of ${model_id}: ${Math.round(info.progress ?? 0)}%`);
+      }
+    },
+  });
+}
+
+// a cross-encoder scores (query, passage) pairs jointly, e.g. Xenova/ms-marco-MiniLM-L-6-v2
+export type CrossEncoder = {
+  tokenizer: import('@huggingface/transformers').PreTrainedTokenizer;
+  model: import('@huggingface/transformers').PreTrainedModel;
+};
+
+export async function load_cross_encoder(model_id: string): Promise<CrossEncoder> {
+  const { AutoTokenizer, AutoModelForSequenceClassification } = await load_transformers();
+  return {
+    tokenizer: await AutoTokenizer.from_pretrained(model_id),
+    model: await AutoModelForSequenceClassification.from_pretrained(model_id, { dtype: 'q8', device: 'wasm' }),
+  };
+}
+
+// relevance of each passage to the query (logits of the first label; higher is better)
+export async function score_pairs(encoder: CrossEncoder, query: string, passages: string[]): Promise<number[]> {
+  if (passages.length === 0) {
+    return [];
+  }
+  try {
+    const inputs = encoder.tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await encoder.model(inputs);
+    const [rows, labels] = logits.dims;
+    const data = logits.data as Float32Array;
+    return Array.from({ length: rows }, (_, i) => data[i * labels]);
+
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    const error = new ModelError(`Local reranking failed: ${message}`);
+    (error as any).cause = e;
+    throw error;
+  }
+}
+
+export async function query_embedding(extractor: FeatureExtractor, text: string, pooling: Pooling): Promise<Float32Array> {
+  try {
+    const output = await extractor(text, { pooling, normalize: true });
+    return new Float32Array(output.data as Float32Array);
+
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    const error = new ModelError(`Local embedding failed: ${message}`);
+    (error as any).cause = e;
+    throw error;
+  }
+}
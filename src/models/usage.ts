@@ -0,0 +1,289 @@
+/**
+ * Usage ledger for model calls.
+ *
+ * Every generation and embedding call records its provider, model, command,
+ * input / output tokens and estimated cost. Records are aggregated per day,
+ * command and model, and persisted to usage_ledger.json in the plugin data
+ * dir (in memory only where the file system is unavailable, e.g. on mobile).
+ * A monthly budget is checked before each call, and either warns (once per
+ * month) or blocks calls that would exceed it.
+ */
+import joplin from 'api';
+import debounce from 'lodash.debounce';
+import { ModelError, with_values } from '../utils';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const LEDGER_FILE = 'usage_ledger.json';
+const RETENTION_DAYS = 400;
+const SAVE_DELAY_MS = 5000;
+
+// providers that run on the user's machine (or make no calls at all)
+const LOCAL_PROVIDERS = new Set(['ollama', 'use', 'local', 'none']);
+
+// USD per 1M tokens [input, output], matched by the longest model ID prefix.
+// list prices at the time of writing; override them with the usage_prices setting
+const PRICES: Record<string, [number, number]> = {
+  'gpt-5-nano': [0.05, 0.4],
+  'gpt-5-mini': [0.25, 2],
+  'gpt-5': [1.25, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'o4-mini': [1.1, 4.4],
+  'o3': [2, 8],
+  'claude-haiku-4': [1, 5],
+  'claude-sonnet-4': [3, 15],
+  'claude-opus-4': [5, 25],
+  'gemini-2.5-flash-lite': [0.1, 0.4],
+  'gemini-2.5-flash': [0.3, 2.5],
+  'gemini-2.5-pro': [1.25, 10],
+  'gemini-embedding': [0.15, 0],
+  'text-embedding-3-small': [0.02, 0],
+  'text-embedding-3-large': [0.13, 0],
+  'text-embedding-ada-002': [0.1, 0],
+};
+
+export type UsageTotals = {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;  // USD, priced calls only
+  unpriced: number;  // calls to models without a known price
+};
+
+// day (YYYY-MM-DD) -> command -> 'provider/model' -> totals
+export type UsageLedger = Record<string, Record<string, Record<string, UsageTotals>>>;
+
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  command: string;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/** Token counts of a call as reported by the provider (estimated where missing). */
+export interface UsageMeter {
+  input_tokens?: number;
+  output_tokens?: number;
+  partial_output?: string;  // streamed so far (billed even if the call fails midway)
+}
+
+export interface UsageOptions {
+  monthly_budget: number;  // USD, 0 for none
+  budget_action: 'warn' | 'block';
+  prices: Record<string, [number, number]>;  // user overrides
+}
+
+let options: UsageOptions = { monthly_budget: 0, budget_action: 'warn', prices: {} };
+let ledger: UsageLedger | null = null;
+let loading: Promise<UsageLedger> | null = null;
+let warned_month: string | null = null;
+let pending_warning: Promise<boolean> | null = null;
+
+/** Update the budget and price overrides (on startup and settings changes). */
+export function configure_usage(settings: { usage_monthly_budget: number, usage_budget_action: string, usage_prices: string }) {
+  let prices: Record<string, [number, number]> = {};
+  if (settings.usage_prices) {
+    try {
+      prices = JSON.parse(settings.usage_prices);
+    } catch (error) {
+      log.warn('Jarvis: invalid usage prices setting (expected {"model": [input, output], ...} JSON)', { error });
+    }
+  }
+  const budget_action = settings.usage_budget_action === 'block' ? 'block' : 'warn';
+  if (budget_action !== options.budget_action || settings.usage_monthly_budget !== options.monthly_budget) {
+    warned_month = null;
+  }
+  options = {
+    monthly_budget: Math.max(0, Number(settings.usage_monthly_budget) || 0),
+    budget_action,
+    prices,
+  };
+}
+
+/**
+ * A view of a model whose calls are attributed to a command. The view shares
+ * its state with the model (settings, rate limits, embeddings), so that
+ * concurrent commands (e.g. background indexing) keep their own attribution.
+ */
+export function with_usage<M extends { usage_command?: string }>(model: M, command: string): M {
+  if (!model) { return model; }
+  return with_values(model, { usage_command: command } as Partial<M>);
+}
+
+/** The provider of a model, or 'local' if its (custom) endpoint is on this machine. */
+export function endpoint_provider(provider: string, endpoint: string | null): string {
+  if (endpoint && /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\]|0\.0\.0\.0)(:|\/|$)/i.test(endpoint)) {
+    return 'local';
+  }
+  return provider;
+}
+
+/**
+ * Estimated cost of a call in USD, 0 for local models, or null
+ * if the model has no known price.
+ */
+export function estimate_cost(provider: string, model: string, input_tokens: number, output_tokens: number): number | null {
+  if (LOCAL_PROVIDERS.has(provider)) { return 0; }
+  const price = find_price(model);
+  if (!price) { return null; }
+  return (input_tokens * price[0] + output_tokens * price[1]) / 1e6;
+}
+
+function find_price(model: string): [number, number] | null {
+  const family = (model ?? '').split('/').pop().toLowerCase();
+  for (const table of [options.prices, PRICES]) {
+    const prefix = Object.keys(table)
+      .filter(key => family.startsWith(key.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) { return table[prefix]; }
+  }
+  return null;
+}
+
+/** Add a call to the ledger (failures are logged, and never fail the call). */
+export async function record_usage(record: UsageRecord): Promise<void> {
+  if (record.provider === 'none') { return; }
+  try {
+    const data = await load_ledger();
+    const day = local_day(new Date());
+    const key = `${record.provider}/${record.model}`;
+
+    const commands = data[day] ?? (data[day] = {});
+    const models = commands[record.command] ?? (commands[record.command] = {});
+    const totals = models[key] ?? (models[key] = empty_totals());
+
+    const cost = estimate_cost(record.provider, record.model, record.input_tokens, record.output_tokens);
+    totals.calls += 1;
+    totals.input_tokens += record.input_tokens;
+    totals.output_tokens += record.output_tokens;
+    if (cost === null) {
+      totals.unpriced += 1;
+    } else {
+      totals.cost += cost;
+    }
+    save_ledger();
+  } catch (error) {
+    log.warn('Jarvis: failed to record usage', { error });
+  }
+}
+
+/**
+ * Check the monthly budget before a call. Warns once per month when the
+ * call would exceed it (Cancel stops the call), or blocks the call.
+ *
+ * @param input_tokens - the tokens about to be sent (output is unknown in advance)
+ */
+export async function check_budget(provider: string, model: string, input_tokens: number): Promise<void> {
+  if (options.monthly_budget <= 0 || LOCAL_PROVIDERS.has(provider)) { return; }
+  const month = local_day(new Date()).substring(0, 7);
+  const spent = month_totals(await load_ledger(), month).cost;
+  const expected = spent + (estimate_cost(provider, model, input_tokens, 0) ?? 0);
+  if (expected <= options.monthly_budget) { return; }
+
+  const summary = `Jarvis usage this month: $${spent.toFixed(2)} of a $${options.monthly_budget} budget.`;
+  if (options.budget_action === 'block') {
+    throw new ModelError(`${summary} Model calls are blocked until next month (see the usage budget setting).`);
+  }
+  if (warned_month === month) { return; }
+
+  // concurrent calls (e.g. parallel embedding jobs) share one dialog
+  if (!pending_warning) {
+    pending_warning = joplin.views.dialogs.showMessageBox(
+      `${summary}\n\nThis call goes over the budget. Press OK to continue (you will not be warned again this month), or Cancel to stop.`
+    ).then(choice => {
+      if (choice === 0) { warned_month = month; }
+      return choice === 0;
+    }).finally(() => { pending_warning = null; });
+  }
+  if (!(await pending_warning)) {
+    throw new ModelError('Model call cancelled (monthly usage budget)');
+  }
+}
+
+/** The ledger, loaded on first use. */
+export async function get_usage_ledger(): Promise<UsageLedger> {
+  return load_ledger();
+}
+
+export function get_usage_options(): UsageOptions {
+  return options;
+}
+
+/** Sum the totals of all days in a month (YYYY-MM). */
+export function month_totals(data: UsageLedger, month: string): UsageTotals {
+  const totals = empty_totals();
+  for (const [day, commands] of Object.entries(data)) {
+    if (!day.startsWith(month)) { continue; }
+    for (const models of Object.values(commands)) {
+      Object.values(models).forEach(entry => add_totals(totals, entry));
+    }
+  }
+  return totals;
+}
+
+export function empty_totals(): UsageTotals {
+  return { calls: 0, input_tokens: 0, output_tokens: 0, cost: 0, unpriced: 0 };
+}
+
+export function add_totals(target: UsageTotals, entry: UsageTotals): UsageTotals {
+  target.calls += entry.calls;
+  target.input_tokens += entry.input_tokens;
+  target.output_tokens += entry.output_tokens;
+  target.cost += entry.cost;
+  target.unpriced += entry.unpriced ?? 0;
+  return target;
+}
+
+export function local_day(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function load_ledger(): Promise<UsageLedger> {
+  if (ledger) { return Promise.resolve(ledger); }
+  if (!loading) {
+    loading = (async () => {
+      let data: UsageLedger = {};
+      try {
+        const fs = joplin.require('fs-extra');
+        const path = await ledger_path();
+        if (await fs.pathExists(path)) {
+          data = await fs.readJson(path);
+        }
+      } catch (error) {
+        log.warn('Jarvis: usage ledger not loaded, recording in memory', { error });
+      }
+      ledger = prune(data);
+      return ledger;
+    })();
+  }
+  return loading;
+}
+
+const save_ledger = debounce(async () => {
+  if (!ledger) { return; }
+  try {
+    const fs = joplin.require('fs-extra');
+    await fs.writeJson(await ledger_path(), ledger);
+  } catch (error) {
+    log.warn('Jarvis: failed to save usage ledger', { error });
+  }
+}, SAVE_DELAY_MS);
+
+async function ledger_path(): Promise<string> {
+  return `${await joplin.plugins.dataDir()}/${LEDGER_FILE}`;
+}
+
+function prune(data: UsageLedger): UsageLedger {
+  const cutoff = local_day(new Date(Date.now() - RETENTION_DAYS * 24 * 3600 * 1000));
+  for (const day of Object.keys(data)) {
+    if (day < cutoff) { delete data[day]; }
+  }
+  return data;
+}
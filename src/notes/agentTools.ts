@@ -0,0 +1,302 @@
+/**
+ * Note tools for the chat agent.
+ *
+ * Each tool is described by a ToolSpec (name, description, JSON schema)
+ * and executed by run_agent_tool. Tools that return note content register
+ * the blocks they show as numbered sources, so the agent can cite them as
+ * [n] and the final reply can link back to the notes.
+ */
+import joplin from 'api';
+import { TextEmbeddingModel, TextGenerationModel, ToolSpec } from '../models/models';
+import { JarvisSettings, title_separator } from '../ux/settings';
+import { clearApiResponse, clearObjectReferences } from '../utils';
+import { BlockEmbedding, extract_blocks_text, get_canonical_note, userDataStore } from './embeddings';
+import { read_user_data_embeddings } from './userDataReader';
+import { keyword_search_chunks } from './hybridSearch';
+import { get_complete_keyword_index } from './keywordIndex';
+import { search_by_query } from './searchOrchestration';
+import { rerank_blocks } from './rerank';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const MAX_LIST_RESULTS = 50;
+
+export const AGENT_TOOLS: ToolSpec[] = [
+  {
+    name: 'semantic_search',
+    description: 'Search the notes by meaning. Returns the most relevant note sections, each with a source number [n] to cite.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'A natural language description of the information to find.' },
+        limit: { type: 'integer', description: 'Maximal number of notes to return (default 5).' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'keyword_search',
+    description: 'Search the notes by exact keywords (Joplin search syntax, e.g. "word", "exact phrase", tag:x, notebook:y, created:2023). Returns matching note sections with source numbers [n].',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords or a Joplin search query.' },
+        limit: { type: 'integer', description: 'Maximal number of notes to return (default 5).' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_note',
+    description: 'Read a note by its id, or only one of its sections when a heading is given. Returns the text with a source number [n].',
+    parameters: {
+      type: 'object',
+      properties: {
+        note_id: { type: 'string', description: 'The 32-character note id.' },
+        heading: { type: 'string', description: 'Optional heading of the section to read.' },
+      },
+      required: ['note_id'],
+    },
+  },
+  {
+    name: 'list_notes',
+    description: 'List notes (id, title, last update) that have a tag and / or belong to a notebook, most recently updated first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        tag: { type: 'string', description: 'Tag name.' },
+        notebook: { type: 'string', description: 'Notebook name.' },
+        limit: { type: 'integer', description: 'Maximal number of notes to list (default 20).' },
+      },
+    },
+  },
+  {
+    name: 'get_headings',
+    description: 'List the headings of a note (outline), to decide which section to read.',
+    parameters: {
+      type: 'object',
+      properties: {
+        note_id: { type: 'string', description: 'The 32-character note id.' },
+      },
+      required: ['note_id'],
+    },
+  },
+];
+
+export interface AgentToolContext {
+  model_embed: TextEmbeddingModel;
+  model_gen: TextGenerationModel;
+  settings: JarvisSettings;
+  exclude_id: string;  // the note the chat happens in
+  max_tokens: number;  // budget of a single tool result
+  sources: BlockEmbedding[];  // cited blocks, numbered [1]..[n] by position
+}
+
+/**
+ * Execute a tool call. Errors are returned as text, so the model
+ * can recover (e.g. fix a wrong note id) on its next turn.
+ */
+export async function run_agent_tool(name: string, args: Record<string, any>, ctx: AgentToolContext): Promise<string> {
+  try {
+    switch (name) {
+      case 'semantic_search':
+        return await semantic_search(String(args.query ?? ''), to_limit(args.limit, 5), ctx);
+      case 'keyword_search':
+        return await keyword_search(String(args.query ?? ''), to_limit(args.limit, 5), ctx);
+      case 'get_note':
+        return await get_note(String(args.note_id ?? ''), args.heading ? String(args.heading) : '', ctx);
+      case 'list_notes':
+        return await list_notes(args.tag ? String(args.tag) : '', args.notebook ? String(args.notebook) : '',
+          to_limit(args.limit, 20));
+      case 'get_headings':
+        return await get_headings(String(args.note_id ?? ''));
+      default:
+        return `Error: unknown tool "${name}". Available tools: ${AGENT_TOOLS.map(t => t.name).join(', ')}.`;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.info(`[Agent] tool ${name} failed: ${message}`);
+    return `Error: ${message}`;
+  }
+}
+
+function to_limit(value: any, default_value: number): number {
+  const limit = parseInt(value);
+  if (isNaN(limit) || limit < 1) { return default_value; }
+  return Math.min(limit, MAX_LIST_RESULTS);
+}
+
+async function semantic_search(query: string, limit: number, ctx: AgentToolContext): Promise<string> {
+  if (!query.trim()) { return 'Error: empty query.'; }
+  const nearest = await search_by_query(query, ctx.exclude_id, ctx.model_embed, ctx.settings,
+    undefined, undefined, null, ctx.model_gen);
+  const blocks = nearest.slice(0, limit).flatMap(n => n.embeddings);
+  return await format_blocks(await rerank_blocks(query, blocks, ctx.model_gen, ctx.settings), ctx);
+}
+
+async function keyword_search(query: string, limit: number, ctx: AgentToolContext): Promise<string> {
+  if (!query.trim()) { return 'Error: empty query.'; }
+  const keyword_index = await get_complete_keyword_index(ctx.model_embed.id, ctx.settings);
+  let pool = ctx.model_embed.embeddings;
+  if (pool.length === 0 && ctx.settings.notes_db_in_user_data) {
+    // userData mode: load the blocks of the matching notes only
+    let note_ids: string[] = [];
+    let search_res: any = null;
+    try {
+      if (keyword_index) {
+        const hits = keyword_index.search(query, limit * 50);
+        note_ids = Array.from(new Set(hits.map(hit => hit.noteId))).slice(0, limit);
+      } else {
+        search_res = await joplin.data.get(['search'], { query: query, fields: ['id'], limit: limit });
+        note_ids = search_res.items.map((item: any) => item.id);
+      }
+      const loaded = await read_user_data_embeddings({
+        store: userDataStore, modelId: ctx.model_embed.id, noteIds: note_ids,
+      });
+      pool = loaded.flatMap(r => r.blocks);
+    } finally {
+      clearApiResponse(search_res);
+    }
+  }
+  const blocks = await keyword_search_chunks(query, pool, limit, keyword_index);
+  return await format_blocks(blocks.filter(b => b.id !== ctx.exclude_id), ctx);
+}
+
+// format search results as note text, numbered by global source numbers
+async function format_blocks(blocks: BlockEmbedding[], ctx: AgentToolContext): Promise<string> {
+  if (blocks.length === 0) { return 'No matching notes found.'; }
+  const [text, selected] = await extract_blocks_text(blocks, ctx.model_gen, ctx.max_tokens, '',
+    block => add_source(block, ctx));
+  if (selected.length === 0) { return 'No matching notes found.'; }
+
+  // note ids let the model follow up with get_note / get_headings
+  const ids = [...new Set(selected.map(b => b.id))].map(id => {
+    const title = selected.find(b => b.id === id).title.split(title_separator)[0];
+    return `- ${title}: ${id}`;
+  });
+  return `${text.trim()}\n\nNote ids:\n${ids.join('\n')}`;
+}
+
+/** Register a block as a source and return its citation number. */
+function add_source(block: BlockEmbedding, ctx: AgentToolContext): number {
+  const index = ctx.sources.findIndex(s => s.id === block.id && s.line === block.line);
+  if (index >= 0) { return index + 1; }
+  ctx.sources.push({ ...block, similarity: block.similarity ?? 0 });  // unscored when read directly
+  return ctx.sources.length;
+}
+
+async function get_note(note_id: string, heading: string, ctx: AgentToolContext): Promise<string> {
+  const note = await fetch_note(note_id);
+  try {
+    const body = note.body;
+    let source: BlockEmbedding = {
+      id: note.id, hash: '', line: 0, body_idx: 0, length: body.length,
+      level: 0, title: note.title, embedding: null,
+    };
+    let text = body;
+
+    if (heading) {
+      const section = find_section(body, heading);
+      if (!section) {
+        const outline = parse_headings(body).map(h => h.title).join(', ');
+        return `Error: heading "${heading}" not found in note "${note.title}". Headings: ${outline || 'none'}.`;
+      }
+      source = { ...source, line: section.line, body_idx: section.start, length: section.text.length,
+        level: section.level, title: note.title + title_separator + section.title };
+      text = section.text;
+    }
+
+    const number = add_source(source, ctx);
+    return `# ${note.title} [${number}]\n${truncate_tokens(text, ctx.model_gen, ctx.max_tokens)}`;
+  } finally {
+    clearObjectReferences(note);
+  }
+}
+
+async function get_headings(note_id: string): Promise<string> {
+  const note = await fetch_note(note_id);
+  try {
+    const headings = parse_headings(note.body);
+    if (headings.length === 0) {
+      return `Note "${note.title}" has no headings.`;
+    }
+    const lines = headings.map(h => `${'  '.repeat(h.level - 1)}- ${h.title}`);
+    return `Headings of "${note.title}":\n${lines.join('\n')}`;
+  } finally {
+    clearObjectReferences(note);
+  }
+}
+
+async function list_notes(tag: string, notebook: string, limit: number): Promise<string> {
+  if (!tag && !notebook) { return 'Error: specify a tag or a notebook.'; }
+  const filters: string[] = [];
+  if (tag) { filters.push(`tag:"${tag.replace(/"/g, '')}"`); }
+  if (notebook) { filters.push(`notebook:"${notebook.replace(/"/g, '')}"`); }
+
+  let search_res: any = null;
+  try {
+    search_res = await joplin.data.get(['search'], {
+      query: filters.join(' '), fields: ['id', 'title', 'updated_time'],
+      limit: limit, order_by: 'updated_time', order_dir: 'DESC',
+    });
+    const items: any[] = search_res?.items ?? [];
+    if (items.length === 0) { return 'No notes found.'; }
+    return items.map(item =>
+      `- ${item.title} (id: ${item.id}, updated: ${new Date(item.updated_time).toISOString().slice(0, 10)})`
+    ).join('\n');
+  } finally {
+    clearApiResponse(search_res);
+  }
+}
+
+async function fetch_note(note_id: string): Promise<any> {
+  if (!/^[0-9a-f]{32}$/i.test(note_id)) {
+    throw new Error(`invalid note id "${note_id}"`);
+  }
+  try {
+    // the body as indexed, so that section offsets match block lines
+    return await get_canonical_note(note_id);
+  } catch (error) {
+    throw new Error(`note ${note_id} not found`);
+  }
+}
+
+type Heading = { level: number; title: string; line: number; start: number };
+
+function parse_headings(body: string): Heading[] {
+  const headings: Heading[] = [];
+  let in_code = false;
+  let offset = 0;
+  const lines = body.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith('```')) {
+      in_code = !in_code;
+    }
+    const match = in_code ? null : line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match) {
+      headings.push({ level: match[1].length, title: match[2], line: i + 1, start: offset });
+    }
+    offset += line.length + 1;
+  }
+  return headings;
+}
+
+// a section runs until the next heading of the same or a higher level
+function find_section(body: string, heading: string): Heading & { text: string } | null {
+  const headings = parse_headings(body);
+  const target = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  const index = headings.findIndex(h => h.title.toLowerCase() === target);
+  if (index < 0) { return null; }
+  const section = headings[index];
+  const next = headings.slice(index + 1).find(h => h.level <= section.level);
+  const end = next ? next.start : body.length;
+  return { ...section, text: body.substring(section.start, end).trim() };
+}
+
+function truncate_tokens(text: string, model_gen: TextGenerationModel, max_tokens: number): string {
+  const tokens = model_gen.count_tokens(text);
+  if (tokens <= max_tokens) { return text; }
+  return text.substring(0, Math.floor(text.length * max_tokens / tokens)) + '\n[...truncated]';
+}
@@ -0,0 +1,469 @@
+/**
+ * Approximate nearest-neighbour index for large corpus caches.
+ *
+ * IVF-PQ (inverted file with product quantization) index over the cached
+ * vectors: the vectors are partitioned into lists around centroids trained
+ * with spherical k-means on a sample of the corpus, and a search scores only
+ * the blocks in the lists of the nearest centroids (the probes) instead of
+ * every block.
+ *
+ * The residual of each (unit) vector from its centroid is encoded with a
+ * product quantizer: every pair of dimensions is replaced by the nearest of
+ * 16 codewords (4 bits), so a block takes dim / 4 bytes instead of the dim
+ * bytes of its Q8 row, and the cache drops the rows once the blocks are
+ * encoded. A block is scored as q·centroid + q·residual, where the second
+ * term is summed from a per-query lookup table of q·codeword.
+ *
+ * The centroids, the codebook and the list of every block are saved in the
+ * plugin data dir (ann/<model ID>.json) on desktop, so the index is not
+ * retrained or reassigned when the cache is rebuilt. On mobile, the index
+ * is trained in the background after the cache is built. New and updated
+ * blocks are assigned and encoded as the cache is updated.
+ */
+
+import joplin from 'api';
+import { QuantizedVector } from './q8';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+export const ANN_MIN_BLOCKS = 20000;  // below this, brute force is fast enough
+const INDEX_VERSION = 2;
+const MIN_LISTS = 16;
+const MAX_LISTS = 1024;
+const TRAIN_SAMPLES_PER_LIST = 16;
+const TRAIN_ITERATIONS = 6;
+const RETRAIN_GROWTH = 4;  // retrain when the corpus grows 4x beyond the training size
+const YIELD_EVERY = 2000;  // vectors between event loop yields
+const PQ_SUBDIM = 2;  // dimensions per subquantizer
+const PQ_CODEWORDS = 16;  // codewords per subquantizer (4-bit codes, two per byte)
+const PQ_ITERATIONS = 8;
+
+/**
+ * Block assignments saved with the index.
+ * noteId -> note hash and flattened [line, list, line, list, ...] pairs.
+ */
+export type AnnAssignments = { [noteId: string]: { hash: string, blocks: number[] } };
+
+interface AnnIndexFile {
+  version: number;
+  dim: number;
+  nlist: number;
+  trainedBlocks: number;
+  centroids: number[];
+  codebook: number[] | null;
+  notes: AnnAssignments;
+}
+
+export class IvfIndex {
+  readonly dim: number;
+  readonly nlist: number;
+  readonly trainedBlocks: number;
+  readonly codeBytes: number;  // bytes per encoded vector (0 if the index does not encode vectors)
+  private centroids: Float32Array;  // nlist * dim, unit length
+  private codebook: Float32Array | null;  // (dim / PQ_SUBDIM) * PQ_CODEWORDS * PQ_SUBDIM residual codewords
+
+  constructor(dim: number, nlist: number, centroids: Float32Array, trainedBlocks: number,
+      codebook: Float32Array | null = null) {
+    this.dim = dim;
+    this.nlist = nlist;
+    this.centroids = centroids;
+    this.trainedBlocks = trainedBlocks;
+    this.codebook = codebook;
+    this.codeBytes = codebook ? dim / (2 * PQ_SUBDIM) : 0;
+  }
+
+  /** True if vectors of this dimension can be encoded (two subquantizers per byte). */
+  static canEncode(dim: number): boolean {
+    return dim > 0 && dim % (2 * PQ_SUBDIM) === 0;
+  }
+
+  /** Bytes per encoded vector of the given dimension. */
+  static codeBytesFor(dim: number): number {
+    return dim / (2 * PQ_SUBDIM);
+  }
+
+  /** Number of lists for a corpus of the given size (~sqrt(N) / 2). */
+  static listCount(numBlocks: number): number {
+    return Math.max(MIN_LISTS, Math.min(MAX_LISTS, Math.round(Math.sqrt(numBlocks) / 2)));
+  }
+
+  /**
+   * Train centroids with spherical k-means on an evenly spaced sample.
+   *
+   * @param numBlocks - number of vectors
+   * @param vectorAt - Q8 vector of block i (only read during training)
+   * @param dim - vector dimension
+   * @param isCancelled - checked between iterations, to stop on cache invalidation
+   */
+  static async train(
+    numBlocks: number,
+    vectorAt: (i: number) => Int8Array,
+    dim: number,
+    isCancelled: () => boolean = () => false,
+  ): Promise<IvfIndex | null> {
+    const nlist = IvfIndex.listCount(numBlocks);
+    const numSamples = Math.min(numBlocks, nlist * TRAIN_SAMPLES_PER_LIST);
+    const stride = numBlocks / numSamples;
+
+    const samples = new Float32Array(numSamples * dim);
+    for (let s = 0; s < numSamples; s++) {
+      const vector = vectorAt(Math.floor(s * stride));
+      samples.set(vector, s * dim);
+      normalize(samples, s * dim, dim);
+    }
+
+    // initial centroids: evenly spaced samples
+    const centroids = new Float32Array(nlist * dim);
+    const initStride = numSamples / nlist;
+    for (let c = 0; c < nlist; c++) {
+      const s = Math.floor(c * initStride);
+      centroids.set(samples.subarray(s * dim, (s + 1) * dim), c * dim);
+    }
+
+    const assignments = new Int32Array(numSamples);
+    const sums = new Float32Array(nlist * dim);
+    const counts = new Int32Array(nlist);
+    for (let iter = 0; iter < TRAIN_ITERATIONS; iter++) {
+      sums.fill(0);
+      counts.fill(0);
+      for (let s = 0; s < numSamples; s++) {
+        const c = nearest(centroids, nlist, samples, s * dim, dim);
+        assignments[s] = c;
+        counts[c]++;
+        for (let d = 0; d < dim; d++) {
+          sums[c * dim + d] += samples[s * dim + d];
+        }
+        if (s % YIELD_EVERY === YIELD_EVERY - 1) {
+          await yieldToEventLoop();
+          if (isCancelled()) { return null; }
+        }
+      }
+
+      for (let c = 0; c < nlist; c++) {
+        if (counts[c] === 0) {
+          // empty list: reseed it with a sample of the largest list
+          let largest = 0;
+          for (let l = 1; l < nlist; l++) {
+            if (counts[l] > counts[largest]) { largest = l; }
+          }
+          const s = assignments.indexOf(largest);
+          if (s >= 0 && counts[largest] > 1) {
+            assignments[s] = c;
+            counts[largest]--;
+            counts[c] = 1;
+            centroids.set(samples.subarray(s * dim, (s + 1) * dim), c * dim);
+          }
+          continue;
+        }
+        centroids.set(sums.subarray(c * dim, (c + 1) * dim), c * dim);
+        normalize(centroids, c * dim, dim);
+      }
+      await yieldToEventLoop();
+      if (isCancelled()) { return null; }
+    }
+
+    let codebook: Float32Array | null = null;
+    if (IvfIndex.canEncode(dim)) {
+      // residuals of the samples from their (final) centroids
+      for (let s = 0; s < numSamples; s++) {
+        const c = nearest(centroids, nlist, samples, s * dim, dim);
+        for (let d = 0; d < dim; d++) {
+          samples[s * dim + d] -= centroids[c * dim + d];
+        }
+        if (s % YIELD_EVERY === YIELD_EVERY - 1) {
+          await yieldToEventLoop();
+          if (isCancelled()) { return null; }
+        }
+      }
+      codebook = await train_codebook(samples, numSamples, dim, isCancelled);
+      if (!codebook) { return null; }
+    }
+
+    return new IvfIndex(dim, nlist, centroids, numBlocks, codebook);
+  }
+
+  /** List of the nearest centroid (cosine, scale-invariant for Q8). */
+  assign(vector: Int8Array): number {
+    return nearest(this.centroids, this.nlist, vector, 0, this.dim);
+  }
+
+  /** Lists of the nprobe nearest centroids to the query. */
+  probe(query: QuantizedVector, nprobe: number): number[] {
+    const scores = this.centroidScores(query.values);
+    const order = Array.from({ length: this.nlist }, (_, c) => c);
+    order.sort((a, b) => scores[b] - scores[a]);
+    return order.slice(0, Math.min(nprobe, this.nlist));
+  }
+
+  /** Dot product of the vector with every centroid. */
+  centroidScores(vector: ArrayLike<number>): Float32Array {
+    const dim = this.dim;
+    const scores = new Float32Array(this.nlist);
+    for (let c = 0; c < this.nlist; c++) {
+      let dot = 0;
+      const offset = c * dim;
+      for (let d = 0; d < dim; d++) {
+        dot += this.centroids[offset + d] * vector[d];
+      }
+      scores[c] = dot;
+    }
+    return scores;
+  }
+
+  /**
+   * Encode the residual of a unit vector from the centroid of its list
+   * into codes[offset:offset+codeBytes].
+   */
+  encode(vector: Float32Array, list: number, codes: Uint8Array, offset: number): void {
+    const codebook = this.codebook!;
+    const base = list * this.dim;
+    for (let b = 0; b < this.codeBytes; b++) {
+      let byte = 0;
+      for (let half = 0; half < 2; half++) {
+        const m = 2 * b + half;
+        const d = m * PQ_SUBDIM;
+        const r0 = vector[d] - this.centroids[base + d];
+        const r1 = vector[d + 1] - this.centroids[base + d + 1];
+        let best = 0;
+        let bestDist = Infinity;
+        for (let k = 0; k < PQ_CODEWORDS; k++) {
+          const w = (m * PQ_CODEWORDS + k) * PQ_SUBDIM;
+          const e0 = r0 - codebook[w];
+          const e1 = r1 - codebook[w + 1];
+          const dist = e0 * e0 + e1 * e1;
+          if (dist < bestDist) {
+            bestDist = dist;
+            best = k;
+          }
+        }
+        byte |= best << (4 * half);
+      }
+      codes[offset + b] = byte;
+    }
+  }
+
+  /** Reconstruct an encoded vector (centroid + decoded residual). */
+  decode(list: number, codes: Uint8Array, offset: number): Float32Array {
+    const codebook = this.codebook!;
+    const vector = this.centroids.slice(list * this.dim, (list + 1) * this.dim);
+    for (let b = 0; b < this.codeBytes; b++) {
+      const byte = codes[offset + b];
+      for (let half = 0; half < 2; half++) {
+        const m = 2 * b + half;
+        const w = (m * PQ_CODEWORDS + ((byte >> (4 * half)) & 15)) * PQ_SUBDIM;
+        vector[m * PQ_SUBDIM] += codebook[w];
+        vector[m * PQ_SUBDIM + 1] += codebook[w + 1];
+      }
+    }
+    return vector;
+  }
+
+  /** Per-query lookup table: dot product of the query with every residual codeword. */
+  queryTable(query: Float32Array): Float32Array {
+    const codebook = this.codebook!;
+    const subquantizers = this.dim / PQ_SUBDIM;
+    const table = new Float32Array(subquantizers * PQ_CODEWORDS);
+    for (let m = 0; m < subquantizers; m++) {
+      const q0 = query[m * PQ_SUBDIM];
+      const q1 = query[m * PQ_SUBDIM + 1];
+      for (let k = 0; k < PQ_CODEWORDS; k++) {
+        const w = (m * PQ_CODEWORDS + k) * PQ_SUBDIM;
+        table[m * PQ_CODEWORDS + k] = q0 * codebook[w] + q1 * codebook[w + 1];
+      }
+    }
+    return table;
+  }
+
+  /** Dot product of the query (see queryTable) with the decoded residual of an encoded vector. */
+  scoreCodes(table: Float32Array, codes: Uint8Array, offset: number): number {
+    let score = 0;
+    for (let b = 0; b < this.codeBytes; b++) {
+      const byte = codes[offset + b];
+      score += table[2 * b * PQ_CODEWORDS + (byte & 15)] + table[(2 * b + 1) * PQ_CODEWORDS + (byte >> 4)];
+    }
+    return score;
+  }
+
+  /** Memory of the centroids and the codebook. */
+  byteLength(): number {
+    return this.centroids.byteLength + (this.codebook?.byteLength ?? 0);
+  }
+
+  /** True if the corpus outgrew the sample the centroids were trained on. */
+  isStale(numBlocks: number): boolean {
+    return numBlocks > this.trainedBlocks * RETRAIN_GROWTH;
+  }
+
+  toFile(notes: AnnAssignments): AnnIndexFile {
+    return {
+      version: INDEX_VERSION,
+      dim: this.dim,
+      nlist: this.nlist,
+      trainedBlocks: this.trainedBlocks,
+      centroids: Array.from(this.centroids, (v) => Math.round(v * 1e5) / 1e5),
+      codebook: this.codebook ? Array.from(this.codebook, (v) => Math.round(v * 1e5) / 1e5) : null,
+      notes,
+    };
+  }
+
+  static fromFile(data: AnnIndexFile): IvfIndex | null {
+    if (data?.version !== INDEX_VERSION || !Array.isArray(data.centroids) ||
+        data.centroids.length !== data.nlist * data.dim) {
+      return null;
+    }
+    const codebookSize = (data.dim / PQ_SUBDIM) * PQ_CODEWORDS * PQ_SUBDIM;
+    const codebook = (IvfIndex.canEncode(data.dim) && data.codebook?.length === codebookSize)
+      ? Float32Array.from(data.codebook) : null;
+    if (IvfIndex.canEncode(data.dim) && !codebook) {
+      return null;
+    }
+    return new IvfIndex(data.dim, data.nlist, Float32Array.from(data.centroids), data.trainedBlocks ?? 0, codebook);
+  }
+}
+
+// index of the centroid with the largest dot product with vector[offset:offset+dim]
+function nearest(centroids: Float32Array, nlist: number,
+    vector: ArrayLike<number>, offset: number, dim: number): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let c = 0; c < nlist; c++) {
+    let dot = 0;
+    const cOffset = c * dim;
+    for (let d = 0; d < dim; d++) {
+      dot += centroids[cOffset + d] * vector[offset + d];
+    }
+    if (dot > bestScore) {
+      bestScore = dot;
+      best = c;
+    }
+  }
+  return best;
+}
+
+/**
+ * Train the residual codebook: k-means with PQ_CODEWORDS centroids in each
+ * subspace of PQ_SUBDIM dimensions.
+ */
+async function train_codebook(
+  residuals: Float32Array,
+  numSamples: number,
+  dim: number,
+  isCancelled: () => boolean,
+): Promise<Float32Array | null> {
+  const subquantizers = dim / PQ_SUBDIM;
+  const codebook = new Float32Array(subquantizers * PQ_CODEWORDS * PQ_SUBDIM);
+  const sums = new Float32Array(PQ_CODEWORDS * PQ_SUBDIM);
+  const counts = new Int32Array(PQ_CODEWORDS);
+  const initStride = numSamples / PQ_CODEWORDS;
+
+  for (let m = 0; m < subquantizers; m++) {
+    const words = codebook.subarray(m * PQ_CODEWORDS * PQ_SUBDIM, (m + 1) * PQ_CODEWORDS * PQ_SUBDIM);
+    const d = m * PQ_SUBDIM;
+    // initial codewords: evenly spaced samples
+    for (let k = 0; k < PQ_CODEWORDS; k++) {
+      const s = Math.floor(k * initStride);
+      words[k * PQ_SUBDIM] = residuals[s * dim + d];
+      words[k * PQ_SUBDIM + 1] = residuals[s * dim + d + 1];
+    }
+    for (let iter = 0; iter < PQ_ITERATIONS; iter++) {
+      sums.fill(0);
+      counts.fill(0);
+      for (let s = 0; s < numSamples; s++) {
+        const r0 = residuals[s * dim + d];
+        const r1 = residuals[s * dim + d + 1];
+        let best = 0;
+        let bestDist = Infinity;
+        for (let k = 0; k < PQ_CODEWORDS; k++) {
+          const e0 = r0 - words[k * PQ_SUBDIM];
+          const e1 = r1 - words[k * PQ_SUBDIM + 1];
+          const dist = e0 * e0 + e1 * e1;
+          if (dist < bestDist) {
+            bestDist = dist;
+            best = k;
+          }
+        }
+        counts[best]++;
+        sums[best * PQ_SUBDIM] += r0;
+        sums[best * PQ_SUBDIM + 1] += r1;
+      }
+      for (let k = 0; k < PQ_CODEWORDS; k++) {
+        if (counts[k] > 0) {  // empty codewords keep their position
+          words[k * PQ_SUBDIM] = sums[k * PQ_SUBDIM] / counts[k];
+          words[k * PQ_SUBDIM + 1] = sums[k * PQ_SUBDIM + 1] / counts[k];
+        }
+      }
+    }
+    if (m % 16 === 15) {
+      await yieldToEventLoop();
+      if (isCancelled()) { return null; }
+    }
+  }
+  return codebook;
+}
+
+function normalize(vectors: Float32Array, offset: number, dim: number) {
+  let norm = 0;
+  for (let d = 0; d < dim; d++) {
+    norm += vectors[offset + d] * vectors[offset + d];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let d = 0; d < dim; d++) {
+      vectors[offset + d] /= norm;
+    }
+  }
+}
+
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// === Persistence (desktop only: the file system is not available on mobile) ===
+
+async function index_path(modelId: string): Promise<string> {
+  return `${await joplin.plugins.dataDir()}/ann/${modelId.replace(/[/\\?%*:|"<>]/g, '_')}.json`;
+}
+
+/**
+ * Load the saved index of a model. Returns null if there is none, or if it
+ * has a different dimension.
+ */
+export async function load_ann_index(modelId: string, dim: number):
+    Promise<{ index: IvfIndex, notes: AnnAssignments } | null> {
+  try {
+    const fs = joplin.require('fs-extra');
+    const path = await index_path(modelId);
+    if (!(await fs.pathExists(path))) {
+      return null;
+    }
+    const data: AnnIndexFile = await fs.readJson(path);
+    const index = IvfIndex.fromFile(data);
+    if (!index || index.dim !== dim) {
+      return null;
+    }
+    return { index, notes: data.notes ?? {} };
+  } catch (error) {
+    log.debug('[ANN] Saved index not loaded', error);
+    return null;
+  }
+}
+
+export async function save_ann_index(modelId: string, index: IvfIndex, notes: AnnAssignments): Promise<void> {
+  try {
+    const fs = joplin.require('fs-extra');
+    const path = await index_path(modelId);
+    await fs.outputJson(path, index.toFile(notes));
+  } catch (error) {
+    log.debug('[ANN] Index not saved', error);
+  }
+}
+
+export async function delete_ann_index(modelId: string): Promise<void> {
+  try {
+    const fs = joplin.require('fs-extra');
+    await fs.remove(await index_path(modelId));
+  } catch (error) {
+    log.debug('[ANN] Index not deleted', error);
+  }
+}
@@ -0,0 +1,534 @@
+/**
+ * Text extraction from note attachments (resources) for indexing.
+ *
+ * Supported: plain text files (text/*, Markdown, CSV, JSON, ...), PDF
+ * (text operators of the page content streams, without font decoding, so
+ * scanned or CID-font PDFs yield little or nothing) and DOCX (paragraphs
+ * of word/document.xml). Resources that already have Joplin OCR text are
+ * skipped: their text is appended to the note body (append_ocr_text_to_body).
+ *
+ * Extracted text is hashed separately from the note body. It is cached in
+ * memory and in the plugin data dir (attachments/<resource ID>.json on
+ * desktop), keyed by the time the file was last updated, so files are not
+ * downloaded and parsed again on every sweep or search. The resources of a
+ * note are listed only if its body links to any, and the list is reused for
+ * a short while (e.g. by the searches made while the note is open).
+ *
+ * PDF and DOCX extraction needs the Node zlib and buffer modules, and is
+ * skipped where they are unavailable (mobile).
+ */
+import joplin from 'api';
+import { createHash } from '../utils/crypto';
+import { clearApiResponse } from '../utils';
+import { getLogger } from '../utils/logger';
+import type { JarvisSettings } from '../ux/settings';
+
+const log = getLogger();
+
+const CACHE_VERSION = 1;
+const MAX_TEXT_CHARS = 200_000;  // ~50k tokens per attachment
+const MIN_TEXT_CHARS = 20;  // less than this is not worth a block
+const MEMORY_CACHE_ENTRIES = 32;
+const NOTE_CACHE_TTL_MS = 60_000;
+const RESOURCE_FIELDS = ['id', 'title', 'mime', 'size', 'file_extension', 'updated_time', 'blob_updated_time', 'ocr_text'];
+
+const TEXT_MIMES = new Set([
+  'application/json', 'application/xml', 'application/x-yaml', 'application/yaml',
+  'application/javascript', 'application/x-tex', 'application/x-sh', 'application/sql',
+]);
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'tex', 'bib', 'rst', 'org', 'log',
+]);
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type AttachmentKind = 'text' | 'pdf' | 'docx';
+
+export interface NoteAttachment {
+  id: string;  // resource id
+  title: string;  // resource title (usually the file name)
+  hash: string;  // hash of the extracted text
+  text: string;  // extracted text (newlines normalized)
+}
+
+interface CachedText {
+  version: number;
+  updated: number;  // blob_updated_time of the extracted file
+  hash: string;
+  text: string;
+}
+
+const memoryCache = new Map<string, CachedText>();
+
+// noteId -> attachments listed recently, and the resource links they were listed for
+const noteCache = new Map<string, { links: string, time: number, attachments: NoteAttachment[] }>();
+
+// Node modules, required on first use (see utils/base64.ts)
+let nodeModules: { zlib: typeof import('zlib'), Buffer: typeof import('buffer').Buffer } | null | undefined;
+function requireNodeModules(): typeof nodeModules {
+  if (nodeModules === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      nodeModules = { zlib: require('zlib'), Buffer: require('buffer').Buffer };
+    } catch {
+      nodeModules = null;
+    }
+  }
+  return nodeModules;
+}
+
+/**
+ * Attachments of a note with extractable text, sorted by resource ID (for a
+ * deterministic content hash). Returns an empty list when attachment
+ * indexing is disabled, when the body links to no resources, or on errors.
+ */
+export async function get_note_attachments(noteId: string, body: string, settings: JarvisSettings): Promise<NoteAttachment[]> {
+  if (!settings.notes_index_attachments || !noteId) {
+    return [];
+  }
+  const links = [...new Set((body ?? '').match(/(?<=:\/)[0-9a-f]{32}\b/gi) ?? [])].sort().join(',');
+  if (!links) {
+    noteCache.delete(noteId);
+    return [];
+  }
+  const recent = noteCache.get(noteId);
+  if (recent && recent.links === links && Date.now() - recent.time < NOTE_CACHE_TTL_MS) {
+    return recent.attachments;
+  }
+  const maxBytes = Math.max(1, settings.notes_attachments_max_size) * 1024 * 1024;
+  const attachments: NoteAttachment[] = [];
+  let page = 0;
+  let resourcesPage: any = null;
+  try {
+    do {
+      page += 1;
+      resourcesPage = await joplin.data.get(['notes', noteId, 'resources'], { fields: RESOURCE_FIELDS, page });
+      for (const resource of resourcesPage?.items ?? []) {
+        if (!attachment_kind(resource) || resource.size > maxBytes) {
+          continue;
+        }
+        if (typeof resource.ocr_text === 'string' && resource.ocr_text.trim()) {
+          continue;  // already indexed as OCR text
+        }
+        const cached = await extract_cached(resource);
+        if (cached && cached.text.length >= MIN_TEXT_CHARS) {
+          attachments.push({ id: resource.id, title: resource.title || resource.id, hash: cached.hash, text: cached.text });
+        }
+      }
+      const hasMore = resourcesPage?.has_more;
+      clearApiResponse(resourcesPage);
+      resourcesPage = null;
+      if (!hasMore) { break; }
+    } while (true);
+  } catch (error) {
+    clearApiResponse(resourcesPage);
+    log.debug(`Failed to retrieve attachments for note ${noteId}:`, error);
+    return [];
+  }
+  attachments.sort((a, b) => a.id.localeCompare(b.id));
+  noteCache.delete(noteId);
+  noteCache.set(noteId, { links, time: Date.now(), attachments });
+  if (noteCache.size > MEMORY_CACHE_ENTRIES) {
+    noteCache.delete(noteCache.keys().next().value);
+  }
+  return attachments;
+}
+
+/**
+ * Extracted text of an attachment, to read indexed attachment blocks
+ * (body_idx and length of the block index this text).
+ */
+export async function get_attachment_text(resourceId: string): Promise<string | null> {
+  let resource: any = null;
+  try {
+    resource = await joplin.data.get(['resources', resourceId], { fields: RESOURCE_FIELDS });
+    const cached = await extract_cached(resource);
+    return cached?.text ?? null;
+  } catch (error) {
+    log.debug(`Failed to read attachment ${resourceId}:`, error);
+    return null;
+  } finally {
+    clearApiResponse(resource);
+  }
+}
+
+/**
+ * Content hash of a note with attachments: the body hash combined with the
+ * text hash of each attachment. Equal to the body hash without attachments,
+ * so existing indexes stay valid.
+ */
+export function calc_content_hash(bodyHash: string, attachments: NoteAttachment[]): string {
+  if (attachments.length === 0) {
+    return bodyHash;
+  }
+  const parts = [bodyHash, ...attachments.map(a => `${a.id}:${a.hash}`)];
+  return createHash('md5').update(parts.join('\n')).digest('hex');
+}
+
+function attachment_kind(resource: any): AttachmentKind | null {
+  const mime = String(resource?.mime ?? '').toLowerCase();
+  const ext = String(resource?.file_extension ?? '').toLowerCase();
+  if (mime === 'application/pdf' || ext === 'pdf') {
+    return requireNodeModules() ? 'pdf' : null;
+  }
+  if (mime === DOCX_MIME || ext === 'docx') {
+    return requireNodeModules() ? 'docx' : null;
+  }
+  if (mime.startsWith('text/') || TEXT_MIMES.has(mime) || TEXT_EXTENSIONS.has(ext)) {
+    return 'text';
+  }
+  return null;
+}
+
+// === Cache ===
+
+async function extract_cached(resource: any): Promise<CachedText | null> {
+  const kind = attachment_kind(resource);
+  if (!resource?.id || !kind) {
+    return null;
+  }
+  const updated = Number(resource.blob_updated_time ?? resource.updated_time ?? 0);
+
+  let cached = memoryCache.get(resource.id);
+  if (!cached || cached.updated !== updated) {
+    cached = await load_cached_text(resource.id);
+  }
+  if (!cached || cached.updated !== updated) {
+    const bytes = await read_resource_bytes(resource.id);
+    if (!bytes) {
+      return null;
+    }
+    let text = '';
+    try {
+      text = normalize_text(extract_text(kind, bytes));
+    } catch (error) {
+      log.info(`Text extraction failed for attachment ${resource.id} (${resource.title})`, error);
+    }
+    cached = {
+      version: CACHE_VERSION,
+      updated,
+      hash: createHash('md5').update(text).digest('hex'),
+      text,
+    };
+    await save_cached_text(resource.id, cached);
+  }
+
+  memoryCache.delete(resource.id);
+  memoryCache.set(resource.id, cached);
+  if (memoryCache.size > MEMORY_CACHE_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value);
+  }
+  return cached;
+}
+
+async function cache_path(resourceId: string): Promise<string> {
+  return `${await joplin.plugins.dataDir()}/attachments/${resourceId.replace(/[/\\?%*:|"<>]/g, '_')}.json`;
+}
+
+async function load_cached_text(resourceId: string): Promise<CachedText | null> {
+  try {
+    const fs = joplin.require('fs-extra');
+    const path = await cache_path(resourceId);
+    if (!(await fs.pathExists(path))) {
+      return null;
+    }
+    const data: CachedText = await fs.readJson(path);
+    return (data?.version === CACHE_VERSION && typeof data.text === 'string') ? data : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function save_cached_text(resourceId: string, data: CachedText): Promise<void> {
+  try {
+    const fs = joplin.require('fs-extra');
+    await fs.outputJson(await cache_path(resourceId), data);
+  } catch (error) {
+    log.debug(`Attachment text of ${resourceId} not saved`, error);
+  }
+}
+
+async function read_resource_bytes(resourceId: string): Promise<Uint8Array | null> {
+  let file: any = null;
+  try {
+    file = await joplin.data.get(['resources', resourceId, 'file']);
+    const body = file?.body;
+    if (body instanceof Uint8Array) {
+      return body;
+    }
+    if (body instanceof ArrayBuffer) {
+      return new Uint8Array(body);
+    }
+    if (typeof body === 'string') {
+      return new TextEncoder().encode(body);
+    }
+    return null;
+  } catch (error) {
+    log.debug(`Failed to read resource ${resourceId}:`, error);
+    return null;
+  } finally {
+    clearApiResponse(file);
+  }
+}
+
+// === Extraction ===
+
+function extract_text(kind: AttachmentKind, bytes: Uint8Array): string {
+  switch (kind) {
+    case 'pdf': return extract_pdf_text(bytes);
+    case 'docx': return extract_docx_text(bytes);
+    default: return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function normalize_text(text: string): string {
+  text = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return text.length > MAX_TEXT_CHARS ? text.substring(0, MAX_TEXT_CHARS) : text;
+}
+
+/**
+ * Text shown by the PDF content streams (Tj, TJ, ' and " operators).
+ * Strings are decoded as PDFDocEncoding (Latin-1), or UTF-16BE when they
+ * start with a byte order mark; font encodings and ToUnicode maps are not
+ * applied.
+ */
+function extract_pdf_text(bytes: Uint8Array): string {
+  const { zlib, Buffer } = requireNodeModules();
+  const data = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const raw = data.toString('latin1');
+  const pages: string[] = [];
+  const streamRe = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamRe.exec(raw)) !== null) {
+    const dict = match[1];
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) { break; }
+    streamRe.lastIndex = end;
+
+    // skip images, fonts and other binary streams
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm|Metadata|EmbeddedFile)/.test(dict)) {
+      continue;
+    }
+    const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    if (filters && filters.replace(/\/FlateDecode|\/Fl\b|[\[\]\s]/g, '')) {
+      continue;  // unsupported filter (e.g. DCT, LZW)
+    }
+    let content: string;
+    try {
+      const stream = data.subarray(start, end);
+      content = filters ? zlib.inflateSync(stream).toString('latin1') : stream.toString('latin1');
+    } catch {
+      continue;
+    }
+    if (content.includes('BT')) {
+      const text = parse_pdf_content(content);
+      if (text.trim()) {
+        pages.push(text);
+      }
+    }
+  }
+  return pages.join('\n\n');
+}
+
+// text of the BT..ET sections of a content stream
+function parse_pdf_content(content: string): string {
+  let text = '';
+  let operands: (string | number)[] = [];
+  let inArray = false;
+  const shown = () => operands.filter((o): o is string => typeof o === 'string').join('');
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '(') {
+      // literal string (balanced parentheses, backslash escapes)
+      let depth = 1;
+      let j = i + 1;
+      while (j < content.length && depth > 0) {
+        if (content[j] === '\\') { j++; }
+        else if (content[j] === '(') { depth++; }
+        else if (content[j] === ')') { depth--; }
+        j++;
+      }
+      operands.push(decode_pdf_string(unescape_pdf_literal(content.substring(i + 1, j - 1))));
+      i = j;
+    } else if (ch === '<' && content[i + 1] !== '<') {
+      const j = content.indexOf('>', i);
+      if (j < 0) { break; }
+      operands.push(decode_pdf_string(hex_to_latin1(content.substring(i + 1, j))));
+      i = j + 1;
+    } else if (ch === '[') {
+      inArray = true;
+      i++;
+    } else if (ch === ']') {
+      inArray = false;
+      i++;
+    } else if (ch === '%') {
+      const j = content.indexOf('\n', i);
+      i = j < 0 ? content.length : j + 1;
+    } else if (/[\s<>{}\/]/.test(ch)) {
+      // whitespace, dictionaries and names (names are not shown)
+      i++;
+      if (ch === '/') {
+        while (i < content.length && !/[\s\/\[\]()<>{}%]/.test(content[i])) { i++; }
+      }
+    } else {
+      let j = i + 1;
+      while (j < content.length && !/[\s\/\[\]()<>{}%]/.test(content[j])) { j++; }
+      const token = content.substring(i, j);
+      i = j;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        // large negative kerning inside TJ arrays separates words
+        if (inArray && Number(token) < -200) {
+          operands.push(' ');
+        } else if (!inArray) {
+          operands.push(Number(token));
+        }
+        continue;
+      }
+      // operator
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += shown();
+          break;
+        case '\'':
+        case '"':
+          text += '\n' + shown();
+          break;
+        case 'T*':
+          text += '\n';
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands[operands.length - 1];
+          if (typeof ty === 'number' && ty !== 0) {
+            text += '\n';
+          } else if (text && !/\s$/.test(text)) {
+            text += ' ';
+          }
+          break;
+        }
+        case 'Tm':
+        case 'ET':
+          if (text && !text.endsWith('\n')) {
+            text += '\n';
+          }
+          break;
+      }
+      operands = [];
+      inArray = false;
+    }
+  }
+  return text;
+}
+
+function unescape_pdf_literal(s: string): string {
+  return s.replace(/\\(?:([nrtbf()\\])|([0-7]{1,3})|\r?\n)/g, (_, ch, octal) => {
+    if (octal) { return String.fromCharCode(parseInt(octal, 8) & 0xff); }
+    switch (ch) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case undefined: return '';  // line continuation
+      default: return ch;
+    }
+  });
+}
+
+function hex_to_latin1(hex: string): string {
+  hex = hex.replace(/\s/g, '');
+  if (hex.length % 2 === 1) { hex += '0'; }
+  let s = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    s += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16));
+  }
+  return s;
+}
+
+// latin1 byte string -> text (UTF-16BE when it starts with a BOM)
+function decode_pdf_string(s: string): string {
+  if (s.charCodeAt(0) === 0xfe && s.charCodeAt(1) === 0xff) {
+    let out = '';
+    for (let i = 2; i + 1 < s.length; i += 2) {
+      out += String.fromCharCode((s.charCodeAt(i) << 8) | s.charCodeAt(i + 1));
+    }
+    return out;
+  }
+  return s;
+}
+
+/** Paragraph text of word/document.xml in a DOCX (ZIP) file. */
+function extract_docx_text(bytes: Uint8Array): string {
+  const xml = read_zip_entry(bytes, 'word/document.xml');
+  if (!xml) {
+    return '';
+  }
+  return xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(br|cr)\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9A-Fa-f]+);/g, (_, entity) => {
+      switch (entity) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        case 'apos': return '\'';
+        default: return String.fromCodePoint(entity[1] === 'x'
+          ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10));
+      }
+    });
+}
+
+// read a (stored or deflated) file from a ZIP archive via its central directory
+function read_zip_entry(bytes: Uint8Array, name: string): string | null {
+  const { zlib, Buffer } = requireNodeModules();
+  const data = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    return null;
+  }
+  const entries = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  for (let e = 0; e < entries && offset + 46 <= data.length; e++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      return null;
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) {
+      continue;
+    }
+    const localStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const content = data.subarray(localStart, localStart + compressedSize);
+    if (method === 0) {
+      return content.toString('utf8');
+    }
+    if (method === 8) {
+      return zlib.inflateRawSync(content).toString('utf8');
+    }
+    return null;
+  }
+  return null;
+}
@@ -24,6 +24,10 @@ export function build_block_row_meta(blocks: BlockEmbedding[], options: BlockMet
     if (headingPath && !(headingPath.length === 1 && headingPath[0] === block.title)) {
       meta.headingPath = headingPath;
     }
+    if (block.resource_id) {
+      meta.resourceId = block.resource_id;
+      meta.resourceHash = block.resource_hash;
+    }
     return meta;
   });
 }
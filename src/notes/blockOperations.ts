@@ -8,7 +8,7 @@
 import type { BlockEmbedding } from './embeddings';
 
 /**
- * Find the next n blocks in the same note after the given block.
+ * Find the next n blocks in the same note (or attachment) after the given block.
  * Blocks are ordered by line number.
  *
  * @param block - The reference block
@@ -17,7 +17,7 @@ import type { BlockEmbedding } from './embeddings';
  * @returns Array of next blocks, or empty array if none found
  */
 export async function get_next_blocks(block: BlockEmbedding, embeddings: BlockEmbedding[], n: number = 1): Promise<BlockEmbedding[]> {
-  const next_blocks = embeddings.filter((embd) => embd.id === block.id && embd.line > block.line)
+  const next_blocks = embeddings.filter((embd) => embd.id === block.id && embd.resource_id === block.resource_id && embd.line > block.line)
     .sort((a, b) => a.line - b.line);
   if (next_blocks.length === 0) {
     return [];
@@ -26,7 +26,7 @@ export async function get_next_blocks(block: BlockEmbedding, embeddings: BlockEm
 }
 
 /**
- * Find the previous n blocks in the same note before the given block.
+ * Find the previous n blocks in the same note (or attachment) before the given block.
  * Blocks are ordered by line number (descending).
  *
  * @param block - The reference block
@@ -35,7 +35,7 @@ export async function get_next_blocks(block: BlockEmbedding, embeddings: BlockEm
  * @returns Array of previous blocks, or empty array if none found
  */
 export async function get_prev_blocks(block: BlockEmbedding, embeddings: BlockEmbedding[], n: number = 1): Promise<BlockEmbedding[]> {
-  const prev_blocks = embeddings.filter((embd) => embd.id === block.id && embd.line < block.line)
+  const prev_blocks = embeddings.filter((embd) => embd.id === block.id && embd.resource_id === block.resource_id && embd.line < block.line)
     .sort((a, b) => b.line - a.line);
   if (prev_blocks.length === 0) {
     return [];
@@ -165,7 +165,9 @@ export async function validate_cache_results(
     throw new Error('Cannot validate unbuilt cache');
   }
   
-  log.info(`[CacheValidator] Starting validation: k=${k}, minScore=${minScore}`);
+  const annLists = cache.getStats().annLists;
+  log.info(`[CacheValidator] Starting validation: k=${k}, minScore=${minScore}` +
+    (annLists > 0 ? `, approximate index (${annLists} lists)` : ''));
 
   // Get cache results (using Q8 search) - timed
   const queryQ8 = quantize_vector_to_q8(query);
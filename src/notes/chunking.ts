@@ -0,0 +1,342 @@
+/**
+ * Chunking strategies for note embeddings.
+ *
+ * The default strategy ('headings') splits notes on Markdown headings and
+ * fenced code, and long sections by sentences (see calc_note_embeddings).
+ * The alternatives here return chunks as spans of the note body, so that
+ * block offsets (body_idx, length) point to the chunk text as before:
+ *
+ * - window: fixed token windows with overlap, ignoring headings
+ *   (e.g. long heading-less journal notes).
+ * - semantic: heading sections, with long sections split where the meaning
+ *   shifts (embedding distance between consecutive passages).
+ * - structure: heading sections, split between paragraphs, list items and
+ *   tables rather than inside them, with tiny sections merged into the next.
+ *
+ * The strategy is recorded in the model version (see get_chunking_version).
+ */
+import { TextEmbeddingModel, EmbeddingKind } from '../models/models';
+import { JarvisSettings } from '../ux/settings';
+import { calc_similarity } from './embeddingHelpers';
+
+export type ChunkingStrategy = 'headings' | 'window' | 'semantic' | 'structure';
+
+export interface Chunk {
+  start: number;  // offset in the note body
+  end: number;
+  level: number;  // heading level of the section
+  title: string;  // heading title of the section
+  path: string[];  // heading path (note title first)
+}
+
+interface Section extends Chunk {
+  heading_start: number;  // offset of the heading line (or start)
+  is_code: boolean;
+}
+
+type Span = { start: number, end: number };
+
+// Maximum heading level in Markdown (h1-h6)
+const MAX_HEADING_LEVEL = 6;
+const SEMANTIC_UNITS_PER_CHUNK = 8;  // passage size: max tokens / 8
+const SEMANTIC_MIN_UNIT_TOKENS = 32;
+const SEMANTIC_MIN_UNITS = 4;  // shorter sections are not split by meaning
+const TINY_SECTION_FRACTION = 0.125;  // structure: merge sections below max tokens / 8
+
+/**
+ * Suffix of the model version for a chunking strategy (empty for the
+ * default), so that indexes built with another strategy are rebuilt.
+ */
+export function get_chunking_version(settings: JarvisSettings): string {
+  switch (settings.notes_chunking) {
+    case 'window': return `w${settings.notes_chunk_overlap}`;
+    case 'semantic': return 's';
+    case 'structure': return 'l';
+    default: return '';
+  }
+}
+
+/**
+ * Split a (normalized) note body into chunks with the selected strategy.
+ * Not used for the default 'headings' strategy.
+ */
+export async function chunk_note(
+  body: string,
+  title: string,
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  kind: EmbeddingKind,
+  abortSignal?: AbortSignal,
+): Promise<Chunk[]> {
+  const max_tokens = model.max_block_size;
+  const sections = parse_sections(body, title, settings.notes_include_code);
+
+  if (settings.notes_chunking === 'window') {
+    return window_chunks(body, sections, model, max_tokens, settings.notes_chunk_overlap / 100);
+  }
+
+  const chunks: Chunk[] = [];
+  for (const section of sections) {
+    let spans: Span[];
+    if (section.is_code) {
+      spans = pack(line_units(body, section), body, model, max_tokens);
+    } else if (settings.notes_chunking === 'semantic') {
+      // (queries are averaged over their chunks, so they are not split by meaning)
+      spans = (kind === 'doc')
+        ? await semantic_spans(body, section, model, max_tokens, abortSignal)
+        : pack(sentence_units(body, section), body, model, max_tokens);
+    } else {
+      spans = pack(structure_units(body, section), body, model, max_tokens);
+    }
+    for (const span of spans) {
+      chunks.push({ ...span, level: section.level, title: section.title, path: section.path });
+    }
+  }
+
+  if (settings.notes_chunking === 'structure') {
+    return merge_tiny_chunks(chunks, body, model, max_tokens);
+  }
+  return chunks;
+}
+
+/**
+ * Sections between headings and fenced code blocks (same parsing as the
+ * default strategy). Heading lines are not part of the section text.
+ */
+function parse_sections(body: string, note_title: string, include_code: boolean): Section[] {
+  const sections: Section[] = [];
+  const path = [note_title, '', '', '', '', '', ''];
+  let level = 0;
+  let title = note_title;
+  let heading_start = 0;  // start of the heading line, or of the text after a code block
+  let last = 0;
+
+  const push_text = (end: number) => {
+    if (body.substring(last, end).trim().length > 0) {
+      sections.push({ start: last, end, heading_start, level, title, path: [...path], is_code: false });
+    }
+  };
+
+  const regex = /(^```[\s\S]*?```$)|(^#+\s.*)/gm;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(body)) !== null) {
+    push_text(match.index);
+    const match_end = match.index + match[0].length;
+    if (match[1]) {
+      if (include_code) {
+        const code_title = `${match[1].match(/```(.*)/)?.[1] ?? ''} code block`.trim();
+        const code_path = [...path];
+        code_path[level] = code_title;
+        sections.push({ start: match.index, end: match_end, heading_start: match.index,
+          level, title: code_title, path: code_path, is_code: true });
+      }
+      heading_start = match_end;
+    } else {
+      const heading = match[2].match(/^(#+)\s(.*)/);
+      level = Math.min(heading[1].length, MAX_HEADING_LEVEL);
+      title = heading[2];
+      path[level] = title;
+      heading_start = match.index;
+    }
+    last = match_end;
+  }
+  push_text(body.length);
+  return sections;
+}
+
+// fixed token windows over the text between code blocks, with overlap
+function window_chunks(body: string, sections: Section[], model: TextEmbeddingModel,
+    max_tokens: number, overlap: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  const overlap_tokens = Math.floor(max_tokens * Math.min(Math.max(overlap, 0), 0.5));
+
+  // regions: runs of text sections (headings included) and code sections
+  const regions: { span: Span, is_code: boolean }[] = [];
+  for (const section of sections) {
+    const prev = regions[regions.length - 1];
+    if (!section.is_code && prev && !prev.is_code &&
+        body.substring(prev.span.end, section.heading_start).trim().length === 0) {
+      prev.span.end = section.end;
+    } else {
+      regions.push({ span: { start: section.is_code ? section.start : section.heading_start, end: section.end },
+        is_code: section.is_code });
+    }
+  }
+
+  for (const region of regions) {
+    const units = region.is_code ? line_units(body, region.span) : sentence_units(body, region.span);
+    for (const span of pack(units, body, model, max_tokens, overlap_tokens)) {
+      // label the window with the section it starts in
+      let section = sections[0];
+      for (const candidate of sections) {
+        if (candidate.heading_start > span.start) { break; }
+        section = candidate;
+      }
+      chunks.push({ ...span, level: section.level, title: section.title, path: section.path });
+    }
+  }
+  return chunks;
+}
+
+// split a section where the embedding distance between consecutive passages peaks
+async function semantic_spans(body: string, section: Span, model: TextEmbeddingModel,
+    max_tokens: number, abortSignal?: AbortSignal): Promise<Span[]> {
+  const sentences = sentence_units(body, section);
+  const unit_tokens = Math.max(SEMANTIC_MIN_UNIT_TOKENS, Math.floor(max_tokens / SEMANTIC_UNITS_PER_CHUNK));
+  const units = pack(sentences, body, model, unit_tokens);
+  if (units.length < SEMANTIC_MIN_UNITS) {
+    return pack(sentences, body, model, max_tokens);
+  }
+
+  const embeddings: Float32Array[] = [];
+  for (const unit of units) {
+    embeddings.push(await model.embed(body.substring(unit.start, unit.end), 'doc', abortSignal));
+  }
+  const distances = embeddings.slice(1).map((embedding, i) => 1 - calc_similarity(embeddings[i], embedding));
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const std = Math.sqrt(distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length);
+  const threshold = mean + std;
+
+  // group consecutive units, breaking after distance peaks
+  const spans: Span[] = [];
+  let group_start = 0;
+  for (let i = 0; i < units.length; i++) {
+    if (i === units.length - 1 || distances[i] > threshold) {
+      const group = { start: units[group_start].start, end: units[i].end };
+      spans.push(...pack(sentence_units(body, group), body, model, max_tokens));
+      group_start = i + 1;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Group consecutive units into spans of up to max_tokens. Units above the
+ * limit are split by lines (e.g. table rows), sentences, and then by
+ * characters. With overlap_tokens, each span starts with the last units of
+ * the previous one (up to that size).
+ */
+function pack(units: Span[], body: string, model: TextEmbeddingModel,
+    max_tokens: number, overlap_tokens: number = 0): Span[] {
+  const sized: (Span & { tokens: number })[] = [];
+  for (const unit of units) {
+    const tokens = model.count_tokens(body.substring(unit.start, unit.end));
+    if (tokens <= max_tokens) {
+      sized.push({ ...unit, tokens });
+      continue;
+    }
+    const lines = line_units(body, unit);
+    const parts = (lines.length > 1) ? lines : sentence_units(body, unit);
+    if (parts.length > 1) {
+      sized.push(...pack(parts, body, model, max_tokens)
+        .map(span => ({ ...span, tokens: model.count_tokens(body.substring(span.start, span.end)) })));
+    } else {
+      // a single long sentence: cut by estimated characters per token
+      const step = Math.max(1, Math.floor((unit.end - unit.start) * max_tokens / tokens * 0.95));
+      for (let start = unit.start; start < unit.end; start += step) {
+        const end = Math.min(unit.end, start + step);
+        sized.push({ start, end, tokens: model.count_tokens(body.substring(start, end)) });
+      }
+    }
+  }
+
+  const spans: Span[] = [];
+  let first = 0;
+  while (first < sized.length) {
+    let last = first;
+    let tokens = sized[first].tokens;
+    while (last + 1 < sized.length && tokens + sized[last + 1].tokens <= max_tokens) {
+      last++;
+      tokens += sized[last].tokens;
+    }
+    spans.push({ start: sized[first].start, end: sized[last].end });
+    if (last + 1 >= sized.length) { break; }
+
+    // next span: back off from the end of this one by up to overlap_tokens
+    let next = last + 1;
+    let overlap = 0;
+    while (next - 1 > first && overlap + sized[next - 1].tokens <= overlap_tokens) {
+      next--;
+      overlap += sized[next].tokens;
+    }
+    first = next;
+  }
+  return spans;
+}
+
+// sentences and lines (same boundaries as the default strategy), without blank ones
+function sentence_units(body: string, span: Span): Span[] {
+  return regex_units(body, span, /[^.!?\n]*[.!?\n]+|[^.!?\n]+$/g);
+}
+
+function line_units(body: string, span: Span): Span[] {
+  return regex_units(body, span, /[^\n]*\n|[^\n]+$/g);
+}
+
+function regex_units(body: string, span: Span, regex: RegExp): Span[] {
+  const text = body.substring(span.start, span.end);
+  const units: Span[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    if (match[0].trim().length > 0) {
+      units.push({ start: span.start + match.index, end: span.start + match.index + match[0].length });
+    }
+  }
+  return units;
+}
+
+// paragraphs, list items (with their nested lines) and tables
+function structure_units(body: string, span: Span): Span[] {
+  const units: (Span & { kind: 'paragraph' | 'item' | 'table' })[] = [];
+  let offset = span.start;
+  let after_blank = false;
+  for (const line of body.substring(span.start, span.end).split(/(?<=\n)/)) {
+    const line_span = { start: offset, end: offset + line.length };
+    offset += line.length;
+
+    const prev = units[units.length - 1];
+    if (line.trim().length === 0) {
+      if (prev) { prev.end = line_span.end; }
+      after_blank = true;  // blank lines end paragraphs and tables
+      continue;
+    }
+    const indented = /^\s/.test(line);
+    if (/^\s*\|/.test(line)) {
+      if (prev?.kind === 'table' && !after_blank) {
+        prev.end = line_span.end;
+      } else {
+        units.push({ ...line_span, kind: 'table' });
+      }
+    } else if (!indented && /^([-*+]|\d+[.)])\s/.test(line)) {
+      units.push({ ...line_span, kind: 'item' });
+    } else if (prev && ((prev.kind === 'paragraph' && !after_blank) || (prev.kind === 'item' && indented))) {
+      prev.end = line_span.end;  // paragraph or list item continuation (nested items are indented)
+    } else {
+      units.push({ ...line_span, kind: 'paragraph' });
+    }
+    after_blank = false;
+  }
+  return units.map(unit => ({ start: unit.start, end: unit.end }));
+}
+
+// merge chunks below max_tokens / 8 into the next chunk (across a heading), when they fit
+function merge_tiny_chunks(chunks: Chunk[], body: string, model: TextEmbeddingModel, max_tokens: number): Chunk[] {
+  const tiny_tokens = Math.floor(max_tokens * TINY_SECTION_FRACTION);
+  const merged: Chunk[] = [];
+  for (const chunk of chunks) {
+    const prev = merged[merged.length - 1];
+    if (prev && model.count_tokens(body.substring(prev.start, prev.end)) < tiny_tokens &&
+        !body.startsWith('```', prev.start) && !body.startsWith('```', chunk.start) &&
+        /^(\s|#+\s.*)*$/.test(body.substring(prev.end, chunk.start)) &&  // only headings in between
+        model.count_tokens(body.substring(prev.start, chunk.end)) <= max_tokens) {
+      prev.end = chunk.end;
+      continue;
+    }
+    merged.push({ ...chunk });
+  }
+  return merged;
+}
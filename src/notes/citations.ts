@@ -0,0 +1,84 @@
+/**
+ * Citations in chat answers.
+ *
+ * Answers cite the note blocks given to the model as [1], [2], ..., numbered
+ * by their position in the list of supplied blocks. Citation numbers that
+ * match no supplied block are flagged as [n?]. Text in code blocks and
+ * inline code (e.g. arr[0]) is never treated as a citation.
+ */
+import { BlockEmbedding, extract_blocks_excerpts } from './embeddings';
+import { title_separator } from '../ux/settings';
+
+const EXCERPT_CHARS = 300;  // block text shown when hovering a citation
+
+// [n] that is not a link ([n](...)) or a reference definition ([n]: ...)
+export const find_citation = /\[(\d+)\](?![(:])/g;
+
+// fenced code blocks (up to the closing fence, or the end of a streamed answer) and inline code
+const find_code = /^ {0,3}(`{3,}|~{3,})[^\n]*(?:\n[\s\S]*?)?(?:\n {0,3}\1[`~]*[ \t]*(?=\n|$)|(?![\s\S]))|(`+)(?!`)[\s\S]*?[^`]\2(?!`)/gm;
+
+/** Apply a replacement to the text outside code blocks and inline code. */
+export function replace_outside_code(text: string, replace: (segment: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(find_code)) {
+    result += replace(text.slice(last, match.index)) + match[0];
+    last = match.index + match[0].length;
+  }
+  return result + replace(text.slice(last));
+}
+
+/** A citation number mapped to the block that was in context. */
+export interface ChatCitation {
+  number: number;
+  note_id: string;
+  line: number;  // line in the note where the block starts
+  title: string;  // note title (and heading)
+  excerpt: string;
+}
+
+/**
+ * Normalise the citation format ([note 1], [Note1], [1, 2] → [1], [1][2]),
+ * and flag citations that reference no supplied block.
+ *
+ * @param source_count - number of blocks given to the model
+ * @returns the text and the invalid citation numbers
+ */
+export function check_citations(text: string, source_count: number): { text: string, invalid: number[] } {
+  const invalid = new Set<number>();
+  const checked = replace_outside_code(text, segment => segment
+    .replace(/\[note\s*(\d+)\]/gi, '[$1]')
+    .replace(/\[(\d+(?:\s*,\s*\d+)+)\](?![(:])/g, (match, list: string) =>
+      list.split(',').map(n => `[${n.trim()}]`).join(''))
+    .replace(find_citation, (match, n: string) => {
+      const number = parseInt(n);
+      // [0] is an index rather than a citation (numbering starts at 1)
+      if (number === 0 || number <= source_count) { return match; }
+      invalid.add(number);
+      return `[${number}?]`;
+    }));
+  return { text: checked, invalid: [...invalid].sort((a, b) => a - b) };
+}
+
+/** A note on flagged citations to show with the answer (empty if there are none). */
+export function format_invalid_citations(invalid: number[]): string {
+  if (invalid.length === 0) { return ''; }
+  return `*Unsupported citations: ${invalid.map(n => `[${n}?]`).join(', ')} (no such note was given to the model)*`;
+}
+
+/** The citations in the text that match a source block, with the block text. */
+export async function get_citations(text: string, sources: BlockEmbedding[]): Promise<ChatCitation[]> {
+  const prose = text.replace(find_code, '');
+  const numbers = [...new Set([...prose.matchAll(find_citation)].map(m => parseInt(m[1])))]
+    .filter(n => n >= 1 && n <= sources.length)
+    .sort((a, b) => a - b);
+  const blocks = numbers.map(n => sources[n - 1]);
+  const excerpts = await extract_blocks_excerpts(blocks, EXCERPT_CHARS);
+  return numbers.map((number, i) => ({
+    number,
+    note_id: blocks[i].id,
+    line: blocks[i].resource_id ? 0 : blocks[i].line,  // attachment blocks: line in the attachment
+    title: blocks[i].title.split(title_separator).join(' / '),
+    excerpt: excerpts[i],
+  }));
+}
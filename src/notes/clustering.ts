@@ -0,0 +1,132 @@
+/**
+ * Topic clustering of notes.
+ *
+ * Spherical k-means (cosine similarity) over the mean block embeddings of
+ * notes, with k-means++ seeding. The seed is fixed so that repeated runs on
+ * the same notes give the same clusters.
+ */
+import { get_vector_source } from './duplicates';
+import { dot_product, normalize_embedding } from './embeddingHelpers';
+import { yieldToEventLoop } from './annIndex';
+import { TextEmbeddingModel } from '../models/models';
+import { JarvisSettings } from '../ux/settings';
+
+const MAX_ITERATIONS = 50;
+const MAX_AUTO_CLUSTERS = 30;
+const RANDOM_SEED = 42;
+
+export interface NoteCluster {
+  note_ids: string[];  // sorted by similarity to the centroid (most central first)
+  similarities: number[];
+  centroid: Float32Array;
+}
+
+/**
+ * Cluster the notes in the note DB of a model by topic.
+ *
+ * @param count - number of clusters (0 for automatic: about sqrt(notes / 2))
+ * @param panel - panel to show cache build progress in
+ * @returns clusters sorted by size (largest first)
+ */
+export async function cluster_notes(
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  count: number,
+  panel?: string,
+): Promise<NoteCluster[]> {
+  const source = await get_vector_source(model, settings, panel);
+  const means = source.means(null);
+  const ids = [...means.keys()];
+  const vectors = ids.map(id => means.get(id));
+  if (ids.length < 2) { return []; }
+
+  const k = Math.min(ids.length,
+    count > 0 ? count : Math.max(2, Math.min(MAX_AUTO_CLUSTERS, Math.round(Math.sqrt(ids.length / 2)))));
+  return await kmeans(ids, vectors, k);
+}
+
+async function kmeans(ids: string[], vectors: Float32Array[], k: number): Promise<NoteCluster[]> {
+  const random = mulberry32(RANDOM_SEED);
+  const centroids = seed_centroids(vectors, k, random);
+  const assignment = new Int32Array(vectors.length).fill(-1);
+  const similarity = new Float32Array(vectors.length);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = 0;
+    for (let i = 0; i < vectors.length; i++) {
+      let best = 0;
+      let best_sim = -Infinity;
+      for (let c = 0; c < centroids.length; c++) {
+        const sim = dot_product(vectors[i], centroids[c]);
+        if (sim > best_sim) {
+          best = c;
+          best_sim = sim;
+        }
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed++;
+      }
+      similarity[i] = best_sim;
+    }
+    if (changed === 0) { break; }
+
+    // recompute centroids (an empty cluster keeps its previous centroid)
+    const sums = centroids.map(c => new Float32Array(c.length));
+    const sizes = new Array(centroids.length).fill(0);
+    for (let i = 0; i < vectors.length; i++) {
+      const sum = sums[assignment[i]];
+      for (let d = 0; d < sum.length; d++) { sum[d] += vectors[i][d]; }
+      sizes[assignment[i]]++;
+    }
+    for (let c = 0; c < centroids.length; c++) {
+      if (sizes[c] > 0) { centroids[c] = normalize_embedding(sums[c]); }
+    }
+    await yieldToEventLoop();
+  }
+
+  const clusters: NoteCluster[] = centroids.map(centroid => ({ note_ids: [], similarities: [], centroid }));
+  const order = [...ids.keys()].sort((a, b) => similarity[b] - similarity[a]);
+  for (const i of order) {
+    clusters[assignment[i]].note_ids.push(ids[i]);
+    clusters[assignment[i]].similarities.push(similarity[i]);
+  }
+  return clusters
+    .filter(c => c.note_ids.length > 0)
+    .sort((a, b) => b.note_ids.length - a.note_ids.length);
+}
+
+// k-means++: sample each next centroid proportionally to its cosine distance from the nearest centroid
+function seed_centroids(vectors: Float32Array[], k: number, random: () => number): Float32Array[] {
+  const centroids = [Float32Array.from(vectors[Math.floor(random() * vectors.length)])];
+  const distance = new Float64Array(vectors.length).fill(Infinity);
+  while (centroids.length < k) {
+    const last = centroids[centroids.length - 1];
+    let total = 0;
+    for (let i = 0; i < vectors.length; i++) {
+      distance[i] = Math.min(distance[i], Math.max(0, 1 - dot_product(vectors[i], last)));
+      total += distance[i];
+    }
+    if (total === 0) { break; }  // fewer distinct notes than clusters
+    let target = random() * total;
+    let chosen = vectors.length - 1;
+    for (let i = 0; i < vectors.length; i++) {
+      target -= distance[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    centroids.push(Float32Array.from(vectors[chosen]));
+  }
+  return centroids;
+}
+
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
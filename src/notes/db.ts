@@ -57,6 +57,7 @@ export async function connect_to_db(model: any): Promise<any> {
 // create the database tables
 export async function init_db(db: any, model: any): Promise<void> {
   if (await db_tables_exist(db)) {
+    await add_resource_columns(db);
     return;
   }
   // create the table for embeddings
@@ -68,6 +69,8 @@ export async function init_db(db: any, model: any): Promise<void> {
     level INTEGER NOT NULL,
     title TEXT,
     embedding BLOB NOT NULL,
+    resource_id TEXT,
+    resource_hash TEXT,
     note_idx INTEGER NOT NULL REFERENCES notes(idx),
     model_idx INTEGER NOT NULL REFERENCES models(idx)
   )`);
@@ -94,6 +97,21 @@ export async function init_db(db: any, model: any): Promise<void> {
   insert_model(db, model);
 }
 
+// add the attachment columns to databases created before attachment indexing
+async function add_resource_columns(db: any): Promise<void> {
+  const columns: {name: string}[] = await new Promise((resolve, reject) => {
+    db.all(`PRAGMA table_info(embeddings)`, (err, rows) => err ? reject(err) : resolve(rows));
+  });
+  for (const column of ['resource_id', 'resource_hash']) {
+    if (columns.some((c) => c.name === column)) {
+      continue;
+    }
+    await new Promise<void>((resolve, reject) => {
+      db.run(`ALTER TABLE embeddings ADD COLUMN ${column} TEXT`, (err) => err ? reject(err) : resolve());
+    });
+  }
+}
+
 // check if the embeddings and notes tables exist
 async function db_tables_exist(db: any): Promise<boolean> {
   return new Promise((resolve, reject) => {
@@ -192,8 +210,8 @@ async function db_update_check(db: any, model: any): Promise<[String, number]> {
 export async function get_all_embeddings(db: any): Promise<BlockEmbedding[]> {
   return new Promise((resolve, reject) => {
     db.serialize(() => {
-      db.all(`SELECT note_id, hash, line, body_idx, length, level, title, embedding FROM notes JOIN embeddings ON notes.idx = embeddings.note_idx`,
-          (err, rows: {note_id: string, hash: string, line: string, body_idx: number, length: number, level: number, title: string, embedding: Buffer}[]) => {
+      db.all(`SELECT note_id, hash, line, body_idx, length, level, title, embedding, resource_id, resource_hash FROM notes JOIN embeddings ON notes.idx = embeddings.note_idx`,
+          (err, rows: {note_id: string, hash: string, line: string, body_idx: number, length: number, level: number, title: string, embedding: Buffer, resource_id: string | null, resource_hash: string | null}[]) => {
         if (err) {
           reject(err);
         } else {
@@ -201,7 +219,7 @@ export async function get_all_embeddings(db: any): Promise<BlockEmbedding[]> {
             // convert the embedding from a blob to a Float32Array
             // row.embedding is already a Buffer, no need for Buffer.from()
             const embedding = new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / Float32Array.BYTES_PER_ELEMENT);
-            return {
+            const block: BlockEmbedding = {
               id: row.note_id,
               hash: row.hash,
               line: parseInt(row.line, 10),
@@ -212,6 +230,11 @@ export async function get_all_embeddings(db: any): Promise<BlockEmbedding[]> {
               embedding: embedding,
               // Note: similarity is intentionally omitted so it gets calculated during search
             };
+            if (row.resource_id) {
+              block.resource_id = row.resource_id;
+              block.resource_hash = row.resource_hash;
+            }
+            return block;
           }));
         }
       });
@@ -283,11 +306,12 @@ export async function insert_note_embeddings(db: any, embeds: BlockEmbedding[],
           reject(err);
         } else {
           // insert the new embeddings
-          const stmt = db.prepare(`INSERT INTO embeddings (note_idx, line, body_idx, length, level, title, embedding, model_idx) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+          const stmt = db.prepare(`INSERT INTO embeddings (note_idx, line, body_idx, length, level, title, embedding, model_idx, resource_id, resource_hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
           for (let embd of embeddings) {
             // Create Uint8Array view for SQLite blob
             const blob = new Uint8Array(embd.embedding.buffer, embd.embedding.byteOffset, embd.embedding.byteLength);
-            stmt.run([new_row_id, embd.line, embd.body_idx, embd.length, embd.level, embd.title, blob, model.db_idx]);
+            stmt.run([new_row_id, embd.line, embd.body_idx, embd.length, embd.level, embd.title, blob, model.db_idx,
+              embd.resource_id ?? null, embd.resource_hash ?? null]);
           }
           stmt.finalize();
           resolve();
@@ -0,0 +1,224 @@
+/**
+ * Duplicate and near-duplicate note detection.
+ *
+ * Compares each note with its nearest notes (found by a top-k search of the
+ * corpus cache with the note's mean block embedding, using the approximate
+ * index when it is ready) by the similarity of their mean embeddings, and
+ * refines the most similar pairs with a symmetric MaxSim score (the average
+ * best match of each block in the other note). Pairs above the threshold on
+ * either score are clustered into groups of duplicates.
+ */
+import { BlockEmbedding, corpusCaches } from './embeddings';
+import { dot_product, ensure_float_embedding, normalize_embedding } from './embeddingHelpers';
+import { yieldToEventLoop } from './annIndex';
+import { SimpleCorpusCache } from './embeddingCache';
+import { TopKHeap } from './topK';
+import { quantize_vector_to_q8 } from './q8';
+import { build_corpus_cache } from './embeddingSearch';
+import { getModelStats } from './modelStats';
+import { TextEmbeddingModel } from '../models/models';
+import { JarvisSettings } from '../ux/settings';
+
+const CANDIDATE_MARGIN = 0.1;  // mean similarity below the threshold that is still refined with MaxSim
+const MAX_CANDIDATE_PAIRS = 5000;
+const NEIGHBORS_PER_NOTE = 10;  // nearest notes compared with each note
+const BLOCKS_PER_NEIGHBOR = 4;  // blocks searched per neighbor (a note has several blocks)
+const YIELD_EVERY_ROWS = 200;  // let the UI breathe during the scan
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  mean: number;    // cosine similarity of mean embeddings
+  maxsim: number;  // symmetric MaxSim over blocks
+}
+
+export interface DuplicateGroup {
+  note_ids: string[];
+  pairs: DuplicatePair[];
+  similarity: number;  // highest pair similarity in the group
+}
+
+/** Similarity used to rank and threshold a pair. */
+export function pair_similarity(pair: DuplicatePair): number {
+  return Math.max(pair.mean, pair.maxsim);
+}
+
+/**
+ * Find groups of duplicate notes in the note DB of a model.
+ *
+ * @param threshold - minimal similarity (0-1) of the mean or MaxSim score
+ * @param note_filter - restrict to these notes (null for all notes)
+ * @param panel - panel to show cache build progress in
+ */
+export async function find_duplicate_groups(
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  threshold: number,
+  note_filter: Set<string> | null = null,
+  panel?: string,
+): Promise<DuplicateGroup[]> {
+  const source = await get_vector_source(model, settings, panel);
+  const means = source.means(note_filter);
+  const ids = [...means.keys()];
+  const neighbors = source.neighbors
+    ?? ((vector: Float32Array, k: number) => nearest_means(vector, means, k));
+
+  // phase 1: mean similarity to the nearest notes of each note
+  const min_candidate = threshold - CANDIDATE_MARGIN;
+  const heap = new TopKHeap<DuplicatePair>(MAX_CANDIDATE_PAIRS, { minScore: min_candidate });
+  const seen = new Set<string>();
+  for (let i = 0; i < ids.length; i++) {
+    for (const id of neighbors(means.get(ids[i]), NEIGHBORS_PER_NOTE + 1, note_filter)) {
+      if (id === ids[i] || !means.has(id)) { continue; }
+      const [a, b] = ids[i] < id ? [ids[i], id] : [id, ids[i]];
+      if (seen.has(a + b)) { continue; }
+      seen.add(a + b);
+      const mean = dot_product(means.get(a), means.get(b));
+      heap.push(mean, { a, b, mean, maxsim: 0 });
+    }
+    if (i % YIELD_EVERY_ROWS === YIELD_EVERY_ROWS - 1) {
+      await yieldToEventLoop();
+    }
+  }
+  const candidates = heap.valuesDescending().map(entry => entry.value);
+
+  // phase 2: MaxSim over the blocks of candidate notes
+  const candidate_ids = new Set(candidates.flatMap(p => [p.a, p.b]));
+  const blocks = source.blocks(candidate_ids);
+  const duplicates: DuplicatePair[] = [];
+  for (const pair of candidates) {
+    pair.maxsim = symmetric_maxsim(blocks.get(pair.a) ?? [], blocks.get(pair.b) ?? []);
+    if (pair_similarity(pair) >= threshold) {
+      duplicates.push(pair);
+    }
+  }
+
+  return cluster_pairs(duplicates);
+}
+
+export interface VectorSource {
+  means: (note_ids: Set<string> | null) => Map<string, Float32Array>;
+  blocks: (note_ids: Set<string>) => Map<string, Float32Array[]>;
+  // ids of the (up to k) notes with the blocks nearest to a vector; when absent, the means are scanned
+  neighbors?: (vector: Float32Array, k: number, note_ids: Set<string> | null) => string[];
+}
+
+/**
+ * Unit block vectors from the corpus cache (userData mode, built on demand)
+ * or from the legacy in-memory embeddings.
+ */
+export async function get_vector_source(
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  panel?: string,
+): Promise<VectorSource> {
+  if (settings.notes_db_in_user_data) {
+    let cache = corpusCaches.get(model.id);
+    if (!cache) {
+      cache = new SimpleCorpusCache();
+      corpusCaches.set(model.id, cache);
+    }
+    cache.configureAnn(settings);  // may invalidate a compressed cache
+    if (!cache.isFullyBuilt()) {
+      const dim = getModelStats(model.id)?.dim || (await model.embed('dimension probe', 'query')).length;
+      await build_corpus_cache(cache, model, settings, dim, '', panel);
+    }
+    cache.configureAnn(settings);
+    return {
+      means: (note_ids) => cache.getNoteMeans(note_ids),
+      blocks: (note_ids) => cache.getNoteVectors(note_ids),
+      neighbors: (vector, k, note_ids) => {
+        const results = cache.search(quantize_vector_to_q8(vector), k * BLOCKS_PER_NEIGHBOR, 0, note_ids);
+        return [...new Set(results.map(block => block.id))].slice(0, k);
+      },
+    };
+  }
+
+  const grouped = group_unit_vectors(model.embeddings);
+  return {
+    means: (note_ids) => {
+      const means = new Map<string, Float32Array>();
+      for (const [id, vectors] of grouped) {
+        if (note_ids && !note_ids.has(id)) { continue; }
+        const mean = new Float32Array(vectors[0].length);
+        for (const vector of vectors) {
+          for (let i = 0; i < mean.length; i++) { mean[i] += vector[i]; }
+        }
+        means.set(id, normalize_embedding(mean));
+      }
+      return means;
+    },
+    blocks: () => grouped,
+  };
+}
+
+// ids of the k notes with the most similar means (bounded heap)
+function nearest_means(vector: Float32Array, means: Map<string, Float32Array>, k: number): string[] {
+  const heap = new TopKHeap<string>(k);
+  for (const [id, mean] of means) {
+    heap.push(dot_product(vector, mean), id);
+  }
+  return heap.valuesDescending().map(entry => entry.value);
+}
+
+function group_unit_vectors(embeddings: BlockEmbedding[]): Map<string, Float32Array[]> {
+  const grouped = new Map<string, Float32Array[]>();
+  for (const block of embeddings) {
+    const embedding = ensure_float_embedding(block);
+    if (block.resource_id || embedding.length === 0) { continue; }
+    if (!grouped.has(block.id)) { grouped.set(block.id, []); }
+    grouped.get(block.id).push(normalize_embedding(Float32Array.from(embedding)));
+  }
+  return grouped;
+}
+
+// average over the blocks of a of their best match in b
+function directed_maxsim(a: Float32Array[], b: Float32Array[]): number {
+  let total = 0;
+  for (const va of a) {
+    let best = -1;
+    for (const vb of b) { best = Math.max(best, dot_product(va, vb)); }
+    total += best;
+  }
+  return total / a.length;
+}
+
+function symmetric_maxsim(a: Float32Array[], b: Float32Array[]): number {
+  if (a.length === 0 || b.length === 0) { return 0; }
+  return (directed_maxsim(a, b) + directed_maxsim(b, a)) / 2;
+}
+
+// connected components of the duplicate pairs (union-find)
+function cluster_pairs(pairs: DuplicatePair[]): DuplicateGroup[] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) {
+      parent.set(id, parent.get(parent.get(id)));
+      id = parent.get(id);
+    }
+    return id;
+  };
+  for (const pair of pairs) {
+    if (!parent.has(pair.a)) { parent.set(pair.a, pair.a); }
+    if (!parent.has(pair.b)) { parent.set(pair.b, pair.b); }
+    parent.set(find(pair.a), find(pair.b));
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    if (!groups.has(root)) {
+      groups.set(root, { note_ids: [], pairs: [], similarity: 0 });
+    }
+    const group = groups.get(root);
+    group.pairs.push(pair);
+    group.similarity = Math.max(group.similarity, pair_similarity(pair));
+    for (const id of [pair.a, pair.b]) {
+      if (!group.note_ids.includes(id)) { group.note_ids.push(id); }
+    }
+  }
+
+  return [...groups.values()]
+    .map(group => ({ ...group, pairs: group.pairs.sort((x, y) => pair_similarity(y) - pair_similarity(x)) }))
+    .sort((x, y) => y.similarity - x.similarity);
+}
@@ -6,16 +6,23 @@
  * into RAM once and search in pure memory (10-50ms vs 2000ms+).
  * 
  * Design: Q8 vectors in shared buffer + simple metadata objects.
+ * Large corpuses may add an approximate (IVF-PQ) index, see annIndex.ts.
+ * Once every block is assigned to a list of the index, the Q8 rows are
+ * replaced by the PQ codes of the blocks (dim / 4 bytes per block), and the
+ * top notes of a search may be re-scored with their exact Q8 vectors.
  */
 
+import debounce from 'lodash.debounce';
 import { getLogger } from '../utils/logger';
 import { UserDataEmbStore } from './userDataStore';
 import { read_user_data_embeddings } from './userDataReader';
 import { cosine_similarity_q8, QuantizedVector } from './q8';
 import { TopKHeap } from './topK';
 import { BlockEmbedding } from './embeddings';
+import { normalize_embedding } from './embeddingHelpers';
 import { clearObjectReferences } from '../utils';
 import { setModelStats } from './modelStats';
+import { ANN_MIN_BLOCKS, AnnAssignments, IvfIndex, load_ann_index, save_ann_index, yieldToEventLoop } from './annIndex';
 
 const log = getLogger();
 
@@ -26,10 +33,13 @@ const CACHE_DESKTOP_LIMIT_MB = 200;  // Desktop limit
 const CACHE_WARNING_THRESHOLD = 0.8; // Show warning at 80% capacity
 const SAFETY_MARGIN = 1.15;          // 15% buffer for overhead
 const MAX_DIM_FOR_CACHE = 2048;      // Refuse pathologically large dims
+const ANN_ASSIGN_CHUNK = 2000;       // Blocks assigned between event loop yields
+const ANN_SAVE_DELAY_MS = 30_000;    // Save the index at most every 30s during updates
+const RESCORE_NOTES = 10;            // Top notes re-scored with exact vectors (compressed cache)
 
-const BYTES_PER_BLOCK = 68;       // Metadata overhead per block
+const BYTES_PER_BLOCK = 72;       // Metadata overhead per block
 // Breakdown:
-//   - 20 bytes: qOffset/lineNumber/bodyStart/bodyLength/headingLevel (5 numbers × 4)
+//   - 24 bytes: qOffset/lineNumber/bodyStart/bodyLength/headingLevel/list (6 numbers × 4)
 //   - ~48 bytes: noteId, noteHash, title strings + object header
 
 /**
@@ -38,26 +48,36 @@ const BYTES_PER_BLOCK = 68;       // Metadata overhead per block
 interface BlockMetadata {
   noteId: string;
   noteHash: string;
-  qOffset: number;       // Starting index in q8Buffer (= blockIdx * dim)
+  qOffset: number;       // Starting index in q8Buffer (= blockIdx * dim) or codes (= blockIdx * codeBytes)
   title: string;         // For display
   lineNumber: number;    // For click-to-scroll
   bodyStart: number;     // For text extraction
   bodyLength: number;    // For text extraction
   headingLevel: number;  // For grouping/display
+  list: number;          // ANN list (-1 if not assigned)
+  resourceId?: string;   // Attachment blocks
 }
 
 
 /**
  * Estimate memory footprint of in-memory cache.
- * Includes Q8 vectors and per-block metadata.
+ * Includes Q8 vectors (or PQ codes, when the approximate index compresses
+ * the cache) and per-block metadata.
  */
-function estimateCacheBytes(numBlocks: number, dim: number): number {
-  const vectorBytes = numBlocks * dim;           // Q8 vectors (1 byte/dim)
+function estimateCacheBytes(numBlocks: number, dim: number, compressed: boolean): number {
+  const vectorBytes = isCompressible(numBlocks, dim, compressed)
+    ? numBlocks * IvfIndex.codeBytesFor(dim)    // PQ codes (4 bits per 2 dims)
+    : numBlocks * dim;                           // Q8 vectors (1 byte/dim)
   const metadataBytes = numBlocks * BYTES_PER_BLOCK;
   const raw = vectorBytes + metadataBytes;
   return Math.ceil(raw * SAFETY_MARGIN);        // Add safety margin
 }
 
+/** True if a cache of this size is compressed by the approximate index (when enabled). */
+function isCompressible(numBlocks: number, dim: number, annEnabled: boolean): boolean {
+  return annEnabled && numBlocks >= ANN_MIN_BLOCKS && IvfIndex.canEncode(dim);
+}
+
 /**
  * Get the cache limit for the current platform.
  * Uses device profile (not actual platform) to allow mobile devices to use desktop limits.
@@ -76,18 +96,20 @@ export function getCacheLimit(profileIsDesktop: boolean): number {
  * @param numBlocks - Number of blocks in corpus
  * @param dim - Embedding dimension
  * @param profileIsDesktop - True if device profile is 'desktop' (from settings)
+ * @param annEnabled - True if the approximate index is enabled (notes_ann_index)
  * @returns Capacity percentage (0-100+), or null if dimension is invalid
  */
 export function calculateCacheCapacity(
   numBlocks: number,
   dim: number,
-  profileIsDesktop: boolean
+  profileIsDesktop: boolean,
+  annEnabled: boolean = false
 ): number | null {
   if (dim <= 0 || dim > MAX_DIM_FOR_CACHE) {
     return null;
   }
 
-  const bytes = estimateCacheBytes(numBlocks, dim);
+  const bytes = estimateCacheBytes(numBlocks, dim, annEnabled);
   const mb = bytes / (1024 * 1024);
   const limit = getCacheLimit(profileIsDesktop);
 
@@ -100,14 +122,16 @@ export function calculateCacheCapacity(
  * @param numBlocks - Number of blocks in corpus
  * @param dim - Embedding dimension
  * @param profileIsDesktop - True if device profile is 'desktop' (from settings)
+ * @param annEnabled - True if the approximate index is enabled (notes_ann_index)
  * @returns Warning info or null if no warning needed
  */
 export function checkCapacityWarning(
   numBlocks: number,
   dim: number,
-  profileIsDesktop: boolean
+  profileIsDesktop: boolean,
+  annEnabled: boolean = false
 ): { percentage: number; limitMB: number } | null {
-  const percentage = calculateCacheCapacity(numBlocks, dim, profileIsDesktop);
+  const percentage = calculateCacheCapacity(numBlocks, dim, profileIsDesktop, annEnabled);
   if (percentage === null || percentage < CACHE_WARNING_THRESHOLD * 100) {
     return null;
   }
@@ -125,6 +149,7 @@ export function checkCapacityWarning(
 export class SimpleCorpusCache {
   // Heavy data: shared buffers (contiguous, cache-friendly)
   private q8Buffer: Int8Array | null = null;      // All vectors (numBlocks * dim)
+  private codes: Uint8Array | null = null;        // PQ codes (numBlocks * codeBytes), replaces q8Buffer
 
   // Light metadata: simple objects
   private blocks: BlockMetadata[] = [];
@@ -136,6 +161,17 @@ export class SimpleCorpusCache {
 
   // Track whether cache was fully built via ensureBuilt() (not just incrementally during sweep)
   private _builtViaEnsureBuilt: boolean = false;
+  private version: number = 0;                    // Incremented whenever the cached blocks change
+
+  // Optional approximate index (large corpuses)
+  private modelId: string | null = null;
+  private generation: number = 0;                 // Incremented on invalidate() to stop index builds
+  private ann: IvfIndex | null = null;
+  private annReady: boolean = false;              // All blocks assigned to lists
+  private annLists: Int32Array[] | null = null;   // Block indices per list (rebuilt after updates)
+  private annProbes: number = 16;
+  private annBuild: Promise<void> | null = null;
+  private saveAnnDebounced = debounce(() => this.saveAnn(), ANN_SAVE_DELAY_MS);
 
   /**
    * Ensure cache is built (handles concurrent calls).
@@ -150,6 +186,8 @@ export class SimpleCorpusCache {
     settings?: any,
     abortController?: AbortController,
   ): Promise<void> {
+    this.modelId = modelId;
+
     // Check dimension mismatch (model changed)
     if (this.isBuilt() && this.dim !== dim) {
       log.warn(`[Cache] Dimension mismatch (cached=${this.dim}, requested=${dim}), invalidating`);
@@ -177,6 +215,7 @@ export class SimpleCorpusCache {
     const actualNoteCount = await this.buildPromise;
     this.buildPromise = null;
     this._builtViaEnsureBuilt = true;  // Mark cache as fully built
+    this.version++;
 
     // Update in-memory stats with accurate values from cache build
     if (this.isBuilt()) {
@@ -333,6 +372,8 @@ export class SimpleCorpusCache {
             bodyStart: block.body_idx,
             bodyLength: block.length,
             headingLevel: block.level,
+            list: -1,
+            resourceId: block.resource_id,
           });
 
           blockIdx++;
@@ -347,7 +388,7 @@ export class SimpleCorpusCache {
       const actualNoteCount = new Set(results.map(r => r.noteId)).size;
 
       this.buildDurationMs = Date.now() - startTime;
-      const memoryMB = (this.q8Buffer.byteLength + this.blocks.length * BYTES_PER_BLOCK) / (1024 * 1024);
+      const memoryMB = this.memoryBytes() / (1024 * 1024);
 
       log.info(`[Cache] Built ${actualNoteCount} notes, ${this.blocks.length} blocks, ${memoryMB.toFixed(1)}MB (${this.buildDurationMs}ms)`);
 
@@ -363,25 +404,44 @@ export class SimpleCorpusCache {
   /**
    * Pure in-memory search (10-50ms).
    * Uses TopKHeap for efficient O(n log k) ranking.
+   * When allowedIds is given, blocks of other notes are skipped before scoring.
+   * When the approximate index is ready, only the blocks in the probed lists are scored.
+   * In a compressed cache, similarities are approximate (see rescore()).
    */
-  search(query: QuantizedVector, k: number, minScore: number): BlockEmbedding[] {
+  search(query: QuantizedVector, k: number, minScore: number, allowedIds: Set<string> | null = null): BlockEmbedding[] {
     if (!this.isBuilt()) {
       log.warn('[Cache] Search called on unbuilt cache');
       return [];
     }
 
-    // Score all blocks and keep top-k using heap
+    // Score all blocks (or the probed lists) and keep top-k using heap
     const heap = new TopKHeap<number>(k, { minScore });
 
+    // compressed cache: q·centroid per list + q·residual from the lookup table
+    let table: Float32Array | null = null;
+    let listScores: Float32Array | null = null;
+    if (this.codes) {
+      const unitQuery = normalize_embedding(Float32Array.from(query.values));
+      table = this.ann!.queryTable(unitQuery);
+      listScores = this.ann!.centroidScores(unitQuery);
+    }
+
     let nanCount = 0;
-    for (let i = 0; i < this.blocks.length; i++) {
+    const scoreBlock = (i: number) => {
       const block = this.blocks[i];
-      const rowView = {
-        values: this.q8Buffer!.subarray(block.qOffset, block.qOffset + this.dim),
-        scale: 0, // Unused - cosine similarity is scale-invariant
-      };
-
-      const similarity = cosine_similarity_q8(rowView, query);
+      if (allowedIds && !allowedIds.has(block.noteId)) {
+        return;
+      }
+      let similarity: number;
+      if (this.codes) {
+        similarity = listScores![block.list] + this.ann!.scoreCodes(table!, this.codes, block.qOffset);
+      } else {
+        const rowView = {
+          values: this.q8Buffer!.subarray(block.qOffset, block.qOffset + this.dim),
+          scale: 0, // Unused - cosine similarity is scale-invariant
+        };
+        similarity = cosine_similarity_q8(rowView, query);
+      }
 
       // Debug: Track NaN similarities
       if (isNaN(similarity) && nanCount === 0) {
@@ -390,6 +450,19 @@ export class SimpleCorpusCache {
       }
 
       heap.push(similarity, i);  // Push block index
+    };
+
+    const lists = this.probeAnn(query, k, allowedIds);
+    if (lists) {
+      for (const list of lists) {
+        for (let j = 0; j < list.length; j++) {
+          scoreBlock(list[j]);
+        }
+      }
+    } else {
+      for (let i = 0; i < this.blocks.length; i++) {
+        scoreBlock(i);
+      }
     }
 
     if (nanCount > 0) {
@@ -400,6 +473,66 @@ export class SimpleCorpusCache {
       this.blockToEmbedding(idx, score));
   }
 
+  /**
+   * Replace the approximate similarities of a compressed cache with the
+   * exact Q8 similarities for the blocks of the top RESCORE_NOTES notes
+   * (read from userData). Other results keep their approximate similarity.
+   * Results are returned unchanged when the cache is not compressed.
+   */
+  async rescore(
+    results: BlockEmbedding[],
+    query: QuantizedVector,
+    store: UserDataEmbStore,
+    minScore: number,
+  ): Promise<BlockEmbedding[]> {
+    if (!this.codes || !this.modelId || results.length === 0) {
+      return results;
+    }
+    const noteIds: string[] = [];
+    for (const result of results) {
+      if (!noteIds.includes(result.id)) {
+        noteIds.push(result.id);
+        if (noteIds.length >= RESCORE_NOTES) { break; }
+      }
+    }
+
+    let exact: any[] = [];
+    try {
+      exact = await read_user_data_embeddings({
+        store,
+        modelId: this.modelId,
+        noteIds,
+        maxRows: undefined,
+        currentModel: null,
+        currentSettings: null,
+        validationTracker: null,
+      });
+      const similarities = new Map<string, number>();
+      for (const result of exact) {
+        for (const block of result.blocks) {
+          if (block.q8 && block.q8.values.length === this.dim) {
+            similarities.set(`${block.id}:${block.line}:${block.resource_id ?? ''}`,
+              cosine_similarity_q8(block.q8, query));
+          }
+        }
+      }
+      for (const result of results) {
+        const similarity = similarities.get(`${result.id}:${result.line}:${result.resource_id ?? ''}`);
+        if (similarity !== undefined) {
+          result.similarity = similarity;
+        }
+      }
+    } catch (error) {
+      log.debug('[Cache] Re-scoring failed, using approximate similarities', error);
+      return results;
+    } finally {
+      clearObjectReferences(exact);
+    }
+    return results
+      .filter(result => result.similarity >= minScore)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
   /** Convert internal block metadata to BlockEmbedding. */
   private blockToEmbedding(idx: number, similarity: number): BlockEmbedding {
     const block = this.blocks[idx];
@@ -413,6 +546,7 @@ export class SimpleCorpusCache {
       title: block.title,
       embedding: null as unknown as Float32Array,
       similarity,
+      resource_id: block.resourceId,
     };
   }
 
@@ -425,17 +559,233 @@ export class SimpleCorpusCache {
     const wasBuilt = this.isBuilt();
 
     this.q8Buffer = null;
+    this.codes = null;
     this.blocks = [];
     this.dim = 0;
     this.buildPromise = null;
     this.buildDurationMs = 0;
     this._builtViaEnsureBuilt = false;
+    this.generation++;
+    this.version++;
+    this.ann = null;
+    this.annReady = false;
+    this.annLists = null;
+    this.saveAnnDebounced.cancel();
 
     if (wasBuilt) {
       log.debug('[Cache] Invalidated');
     }
   }
 
+  /**
+   * Enable or disable the approximate index according to the settings
+   * (notes_ann_index, notes_ann_probes). The index is loaded or trained in
+   * the background once the cache has ANN_MIN_BLOCKS blocks; until then,
+   * searches are exact. Once the index is ready, the Q8 rows are replaced
+   * by the PQ codes of the blocks, which is what keeps large corpuses within
+   * the (mobile) memory limits. Disabling the index of a compressed cache
+   * invalidates the cache, so that it is rebuilt with Q8 rows.
+   */
+  configureAnn(settings: {
+    notes_ann_index?: boolean, notes_ann_probes?: number, notes_debug_mode?: boolean,
+  }): void {
+    if (!settings?.notes_ann_index) {
+      if (this.ann || this.annBuild) {
+        this.generation++;  // stop a build in progress
+        this.dropAnn();
+        log.info('[ANN] Index disabled');
+      }
+      return;
+    }
+    this.annProbes = Math.max(1, settings.notes_ann_probes ?? 16);
+
+    if (this.ann && this.annReady && this.ann.isStale(this.blocks.length)) {
+      log.info(`[ANN] Corpus grew to ${this.blocks.length} blocks, retraining the index`);
+      this.dropAnn();
+    }
+    if (this.ann || this.annBuild || !this.modelId || !this.isBuilt() || this.blocks.length < ANN_MIN_BLOCKS) {
+      return;
+    }
+    this.annBuild = this.buildAnn(this.modelId, settings.notes_debug_mode ?? false)
+      .catch(error => log.warn('[ANN] Index build failed, using exact search', error))
+      .finally(() => { this.annBuild = null; });
+  }
+
+  /** Load (or train) the index and assign every block to a list. */
+  private async buildAnn(modelId: string, debugMode: boolean): Promise<void> {
+    const startTime = Date.now();
+    const generation = this.generation;
+    const dim = this.dim;
+    const isCancelled = () => this.generation !== generation;
+
+    const saved = await load_ann_index(modelId, dim);
+    let index = saved?.index ?? null;
+    let savedNotes: AnnAssignments = saved?.notes ?? {};
+    if (index && index.isStale(this.blocks.length)) {
+      index = null;
+      savedNotes = {};
+    }
+    if (!index) {
+      // train on a snapshot (updates during training are assigned afterwards)
+      const blocks = this.blocks;
+      const q8Buffer = this.q8Buffer!;
+      index = await IvfIndex.train(blocks.length,
+        (i) => q8Buffer.subarray(blocks[i].qOffset, blocks[i].qOffset + dim), dim, isCancelled);
+      if (!index) {
+        return;
+      }
+      if (debugMode) {
+        log.info(`[ANN] Trained ${index.nlist} lists on ${blocks.length} blocks (${Date.now() - startTime}ms)`);
+      }
+    }
+    if (isCancelled()) {
+      return;
+    }
+    this.ann = index;
+    this.annLists = null;
+
+    // assign blocks (from the saved index when the note is unchanged)
+    let blocks = this.blocks;
+    let reused = 0;
+    let i = 0;
+    while (i < blocks.length) {
+      if (isCancelled() || this.ann !== index) {
+        return;
+      }
+      if (blocks !== this.blocks) {
+        // cache updated during the last yield: new blocks are already assigned
+        blocks = this.blocks;
+        i = 0;
+      }
+      const end = Math.min(i + ANN_ASSIGN_CHUNK, blocks.length);
+      for (; i < end; i++) {
+        const block = blocks[i];
+        if (block.list >= 0) {
+          continue;
+        }
+        const savedList = find_saved_list(savedNotes, block);
+        if (savedList !== null && savedList < index.nlist) {
+          block.list = savedList;
+          reused++;
+        } else {
+          block.list = index.assign(this.q8Buffer!.subarray(block.qOffset, block.qOffset + dim));
+        }
+      }
+      await yieldToEventLoop();
+    }
+    if (isCancelled() || this.ann !== index) {
+      return;
+    }
+
+    this.annReady = true;
+    this.annLists = null;
+    log.info(`[ANN] Index ready: ${index.nlist} lists, ${blocks.length} blocks ` +
+      `(${reused} from the saved index, ${Date.now() - startTime}ms)`);
+    await this.saveAnn();
+
+    if (index.codeBytes > 0) {
+      await this.encodeBlocks(index, isCancelled);
+      if (debugMode && this.codes) {
+        log.info(`[ANN] Cache compressed to ${(this.memoryBytes() / (1024 * 1024)).toFixed(1)}MB`);
+      }
+    }
+  }
+
+  /**
+   * Replace the Q8 rows with the PQ codes of the blocks. Encoding restarts
+   * when the cache is updated during a yield, and the rows are swapped for
+   * the codes in a single step at the end.
+   */
+  private async encodeBlocks(index: IvfIndex, isCancelled: () => boolean): Promise<void> {
+    const dim = this.dim;
+    const codeBytes = index.codeBytes;
+    let blocks: BlockMetadata[] | null = null;
+    let codes: Uint8Array | null = null;
+    let i = 0;
+    while (true) {
+      if (isCancelled() || this.ann !== index || !this.q8Buffer) {
+        return;
+      }
+      if (blocks !== this.blocks) {
+        blocks = this.blocks;
+        codes = new Uint8Array(blocks.length * codeBytes);
+        i = 0;
+      }
+      if (i >= blocks.length) {
+        break;
+      }
+      const end = Math.min(i + ANN_ASSIGN_CHUNK, blocks.length);
+      for (; i < end; i++) {
+        index.encode(this.unitVector(blocks[i]), blocks[i].list, codes!, i * codeBytes);
+      }
+      await yieldToEventLoop();
+    }
+    for (let j = 0; j < blocks.length; j++) {
+      blocks[j].qOffset = j * codeBytes;
+    }
+    this.codes = codes;
+    this.q8Buffer = null;
+    this.version++;
+  }
+
+  /** Remove the approximate index (the saved file is kept). */
+  private dropAnn(): void {
+    if (this.codes) {
+      // the Q8 rows were replaced by the codes of the index
+      this.invalidate();
+      return;
+    }
+    this.ann = null;
+    this.annReady = false;
+    this.annLists = null;
+    this.saveAnnDebounced.cancel();
+    for (const block of this.blocks) {
+      block.list = -1;
+    }
+  }
+
+  /**
+   * Block indices of the lists to scan, or null for an exact search:
+   * no index, filtered searches (few allowed blocks may be in the probed
+   * lists), or large k (e.g. validation).
+   */
+  private probeAnn(query: QuantizedVector, k: number, allowedIds: Set<string> | null): Int32Array[] | null {
+    if (!this.ann || !this.annReady || allowedIds || k * 4 > this.blocks.length) {
+      return null;
+    }
+    if (!this.annLists) {
+      const counts = new Int32Array(this.ann.nlist);
+      for (const block of this.blocks) {
+        counts[block.list]++;
+      }
+      const lists = Array.from(counts, (count) => new Int32Array(count));
+      counts.fill(0);
+      for (let i = 0; i < this.blocks.length; i++) {
+        const list = this.blocks[i].list;
+        lists[list][counts[list]++] = i;
+      }
+      this.annLists = lists;
+    }
+    return this.ann.probe(query, this.annProbes).map(list => this.annLists![list]);
+  }
+
+  private async saveAnn(): Promise<void> {
+    if (!this.ann || !this.annReady || !this.modelId) {
+      return;
+    }
+    const notes: AnnAssignments = {};
+    for (const block of this.blocks) {
+      if (block.resourceId) {
+        continue;  // attachment lines may repeat note lines
+      }
+      if (!notes[block.noteId]) {
+        notes[block.noteId] = { hash: block.noteHash, blocks: [] };
+      }
+      notes[block.noteId].blocks.push(block.lineNumber, block.list);
+    }
+    await save_ann_index(this.modelId, this.ann, notes);
+  }
+
   /**
    * Get the number of unique notes in the cache.
    * Used to detect if sync added/removed notes.
@@ -445,6 +795,68 @@ export class SimpleCorpusCache {
     return new Set(this.blocks.map(b => b.noteId)).size;
   }
 
+  /**
+   * Block vectors of the given notes (all notes when null), dequantized and
+   * normalized to unit length. Used to compare notes with each other.
+   * Attachment blocks are skipped.
+   */
+  getNoteVectors(noteIds: Set<string> | null = null): Map<string, Float32Array[]> {
+    const vectors = new Map<string, Float32Array[]>();
+    for (const block of this.blocks) {
+      if (block.resourceId || (noteIds && !noteIds.has(block.noteId))) {
+        continue;
+      }
+      if (!vectors.has(block.noteId)) {
+        vectors.set(block.noteId, []);
+      }
+      vectors.get(block.noteId).push(this.unitVector(block));
+    }
+    return vectors;
+  }
+
+  /**
+   * Mean of the unit block vectors of each note (attachment blocks skipped),
+   * normalized to unit length.
+   */
+  getNoteMeans(noteIds: Set<string> | null = null): Map<string, Float32Array> {
+    const sums = new Map<string, Float32Array>();
+    for (const block of this.blocks) {
+      if (block.resourceId || (noteIds && !noteIds.has(block.noteId))) {
+        continue;
+      }
+      let sum = sums.get(block.noteId);
+      if (!sum) {
+        sum = new Float32Array(this.dim);
+        sums.set(block.noteId, sum);
+      }
+      const vector = this.unitVector(block);
+      for (let i = 0; i < this.dim; i++) {
+        sum[i] += vector[i];
+      }
+    }
+    for (const sum of sums.values()) {
+      normalize_embedding(sum);
+    }
+    return sums;
+  }
+
+  /**
+   * Dequantize a block vector (q8 scale is irrelevant after normalization),
+   * or decode it in a compressed cache.
+   */
+  private unitVector(block: BlockMetadata): Float32Array {
+    const vector = this.codes
+      ? this.ann!.decode(block.list, this.codes, block.qOffset)
+      : Float32Array.from(this.q8Buffer!.subarray(block.qOffset, block.qOffset + this.dim));
+    return normalize_embedding(vector);
+  }
+
+  /** Memory of the vectors (rows or codes), the block metadata and the index. */
+  private memoryBytes(): number {
+    return (this.q8Buffer?.byteLength ?? 0) + (this.codes?.byteLength ?? 0) +
+      this.blocks.length * BYTES_PER_BLOCK + (this.ann?.byteLength() ?? 0);
+  }
+
   /**
    * Incrementally update cache for a single note (faster than full rebuild).
    * Removes old blocks for this note and adds new ones.
@@ -461,6 +873,8 @@ export class SimpleCorpusCache {
     noteHash: string,
     debugMode: boolean = false
   ): Promise<void> {
+    this.modelId = modelId;
+
     // Wait for concurrent full build to complete before updating
     // This prevents race conditions where updateNote() modifies buffers while build() is filling them
     if (this.buildPromise) {
@@ -468,6 +882,7 @@ export class SimpleCorpusCache {
       // After full build completes, this incremental update is redundant (note already included)
       return;
     }
+    this.version++;
 
     // Initialize cache from first note if empty
     if (!this.isBuilt() && this.dim === 0) {
@@ -549,6 +964,7 @@ export class SimpleCorpusCache {
       bodyStart: number;
       bodyLength: number;
       headingLevel: number;
+      resourceId?: string;
     }
 
     const newBlocks: ExtractedBlock[] = [];
@@ -566,6 +982,7 @@ export class SimpleCorpusCache {
             bodyStart: block.body_idx,
             bodyLength: block.length,
             headingLevel: block.level,
+            resourceId: block.resource_id,
           });
         }
       }
@@ -594,7 +1011,11 @@ export class SimpleCorpusCache {
     }
 
     // Allocate new buffers (Int8Array is immutable, must reallocate)
-    const newQ8Buffer = new Int8Array(newBlockCount * dim);
+    // A compressed cache keeps codes: new blocks are encoded with the index
+    const codeBytes = this.codes ? this.ann!.codeBytes : 0;
+    const stride = this.codes ? codeBytes : dim;
+    const newQ8Buffer = this.codes ? null : new Int8Array(newBlockCount * dim);
+    const newCodes = this.codes ? new Uint8Array(newBlockCount * codeBytes) : null;
     const newBlocksMeta: BlockMetadata[] = [];
 
     // Copy existing blocks (excluding removed ones)
@@ -608,13 +1029,17 @@ export class SimpleCorpusCache {
 
       const oldBlock = this.blocks[i];
       const oldQOffset = oldBlock.qOffset;
-      const newQOffset = newBlockIdx * dim;
-
-      // Copy Q8 vector
-      newQ8Buffer.set(
-        this.q8Buffer!.subarray(oldQOffset, oldQOffset + dim),
-        newQOffset
-      );
+      const newQOffset = newBlockIdx * stride;
+
+      // Copy Q8 vector (or codes)
+      if (newCodes) {
+        newCodes.set(this.codes!.subarray(oldQOffset, oldQOffset + codeBytes), newQOffset);
+      } else {
+        newQ8Buffer!.set(
+          this.q8Buffer!.subarray(oldQOffset, oldQOffset + dim),
+          newQOffset
+        );
+      }
 
       // Update metadata with new offsets
       newBlocksMeta.push({
@@ -626,6 +1051,8 @@ export class SimpleCorpusCache {
         bodyStart: oldBlock.bodyStart,
         bodyLength: oldBlock.bodyLength,
         headingLevel: oldBlock.headingLevel,
+        list: oldBlock.list,
+        resourceId: oldBlock.resourceId,
       });
 
       newBlockIdx++;
@@ -634,8 +1061,13 @@ export class SimpleCorpusCache {
     // Append new blocks
     const addedCount = newBlocks.length;  // Save before clearing
     for (const extracted of newBlocks) {
-      const qOffset = newBlockIdx * dim;
-      newQ8Buffer.set(extracted.q8Values, qOffset);
+      const qOffset = newBlockIdx * stride;
+      const list = this.ann ? this.ann.assign(extracted.q8Values) : -1;
+      if (newCodes) {
+        this.ann!.encode(normalize_embedding(Float32Array.from(extracted.q8Values)), list, newCodes, qOffset);
+      } else {
+        newQ8Buffer!.set(extracted.q8Values, qOffset);
+      }
 
       newBlocksMeta.push({
         noteId: extracted.noteId,
@@ -646,6 +1078,8 @@ export class SimpleCorpusCache {
         bodyStart: extracted.bodyStart,
         bodyLength: extracted.bodyLength,
         headingLevel: extracted.headingLevel,
+        list,
+        resourceId: extracted.resourceId,
       });
 
       newBlockIdx++;
@@ -653,13 +1087,18 @@ export class SimpleCorpusCache {
 
     // Replace buffers and metadata
     this.q8Buffer = newQ8Buffer;
+    this.codes = newCodes;
     this.blocks = newBlocksMeta;
+    this.annLists = null;  // block indices changed
+    if (this.annReady) {
+      this.saveAnnDebounced();
+    }
 
     // Clear extracted blocks array (releases Int8Array copies)
     clearObjectReferences(newBlocks);
 
     if (debugMode) {
-      const memoryMB = (this.q8Buffer.byteLength + this.blocks.length * BYTES_PER_BLOCK) / (1024 * 1024);
+      const memoryMB = this.memoryBytes() / (1024 * 1024);
       log.info(
         `[Cache] Updated note ${noteId.substring(0, 8)}: ` +
         `removed ${removedCount} blocks, added ${addedCount} blocks ` +
@@ -672,7 +1111,7 @@ export class SimpleCorpusCache {
    * Check if cache is built and ready.
    */
   isBuilt(): boolean {
-    return this.q8Buffer !== null && this.blocks.length > 0;
+    return (this.q8Buffer !== null || this.codes !== null) && this.blocks.length > 0;
   }
 
   /**
@@ -683,6 +1122,14 @@ export class SimpleCorpusCache {
     return this._builtViaEnsureBuilt && this.isBuilt();
   }
 
+  /**
+   * Get a counter that changes whenever the cached blocks change
+   * (build, incremental update, invalidation).
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
   /**
    * Get the dimension of cached embeddings.
    * Returns 0 if cache is not built.
@@ -694,21 +1141,36 @@ export class SimpleCorpusCache {
   /**
    * Get cache statistics.
    */
-  getStats(): { blocks: number; memoryMB: number; buildTimeMs: number } {
+  getStats(): { blocks: number; memoryMB: number; buildTimeMs: number; annLists: number } {
     if (!this.isBuilt()) {
-      return { blocks: 0, memoryMB: 0, buildTimeMs: 0 };
+      return { blocks: 0, memoryMB: 0, buildTimeMs: 0, annLists: 0 };
     }
 
-    const memoryMB = (this.q8Buffer!.byteLength + this.blocks.length * BYTES_PER_BLOCK) / (1024 * 1024);
+    const memoryMB = this.memoryBytes() / (1024 * 1024);
 
     return {
       blocks: this.blocks.length,
       memoryMB,
       buildTimeMs: this.buildDurationMs,
+      annLists: (this.ann && this.annReady) ? this.ann.nlist : 0,
     };
   }
 }
 
+/** List of a block in the saved index, if its note is unchanged. */
+function find_saved_list(notes: AnnAssignments, block: BlockMetadata): number | null {
+  const saved = notes[block.noteId];
+  if (!saved || saved.hash !== block.noteHash || block.resourceId) {
+    return null;
+  }
+  for (let j = 0; j < saved.blocks.length; j += 2) {
+    if (saved.blocks[j] === block.lineNumber) {
+      return saved.blocks[j + 1];
+    }
+  }
+  return null;
+}
+
 // === Cache Management Functions ===
 // Per-model cache instances (shared across modules)
 export const corpusCaches = new Map<string, SimpleCorpusCache>();
@@ -32,6 +32,30 @@ export function ensure_float_embedding(block: BlockEmbedding): Float32Array {
   return block.embedding;
 }
 
+/**
+ * Dot product of two embeddings (cosine similarity of unit vectors).
+ */
+export function dot_product(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Scale an embedding to unit length, in place.
+ */
+export function normalize_embedding(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(dot_product(vector, vector));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
 /**
  * Calculate cosine similarity between two embeddings.
  * Computes full cosine similarity with explicit normalization.
@@ -21,6 +21,7 @@ import { ensure_model_error, promptEmbeddingError, MAX_EMBEDDING_RETRIES } from
 import type { BlockEmbedding, NoteEmbedding } from './embeddings';
 import { calc_note_embeddings, calc_hash, corpusCaches, userDataStore, preprocess_note_for_hashing } from './embeddings';
 import { read_user_data_embeddings } from './userDataReader';
+import { get_note_attachments, calc_content_hash } from './attachments';
 import type { UserDataEmbStore } from './userDataStore';
 
 const log = getLogger();
@@ -115,11 +116,63 @@ async function get_candidate_note_ids(
   }
 
   // Add current note (ensure it's included even if filtered)
-  allNoteIds.add(current_id);
+  if (current_id) {
+    allNoteIds.add(current_id);
+  }
 
   return allNoteIds;
 }
 
+/**
+ * Build the in-memory corpus cache from userData embeddings of all
+ * non-excluded notes (no-op if it is already fully built).
+ *
+ * @param cache - Cache of the model
+ * @param dim - Embedding dimension
+ * @param current_id - Query note ID to ensure inclusion
+ * @param panel - Panel to show build progress in (optional)
+ */
+export async function build_corpus_cache(
+  cache: SimpleCorpusCache,
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  dim: number,
+  current_id: string,
+  panel?: string,
+  abortController?: AbortController,
+): Promise<void> {
+  // Fetch candidate notes (non-excluded notes with embeddings)
+  const candidateIds = await get_candidate_note_ids(settings, current_id);
+
+  if (settings.notes_debug_mode) {
+    const estimatedBlocks = candidateIds.size * 10;
+    log.info(`[Cache] Building cache (${candidateIds.size} notes, ~${estimatedBlocks} blocks @ ${dim}-dim)`);
+  }
+
+  // Phase 2: Build cache with progress starting from excludedCount
+  await cache.ensureBuilt(
+    userDataStore,
+    model.id,
+    Array.from(candidateIds),
+    dim,
+    (panel && settings) ? async (loaded, total, stage) => {
+      // Show progress for notes with embeddings only (consistent with sweep progress)
+      // Progress: loaded / total (both represent notes with embeddings, excluding excluded notes)
+      // Note: userDataReader already filters to every 10 notes, so we show all updates here
+      await update_progress_bar(
+        panel,
+        loaded,
+        total,
+        settings,
+        stage || 'Building cache'
+      );
+    } : undefined,
+    model,
+    settings,
+    abortController
+  );
+}
+
 /**
  * Debug validation: Compare cache search quality against brute-force baseline.
  * Only runs when notes_debug_mode is enabled.
@@ -159,7 +212,7 @@ async function validate_cache_quality_if_debug(
 
 export async function find_nearest_notes(embeddings: BlockEmbedding[], current_id: string, markup_language: number, current_title: string, query: string,
     model: TextEmbeddingModel, settings: JarvisSettings, return_grouped_notes: boolean=true, panel?: string, isUpdateInProgress: boolean=false, abortController?: AbortController,
-    headless: boolean=false):
+    headless: boolean=false, note_filter: Set<string> | null=null):
     Promise<NoteEmbedding[]> {
 
   let searchStartTime = 0;  // Will be set right before cache search starts
@@ -200,7 +253,7 @@ export async function find_nearest_notes(embeddings: BlockEmbedding[], current_i
   // check if to re-calculate embedding of the query
   let query_embeddings = combinedEmbeddings.filter(embd => embd.id === current_id);
   const hasCachedQueryEmbedding = query_embeddings.length > 0;
-  const queryHash = calc_hash(query);
+  const queryHash = calc_content_hash(calc_hash(query), await get_note_attachments(current_id, query, settings));
   const hashMismatch = hasCachedQueryEmbedding && query_embeddings[0].hash !== queryHash;
 
   if ((query_embeddings.length == 0) || hashMismatch) {
@@ -278,6 +331,9 @@ export async function find_nearest_notes(embeddings: BlockEmbedding[], current_i
         corpusCaches.set(model.id, cache);
       }
 
+      // Disabling (or retraining) the index of a compressed cache invalidates it
+      cache.configureAnn(settings);
+
       // Check if cache needs rebuilding (dimension mismatch or not fully built)
       // Use isFullyBuilt() to distinguish "fully built via ensureBuilt()" from "incrementally building during sweep"
       let needsBuild = !cache.isFullyBuilt() || cache.getDim() !== queryDim;
@@ -300,37 +356,7 @@ export async function find_nearest_notes(embeddings: BlockEmbedding[], current_i
           combinedEmbeddings = [];
         } else {
           // Normal search-triggered build (only if no update running)
-
-          // Fetch candidate notes (non-excluded notes with embeddings)
-          const candidateIds = await get_candidate_note_ids(settings, current_id);
-
-          if (settings.notes_debug_mode) {
-            const estimatedBlocks = candidateIds.size * 10;
-            log.info(`[Cache] Building cache (${candidateIds.size} notes, ~${estimatedBlocks} blocks @ ${queryDim}-dim)`);
-          }
-
-          // Phase 2: Build cache with progress starting from excludedCount
-          await cache.ensureBuilt(
-            userDataStore,
-            model.id,
-            Array.from(candidateIds),
-            queryDim,
-            (panel && settings) ? async (loaded, total, stage) => {
-              // Show progress for notes with embeddings only (consistent with sweep progress)
-              // Progress: loaded / total (both represent notes with embeddings, excluding excluded notes)
-              // Note: userDataReader already filters to every 10 notes, so we show all updates here
-              await update_progress_bar(
-                panel,
-                loaded,
-                total,
-                settings,
-                stage || 'Building cache'
-              );
-            } : undefined,
-            model,
-            settings,
-            abortController
-          );
+          await build_corpus_cache(cache, model, settings, queryDim, current_id, panel, abortController);
         }
       }
 
@@ -339,8 +365,10 @@ export async function find_nearest_notes(embeddings: BlockEmbedding[], current_i
       const heapCapacity = tuning.candidateLimit;
       const effectiveCapacity = return_grouped_notes ? heapCapacity : heapCapacity * 4;
       const queryQ8 = quantize_vector_to_q8(rep_embedding);
+      cache.configureAnn(settings);
       const cacheSearchStart = Date.now();
-      const userBlocks = cache.search(queryQ8, effectiveCapacity, settings.notes_min_similarity);
+      let userBlocks = cache.search(queryQ8, effectiveCapacity, settings.notes_min_similarity, note_filter);
+      userBlocks = await cache.rescore(userBlocks, queryQ8, userDataStore, settings.notes_min_similarity);
       const cacheSearchMs = Date.now() - cacheSearchStart;
 
       if (settings.notes_debug_mode) {
@@ -412,6 +440,10 @@ export async function find_nearest_notes(embeddings: BlockEmbedding[], current_i
   }
 
   for (const embed of combinedEmbeddings) {
+    // metadata filters apply before scoring
+    if (note_filter && !note_filter.has(embed.id)) {
+      continue;
+    }
     let similarity: number;
 
     // If similarity already set (e.g., from cache), use it directly
@@ -12,14 +12,17 @@ import { ModelError, clearApiResponse, clearObjectReferences } from '../utils';
 import { JarvisSettings } from '../ux/settings';
 import { TextEmbeddingModel } from '../models/models';
 import { getLogger } from '../utils/logger';
-import { UserDataEmbStore, EmbeddingSettings } from './userDataStore';
+import { UserDataEmbStore, EmbeddingSettings, NoteEmbMeta } from './userDataStore';
 import { prepare_user_data_embeddings } from './userDataIndexer';
+import { read_user_data_embeddings } from './userDataReader';
+import { get_note_attachments, calc_content_hash } from './attachments';
 import { extract_embedding_settings_for_validation, settings_equal } from './validator';
 import { append_ocr_text_to_body, should_exclude_note, get_excluded_note_ids_by_tags, clear_excluded_note_ids_cache } from './noteHelpers';
 import type { BlockEmbedding } from './embeddings';
 import { calc_note_embeddings, calc_hash, userDataStore, preprocess_note_for_hashing } from './embeddings';
 import { delete_note_and_embeddings, insert_note_embeddings } from './db';
 import { update_cache_for_note } from './embeddingCache';
+import { KeywordIndexUpdate, update_keyword_index } from './keywordIndex';
 import { htmlToText } from '../utils';
 
 const log = getLogger();
@@ -32,6 +35,7 @@ export interface UpdateNoteResult {
     storedSettings: EmbeddingSettings;
   };
   skippedUnchanged?: boolean; // True if note was skipped due to matching hash and settings
+  hash?: string; // Content hash of skipped notes (their embeddings may not be loaded)
 }
 
 type EmbeddingErrorAction = 'retry' | 'skip' | 'abort';
@@ -141,6 +145,37 @@ async function write_user_data_embeddings(
   }
 }
 
+/**
+ * Attachment blocks from the last update of a note, to reuse the blocks of
+ * unchanged attachments. Empty when the stored embeddings were built with
+ * another model version or other embedding settings.
+ */
+async function get_previous_attachment_blocks(
+  noteId: string,
+  old_embd: BlockEmbedding[],
+  userDataMeta: NoteEmbMeta | null,
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+): Promise<BlockEmbedding[]> {
+  if (!settings.notes_db_in_user_data) {
+    return old_embd.filter((embd) => embd.resource_id);
+  }
+  const modelMeta = userDataMeta?.models?.[model.id];
+  if (!modelMeta
+      || modelMeta.modelVersion !== (model.version ?? 'unknown')
+      || modelMeta.embeddingVersion !== (model.embedding_version ?? 0)
+      || !settings_equal(extract_embedding_settings_for_validation(settings), modelMeta.settings)) {
+    return [];
+  }
+  try {
+    const results = await read_user_data_embeddings({ store: userDataStore, modelId: model.id, noteIds: [noteId] });
+    return results[0]?.blocks.filter((embd) => embd.resource_id) ?? [];
+  } catch (error) {
+    log.debug(`Failed to read previous attachment blocks for note ${noteId}`, error);
+    return [];
+  }
+}
+
 async function update_note(note: any,
     model: TextEmbeddingModel, settings: JarvisSettings,
     abortSignal: AbortSignal, force: boolean = false, catalogId?: string, excludedByTag?: Set<string>): Promise<UpdateNoteResult> {
@@ -186,7 +221,9 @@ async function update_note(note: any,
   // Preprocess note body (HTML conversion + OCR appending)
   note.body = await preprocess_note_for_hashing(note);
 
-  const hash = calc_hash(note.body);
+  // Attachment text is hashed separately and combined with the body hash
+  const attachments = await get_note_attachments(note.id, note.body, settings);
+  const hash = calc_content_hash(calc_hash(note.body), attachments);
   const old_embd = model.embeddings.filter((embd: BlockEmbedding) => embd.id === note.id);
 
   // Fetch userData meta once and cache it for this update (avoid multiple reads)
@@ -234,7 +271,7 @@ async function update_note(note: any,
         // Update cache after backfill
         await update_cache_for_note(userDataStore, model.id, note.id, hash, settings.notes_debug_mode);
 
-        return { embeddings: old_embd, skippedUnchanged: true };
+        return { embeddings: old_embd, skippedUnchanged: true, hash };
       }
 
       if (userDataMeta) {
@@ -295,7 +332,7 @@ async function update_note(note: any,
           await update_cache_for_note(userDataStore, model.id, note.id, hash, settings.notes_debug_mode);
         }
 
-        return { embeddings: old_embd, skippedUnchanged: true }; // Skip - content unchanged, settings match
+        return { embeddings: old_embd, skippedUnchanged: true, hash }; // Skip - content unchanged, settings match
       }
     }
 
@@ -358,7 +395,7 @@ async function update_note(note: any,
               await update_cache_for_note(userDataStore, model.id, note.id, hash, settings.notes_debug_mode);
             }
 
-            return { embeddings: old_embd, skippedUnchanged: true };
+            return { embeddings: old_embd, skippedUnchanged: true, hash };
           }
 
           // Shard incomplete/missing - fall through to rebuild
@@ -377,7 +414,7 @@ async function update_note(note: any,
 
     if (!settings.notes_db_in_user_data) {
       // notes_db_in_user_data disabled - skip since content unchanged
-      return { embeddings: old_embd, skippedUnchanged: true };
+      return { embeddings: old_embd, skippedUnchanged: true, hash };
     }
 
     // Backfill from SQLite when userData is missing but SQLite has valid embeddings
@@ -391,7 +428,7 @@ async function update_note(note: any,
       // Update cache after backfill
       await update_cache_for_note(userDataStore, model.id, note.id, hash, settings.notes_debug_mode);
 
-      return { embeddings: old_embd, skippedUnchanged: true };
+      return { embeddings: old_embd, skippedUnchanged: true, hash };
     }
   }
 
@@ -415,8 +452,13 @@ async function update_note(note: any,
     }
   }
 
+  // Blocks of unchanged attachments are reused
+  const previous = (attachments.length > 0)
+    ? await get_previous_attachment_blocks(note.id, old_embd, userDataMeta, model, settings)
+    : [];
+
   try {
-    const new_embd = await calc_note_embeddings(note, note_tags, model, settings, abortSignal, 'doc');
+    const new_embd = await calc_note_embeddings(note, note_tags, model, settings, abortSignal, 'doc', attachments, previous);
 
     // Write embeddings to appropriate storage
     if (settings.notes_db_in_user_data) {
@@ -476,6 +518,7 @@ export async function update_embeddings(
   const successfulNotes: Array<{ note: any; embeddings: BlockEmbedding[] }> = [];
   const skippedNotes: string[] = [];
   const skippedUnchangedNotes: string[] = []; // Notes skipped due to matching hash and settings
+  const keywordUpdates: KeywordIndexUpdate[] = []; // Notes to update in the keyword index
   const settingsMismatches: Array<{ noteId: string; currentSettings: EmbeddingSettings; storedSettings: EmbeddingSettings }> = [];
   let dialogQueue: Promise<unknown> = Promise.resolve();
   let fatalError: ModelError | null = null;
@@ -500,6 +543,8 @@ export async function update_embeddings(
         // Collect settings mismatches (only during force=false sweeps)
         if (result.settingsMismatch) {
           settingsMismatches.push(result.settingsMismatch);
+        } else {
+          keywordUpdates.push({ note, embeddings: result.embeddings, hash: result.hash });
         }
         return;
       } catch (rawError) {
@@ -575,6 +620,13 @@ export async function update_embeddings(
     return { settingsMismatches, totalRows: 0, dim: 0, processedCount: 0, failedNotes: skippedNotes };
   }
 
+  // Keyword index reads the note bodies, so update it before they are cleared
+  try {
+    await update_keyword_index(model.id, settings, keywordUpdates);
+  } catch (error) {
+    log.warn('Failed to update keyword index', error);
+  }
+
   // Only populate model.embeddings when userData index is disabled (legacy mode)
   // When userData is enabled, search reads directly from userData (memory efficient)
   if (!settings.notes_db_in_user_data) {
@@ -584,6 +636,7 @@ export async function update_embeddings(
       successfulNotes.map(result => result.note.id),
     );
     model.embeddings.push(...mergedEmbeddings);
+    model.embeddings_version++;
     const dim = mergedEmbeddings[0]?.embedding?.length ?? 0;
 
     // Help GC by clearing the batch data (note bodies can be large)
@@ -8,6 +8,8 @@ import { TextEmbeddingModel, TextGenerationModel, EmbeddingKind } from '../model
 import { search_keywords, htmlToText, clearObjectReferences, stripJarvisBlocks } from '../utils';
 import { QuantizedRowView } from './q8';
 import { append_ocr_text_to_body } from './noteHelpers';
+import { chunk_note } from './chunking';
+import { NoteAttachment, calc_content_hash, get_attachment_text } from './attachments';
 // Re-exported from other modules (preserved for backward compatibility)
 import { get_next_blocks, get_prev_blocks } from './blockOperations';
 import { get_note_tags } from './noteHelpers';
@@ -36,6 +38,19 @@ export interface BlockEmbedding {
   embedding: Float32Array;  // block embedding
   similarity?: number;  // similarity to the query (computed during search)
   q8?: QuantizedRowView;  // optional q8 view used for cosine scoring
+  resource_id?: string;  // attachment block: resource whose extracted text body_idx / length index
+  resource_hash?: string;  // attachment block: hash of the extracted text
+  explain?: BlockExplanation;  // why the block was retrieved (set during search)
+}
+
+/** Retrieval details of a search result, shown in the related notes panel. */
+export interface BlockExplanation {
+  query?: string;  // sub-query with the best similarity (query decomposition)
+  semantic_rank?: number;  // 1-based rank in the semantic results fused by rrf_merge
+  semantic_rrf?: number;  // RRF contribution of the semantic rank
+  keyword_rank?: number;  // 1-based rank in the keyword results fused by rrf_merge
+  keyword_rrf?: number;  // RRF contribution of the keyword rank
+  keywords?: string;  // keyword query that matched the block
 }
 
 export interface NoteEmbedding {
@@ -91,6 +106,10 @@ export async function preprocess_note_for_hashing(note: {
  * 3. Compute the content hash on the normalized text before chunking.
  *
  * Downstream tasks (hash comparisons, shard writes) rely on this exact ordering.
+ *
+ * Attachments (see get_note_attachments) are embedded as additional blocks
+ * of the note, and their text hashes are part of the content hash. Blocks of
+ * an attachment whose text is unchanged are reused from `previous`.
  */
 export async function calc_note_embeddings(
     note: any,
@@ -98,20 +117,100 @@ export async function calc_note_embeddings(
     model: TextEmbeddingModel,
     settings: JarvisSettings,
     abortSignal: AbortSignal,
-    kind: EmbeddingKind = 'doc'
+    kind: EmbeddingKind = 'doc',
+    attachments: NoteAttachment[] = [],
+    previous: BlockEmbedding[] = [],
 ): Promise<BlockEmbedding[]> {
   // Preprocess note body (HTML conversion + OCR appending)
   note.body = await preprocess_note_for_hashing(note);
 
-  const hash = calc_hash(note.body);
+  const hash = calc_content_hash(calc_hash(note.body), attachments);
   note.body = convert_newlines(note.body);
+
+  const blocks = await calc_text_embeddings(note, hash, note_tags, model, settings, abortSignal, kind);
+  for (const attachment of attachments) {
+    blocks.push(...await calc_attachment_embeddings(
+      note, attachment, hash, note_tags, model, settings, abortSignal, kind, previous));
+  }
+  return blocks;
+}
+
+/**
+ * Blocks of an attachment. body_idx and length index its extracted text,
+ * and the title starts with the name of the attachment.
+ */
+async function calc_attachment_embeddings(
+    note: any,
+    attachment: NoteAttachment,
+    hash: string,
+    note_tags: string[],
+    model: TextEmbeddingModel,
+    settings: JarvisSettings,
+    abortSignal: AbortSignal,
+    kind: EmbeddingKind,
+    previous: BlockEmbedding[],
+): Promise<BlockEmbedding[]> {
+  const unchanged = previous.filter((embd) =>
+    embd.resource_id === attachment.id && embd.resource_hash === attachment.hash);
+  if (unchanged.length > 0) {
+    return unchanged.map((embd) => ({
+      ...embd,
+      hash: hash,
+      embedding: ensure_float_embedding(embd),
+      similarity: 0,
+      q8: undefined,
+    }));
+  }
+
+  const text = { id: note.id, title: `${note.title}/${attachment.title}`, body: attachment.text };
+  const blocks = await calc_text_embeddings(text, hash, note_tags, model, settings, abortSignal, kind);
+  return blocks.map((embd) => ({
+    ...embd,
+    title: (embd.level > 0) ? `${attachment.title} / ${embd.title}` : attachment.title,
+    resource_id: attachment.id,
+    resource_hash: attachment.hash,
+  }));
+}
+
+/**
+ * Split a normalized text (note body or attachment) into blocks with the
+ * selected chunking strategy, and embed each block.
+ */
+async function calc_text_embeddings(
+    note: { id: string, title: string, body: string },
+    hash: string,
+    note_tags: string[],
+    model: TextEmbeddingModel,
+    settings: JarvisSettings,
+    abortSignal: AbortSignal,
+    kind: EmbeddingKind,
+): Promise<BlockEmbedding[]> {
+  if (settings.notes_chunking && settings.notes_chunking !== 'headings') {
+    // alternative chunking strategies (window / semantic / structure)
+    const chunks = await chunk_note(note.body, note.title, model, settings, kind, abortSignal);
+    return Promise.all(chunks.map(async (chunk): Promise<BlockEmbedding> => {
+      const text = note.body.substring(chunk.start, chunk.end);
+      return {
+        id: note.id,
+        hash: hash,
+        line: note.body.substring(0, chunk.start).split('\n').length,
+        body_idx: chunk.start,
+        length: text.length,
+        level: chunk.level,
+        title: chunk.title,
+        embedding: await model.embed(decorate_block(chunk.path, chunk.level, note_tags, settings) + text, kind, abortSignal),
+        similarity: 0,
+      };
+    }));
+  }
+
   let level = 0;
   let title = note.title;
   let path = [title, '', '', '', '', '', ''];  // block path
 
   // separate blocks using the note's headings, but avoid splitting within code sections
   const regex = /(^```[\s\S]*?```$)|(^#+\s.*)/gm;
-  const blocks: BlockEmbedding[][] = note.body.split(regex).filter(Boolean).map(
+  const blocks: Promise<BlockEmbedding[]>[] = note.body.split(regex).filter(Boolean).map(
     async (block: string): Promise<BlockEmbedding[]> => {
 
       // parse the heading title and level from the main block
@@ -136,17 +235,7 @@ export async function calc_note_embeddings(
 
       const sub_embd = sub_blocks.map(async (sub: string): Promise<BlockEmbedding> => {
         // add additional information to block
-        let i = 1;
-        let j = 1;
-        if (settings.notes_embed_title) { i = 0; }
-        if (settings.notes_embed_path && level > 0) { j = level; }
-        let decorate = `${path.slice(i, j).join('/')}`;
-        if (settings.notes_embed_heading) {
-          if (decorate) { decorate += '/'; }
-          decorate += path[level];
-        }
-        if (decorate) { decorate += ':\n'; }
-        if (note_tags.length > 0 && settings.notes_embed_tags) { decorate += `tags: ${note_tags.join(', ')}\n`; }
+        const decorate = decorate_block(path, level, note_tags, settings);
 
         const [line, body_idx] = calc_line_number(note.body, block, sub);
         return {
@@ -168,6 +257,25 @@ export async function calc_note_embeddings(
   return Promise.all(blocks).then(blocks => [].concat(...blocks));
 }
 
+/**
+ * Prefix of the embedded text of a block: note title, heading path,
+ * heading and tags, according to the notes_embed_* settings.
+ */
+function decorate_block(path: string[], level: number, note_tags: string[], settings: JarvisSettings): string {
+  let i = 1;
+  let j = 1;
+  if (settings.notes_embed_title) { i = 0; }
+  if (settings.notes_embed_path && level > 0) { j = level; }
+  let decorate = `${path.slice(i, j).join('/')}`;
+  if (settings.notes_embed_heading) {
+    if (decorate) { decorate += '/'; }
+    decorate += path[level];
+  }
+  if (decorate) { decorate += ':\n'; }
+  if (note_tags.length > 0 && settings.notes_embed_tags) { decorate += `tags: ${note_tags.join(', ')}\n`; }
+  return decorate;
+}
+
 /**
  * Segment blocks into sub-blocks that respect the model's `notes_max_tokens` budget.
  * This mirrors the legacy behavior used by the SQLite pipeline so shard sizes stay within limits.
@@ -264,9 +372,18 @@ function calc_line_number(note_body: string, block: string, sub: string): [numbe
   return [line_number, block_start + sub_start];
 }
 
+/**
+ * Format blocks as note text for a prompt, within a token budget.
+ *
+ * @param number_source - assigns the citation number of a selected block
+ *   (default: numbered [1]..[n] in order)
+ * @returns the text, the cited blocks (the first block of each note / heading
+ *   group, one per citation number), and all the blocks included in the text
+ */
 export async function extract_blocks_text(embeddings: BlockEmbedding[],
-  model_gen: TextGenerationModel, max_length: number, search_query: string = ''):
-    Promise<[string, BlockEmbedding[]]> {
+  model_gen: TextGenerationModel, max_length: number, search_query: string = '',
+  number_source?: (block: BlockEmbedding) => number):
+    Promise<[string, BlockEmbedding[], BlockEmbedding[]]> {
   // phase 1: select blocks within token budget (relevance order)
   const selected_blocks: {embd: BlockEmbedding, text: string}[] = [];
   let token_sum = 0;
@@ -279,23 +396,12 @@ export async function extract_blocks_text(embeddings: BlockEmbedding[],
       continue;
     }
 
-    let note: any;
-    if (noteCache.has(embd_orig.id)) {
-      note = noteCache.get(embd_orig.id);
-    } else {
-      // Reconstruct the canonical body (same pipeline as indexing)
-      try {
-        note = await joplin.data.get(['notes', embd_orig.id], { fields: ['id', 'title', 'body', 'markup_language'] });
-        await preprocess_note_for_hashing(note);
-        note.body = convert_newlines(note.body);
-        noteCache.set(embd_orig.id, note);
-      } catch (error) {
-        log.debug(`extract_blocks_text: skipped ${embd_orig.id} : ${embd_orig.line} / ${embd_orig.title}`);
-        continue;
-      }
+    const loaded = await load_block_text(embd_orig, noteCache);
+    if (loaded === null) {
+      log.debug(`extract_blocks_text: skipped ${embd_orig.id} : ${embd_orig.line} / ${embd_orig.title}`);
+      continue;
     }
-
-    const block_text = note.body.substring(embd_orig.body_idx, embd_orig.body_idx + embd_orig.length);
+    const [note, block_text] = loaded;
     const embd = Object.assign({}, embd_orig);
     if (embd.title !== note.title) {
       embd.title = note.title + title_separator + embd.title;
@@ -330,6 +436,7 @@ export async function extract_blocks_text(embeddings: BlockEmbedding[],
   let text = '';
   let citation_idx = 0;
   const selected: BlockEmbedding[] = [];
+  const included: BlockEmbedding[] = [];
   for (const [note_id, blocks] of by_note) {
     const note_title = blocks[0].embd.title.split(title_separator)[0];
     text += `\n# ${note_title}`;
@@ -339,25 +446,77 @@ export async function extract_blocks_text(embeddings: BlockEmbedding[],
       if (heading !== last_heading) {
         citation_idx++;
         last_heading = heading;
+        const embd = Object.assign({}, block.embd);
+        const citation = number_source ? number_source(embd) : citation_idx;
         if (heading !== note_title) {
-          text += `\n## ${heading} [${citation_idx}]`;
+          text += `\n## ${heading} [${citation}]`;
         } else if (blocks.indexOf(block) === 0) {
           // root-level first block: put citation on the note header line
-          text += ` [${citation_idx}]`;
+          text += ` [${citation}]`;
         } else {
-          text += `\n[${citation_idx}]`;
+          text += `\n[${citation}]`;
         }
-        selected.push(Object.assign({}, block.embd));
+        selected.push(embd);
       }
       // strip redundant heading lines from block text:
       // - leading heading (already shown in note/section header)
       // - trailing bare heading marker (split artifact at block boundary)
       let block_text = block.text.replace(/^#+ .*\n?/, '').replace(/\n?#+ *$/, '');
       text += '\n' + block_text;
+      included.push(block.embd);
+    }
+  }
+
+  return [text, selected, included];
+}
+
+/**
+ * The text of each block (e.g. to show cited blocks), shortened to max_chars.
+ * Blocks whose note cannot be read get an empty string.
+ */
+export async function extract_blocks_excerpts(embeddings: BlockEmbedding[], max_chars: number): Promise<string[]> {
+  const noteCache = new Map<string, any>();
+  const excerpts: string[] = [];
+  for (const embd of embeddings) {
+    const loaded = embd.body_idx < 0 ? null : await load_block_text(embd, noteCache);
+    const text = (loaded?.[1] ?? '').replace(/^#+ .*\n?/, '').trim();
+    excerpts.push(text.length > max_chars ? `${text.substring(0, max_chars)}...` : text);
+  }
+  for (const note of noteCache.values()) { clearObjectReferences(note); }
+  return excerpts;
+}
+
+/**
+ * Read a note with its body reconstructed as indexed (same pipeline as
+ * indexing), so that block lines and offsets point into it.
+ */
+export async function get_canonical_note(note_id: string): Promise<any> {
+  const note = await joplin.data.get(['notes', note_id], { fields: ['id', 'title', 'body', 'markup_language'] });
+  await preprocess_note_for_hashing(note);
+  note.body = convert_newlines(note.body);
+  return note;
+}
+
+// the note of a block (cached) and the text of the block, or null if either cannot be read
+async function load_block_text(embd: BlockEmbedding, noteCache: Map<string, any>): Promise<[any, string] | null> {
+  let note: any;
+  if (noteCache.has(embd.id)) {
+    note = noteCache.get(embd.id);
+  } else {
+    try {
+      note = await get_canonical_note(embd.id);
+      noteCache.set(embd.id, note);
+    } catch (error) {
+      return null;
     }
   }
 
-  return [text, selected];
+  // attachment blocks index the extracted text of the attachment
+  const source = embd.resource_id ? await get_attachment_text(embd.resource_id) : note.body;
+  if (source === null) {
+    return null;
+  }
+  return [note, source.substring(embd.body_idx, embd.body_idx + embd.length)];
 }
 
 export function extract_blocks_links(embeddings: BlockEmbedding[]): string {
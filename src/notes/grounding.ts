@@ -0,0 +1,171 @@
+/**
+ * Answer grounding verification for chat with notes.
+ *
+ * The answer is split into claims (sentences), and each claim is tested
+ * against the note blocks that were given to the model: either by the
+ * similarity of its embedding to the block embeddings, or by asking the chat
+ * model whether the notes entail it. Unsupported sentences are marked in the
+ * reply.
+ */
+import { BlockEmbedding } from './embeddings';
+import { calc_similarity, ensure_float_embedding } from './embeddingHelpers';
+import { find_citation } from './citations';
+import { TextEmbeddingModel, TextGenerationModel } from '../models/models';
+import { JarvisSettings } from '../ux/settings';
+import { with_timeout } from '../utils';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const VERIFY_TIMEOUT_MS = 30_000;
+const MIN_CLAIM_WORDS = 5;  // shorter sentences (e.g. "Sure.") are not checked
+const MAX_CLAIMS = 30;
+const UNSUPPORTED_MARKER = ' *(not found in notes)*';
+
+const ENTAILMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    supported: { type: 'array', items: { type: 'boolean' } },
+  },
+  required: ['supported'],
+};
+
+export const STRICT_INSTRUCTION = 'Only state facts that appear in the user notes. ' +
+  'If the notes do not contain the answer, say so instead of answering from general knowledge.';
+
+export interface ClaimCheck {
+  sentence: string;  // as it appears in the answer
+  supported: boolean;
+}
+
+/**
+ * Split an answer into checkable claims: sentences of prose, list items and
+ * quotes, excluding headings, code, reference definitions and questions.
+ */
+export function split_claims(answer: string): string[] {
+  const claims: string[] = [];
+  let in_code = false;
+  for (const line of answer.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      in_code = !in_code;
+      continue;
+    }
+    if (in_code || !trimmed || /^#+\s/.test(trimmed) || /^\[[^\]]+\]:\s/.test(trimmed) || /^(---|\*\*\*)$/.test(trimmed)) {
+      continue;
+    }
+    const text = trimmed.replace(/^([-*+>]|\d+[.)])\s+/, '');
+    for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+      const words = claim_text(sentence).split(/\s+/).filter(w => w.length > 0);
+      if (words.length >= MIN_CLAIM_WORDS && !sentence.trim().endsWith('?')) {
+        claims.push(sentence.trim());
+      }
+    }
+  }
+  return claims.slice(0, MAX_CLAIMS);
+}
+
+/**
+ * Check the claims of an answer against the note blocks given to the model.
+ *
+ * @param blocks - the blocks given to the model (embedding method)
+ * @param note_text - the notes as given to the model (LLM method)
+ * @returns one check per claim, or null if the check failed
+ */
+export async function verify_grounding(
+  answer: string,
+  blocks: BlockEmbedding[],
+  note_text: string,
+  model_embed: TextEmbeddingModel,
+  model_gen: TextGenerationModel,
+  settings: JarvisSettings,
+): Promise<ClaimCheck[] | null> {
+  const claims = split_claims(answer);
+  if (claims.length === 0) { return []; }
+
+  try {
+    let supported: boolean[];
+    if (settings.notes_verify_answers === 'llm') {
+      supported = await check_entailment(claims, note_text, model_gen);
+    } else {
+      supported = await check_similarity(claims, blocks, model_embed, settings.notes_verify_min_similarity);
+    }
+    if (settings.notes_debug_mode) {
+      log.info(`[Grounding] ${supported.filter(s => !s).length} of ${claims.length} claims unsupported`);
+    }
+    return claims.map((sentence, i) => ({ sentence, supported: supported[i] !== false }));
+  } catch (error) {
+    log.info(`[Grounding] verification failed: ${error.message || error}`);
+    return null;
+  }
+}
+
+/** Share of the claims that are not supported by the notes. */
+export function unsupported_ratio(checks: ClaimCheck[]): number {
+  if (checks.length === 0) { return 0; }
+  return checks.filter(c => !c.supported).length / checks.length;
+}
+
+/** Mark the unsupported sentences in the text of the answer. */
+export function mark_unsupported(text: string, checks: ClaimCheck[]): string {
+  let pos = 0;
+  for (const check of checks) {
+    const index = text.indexOf(check.sentence, pos);
+    if (index < 0) { continue; }
+    pos = index + check.sentence.length;
+    if (!check.supported) {
+      text = text.substring(0, pos) + UNSUPPORTED_MARKER + text.substring(pos);
+      pos += UNSUPPORTED_MARKER.length;
+    }
+  }
+  return text;
+}
+
+/** A summary of the check to show with the answer (empty if all claims are supported). */
+export function format_grounding_summary(checks: ClaimCheck[]): string {
+  const unsupported = checks.filter(c => !c.supported).length;
+  if (unsupported === 0) { return ''; }
+  return `*Grounding check: ${unsupported} of ${checks.length} statements were not found in the notes given to the model.*`;
+}
+
+// the sentence without citations and markdown decorations
+function claim_text(sentence: string): string {
+  return sentence.replace(find_citation, '').replace(/[*_`~]/g, '').trim();
+}
+
+async function check_similarity(
+  claims: string[],
+  blocks: BlockEmbedding[],
+  model_embed: TextEmbeddingModel,
+  min_similarity: number,
+): Promise<boolean[]> {
+  const vectors = blocks.map(block => ensure_float_embedding(block)).filter(v => v.length > 0);
+  const supported: boolean[] = [];
+  for (const claim of claims) {
+    const embedding = await model_embed.embed(claim_text(claim), 'query');
+    const best = vectors.reduce((max, v) => Math.max(max, calc_similarity(embedding, v)), 0);
+    supported.push(best >= min_similarity);
+  }
+  return supported;
+}
+
+async function check_entailment(claims: string[], note_text: string, model_gen: TextGenerationModel): Promise<boolean[]> {
+  const statements = claims.map((claim, i) => `${i + 1}. ${claim_text(claim)}`).join('\n');
+  const prompt = `For each numbered statement, decide whether it is supported by the notes below (stated in or directly implied by them).
+Return one boolean per statement, in the order of the statements (${claims.length} values).
+
+Notes:
+===
+${note_text}
+===
+
+Statements:
+${statements}`;
+
+  const response = await with_timeout(VERIFY_TIMEOUT_MS,
+    model_gen.complete_json<{supported: boolean[]}>(prompt, ENTAILMENT_SCHEMA));
+  if (!Array.isArray(response?.supported)) {
+    throw new Error('invalid response');
+  }
+  return response.supported;
+}
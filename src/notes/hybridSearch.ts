@@ -1,32 +1,43 @@
 /**
  * Keyword search and Reciprocal Rank Fusion (RRF) for hybrid retrieval.
  *
- * Provides keyword search via Joplin's search API, RRF merging of
- * semantic + keyword results, and keyword reranking of scored blocks.
+ * Provides keyword search via the local BM25 index (see keywordIndex.ts) or
+ * Joplin's search API, RRF merging of semantic + keyword results, and
+ * keyword reranking of scored blocks.
  */
 import joplin from 'api';
-import { BlockEmbedding } from './embeddings';
+import { BlockEmbedding, BlockExplanation } from './embeddings';
+import { KeywordIndex, block_key, get_complete_keyword_index } from './keywordIndex';
 import { JarvisSettings } from '../ux/settings';
 import { clearApiResponse } from '../utils';
 
 /**
- * Return all semantic pool blocks from keyword-matched notes.
- * Calls Joplin search API and maps note-level results to chunk-level,
- * returning all blocks per matched note sorted by similarity (best first).
+ * Return keyword-matched blocks of the semantic pool.
+ *
+ * With a keyword index, the pool blocks are ranked by BM25F (block level).
+ * Otherwise, calls Joplin search API and maps note-level results to
+ * chunk-level, returning all blocks per matched note sorted by similarity
+ * (best first).
  *
  * Requires .similarity to be populated on semantic_pool blocks
  * (set by find_nearest_notes).
  *
- * @param query - keyword query for Joplin search
+ * @param query - keyword query
  * @param semantic_pool - blocks with .similarity set from semantic pass
- * @param top_n - max notes to retrieve from Joplin search
- * @returns all blocks from keyword-matched notes, grouped by note in Joplin search rank order
+ * @param top_n - max notes to retrieve
+ * @param keyword_index - local index (null to use Joplin search)
+ * @returns blocks from keyword-matched notes, in keyword rank order
  */
 export async function keyword_search_chunks(
   query: string,
   semantic_pool: BlockEmbedding[],
   top_n: number,
+  keyword_index: KeywordIndex | null = null,
 ): Promise<BlockEmbedding[]> {
+  if (keyword_index) {
+    return bm25_search_chunks(query, semantic_pool, top_n, keyword_index);
+  }
+
   let search_res: any = null;
   try {
     search_res = await joplin.data.get(['search'], { query: query, fields: ['id'], limit: top_n, order_by: 'relevance' });
@@ -63,10 +74,35 @@ export async function keyword_search_chunks(
   return result;
 }
 
+// rank the pool blocks with the keyword index, keeping blocks of the top_n best notes
+function bm25_search_chunks(
+  query: string,
+  semantic_pool: BlockEmbedding[],
+  top_n: number,
+  keyword_index: KeywordIndex,
+): BlockEmbedding[] {
+  const pool = new Map<string, BlockEmbedding>();
+  for (const block of semantic_pool) {
+    pool.set(block_key(block), block);
+  }
+
+  const notes = new Set<string>();
+  const result: BlockEmbedding[] = [];
+  for (const hit of keyword_index.search(query, pool.size, new Set(pool.keys()))) {
+    if (!notes.has(hit.noteId)) {
+      if (notes.size >= top_n) { continue; }
+      notes.add(hit.noteId);
+    }
+    result.push(pool.get(hit.key));
+  }
+  return result;
+}
+
 /**
  * Reciprocal Rank Fusion.
- * Merges two ranked BlockEmbedding lists by composite key `${id}:${line}`.
+ * Merges two ranked BlockEmbedding lists by block key (see block_key).
  * score(chunk) = 1/(k + semantic_rank) + keyword_weight * 1/(k + keyword_rank)
+ * The merged blocks are copies with the ranks and contributions in .explain.
  *
  * @param semantic_ranked - blocks sorted by semantic similarity (best first)
  * @param keyword_ranked - blocks sorted by keyword relevance (best first)
@@ -82,55 +118,69 @@ export function rrf_merge(
   k: number = 1,
   keyword_weight: number = 0.3,
 ): BlockEmbedding[] {
-  const scores = new Map<string, { block: BlockEmbedding, score: number }>();
+  const scores = new Map<string, { block: BlockEmbedding, score: number, explain: BlockExplanation }>();
 
   for (let i = 0; i < semantic_ranked.length; i++) {
     const block = semantic_ranked[i];
-    const key = `${block.id}:${block.line}`;
-    scores.set(key, { block, score: 1 / (k + i) });
+    const key = block_key(block);
+    const score = 1 / (k + i);
+    scores.set(key, { block, score, explain: { ...block.explain, semantic_rank: i + 1, semantic_rrf: score } });
   }
 
   for (let i = 0; i < keyword_ranked.length; i++) {
     const block = keyword_ranked[i];
-    const key = `${block.id}:${block.line}`;
-    const entry = scores.get(key);
+    const key = block_key(block);
+    const score = keyword_weight / (k + i);
+    let entry = scores.get(key);
     if (entry) {
-      entry.score += keyword_weight / (k + i);
+      entry.score += score;
+      entry.explain = { ...block.explain, ...entry.explain };
     } else {
-      scores.set(key, { block, score: keyword_weight / (k + i) });
+      entry = { block, score, explain: { ...block.explain } };
+      scores.set(key, entry);
     }
+    entry.explain.keyword_rank = i + 1;
+    entry.explain.keyword_rrf = score;
   }
 
   return Array.from(scores.values())
     .sort((a, b) => b.score - a.score)
     .slice(0, top_m)
-    .map(entry => entry.block);
+    .map(entry => ({ ...entry.block, explain: entry.explain }));
 }
 
 /**
- * Keyword reranking: search Joplin for keyword matches, then RRF merge
- * with the semantic-scored pool. Preserves full pool (merged top + tail).
+ * Keyword reranking: search for keyword matches (local index of the model
+ * when it is complete, otherwise Joplin search), then RRF merge with the
+ * semantic-scored pool. Preserves full pool (merged top + tail).
  *
  * @param scored - semantically scored blocks (best first)
- * @param keywords - keyword search terms (one Joplin search per term)
- * @param settings - for keyword_weight, keyword_k, notes_max_hits
+ * @param keywords - keyword search terms (one search per term)
+ * @param settings - for keyword_weight, keyword_k, notes_max_hits, keyword index
+ * @param model_id - embedding model of the keyword index
  * @returns reranked blocks (merged top + remaining tail)
  */
 export async function keyword_rerank(
   scored: BlockEmbedding[],
   keywords: string[],
   settings: JarvisSettings,
+  model_id: string,
 ): Promise<BlockEmbedding[]> {
   if (settings.notes_keyword_weight <= 0 || keywords.length === 0 || scored.length === 0) {
     return scored;
   }
 
+  const keyword_index = await get_complete_keyword_index(model_id, settings);
   const seen = new Set<string>();
   const kw_chunks: BlockEmbedding[] = [];
   for (const kw of keywords) {
-    for (const chunk of await keyword_search_chunks(kw, scored, 100)) {
-      const key = `${chunk.id}:${chunk.line}`;
-      if (!seen.has(key)) { seen.add(key); kw_chunks.push(chunk); }
+    for (const chunk of await keyword_search_chunks(kw, scored, 100, keyword_index)) {
+      const key = block_key(chunk);
+      if (!seen.has(key)) {
+        seen.add(key);
+        // copy: pool blocks may be shared with the in-memory model
+        kw_chunks.push({ ...chunk, explain: { ...chunk.explain, keywords: kw } });
+      }
     }
   }
 
@@ -139,7 +189,7 @@ export async function keyword_rerank(
   const semantic_top = scored.slice(0, settings.notes_max_hits);
   const merged = rrf_merge(semantic_top, kw_chunks,
     settings.notes_max_hits, settings.notes_keyword_k, settings.notes_keyword_weight);
-  const merged_keys = new Set(merged.map(b => `${b.id}:${b.line}`));
-  const tail = scored.filter(b => !merged_keys.has(`${b.id}:${b.line}`));
+  const merged_keys = new Set(merged.map(block_key));
+  const tail = scored.filter(b => !merged_keys.has(block_key(b)));
   return [...merged, ...tail];
 }
@@ -0,0 +1,465 @@
+/**
+ * Local keyword index (BM25F) for hybrid retrieval.
+ *
+ * Inverted index over the embedded blocks of the notes, with three fields
+ * per block: the note title, the block heading and the block text (the
+ * extracted text for attachment blocks). Terms are stemmed and stopwords
+ * removed per language (see textAnalysis.ts). The index is updated with the
+ * blocks of every batch in update_embeddings, so keyword results are ranked
+ * at the same block level as semantic results.
+ *
+ * The index is saved in the plugin data dir (bm25/<model ID>.json) on
+ * desktop. It is marked complete after a full sweep; until then it may miss
+ * notes, and keyword search falls back to Joplin's search API.
+ *
+ * The index is held in memory: about 50 bytes per posting (a unique term of
+ * a block), and a block of default size has 100-200 unique terms, i.e. ~1 MB
+ * per 100-200 blocks. The number of postings is capped per device profile
+ * (MAX_POSTINGS); notes beyond the cap are not indexed, and the index then
+ * stays incomplete, so that keyword search keeps using Joplin's search API.
+ */
+
+import joplin from 'api';
+import debounce from 'lodash.debounce';
+import { BlockEmbedding, convert_newlines, userDataStore } from './embeddings';
+import { read_user_data_embeddings } from './userDataReader';
+import { get_attachment_text } from './attachments';
+import { KeywordLanguage, analyze, detect_language, is_stopword, stem_variants, tokenize } from './textAnalysis';
+import { JarvisSettings } from '../ux/settings';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const INDEX_VERSION = 1;
+const K1 = 1.2;
+const FIELD_WEIGHTS = [2.0, 1.5, 1.0];  // note title, heading, block text
+const FIELD_B = [0.3, 0.5, 0.75];  // length normalization per field
+const TF_BITS = 10;  // term frequency bits per field (3 fields packed in one number)
+const MAX_TF = (1 << TF_BITS) - 1;
+const SAVE_DELAY_MS = 30 * 1000;
+const MAX_POSTINGS = { desktop: 4_000_000, mobile: 500_000 };  // ~200 MB, ~25 MB
+
+/** Key of a block, unique within the corpus. */
+export function block_key(block: { id: string, line: number, resource_id?: string }): string {
+  return block.resource_id
+    ? `${block.id}:${block.resource_id}:${block.line}`
+    : `${block.id}:${block.line}`;
+}
+
+export interface KeywordHit {
+  key: string;
+  noteId: string;
+  score: number;
+}
+
+/** Block to index: index terms of the title, heading and text fields. */
+interface KeywordBlock {
+  key: string;
+  fields: string[][];
+}
+
+interface KeywordDoc {
+  noteId: string;
+  key: string;
+  lengths: number[];  // terms per field
+  terms: string;  // unique terms, space-separated (one string per doc rather than per term)
+  tfs: number[];  // packed term frequencies per field, aligned with terms
+}
+
+/** Saved doc: key, field lengths, space-separated terms, packed term frequencies. */
+type KeywordDocFile = [string, number[], string, number[]];
+
+interface KeywordIndexFile {
+  version: number;
+  language: KeywordLanguage;
+  complete: boolean;
+  notes: { [noteId: string]: { hash: string, docs: KeywordDocFile[] } };
+}
+
+export class KeywordIndex {
+  readonly language: KeywordLanguage;
+  readonly maxPostings: number;
+  complete = false;  // all notes were indexed by a full sweep
+  full = false;  // notes were left out to stay within maxPostings
+  private docs: (KeywordDoc | null)[] = [];  // null: removed doc
+  private notes = new Map<string, { hash: string, docs: number[] }>();
+  private postings = new Map<string, number[]>();  // term -> flattened [doc, packed tf, ...] pairs
+  private df = new Map<string, number>();
+  private fieldLengths = [0, 0, 0];  // sum of field lengths over live docs
+  private liveDocs = 0;
+  private livePostings = 0;
+
+  constructor(language: KeywordLanguage, maxPostings: number = MAX_POSTINGS.desktop) {
+    this.language = language;
+    this.maxPostings = maxPostings;
+  }
+
+  get noteCount(): number {
+    return this.notes.size;
+  }
+
+  /** Content hash of an indexed note. */
+  noteHash(noteId: string): string | undefined {
+    return this.notes.get(noteId)?.hash;
+  }
+
+  /** Replace the blocks of a note (or remove it, if the index is full). */
+  setNote(noteId: string, hash: string, blocks: KeywordBlock[]) {
+    this.removeNote(noteId);
+    const docs = blocks.map(block => to_doc(noteId, block));
+    if (!this.fits(docs)) { return; }
+    this.notes.set(noteId, { hash, docs: docs.map(doc => this.addDoc(doc)) });
+  }
+
+  private fits(docs: KeywordDoc[]): boolean {
+    const postings = docs.reduce((sum, doc) => sum + doc.tfs.length, 0);
+    if (this.livePostings + postings <= this.maxPostings) { return true; }
+    if (!this.full) {
+      log.info(`[Keyword] Index reached ${this.livePostings} postings, further notes use Joplin search`);
+    }
+    this.full = true;
+    this.complete = false;
+    return false;
+  }
+
+  removeNote(noteId: string) {
+    const entry = this.notes.get(noteId);
+    if (!entry) { return; }
+    for (const i of entry.docs) {
+      const doc = this.docs[i];
+      for (const term of split_terms(doc.terms)) {
+        const df = this.df.get(term) - 1;
+        if (df > 0) {
+          this.df.set(term, df);
+        } else {
+          this.df.delete(term);
+          this.postings.delete(term);
+        }
+      }
+      for (let f = 0; f < 3; f++) { this.fieldLengths[f] -= doc.lengths[f]; }
+      this.docs[i] = null;
+      this.liveDocs--;
+      this.livePostings -= doc.tfs.length;
+    }
+    this.notes.delete(noteId);
+
+    // drop removed docs from the postings once they are the majority
+    if (this.docs.length > 1000 && this.docs.length > 2 * this.liveDocs) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rank blocks for a query with BM25F.
+   * With 'auto' language, every query token matches its stem in any language.
+   *
+   * @param allowed - only blocks with these keys are scored (null for all)
+   */
+  search(query: string, limit: number, allowed: Set<string> | null = null): KeywordHit[] {
+    if (this.liveDocs === 0) { return []; }
+    const avgLengths = this.fieldLengths.map(sum => Math.max(sum / this.liveDocs, 1));
+
+    const scores = new Map<number, number>();
+    for (const variants of query_terms(query, this.language)) {
+      // a token scores with its best matching variant
+      const tokenScores = new Map<number, number>();
+      for (const term of variants) {
+        const postings = this.postings.get(term);
+        if (!postings) { continue; }
+        const df = this.df.get(term);
+        const idf = Math.log(1 + (this.liveDocs - df + 0.5) / (df + 0.5));
+        for (let p = 0; p < postings.length; p += 2) {
+          const doc = this.docs[postings[p]];
+          if (!doc || (allowed && !allowed.has(doc.key))) { continue; }
+          let tf = 0;
+          for (let f = 0; f < 3; f++) {
+            const fieldTf = (postings[p + 1] >> (TF_BITS * f)) & MAX_TF;
+            if (fieldTf === 0) { continue; }
+            const norm = 1 - FIELD_B[f] + FIELD_B[f] * doc.lengths[f] / avgLengths[f];
+            tf += FIELD_WEIGHTS[f] * fieldTf / norm;
+          }
+          const score = idf * tf / (K1 + tf);
+          if (score > (tokenScores.get(postings[p]) ?? 0)) {
+            tokenScores.set(postings[p], score);
+          }
+        }
+      }
+      for (const [i, score] of tokenScores) {
+        scores.set(i, (scores.get(i) ?? 0) + score);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([i, score]) => ({ key: this.docs[i].key, noteId: this.docs[i].noteId, score }));
+  }
+
+  toFile(): KeywordIndexFile {
+    const notes: KeywordIndexFile['notes'] = {};
+    for (const [noteId, entry] of this.notes) {
+      notes[noteId] = {
+        hash: entry.hash,
+        docs: entry.docs.map(i => {
+          const doc = this.docs[i];
+          return [doc.key, doc.lengths, doc.terms, doc.tfs] as KeywordDocFile;
+        }),
+      };
+    }
+    return { version: INDEX_VERSION, language: this.language, complete: this.complete, notes };
+  }
+
+  static fromFile(data: KeywordIndexFile, language: KeywordLanguage, maxPostings: number): KeywordIndex | null {
+    if (data?.version !== INDEX_VERSION || data.language !== language || !data.notes) {
+      return null;
+    }
+    const index = new KeywordIndex(language, maxPostings);
+    index.complete = data.complete === true;
+    for (const noteId in data.notes) {
+      const entry = data.notes[noteId];
+      const docs = entry.docs.map(([key, lengths, terms, tfs]) => ({ noteId, key, lengths, terms, tfs }));
+      if (index.fits(docs)) {
+        index.notes.set(noteId, { hash: entry.hash, docs: docs.map(doc => index.addDoc(doc)) });
+      }
+    }
+    return index;
+  }
+
+  private addDoc(doc: KeywordDoc): number {
+    const i = this.docs.length;
+    this.docs.push(doc);
+    const terms = split_terms(doc.terms);
+    for (let t = 0; t < terms.length; t++) {
+      const term = terms[t];
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = [];
+        this.postings.set(term, postings);
+      }
+      postings.push(i, doc.tfs[t]);
+      this.df.set(term, (this.df.get(term) ?? 0) + 1);
+    }
+    for (let f = 0; f < 3; f++) { this.fieldLengths[f] += doc.lengths[f]; }
+    this.liveDocs++;
+    this.livePostings += terms.length;
+    return i;
+  }
+
+  private compact() {
+    const notes = Array.from(this.notes.entries());
+    const docs = this.docs;
+    this.docs = [];
+    this.notes.clear();
+    this.postings.clear();
+    this.df.clear();
+    this.fieldLengths = [0, 0, 0];
+    this.liveDocs = 0;
+    this.livePostings = 0;
+    for (const [noteId, entry] of notes) {
+      this.notes.set(noteId, { hash: entry.hash, docs: entry.docs.map(i => this.addDoc(docs[i])) });
+    }
+  }
+}
+
+function to_doc(noteId: string, block: KeywordBlock): KeywordDoc {
+  const counts = new Map<string, number[]>();
+  for (let f = 0; f < 3; f++) {
+    for (const term of block.fields[f]) {
+      let tf = counts.get(term);
+      if (!tf) {
+        tf = [0, 0, 0];
+        counts.set(term, tf);
+      }
+      tf[f]++;
+    }
+  }
+  const terms = Array.from(counts.keys());
+  const tfs = terms.map(term => counts.get(term).reduce(
+    (packed, tf, f) => packed | (Math.min(tf, MAX_TF) << (TF_BITS * f)), 0));
+  return { noteId, key: block.key, lengths: block.fields.map(terms => terms.length), terms: terms.join(' '), tfs };
+}
+
+function split_terms(terms: string): string[] {
+  return terms ? terms.split(' ') : [];
+}
+
+/** Query terms: the variants of each query token (without stopwords and search filters). */
+export function query_terms(query: string, language: KeywordLanguage): string[][] {
+  // drop Joplin search filters such as any:1 or tag:work
+  const tokens = Array.from(new Set(tokenize(query.replace(/[\w-]+:\S*/g, ' '))));
+  const lang = (language === 'auto') ? detect_language(tokens) : language;
+  const terms: string[][] = [];
+  for (const token of tokens) {
+    if (is_stopword(token, lang)) { continue; }
+    terms.push(stem_variants(token, language));
+  }
+  return terms;
+}
+
+// === Index management (one index per embedding model) ===
+
+const indexes = new Map<string, KeywordIndex>();
+const loading = new Map<string, Promise<KeywordIndex>>();
+const unsaved = new Set<string>();
+
+const save_indexes_debounced = debounce(async () => {
+  for (const modelId of Array.from(unsaved)) {
+    unsaved.delete(modelId);
+    const index = indexes.get(modelId);
+    if (index) { await save_keyword_index(modelId, index); }
+  }
+}, SAVE_DELAY_MS);
+
+function schedule_save(modelId: string) {
+  unsaved.add(modelId);
+  save_indexes_debounced();
+}
+
+/**
+ * Keyword index of a model (loaded from disk on first use), or null when
+ * hybrid search uses Joplin's search API.
+ */
+export async function get_keyword_index(modelId: string, settings: JarvisSettings): Promise<KeywordIndex | null> {
+  if (settings.notes_keyword_index !== 'bm25' || !modelId) {
+    return null;
+  }
+  const language = settings.notes_keyword_language;
+  const maxPostings = (settings.notes_device_profile_effective === 'desktop') ? MAX_POSTINGS.desktop : MAX_POSTINGS.mobile;
+  const index = indexes.get(modelId);
+  if (index && index.language === language && index.maxPostings === maxPostings) {
+    return index;
+  }
+
+  if (!loading.has(modelId)) {
+    loading.set(modelId, (async () => {
+      const loaded = (index ? null : await load_keyword_index(modelId, language, maxPostings))
+        ?? new KeywordIndex(language, maxPostings);
+      indexes.set(modelId, loaded);
+      return loaded;
+    })().finally(() => loading.delete(modelId)));
+  }
+  return await loading.get(modelId);
+}
+
+/** Keyword index of a model if it covers all notes, otherwise null. */
+export async function get_complete_keyword_index(modelId: string, settings: JarvisSettings): Promise<KeywordIndex | null> {
+  const index = await get_keyword_index(modelId, settings);
+  return index?.complete ? index : null;
+}
+
+export interface KeywordIndexUpdate {
+  note: any;  // note with preprocessed body
+  embeddings: BlockEmbedding[];  // empty for removed notes and for unchanged notes in userData mode
+  hash?: string;  // content hash of unchanged notes
+}
+
+/**
+ * Update the keyword index with a batch of updated notes. Unchanged notes
+ * that are not indexed yet are indexed with their blocks from userData.
+ */
+export async function update_keyword_index(
+  modelId: string,
+  settings: JarvisSettings,
+  updates: KeywordIndexUpdate[],
+): Promise<void> {
+  const index = await get_keyword_index(modelId, settings);
+  if (!index) { return; }
+
+  const missing = new Map<string, any>();
+  for (const { note, embeddings, hash } of updates) {
+    const noteHash = hash ?? embeddings[0]?.hash;
+    if (!noteHash) {
+      // deleted, excluded or empty note
+      index.removeNote(note.id);
+      continue;
+    }
+    if (index.noteHash(note.id) === noteHash) { continue; }
+    if (embeddings.length > 0) {
+      await index_note(index, note, noteHash, embeddings);
+    } else {
+      missing.set(note.id, note);
+    }
+  }
+
+  if (missing.size > 0 && settings.notes_db_in_user_data) {
+    try {
+      const loaded = await read_user_data_embeddings({
+        store: userDataStore, modelId, noteIds: Array.from(missing.keys()),
+      });
+      for (const result of loaded) {
+        if (result.blocks.length > 0) {
+          await index_note(index, missing.get(result.noteId), result.hash, result.blocks);
+        }
+      }
+    } catch (error) {
+      log.debug('[Keyword] Failed to load blocks of unchanged notes', error);
+    }
+  }
+  schedule_save(modelId);
+}
+
+async function index_note(index: KeywordIndex, note: any, hash: string, blocks: BlockEmbedding[]) {
+  const body = convert_newlines(note.body ?? '');
+  const lang = (index.language === 'auto') ? detect_language(tokenize(body)) : index.language;
+  const title = analyze(note.title ?? '', lang);
+  const keywordBlocks: KeywordBlock[] = [];
+  for (const block of blocks) {
+    const source = block.resource_id ? (await get_attachment_text(block.resource_id) ?? '') : body;
+    const text = source.substring(block.body_idx, block.body_idx + block.length);
+    keywordBlocks.push({
+      key: block_key(block),
+      fields: [title, analyze(block.title ?? '', lang), analyze(text, lang)],
+    });
+  }
+  index.setNote(note.id, hash, keywordBlocks);
+}
+
+/** Mark the index of a model as covering all notes (after a full sweep). */
+export async function mark_keyword_index_complete(modelId: string, settings: JarvisSettings): Promise<void> {
+  const index = await get_keyword_index(modelId, settings);
+  if (index && !index.complete && !index.full) {
+    index.complete = true;
+    schedule_save(modelId);
+  }
+}
+
+// === Persistence (desktop only: the file system is not available on mobile) ===
+
+async function index_path(modelId: string): Promise<string> {
+  return `${await joplin.plugins.dataDir()}/bm25/${modelId.replace(/[/\\?%*:|"<>]/g, '_')}.json`;
+}
+
+async function load_keyword_index(modelId: string, language: KeywordLanguage, maxPostings: number): Promise<KeywordIndex | null> {
+  try {
+    const fs = joplin.require('fs-extra');
+    const path = await index_path(modelId);
+    if (!(await fs.pathExists(path))) {
+      return null;
+    }
+    return KeywordIndex.fromFile(await fs.readJson(path), language, maxPostings);
+  } catch (error) {
+    log.debug('[Keyword] Saved index not loaded', error);
+    return null;
+  }
+}
+
+async function save_keyword_index(modelId: string, index: KeywordIndex): Promise<void> {
+  try {
+    const fs = joplin.require('fs-extra');
+    await fs.outputJson(await index_path(modelId), index.toFile());
+  } catch (error) {
+    log.debug('[Keyword] Index not saved', error);
+  }
+}
+
+/** Drop the index of a model (in memory and on disk). */
+export async function delete_keyword_index(modelId: string): Promise<void> {
+  indexes.delete(modelId);
+  unsaved.delete(modelId);
+  try {
+    const fs = joplin.require('fs-extra');
+    await fs.remove(await index_path(modelId));
+  } catch (error) {
+    log.debug('[Keyword] Index not deleted', error);
+  }
+}
@@ -2,7 +2,7 @@ import joplin from 'api';
 import { getLogger } from '../utils/logger';
 import type { JarvisSettings } from '../ux/settings';
 import { NoteEmbMeta, UserDataEmbStore } from './userDataStore';
-import { clearApiResponse } from '../utils';
+import { clearApiResponse, escape_html } from '../utils';
 
 const log = getLogger();
 
@@ -27,7 +27,7 @@ export const LOW_COVERAGE_THRESHOLD = 0.10;
 export type ModelSwitchDecision = 'populate' | 'switch' | 'cancel';
 
 type NotesModelConfig = Pick<JarvisSettings,
-  'notes_model' | 'notes_hf_model_id' | 'notes_openai_model_id'>;
+  'notes_model' | 'notes_hf_model_id' | 'notes_openai_model_id' | 'notes_local_model_id'>;
 
 /**
  * Resolve the canonical embedding model identifier based on the current Jarvis settings.
@@ -48,6 +48,10 @@ export function resolve_embedding_model_id(settings: NotesModelConfig | null | u
     const candidate = String(settings.notes_hf_model_id ?? '').trim();
     return candidate || base;
   }
+  if (base === 'local') {
+    const candidate = String(settings.notes_local_model_id ?? '').trim();
+    return candidate || base;
+  }
   if (base === 'openai-custom' || base === 'ollama') {
     const candidate = String(settings.notes_openai_model_id ?? '').trim();
     return candidate || base;
@@ -59,18 +63,6 @@ export function resolve_embedding_model_id(settings: NotesModelConfig | null | u
   return base;
 }
 
-/**
- * Escape HTML special characters so generated dialog markup cannot break rendering or execute scripts.
- */
-function escape_html(value: string): string {
-  return value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 /**
  * Convert a coverage ratio to an integer percentage while clamping to the 0–100 range.
  */
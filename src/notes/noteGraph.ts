@@ -0,0 +1,185 @@
+/**
+ * Knowledge graph of semantic note relations.
+ *
+ * Nodes are notes and edges are the top-k semantic neighbours of each note
+ * (by the similarity of mean block embeddings) plus the links between notes.
+ * Notes are clustered by label propagation over the edges, and the graph is
+ * rendered by the graph panel with a force-directed layout.
+ */
+import joplin from 'api';
+import { calc_similarity } from './embeddings';
+import { get_vector_source } from './duplicates';
+import { SearchFilters, resolve_note_filter } from './searchFilters';
+import { TextEmbeddingModel } from '../models/models';
+import { JarvisSettings } from '../ux/settings';
+import { clearApiResponse } from '../utils';
+
+const MAX_GRAPH_NODES = 400;  // most recently updated notes
+const LABEL_PROPAGATION_ROUNDS = 10;
+const find_note_links = /:\/([a-f0-9]{32})/g;
+
+export interface GraphNode {
+  id: string;
+  title: string;
+  folder: string;  // notebook title
+  cluster: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  weight: number;
+  kind: 'semantic' | 'link';
+}
+
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated: boolean;  // more notes matched than MAX_GRAPH_NODES
+}
+
+/**
+ * Build the note graph.
+ *
+ * @param filters - notebook / tag filters (empty for all notes)
+ * @param neighbours - semantic neighbours per note
+ * @param panel - panel to show cache build progress in
+ */
+export async function build_note_graph(
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  filters: SearchFilters,
+  neighbours: number,
+  panel?: string,
+): Promise<NoteGraph> {
+  const note_filter = await resolve_note_filter(filters);
+  const source = await get_vector_source(model, settings, panel);
+  const means = source.means(note_filter);
+
+  // most recently updated notes that have embeddings, with their links
+  const folders = await get_folder_titles();
+  const nodes: GraphNode[] = [];
+  const links = new Map<string, Set<string>>();
+  let truncated = false;
+  let page = 1;
+  while (true) {
+    const response = await joplin.data.get(['notes'], {
+      fields: ['id', 'title', 'parent_id', 'body'],
+      page,
+      limit: 100,
+      order_by: 'user_updated_time',
+      order_dir: 'DESC',
+    });
+    for (const note of response.items) {
+      if (!means.has(note.id)) { continue; }
+      if (nodes.length >= MAX_GRAPH_NODES) {
+        truncated = true;
+        break;
+      }
+      nodes.push({ id: note.id, title: note.title, folder: folders.get(note.parent_id) ?? '', cluster: 0 });
+      links.set(note.id, new Set([...note.body.matchAll(find_note_links)].map(m => m[1])));
+    }
+    const has_more = response.has_more && !truncated;
+    clearApiResponse(response);
+    if (!has_more) { break; }
+    page++;
+  }
+
+  const edges = new Map<string, GraphEdge>();
+  const add_edge = (source: string, target: string, weight: number, kind: GraphEdge['kind']) => {
+    const key = source < target ? `${source}:${target}` : `${target}:${source}`;
+    const existing = edges.get(key);
+    if (!existing || (existing.kind === 'semantic' && kind === 'link')) {
+      // a link is kept over a semantic edge between the same notes
+      edges.set(key, { source, target, weight: Math.max(weight, existing?.weight ?? 0), kind });
+    }
+  };
+
+  // top-k semantic neighbours
+  for (const node of nodes) {
+    const scored = nodes
+      .filter(other => other.id !== node.id)
+      .map(other => ({ id: other.id, similarity: calc_similarity(means.get(node.id), means.get(other.id)) }))
+      .filter(n => n.similarity >= settings.notes_min_similarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, neighbours);
+    for (const n of scored) {
+      add_edge(node.id, n.id, n.similarity, 'semantic');
+    }
+  }
+
+  // links between notes in the graph
+  const node_ids = new Set(nodes.map(n => n.id));
+  for (const [id, targets] of links) {
+    for (const target of targets) {
+      if (target !== id && node_ids.has(target)) {
+        add_edge(id, target, 1, 'link');
+      }
+    }
+  }
+
+  const edge_list = [...edges.values()];
+  assign_clusters(nodes, edge_list);
+  return { nodes, edges: edge_list, truncated };
+}
+
+/** Titles of all notebooks by ID. */
+export async function get_folder_titles(): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  let page = 1;
+  while (true) {
+    const response = await joplin.data.get(['folders'], { fields: ['id', 'title'], page, limit: 100 });
+    for (const folder of response.items) {
+      titles.set(folder.id, folder.title);
+    }
+    const has_more = response.has_more;
+    clearApiResponse(response);
+    if (!has_more) { break; }
+    page++;
+  }
+  return titles;
+}
+
+// weighted label propagation; clusters are numbered by size (0 is the largest)
+function assign_clusters(nodes: GraphNode[], edges: GraphEdge[]) {
+  const adjacency = new Map<string, { id: string, weight: number }[]>(nodes.map(n => [n.id, []]));
+  for (const edge of edges) {
+    adjacency.get(edge.source).push({ id: edge.target, weight: edge.weight });
+    adjacency.get(edge.target).push({ id: edge.source, weight: edge.weight });
+  }
+
+  const labels = new Map(nodes.map(n => [n.id, n.id]));
+  for (let round = 0; round < LABEL_PROPAGATION_ROUNDS; round++) {
+    let changed = false;
+    for (const node of nodes) {
+      const votes = new Map<string, number>();
+      for (const neighbour of adjacency.get(node.id)) {
+        const label = labels.get(neighbour.id);
+        votes.set(label, (votes.get(label) ?? 0) + neighbour.weight);
+      }
+      let best = labels.get(node.id);
+      let best_votes = votes.get(best) ?? 0;
+      for (const [label, count] of votes) {
+        if (count > best_votes || (count === best_votes && label < best)) {
+          best = label;
+          best_votes = count;
+        }
+      }
+      if (best !== labels.get(node.id)) {
+        labels.set(node.id, best);
+        changed = true;
+      }
+    }
+    if (!changed) { break; }
+  }
+
+  const sizes = new Map<string, number>();
+  for (const label of labels.values()) {
+    sizes.set(label, (sizes.get(label) ?? 0) + 1);
+  }
+  const order = [...sizes.keys()].sort((a, b) => sizes.get(b) - sizes.get(a) || (a < b ? -1 : 1));
+  const index = new Map(order.map((label, i) => [label, i]));
+  for (const node of nodes) {
+    node.cluster = index.get(labels.get(node.id));
+  }
+}
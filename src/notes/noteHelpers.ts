@@ -6,6 +6,8 @@ import { clearApiResponse } from '../utils';
 import { UserDataEmbStore } from './userDataStore';
 import { getLogger } from '../utils/logger';
 import type { JarvisSettings } from '../ux/settings';
+import type { ChatImage } from '../models/models';
+import { uint8ArrayToBase64 } from '../utils/base64';
 
 const log = getLogger();
 const ocrMergedFlag = Symbol('ocrTextMerged');
@@ -146,6 +148,67 @@ export async function append_ocr_text_to_body(note: any): Promise<void> {
   note[ocrMergedFlag] = true;
 }
 
+const CHAT_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+/**
+ * Load the image attachments of notes for vision models, in the order
+ * of the given notes. Images larger than max_bytes are skipped.
+ *
+ * @param noteIds - notes to collect images from, most relevant first
+ * @param maxCount - maximal number of images in total
+ * @param maxBytes - maximal size of a single image
+ */
+export async function get_note_images(noteIds: string[], maxCount: number, maxBytes: number): Promise<ChatImage[]> {
+  const images: ChatImage[] = [];
+  const seen = new Set<string>();
+  for (const noteId of noteIds) {
+    if (images.length >= maxCount) { break; }
+    let resourcesPage: any = null;
+    try {
+      resourcesPage = await joplin.data.get(
+        ['notes', noteId, 'resources'],
+        { fields: ['id', 'title', 'mime', 'size'], limit: 100 }
+      );
+      for (const resource of resourcesPage?.items ?? []) {
+        if (images.length >= maxCount) { break; }
+        if (seen.has(resource.id) || !CHAT_IMAGE_TYPES.has(resource.mime) || resource.size > maxBytes) {
+          continue;
+        }
+        seen.add(resource.id);
+        const data = await read_resource_base64(resource.id);
+        if (data) {
+          images.push({ mime: resource.mime, data, title: resource.title });
+        }
+      }
+    } catch (error) {
+      log.debug(`Failed to retrieve images for note ${noteId}:`, error);
+    } finally {
+      clearApiResponse(resourcesPage);
+    }
+  }
+  return images;
+}
+
+async function read_resource_base64(resourceId: string): Promise<string | null> {
+  let file: any = null;
+  try {
+    file = await joplin.data.get(['resources', resourceId, 'file']);
+    const body = file?.body;
+    if (body instanceof Uint8Array) {
+      return uint8ArrayToBase64(body);
+    }
+    if (body instanceof ArrayBuffer) {
+      return uint8ArrayToBase64(new Uint8Array(body));
+    }
+    return null;
+  } catch (error) {
+    log.debug(`Failed to read resource ${resourceId}:`, error);
+    return null;
+  } finally {
+    clearApiResponse(file);
+  }
+}
+
 /**
  * Check if a note should be excluded based on filtering criteria.
  * Handles undefined/null values gracefully.
@@ -3,7 +3,8 @@
  *
  * Uses the chat model to decompose a user query into focused sub-queries,
  * each with a semantic component (for embedding search) and keyword terms
- * (for Joplin keyword search).
+ * (for keyword search). With query languages, each semantic query is also
+ * translated for cross-lingual search.
  */
 import { TextGenerationModel } from '../models/models';
 import { with_timeout } from '../utils';
@@ -11,48 +12,75 @@ import { getLogger } from '../utils/logger';
 
 const log = getLogger();
 
+const DECOMPOSITION_SCHEMA = {
+  type: 'object',
+  properties: {
+    sub_queries: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          semantic: { type: 'string' },
+          keywords: { type: 'array', items: { type: 'string' } },
+          translations: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['semantic', 'keywords'],
+      },
+    },
+  },
+  required: ['sub_queries'],
+};
+
+export interface SubQuery {
+  semantic: string;
+  keywords: string[];
+  translations: string[];  // semantic query in the query languages
+}
+
 /**
  * Decompose a user query into focused sub-queries for hybrid search.
  *
  * @param query - the user's question
  * @param model_gen - text generation model for LLM call
+ * @param languages - languages to translate the sub-queries into (empty for none)
  * @returns array of sub-queries, or null on failure/timeout
  */
 export async function decompose_query(
   query: string,
   model_gen: TextGenerationModel,
-): Promise<{semantic: string, keywords: string[]}[] | null> {
+  languages: string[] = [],
+): Promise<SubQuery[] | null> {
+  const translation_rule = (languages.length > 0)
+    ? `\n- Give translations of each semantic query into ${languages.join(', ')} (skip the language of the question), and add the main keywords in these languages.`
+    : '';
   const prompt = `Decompose this question into 1-3 focused search sub-queries.
-For each, output on a separate line:
-SEARCH: <semantic query> | KEYWORDS: <terms or NONE>
+For each, give a semantic query (for embedding search) and keywords (for keyword search, may be empty).
 
 Rules:
 - Use 1 sub-query when the question targets a single topic, entity, or time period.
 - Use 2-3 for comparisons (one sub-query per side) or multiple distinct entities/topics.
 - Use "quoted phrases" for compound terms. Drop evaluative words from keywords.
-- Combine co-occurring entities in a single keyword term.
+- Combine co-occurring entities in a single keyword term.${translation_rule}
 
 Question: ${query}`;
 
   try {
-    const response = await with_timeout(10_000, model_gen.complete(prompt));
+    const response = await with_timeout(10_000,
+      model_gen.complete_json<{sub_queries: {semantic: string, keywords: string[], translations?: string[]}[]}>(prompt, DECOMPOSITION_SCHEMA));
     if (!response) { return null; }
 
-    const results: {semantic: string, keywords: string[]}[] = [];
-    for (const line of response.split('\n')) {
-      const match = line.match(/SEARCH:\s*(.+?)\s*\|\s*KEYWORDS:\s*(.+)/i);
-      if (!match) { continue; }
-
-      const semantic = match[1].trim();
-      if (!semantic) { continue; }
-
-      const kw_raw = match[2].trim();
-      const keywords = kw_raw.toLowerCase() === 'none'
-        ? []
-        : kw_raw.split(',').map(k => k.trim()).filter(k => k.length > 0);
-
-      results.push({ semantic, keywords });
-    }
+    const results = response.sub_queries
+      .map(sq => ({
+        semantic: sq.semantic.trim(),
+        keywords: sq.keywords.map(k => k.trim()).filter(k => k.length > 0 && k.toLowerCase() !== 'none'),
+        translations: (languages.length > 0 ? sq.translations ?? [] : [])
+          .map(t => t.trim())
+          .filter(t => t.length > 0 && t !== sq.semantic.trim())
+          .slice(0, languages.length),
+      }))
+      .filter(sq => sq.semantic.length > 0)
+      .slice(0, 3);
 
     return results.length > 0 ? results : null;
   } catch (error) {
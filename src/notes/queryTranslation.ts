@@ -0,0 +1,84 @@
+/**
+ * LLM query translation for cross-lingual search.
+ *
+ * Uses the chat model to translate a search query into the configured
+ * languages (notes_query_languages), so that notes written in another
+ * language are retrieved by monolingual embedding models and keyword search.
+ */
+import { TextGenerationModel } from '../models/models';
+import { with_timeout } from '../utils';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const MAX_QUERY_CHARS = 1000;  // longer queries (e.g. note bodies) are not translated
+
+const TRANSLATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          language: { type: 'string' },
+          text: { type: 'string' },
+        },
+        required: ['language', 'text'],
+      },
+    },
+  },
+  required: ['translations'],
+};
+
+export interface QueryTranslation {
+  language: string;
+  text: string;
+}
+
+/**
+ * Translate a search query into the given languages.
+ *
+ * @param query - search query
+ * @param languages - target languages (e.g. ['English', 'Hebrew'])
+ * @param model_gen - text generation model for LLM call
+ * @returns translations that differ from the query, or empty on failure/timeout
+ */
+export async function translate_query(
+  query: string,
+  languages: string[],
+  model_gen: TextGenerationModel,
+): Promise<QueryTranslation[]> {
+  query = query.trim();
+  if (languages.length === 0 || query.length === 0 || query.length > MAX_QUERY_CHARS) {
+    return [];
+  }
+
+  const prompt = `Translate this search query into each of these languages: ${languages.join(', ')}.
+
+Rules:
+- Skip a language if the query is already written in it.
+- Keep names, code, numbers and "quoted phrases" of proper nouns unchanged.
+- Translate the meaning for search, not word by word.
+
+Query: ${query}`;
+
+  try {
+    const response = await with_timeout(10_000,
+      model_gen.complete_json<{translations: QueryTranslation[]}>(prompt, TRANSLATION_SCHEMA));
+    if (!response) { return []; }
+
+    const seen = new Set([query.toLowerCase()]);
+    const results: QueryTranslation[] = [];
+    for (const translation of response.translations) {
+      const text = translation.text.trim();
+      if (text.length === 0 || seen.has(text.toLowerCase())) { continue; }
+      seen.add(text.toLowerCase());
+      results.push({ language: translation.language.trim(), text });
+    }
+    return results.slice(0, languages.length);
+  } catch (error) {
+    log.info(`[Hybrid] query translation failed: ${error.message || error}`);
+    return [];
+  }
+}
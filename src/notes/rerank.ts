@@ -0,0 +1,189 @@
+/**
+ * Reranking of retrieved blocks against the question.
+ *
+ * Retrieval ranks blocks by embedding similarity (and keyword RRF), which
+ * finds blocks on the topic of the question but not necessarily ones that
+ * answer it. This optional stage scores each (query, block text) pair of the
+ * top-N blocks with a local cross-encoder, a hosted rerank endpoint
+ * (Cohere / Jina / Voyage-compatible) or an LLM judge, and reorders them
+ * before the context budget is filled.
+ */
+import joplin from 'api';
+import { TextGenerationModel } from '../models/models';
+import * as transformers from '../models/transformers';
+import { estimate_tokens } from '../models/tokenizers';
+import { endpoint_provider, record_usage } from '../models/usage';
+import { BlockEmbedding, get_canonical_note } from './embeddings';
+import { get_attachment_text } from './attachments';
+import { JarvisSettings } from '../ux/settings';
+import { clearObjectReferences, with_timeout } from '../utils';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const DEFAULT_CROSS_ENCODER = 'Xenova/ms-marco-MiniLM-L-6-v2';
+const MAX_PASSAGE_CHARS = 2000;  // per block, for hosted and LLM rerankers
+const LLM_PASSAGE_CHARS = 600;  // shorter passages keep the judge cheap
+const RERANK_TIMEOUT_MS = 30_000;
+
+const JUDGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    scores: { type: 'array', items: { type: 'number' } },
+  },
+  required: ['scores'],
+};
+
+let cross_encoder: { id: string, encoder: Promise<transformers.CrossEncoder> } | null = null;
+
+/**
+ * Rerank the top blocks by their relevance to the query, keeping the rest
+ * in their original order. Returns the blocks unchanged when reranking is
+ * disabled or fails.
+ *
+ * @param query - the user's question
+ * @param blocks - retrieved blocks (best first)
+ * @param model_gen - used by the LLM judge
+ * @param settings - notes_rerank* settings
+ */
+export async function rerank_blocks(
+  query: string,
+  blocks: BlockEmbedding[],
+  model_gen: TextGenerationModel,
+  settings: JarvisSettings,
+): Promise<BlockEmbedding[]> {
+  const method = settings.notes_rerank;
+  if (method === 'none' || !query.trim() || blocks.length < 2) {
+    return blocks;
+  }
+
+  const top = blocks.slice(0, Math.max(2, settings.notes_rerank_top_n));
+  const tail = blocks.slice(top.length);
+  try {
+    const texts = await read_blocks_text(top);
+    let scores: number[];
+    if (method === 'local') {
+      scores = await score_local(query, texts, settings);
+    } else if (method === 'endpoint') {
+      scores = await score_endpoint(query, texts, settings, model_gen?.usage_command ?? 'search');
+    } else {
+      scores = await score_llm(query, texts, model_gen);
+    }
+    if (scores.length !== top.length) {
+      throw new Error(`expected ${top.length} scores, got ${scores.length}`);
+    }
+
+    // stable sort: ties keep the retrieval order
+    const order = top.map((block, i) => ({ block, i, score: scores[i] }))
+      .sort((a, b) => (b.score - a.score) || (a.i - b.i));
+    if (settings.notes_debug_mode) {
+      log.info(`[Rerank] ${method}: ${order.slice(0, 10).map(entry =>
+        `#${entry.i + 1} ${entry.block.title.slice(0, 30)} (${entry.score.toFixed(2)})`).join(', ')}`);
+    }
+    return [...order.map(entry => entry.block), ...tail];
+
+  } catch (error) {
+    log.info(`[Rerank] ${method} reranking failed: ${error?.message || error}`);
+    return blocks;
+  }
+}
+
+async function score_local(query: string, texts: string[], settings: JarvisSettings): Promise<number[]> {
+  const model_id = settings.notes_rerank_model || DEFAULT_CROSS_ENCODER;
+  if (cross_encoder?.id !== model_id) {
+    cross_encoder = { id: model_id, encoder: transformers.load_cross_encoder(model_id) };
+    cross_encoder.encoder.catch(() => { cross_encoder = null; });  // retry the load next time
+  }
+  return await transformers.score_pairs(await cross_encoder.encoder, query, texts);
+}
+
+async function score_endpoint(query: string, texts: string[], settings: JarvisSettings, command: string): Promise<number[]> {
+  const endpoint = settings.notes_rerank_endpoint;
+  if (!endpoint) {
+    throw new Error('no rerank endpoint in the settings');
+  }
+  const documents = texts.map(text => text.slice(0, MAX_PASSAGE_CHARS));
+  const api_key = await joplin.settings.value('rerank_api_key');
+  const response = await with_timeout(RERANK_TIMEOUT_MS, fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(api_key ? { 'Authorization': `Bearer ${api_key}` } : {}),
+    },
+    body: JSON.stringify({
+      model: settings.notes_rerank_model || undefined,
+      query: query,
+      documents: documents,
+      top_n: documents.length,
+    }),
+  })) as Response;
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${data?.message ?? data?.detail ?? data?.error?.message ?? ''}`);
+  }
+
+  // Cohere / Jina: results, Voyage: data
+  const results: { index: number, relevance_score: number }[] = data?.results ?? data?.data ?? [];
+  const scores = new Array(texts.length).fill(-Infinity);
+  for (const result of results) {
+    if (result.index >= 0 && result.index < scores.length) {
+      scores[result.index] = result.relevance_score;
+    }
+  }
+  await record_usage({
+    provider: endpoint_provider('rerank', endpoint),
+    model: settings.notes_rerank_model || 'rerank',
+    command,
+    input_tokens: estimate_tokens(query) * documents.length + estimate_tokens(documents.join('\n')),
+    output_tokens: 0,
+  });
+  return scores;
+}
+
+async function score_llm(query: string, texts: string[], model_gen: TextGenerationModel): Promise<number[]> {
+  const passages = texts.map((text, i) =>
+    `[${i + 1}] ${text.slice(0, LLM_PASSAGE_CHARS).replace(/\s+/g, ' ').trim()}`).join('\n\n');
+  const prompt = `Rate how useful each passage is for answering the question, on a scale of 0 (irrelevant) to 10 (answers it directly).
+Return one score per passage, in the order of the passages (${texts.length} scores).
+
+Question: ${query}
+
+Passages:
+${passages}`;
+
+  const response = await with_timeout(RERANK_TIMEOUT_MS,
+    model_gen.complete_json<{scores: number[]}>(prompt, JUDGE_SCHEMA));
+  return response.scores;
+}
+
+// the text of each block, from the canonical note body or attachment text (as indexed)
+async function read_blocks_text(blocks: BlockEmbedding[]): Promise<string[]> {
+  const notes = new Map<string, any>();
+  const texts: string[] = [];
+  try {
+    for (const block of blocks) {
+      let source: string | null = null;
+      if (block.resource_id) {
+        source = await get_attachment_text(block.resource_id);
+      } else {
+        if (!notes.has(block.id)) {
+          let note: any = null;
+          try {
+            note = await get_canonical_note(block.id);
+          } catch (error) {
+            note = null;
+          }
+          notes.set(block.id, note);
+        }
+        source = notes.get(block.id)?.body ?? null;
+      }
+      const body = (source && block.body_idx >= 0)
+        ? source.substring(block.body_idx, block.body_idx + block.length)
+        : '';
+      texts.push(`${block.title}\n${body}`.trim());
+    }
+  } finally {
+    for (const note of notes.values()) { clearObjectReferences(note); }
+  }
+  return texts;
+}
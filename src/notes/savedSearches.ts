@@ -0,0 +1,234 @@
+/**
+ * Saved searches and smart collections.
+ *
+ * A saved search is a named semantic query with optional metadata filters
+ * (filter commands such as "Notebook: Projects" or "Since: 30d", one per
+ * line, see parse_filter_command). Pinned searches are shown in the related
+ * notes panel as live collections, re-run against the corpus cache when the
+ * corpus or the saved searches change. A search may also be materialized into a Joplin
+ * note that lists links to the matching notes (jarvis-collection block),
+ * refreshed by a command.
+ */
+import joplin from 'api';
+import { NoteEmbedding, corpusCaches, group_by_notes } from './embeddings';
+import { SearchFilters, empty_filters, parse_filter_command, resolve_note_filter } from './searchFilters';
+import { maxsim_search, search_by_query } from './searchOrchestration';
+import { keyword_rerank } from './hybridSearch';
+import { TextEmbeddingModel } from '../models/models';
+import { JarvisSettings } from '../ux/settings';
+import { clearObjectReferences } from '../utils';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+const SAVED_SEARCHES_KEY = 'notes_saved_searches';
+const collection_start = '<!-- jarvis-collection-start -->';
+const collection_end = '<!-- jarvis-collection-end -->';
+const MAX_QUERY_EMBEDDINGS = 50;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: string;  // filter commands, one per line
+  pinned: boolean;  // shown in the related notes panel
+  note_id?: string;  // materialized collection note
+}
+
+export interface PanelCollection {
+  id: string;
+  name: string;
+  notes: NoteEmbedding[];
+}
+
+// query embeddings of saved searches, per model (least recently used first)
+const queryEmbeddings = new Map<string, Float32Array>();
+
+// results of the pinned searches, until the corpus or the searches change
+let panelCollections: { key: string, collections: PanelCollection[] } | null = null;
+
+export async function load_saved_searches(): Promise<SavedSearch[]> {
+  try {
+    const parsed = JSON.parse(await joplin.settings.value(SAVED_SEARCHES_KEY) || '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter(s => s && typeof s.id === 'string' && typeof s.query === 'string')
+      : [];
+  } catch (error) {
+    log.warn('Failed to parse saved searches; ignoring', error);
+    return [];
+  }
+}
+
+async function store_saved_searches(searches: SavedSearch[]): Promise<void> {
+  await joplin.settings.setValue(SAVED_SEARCHES_KEY, JSON.stringify(searches));
+  // drop the embeddings of queries that were edited or removed
+  const queries = new Set(searches.map(s => s.query));
+  for (const key of queryEmbeddings.keys()) {
+    if (!queries.has(key.substring(key.indexOf(':') + 1))) { queryEmbeddings.delete(key); }
+  }
+  panelCollections = null;
+}
+
+/** Add a saved search, or replace the one with the same id. */
+export async function save_search(search: SavedSearch): Promise<void> {
+  const searches = await load_saved_searches();
+  const i = searches.findIndex(s => s.id === search.id);
+  if (i >= 0) {
+    searches[i] = search;
+  } else {
+    searches.push(search);
+  }
+  await store_saved_searches(searches);
+}
+
+export async function delete_saved_search(id: string): Promise<void> {
+  await store_saved_searches((await load_saved_searches()).filter(s => s.id !== id));
+}
+
+export function new_search_id(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/** Parse filter command lines (e.g. "Tagged: review, -draft") into filters. */
+export function parse_saved_filters(text: string): SearchFilters {
+  const filters = empty_filters();
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*([A-Za-z][A-Za-z -]*):(.*)$/);
+    if (match && !parse_filter_command(`${match[1].trim()}:`, match[2], filters)) {
+      log.info(`[Filters] Ignoring invalid filter: ${line.trim()}`);
+    }
+  }
+  return filters;
+}
+
+/**
+ * Run a saved search. Scores the corpus cache (or legacy pool) directly
+ * with a cached query embedding when it is available, and otherwise runs a
+ * regular text query search (which builds the cache).
+ */
+export async function run_saved_search(
+  search: SavedSearch,
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+): Promise<NoteEmbedding[]> {
+  const note_filter = await resolve_note_filter(parse_saved_filters(search.filters));
+
+  const cache = corpusCaches.get(model.id);
+  if (!cache?.isBuilt() && model.embeddings.length === 0) {
+    return await search_by_query(search.query, '', model, settings, undefined, false, note_filter);
+  }
+
+  const key = `${model.id}:${search.query}`;
+  let embedding = queryEmbeddings.get(key);
+  if (embedding) {
+    queryEmbeddings.delete(key);  // move to the end (most recently used)
+  } else {
+    embedding = await model.embed(search.query, 'query');
+    if (queryEmbeddings.size >= MAX_QUERY_EMBEDDINGS) {
+      queryEmbeddings.delete(queryEmbeddings.keys().next().value);
+    }
+  }
+  queryEmbeddings.set(key, embedding);
+  const scored = maxsim_search([embedding], model.embeddings, cache, '', settings, note_filter);
+  if (scored.length === 0) { return []; }
+  return group_by_notes(await keyword_rerank(scored, [search.query], settings, model.id), settings);
+}
+
+/**
+ * Results of the pinned searches for the related notes panel. Skipped
+ * (empty) until the corpus cache or the legacy pool is available. Cached
+ * until the corpus, the pinned searches or the search settings change.
+ */
+export async function get_panel_collections(
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+): Promise<PanelCollection[]> {
+  const pinned = (await load_saved_searches()).filter(s => s.pinned);
+  if (pinned.length === 0 || model.model === null) { return []; }
+  const cache = corpusCaches.get(model.id);
+  if (!cache?.isBuilt() && model.embeddings.length === 0) { return []; }
+
+  const key = JSON.stringify([
+    model.id, cache?.getVersion(), model.embeddings.length, model.embeddings_version,
+    settings.notes_min_similarity, settings.notes_min_length, settings.notes_max_hits,
+    pinned.map(s => [s.id, s.name, s.query, s.filters]),
+  ]);
+  if (panelCollections?.key === key) { return panelCollections.collections; }
+
+  const collections: PanelCollection[] = [];
+  let failed = false;
+  for (const search of pinned) {
+    try {
+      collections.push({ id: search.id, name: search.name, notes: await run_saved_search(search, model, settings) });
+    } catch (error) {
+      log.warn(`Saved search "${search.name}" failed`, error);
+      failed = true;
+    }
+  }
+  panelCollections = failed ? null : { key, collections };  // retry failed searches on the next refresh
+  return collections;
+}
+
+/**
+ * Write the results of a saved search into its collection note (the
+ * jarvis-collection block), creating the note in the selected notebook if
+ * needed.
+ *
+ * @returns id of the collection note
+ */
+export async function write_collection_note(search: SavedSearch, results: NoteEmbedding[]): Promise<string> {
+  const links = results.map(n => `[${n.title}](:/${n.id})`).join('\n');
+  const block = `${collection_start}\n${links || 'No matching notes.'}\n${collection_end}`;
+
+  let note: any = null;
+  if (search.note_id) {
+    try {
+      note = await joplin.data.get(['notes', search.note_id], { fields: ['id', 'body', 'deleted_time'] });
+    } catch (error) {
+      note = null;  // deleted: create a new note
+    }
+  }
+
+  try {
+    if (note && !note.deleted_time) {
+      const find_block = new RegExp(`${collection_start}[\\s\\S]*?${collection_end}`);
+      note.body = note.body.includes(collection_start) && note.body.includes(collection_end)
+        ? note.body.replace(find_block, () => block)
+        : `${note.body}\n\n${block}`;
+      await joplin.data.put(['notes', note.id], null, { body: note.body });
+
+      const selected = await joplin.workspace.selectedNote();
+      if (selected?.id === note.id) {
+        await joplin.commands.execute('editor.setText', note.body);
+      }
+      clearObjectReferences(selected);
+      return note.id;
+    }
+
+    const folder = await joplin.workspace.selectedFolder();
+    const filters = search.filters.trim() ? `\n\n${search.filters.trim()}` : '';
+    const created = await joplin.data.post(['notes'], null, {
+      title: search.name,
+      body: `Saved search: ${search.query}${filters}\n\n${block}`,
+      parent_id: folder?.id,
+    });
+    return created.id;
+  } finally {
+    clearObjectReferences(note);
+  }
+}
+
+/** Re-run the saved searches that have collection notes, and rewrite the notes. */
+export async function refresh_collection_notes(model: TextEmbeddingModel, settings: JarvisSettings): Promise<number> {
+  const searches = await load_saved_searches();
+  let refreshed = 0;
+  for (const search of searches.filter(s => s.note_id)) {
+    const note_id = await write_collection_note(search, await run_saved_search(search, model, settings));
+    if (note_id !== search.note_id) {
+      search.note_id = note_id;
+      await save_search(search);
+    }
+    refreshed++;
+  }
+  return refreshed;
+}
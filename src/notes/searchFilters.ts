@@ -0,0 +1,367 @@
+/**
+ * Metadata filters for semantic search.
+ *
+ * Filters restrict the notes that are scored (notebook subtree, tags,
+ * created / updated date range, to-do state, markup language). They are
+ * resolved into a set of allowed note IDs with the Joplin data API, and the
+ * set is applied before scoring by the corpus cache and the legacy
+ * in-memory search, so the top results are not spent on other notes.
+ */
+import joplin from 'api';
+import { clearApiResponse } from '../utils';
+import { notebook_cmd, tags_cmd, since_cmd, until_cmd, todo_cmd, markup_cmd } from '../ux/settings';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
+
+export interface SearchFilters {
+  notebooks: string[];  // titles or IDs, including their sub-notebooks (any of them)
+  tags: string[];  // required tags (all of them)
+  exclude_tags: string[];
+  created_after?: number;  // ms since epoch, inclusive
+  created_before?: number;
+  updated_after?: number;
+  updated_before?: number;
+  is_todo?: boolean;
+  completed?: boolean;  // implies is_todo
+  markup_language?: number;  // 1: Markdown, 2: HTML
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATIVE_UNITS: {[unit: string]: number} = { d: 1, w: 7, m: 30, y: 365 };
+
+export function empty_filters(): SearchFilters {
+  return { notebooks: [], tags: [], exclude_tags: [] };
+}
+
+export function has_filters(filters: SearchFilters | null | undefined): boolean {
+  if (!filters) {
+    return false;
+  }
+  return filters.notebooks.length > 0 || filters.tags.length > 0 || filters.exclude_tags.length > 0 ||
+    filters.created_after !== undefined || filters.created_before !== undefined ||
+    filters.updated_after !== undefined || filters.updated_before !== undefined ||
+    filters.is_todo !== undefined || filters.completed !== undefined ||
+    filters.markup_language !== undefined;
+}
+
+/**
+ * Parse the value of a filter command (a chat line prefix, or a key in a
+ * ```jarvis block) into filters (in place). Invalid values are ignored.
+ *
+ * Notebook: Projects, Work/Archive   (any of these notebooks, with sub-notebooks)
+ * Tagged: review, -draft             (all of the tags, none of the -tags)
+ * Since: 2024-03 / Since: 30d        (updated since; "created 2024" filters by creation date)
+ * Until: 2024-06-30                  (updated until the end of that day / month / year)
+ * To-do state: yes / no / open / done
+ * Markup: markdown / html
+ *
+ * @returns true if the value is a valid filter (and was applied)
+ */
+export function parse_filter_command(cmd: string, value: string, filters: SearchFilters): boolean {
+  value = value.trim();
+  if (!value) {
+    return false;
+  }
+  const key = cmd.replace(/:$/, '').toLowerCase();
+
+  if (key === notebook_cmd.slice(0, -1).toLowerCase()) {
+    filters.notebooks = split_list(value);
+    return filters.notebooks.length > 0;
+
+  } else if (key === tags_cmd.slice(0, -1).toLowerCase()) {
+    let valid = false;
+    for (const tag of split_list(value)) {
+      if (tag.startsWith('-') || tag.startsWith('!')) {
+        const name = tag.slice(1).trim();
+        if (name) { filters.exclude_tags.push(name); valid = true; }
+      } else {
+        filters.tags.push(tag);
+        valid = true;
+      }
+    }
+    return valid;
+
+  } else if (key === since_cmd.slice(0, -1).toLowerCase() || key === until_cmd.slice(0, -1).toLowerCase()) {
+    const until = (key === until_cmd.slice(0, -1).toLowerCase());
+    const created = /^created\b/i.test(value);
+    const date = parse_date(value.replace(/^(created|updated)\b/i, '').trim(), until);
+    if (date === null) {
+      return false;
+    }
+    if (created) {
+      filters[until ? 'created_before' : 'created_after'] = date;
+    } else {
+      filters[until ? 'updated_before' : 'updated_after'] = date;
+    }
+    return true;
+
+  } else if (key === todo_cmd.slice(0, -1).toLowerCase()) {
+    const state = value.toLowerCase();
+    if (['yes', 'true', 'todo', 'all'].includes(state)) {
+      filters.is_todo = true;
+    } else if (['no', 'false', 'none'].includes(state)) {
+      filters.is_todo = false;
+    } else if (['open', 'pending', 'incomplete'].includes(state)) {
+      filters.completed = false;
+    } else if (['done', 'completed', 'complete'].includes(state)) {
+      filters.completed = true;
+    } else {
+      return false;
+    }
+    return true;
+
+  } else if (key === markup_cmd.slice(0, -1).toLowerCase()) {
+    const markup = parse_markup_language(value);
+    if (markup === null) {
+      return false;
+    }
+    filters.markup_language = markup;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Parse an absolute (YYYY, YYYY-MM, YYYY-MM-DD, or any Date string) or a
+ * relative (7d, 2w, 3m, 1y ago) date to ms since epoch. With end_of_period,
+ * partial dates resolve to the last moment of the period (for upper bounds).
+ */
+export function parse_date(value: string | number, end_of_period: boolean = false): number | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
+  value = value.trim();
+  const relative = value.match(/^(\d+)\s*([dwmy])$/i);
+  if (relative) {
+    return Date.now() - parseInt(relative[1]) * RELATIVE_UNITS[relative[2].toLowerCase()] * DAY_MS;
+  }
+  const partial = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (partial) {
+    const year = parseInt(partial[1]);
+    const month = partial[2] ? parseInt(partial[2]) - 1 : null;
+    const day = partial[3] ? parseInt(partial[3]) : null;
+    if (!end_of_period) {
+      return new Date(year, month ?? 0, day ?? 1).getTime();
+    }
+    // start of the next period, minus 1 ms
+    if (day !== null) { return new Date(year, month, day + 1).getTime() - 1; }
+    if (month !== null) { return new Date(year, month + 1, 1).getTime() - 1; }
+    return new Date(year + 1, 0, 1).getTime() - 1;
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function parse_markup_language(value: string | number): number | null {
+  if (value === 1 || value === 2) {
+    return value;
+  }
+  const markup = String(value).trim().toLowerCase();
+  if (['markdown', 'md', '1'].includes(markup)) { return 1; }
+  if (['html', '2'].includes(markup)) { return 2; }
+  return null;
+}
+
+function split_list(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Resolve filters into the set of note IDs that satisfy all of them.
+ * Returns null when there are no filters (every note is allowed).
+ */
+export async function resolve_note_filter(filters: SearchFilters | null | undefined): Promise<Set<string> | null> {
+  if (!has_filters(filters)) {
+    return null;
+  }
+  let allowed: Set<string> | null = null;
+
+  if (filters.notebooks.length > 0) {
+    allowed = await get_notebook_note_ids(filters.notebooks);
+  }
+
+  if (filters.tags.length > 0 || filters.exclude_tags.length > 0) {
+    const tag_ids = await get_tag_ids();
+    for (const tag of filters.tags) {
+      const tag_id = tag_ids.get(tag.toLowerCase());
+      const tagged = tag_id ? await get_all_ids(['tags', tag_id, 'notes']) : new Set<string>();
+      allowed = allowed ? intersect(allowed, tagged) : tagged;
+    }
+    for (const tag of filters.exclude_tags) {
+      const tag_id = tag_ids.get(tag.toLowerCase());
+      if (!tag_id) { continue; }
+      if (!allowed) {
+        allowed = await get_all_ids(['notes']);
+      }
+      for (const id of await get_all_ids(['tags', tag_id, 'notes'])) {
+        allowed.delete(id);
+      }
+    }
+  }
+
+  if (needs_note_fields(filters)) {
+    allowed = await get_note_ids_by_fields(filters, allowed);
+  }
+
+  if (allowed) {
+    log.info(`[Filters] ${allowed.size} notes match the search filters`);
+  }
+  return allowed;  // null: only unknown tags were excluded
+}
+
+function has_date_filters(filters: SearchFilters): boolean {
+  return filters.created_after !== undefined || filters.created_before !== undefined ||
+    filters.updated_after !== undefined || filters.updated_before !== undefined;
+}
+
+function needs_note_fields(filters: SearchFilters): boolean {
+  return has_date_filters(filters) || filters.is_todo !== undefined ||
+    filters.completed !== undefined || filters.markup_language !== undefined;
+}
+
+// notes that match the date, to-do and markup filters (among candidates, when given)
+async function get_note_ids_by_fields(filters: SearchFilters, candidates: Set<string> | null): Promise<Set<string>> {
+  const matching = new Set<string>();
+  let page = 1;
+  while (true) {
+    let res: any = null;
+    try {
+      res = await joplin.data.get(['notes'], {
+        fields: ['id', 'user_created_time', 'user_updated_time', 'is_todo', 'todo_completed', 'markup_language'],
+        page, limit: 100,
+      });
+      for (const note of res?.items ?? []) {
+        if (candidates && !candidates.has(note.id)) { continue; }
+        if (note_matches(note, filters)) { matching.add(note.id); }
+      }
+      if (!res?.has_more) { break; }
+      page += 1;
+    } finally {
+      clearApiResponse(res);
+    }
+  }
+  return matching;
+}
+
+function note_matches(note: any, filters: SearchFilters): boolean {
+  const created = note.user_created_time ?? 0;
+  const updated = note.user_updated_time ?? 0;
+  if (filters.created_after !== undefined && created < filters.created_after) { return false; }
+  if (filters.created_before !== undefined && created > filters.created_before) { return false; }
+  if (filters.updated_after !== undefined && updated < filters.updated_after) { return false; }
+  if (filters.updated_before !== undefined && updated > filters.updated_before) { return false; }
+  const is_todo = !!note.is_todo;
+  if (filters.is_todo !== undefined && is_todo !== filters.is_todo) { return false; }
+  if (filters.completed !== undefined && (!is_todo || !!note.todo_completed !== filters.completed)) { return false; }
+  if (filters.markup_language !== undefined && note.markup_language !== filters.markup_language) { return false; }
+  return true;
+}
+
+// notes in the given notebooks (by title or ID) and their sub-notebooks
+async function get_notebook_note_ids(notebooks: string[]): Promise<Set<string>> {
+  const folders: { id: string, parent_id: string, title: string }[] = [];
+  let page = 1;
+  while (true) {
+    let res: any = null;
+    try {
+      res = await joplin.data.get(['folders'], { fields: ['id', 'parent_id', 'title'], page, limit: 100 });
+      for (const folder of res?.items ?? []) {
+        folders.push({ id: folder.id, parent_id: folder.parent_id, title: folder.title ?? '' });
+      }
+      if (!res?.has_more) { break; }
+      page += 1;
+    } finally {
+      clearApiResponse(res);
+    }
+  }
+
+  // match notebooks by ID, title, or path of titles (Parent/Child)
+  const path_of = new Map<string, string>();
+  const by_id = new Map(folders.map(folder => [folder.id, folder]));
+  const get_path = (folder: { id: string, parent_id: string, title: string }, depth: number = 0): string => {
+    if (!path_of.has(folder.id)) {
+      const parent = by_id.get(folder.parent_id);
+      path_of.set(folder.id, (parent && depth < 50)
+        ? `${get_path(parent, depth + 1)}/${folder.title}`.toLowerCase()
+        : folder.title.toLowerCase());
+    }
+    return path_of.get(folder.id);
+  };
+  const roots = new Set<string>();
+  for (const name of notebooks) {
+    const target = name.toLowerCase().replace(/\s*\/\s*/g, '/');
+    for (const folder of folders) {
+      if (folder.id === name || folder.title.toLowerCase() === target || get_path(folder) === target) {
+        roots.add(folder.id);
+      }
+    }
+  }
+  if (roots.size === 0) {
+    log.info(`[Filters] No notebook named: ${notebooks.join(', ')}`);
+  }
+
+  // expand to sub-notebooks
+  const subtree = new Set(roots);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (!subtree.has(folder.id) && subtree.has(folder.parent_id)) {
+        subtree.add(folder.id);
+        added = true;
+      }
+    }
+  }
+
+  const note_ids = new Set<string>();
+  for (const folder_id of subtree) {
+    for (const id of await get_all_ids(['folders', folder_id, 'notes'])) {
+      note_ids.add(id);
+    }
+  }
+  return note_ids;
+}
+
+// tag title (lowercase) -> tag ID
+async function get_tag_ids(): Promise<Map<string, string>> {
+  const tag_ids = new Map<string, string>();
+  let page = 1;
+  while (true) {
+    let res: any = null;
+    try {
+      res = await joplin.data.get(['tags'], { fields: ['id', 'title'], page, limit: 100 });
+      for (const tag of res?.items ?? []) {
+        tag_ids.set(String(tag.title ?? '').toLowerCase(), tag.id);
+      }
+      if (!res?.has_more) { break; }
+      page += 1;
+    } finally {
+      clearApiResponse(res);
+    }
+  }
+  return tag_ids;
+}
+
+async function get_all_ids(path: string[]): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let page = 1;
+  while (true) {
+    let res: any = null;
+    try {
+      res = await joplin.data.get(path, { fields: ['id'], page, limit: 100 });
+      for (const item of res?.items ?? []) {
+        ids.add(item.id);
+      }
+      if (!res?.has_more) { break; }
+      page += 1;
+    } finally {
+      clearApiResponse(res);
+    }
+  }
+  return ids;
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a].filter(id => b.has(id)));
+}
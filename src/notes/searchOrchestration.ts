@@ -9,11 +9,16 @@
 import { BlockEmbedding, NoteEmbedding, find_nearest_notes, group_by_notes, corpusCaches, userDataStore } from './embeddings';
 import { read_user_data_embeddings } from './userDataReader';
 import { keyword_rerank } from './hybridSearch';
-import { TextEmbeddingModel } from '../models/models';
+import { block_key } from './keywordIndex';
+import { QueryTranslation, translate_query } from './queryTranslation';
+import { TextEmbeddingModel, TextGenerationModel } from '../models/models';
 import { JarvisSettings } from '../ux/settings';
 import { calc_similarity } from './embeddingHelpers';
 import { quantize_vector_to_q8 } from './q8';
 import { SimpleCorpusCache } from './embeddingCache';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger();
 
 /**
  * MaxSim scoring: for each pool block, compute max cosine similarity
@@ -23,20 +28,24 @@ import { SimpleCorpusCache } from './embeddingCache';
  * @param query_embeddings - query vectors (one per chunk/turn/sub-query)
  * @param pool - blocks to score (modified in place: .similarity set)
  * @param exclude_id - note ID to exclude from scoring (current note)
+ * @param best_query - if given, filled with the index of the best query embedding per block
  */
 export function maxsim_score(
   query_embeddings: Float32Array[],
   pool: BlockEmbedding[],
   exclude_id: string,
+  best_query?: Map<BlockEmbedding, number>,
 ): void {
   for (const block of pool) {
     if (block.id === exclude_id) { continue; }
     let max_sim = 0;
-    for (const query_emb of query_embeddings) {
-      const sim = calc_similarity(block.embedding, query_emb);
-      if (sim > max_sim) { max_sim = sim; }
+    let best = 0;
+    for (let q = 0; q < query_embeddings.length; q++) {
+      const sim = calc_similarity(block.embedding, query_embeddings[q]);
+      if (sim > max_sim) { max_sim = sim; best = q; }
     }
     block.similarity = max_sim;
+    best_query?.set(block, best);
   }
 }
 
@@ -50,6 +59,8 @@ export function maxsim_score(
  * @param cache - corpus cache (may be undefined or unbuilt)
  * @param exclude_id - note ID to exclude (current note)
  * @param settings - for min_similarity, min_length, notes_max_hits
+ * @param note_filter - allowed note IDs (metadata filters), or null for all notes
+ * @param query_labels - text of each query embedding (sub-queries), recorded in .explain.query
  * @returns scored blocks sorted by similarity descending, or empty if no pool available
  */
 export function maxsim_search(
@@ -58,18 +69,22 @@ export function maxsim_search(
   cache: SimpleCorpusCache | undefined,
   exclude_id: string,
   settings: JarvisSettings,
+  note_filter: Set<string> | null = null,
+  query_labels: string[] | null = null,
 ): BlockEmbedding[] {
+  cache?.configureAnn(settings);
   if (cache?.isBuilt()) {
     // userData: per-query cache search, keep max similarity per block
     const block_scores = new Map<string, BlockEmbedding>();
-    for (const emb of query_embeddings) {
-      const q8 = quantize_vector_to_q8(emb);
-      const results = cache.search(q8, settings.notes_max_hits * 4, settings.notes_min_similarity);
+    for (let q = 0; q < query_embeddings.length; q++) {
+      const q8 = quantize_vector_to_q8(query_embeddings[q]);
+      const results = cache.search(q8, settings.notes_max_hits * 4, settings.notes_min_similarity, note_filter);
       for (const r of results) {
         if (r.id === exclude_id) { continue; }
-        const key = `${r.id}:${r.line}`;
+        const key = block_key(r);
         const existing = block_scores.get(key);
         if (!existing || r.similarity > existing.similarity) {
+          if (query_labels) { r.explain = { query: query_labels[q] }; }
           block_scores.set(key, r);
         }
       }
@@ -81,11 +96,19 @@ export function maxsim_search(
 
   if (pool.length > 0) {
     // legacy: Float32 MaxSim on in-memory pool
-    maxsim_score(query_embeddings, pool, exclude_id);
-    const filtered = pool.filter(b =>
+    if (note_filter) {
+      pool = pool.filter(b => note_filter.has(b.id));
+    }
+    const best_query = query_labels ? new Map<BlockEmbedding, number>() : undefined;
+    maxsim_score(query_embeddings, pool, exclude_id, best_query);
+    let filtered = pool.filter(b =>
       b.id !== exclude_id &&
       b.similarity >= settings.notes_min_similarity &&
       b.length >= settings.notes_min_length);
+    if (best_query) {
+      // copies: the pool blocks are shared with the in-memory model
+      filtered = filtered.map(b => ({ ...b, explain: { query: query_labels[best_query.get(b)] } }));
+    }
     filtered.sort((a, b) => b.similarity - a.similarity);
     return filtered;
   }
@@ -97,6 +120,7 @@ export function maxsim_search(
  * Multi-chunk search for a note: load chunks, MaxSim score, keyword rerank, group.
  * Used by the related notes panel and the API when a noteId is provided.
  *
+ * @param note_filter - allowed note IDs (metadata filters), or null for all notes
  * @returns grouped NoteEmbedding[], or null if chunks unavailable or multi-chunk disabled
  */
 export async function search_by_note(
@@ -104,6 +128,7 @@ export async function search_by_note(
   noteTitle: string,
   model: TextEmbeddingModel,
   settings: JarvisSettings,
+  note_filter: Set<string> | null = null,
 ): Promise<NoteEmbedding[] | null> {
   if (!settings.notes_multi_chunk_search) { return null; }
 
@@ -119,19 +144,69 @@ export async function search_by_note(
 
   const cache = corpusCaches.get(model.id);
   const scored = maxsim_search(
-    query_chunks.map(c => c.embedding), model.embeddings, cache, noteId, settings);
+    query_chunks.map(c => c.embedding), model.embeddings, cache, noteId, settings, note_filter);
   if (scored.length === 0) { return null; }
 
   const reranked = noteTitle
-    ? await keyword_rerank(scored, [noteTitle], settings)
+    ? await keyword_rerank(scored, [noteTitle], settings, model.id)
     : scored;
   return group_by_notes(reranked, settings);
 }
 
+/**
+ * Cross-lingual search: MaxSim score the pool over the embeddings of the
+ * translations of a query, and merge the results with the blocks found by
+ * the untranslated query (their similarity is reused, the query is not
+ * embedded again). Requires a built cache or legacy pool.
+ *
+ * @param flat - blocks scored by the untranslated query
+ * @returns merged blocks sorted by similarity, or null when the translated search failed
+ */
+export async function translated_search(
+  query: string,
+  translations: QueryTranslation[],
+  flat: BlockEmbedding[],
+  exclude_id: string,
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  note_filter: Set<string> | null = null,
+): Promise<BlockEmbedding[] | null> {
+  try {
+    const query_embeddings: Float32Array[] = [];
+    for (const translation of translations) {
+      query_embeddings.push(await model.embed(translation.text, 'query'));
+    }
+    const labels = translations.map(t => `${t.text} (${t.language})`);
+    const scored = maxsim_search(query_embeddings, model.embeddings, corpusCaches.get(model.id),
+      exclude_id, settings, note_filter, labels);
+
+    // copies: flat blocks may be shared with the in-memory model
+    const merged = new Map<string, BlockEmbedding>();
+    for (const block of flat) {
+      merged.set(block_key(block), { ...block, explain: { ...block.explain, query } });
+    }
+    for (const block of scored) {
+      const existing = merged.get(block_key(block));
+      if (!existing || block.similarity > existing.similarity) {
+        merged.set(block_key(block), block);
+      }
+    }
+    return [...merged.values()].sort((a, b) => b.similarity - a.similarity);
+  } catch (error) {
+    log.info(`[Hybrid] translated search failed: ${error.message || error}`);
+    return null;
+  }
+}
+
 /**
  * Text query search: flat semantic search, keyword rerank, group by note.
  * Used by the panel search box and the API when a text query is provided.
+ * With query translation (model_gen and notes_query_languages), the query
+ * is translated first, and the results of its translations are merged with
+ * the results of the query.
  *
+ * @param note_filter - allowed note IDs (metadata filters), or null for all notes
+ * @param model_gen - chat model for query translation
  * @returns grouped NoteEmbedding[]
  */
 export async function search_by_query(
@@ -141,14 +216,32 @@ export async function search_by_query(
   settings: JarvisSettings,
   panel?: string,
   isUpdateInProgress?: boolean,
+  note_filter: Set<string> | null = null,
+  model_gen?: TextGenerationModel,
 ): Promise<NoteEmbedding[]> {
+  // translate first, so that the untranslated search runs only once
+  const translations = (model_gen && settings.notes_query_languages.length > 0)
+    ? await translate_query(query, settings.notes_query_languages, model_gen)
+    : [];
+
   const flat = await find_nearest_notes(
     model.embeddings, excludeId, 1, '', query,
-    model, settings, false, panel, isUpdateInProgress ?? false,
+    model, settings, false, panel, isUpdateInProgress ?? false, undefined, false, note_filter,
   );
-  if (flat.length === 0 || flat[0].embeddings.length === 0) { return flat; }
+  const flat_blocks = flat.length > 0 ? flat[0].embeddings : [];
+
+  // the cache is built by find_nearest_notes
+  if (translations.length > 0) {
+    const merged = await translated_search(query, translations, flat_blocks, excludeId, model, settings, note_filter);
+    if (merged && merged.length > 0) {
+      const reranked = await keyword_rerank(merged, [query, ...translations.map(t => t.text)], settings, model.id);
+      return group_by_notes(reranked, settings);
+    }
+  }
+
+  if (flat_blocks.length === 0) { return flat; }
 
-  const reranked = await keyword_rerank(flat[0].embeddings, [query], settings);
+  const reranked = await keyword_rerank(flat_blocks, [query], settings, model.id);
   return reranked.length > 0
     ? group_by_notes(reranked, settings)
     : flat;
@@ -0,0 +1,305 @@
+/**
+ * Tokenization, stopwords and stemming for the local keyword index.
+ *
+ * English uses the Porter stemmer. German, French and Spanish use light
+ * (plural and inflection) stemmers in the style of J. Savoy's UniNE
+ * stemmers, which favour precision over aggressive conflation.
+ */
+
+export type KeywordLanguage = 'auto' | 'english' | 'german' | 'french' | 'spanish' | 'none';
+type StemLanguage = Exclude<KeywordLanguage, 'auto' | 'none'>;
+
+export const STEM_LANGUAGES: StemLanguage[] = ['english', 'german', 'french', 'spanish'];
+
+const STOPWORDS: { [lang in StemLanguage]: Set<string> } = {
+  english: new Set((
+    'a about above after again against all am an and any are as at be because been before being below ' +
+    'between both but by can could did do does doing down during each few for from further had has have ' +
+    'having he her here hers herself him himself his how i if in into is it its itself just me more most my ' +
+    'myself no nor not now of off on once only or other our ours ourselves out over own same she should so ' +
+    'some such than that the their theirs them themselves then there these they this those through to too ' +
+    'under until up very was we were what when where which while who whom why will with would you your ' +
+    'yours yourself yourselves'
+  ).split(' ')),
+  german: new Set((
+    'aber alle allem allen aller alles als also am an ander andere anderem anderen anderer anderes auch auf ' +
+    'aus bei bin bis bist da damit dann das dass dasselbe dazu dein deine deinem deinen deiner dem demselben ' +
+    'den denn derer der des desselben dessen dich die dies diese dieselbe dieselben diesem diesen dieser ' +
+    'dieses dir doch dort du durch ein eine einem einen einer eines einig einige einigem einigen einiger ' +
+    'einiges einmal er es etwas euch euer eure eurem euren eurer ich ihm ihn ihnen ihr ihre ihrem ihren ' +
+    'ihrer ihres im in indem ins ist jede jedem jeden jeder jedes jene jenem jenen jener jenes jetzt kann ' +
+    'kein keine keinem keinen keiner keines man manche manchem manchen mancher manches mein meine meinem ' +
+    'meinen meiner meines mich mir mit muss musste nach nicht nichts noch nun nur ob oder ohne sehr sein ' +
+    'seine seinem seinen seiner seines selbst sich sie sind so solche solchem solchen solcher solches soll ' +
+    'sollte sondern sonst um und uns unser unsere unserem unseren unserer unter viel vom von vor war waren ' +
+    'warst was weg weil weiter welche welchem welchen welcher welches wenn werde werden wie wieder will wir ' +
+    'wird wirst wo wollen wollte zu zum zur zwar zwischen'
+  ).split(' ')),
+  french: new Set((
+    'au aux avec ce ces dans de des du elle en et eux il ils je la le les leur lui ma mais me même mes moi ' +
+    'mon ne nos notre nous on ou où par pas pour qu que qui sa se ses son sur ta te tes toi ton tu un une vos ' +
+    'votre vous c d j l à m n s t y été étée étées étés étant suis es est sommes êtes sont serai sera serons ' +
+    'seront serais serait étais était étions étiez étaient fus fut ai as avons avez ont aurai aura aurons ' +
+    'auront avais avait avions aviez avaient eu eue cette cet ceci cela ça comme donc alors si sans sous très'
+  ).split(' ')),
+  spanish: new Set((
+    'de la que el en y a los del se las por un para con no una su al lo como más pero sus le ya o este sí ' +
+    'porque esta entre cuando muy sin sobre también me hasta hay donde quien desde todo nos durante todos ' +
+    'uno les ni contra otros ese eso ante ellos e esto mí antes algunos qué unos yo otro otras otra él tanto ' +
+    'esa estos mucho quienes nada muchos cual poco ella estar estas algunas algo nosotros mi mis tú te ti tu ' +
+    'tus ellas nosotras vosotros vosotras os mío mía míos mías tuyo tuya suyo suya nuestro nuestra vuestro ' +
+    'es son fue era ser está están ha han había he'
+  ).split(' ')),
+};
+
+/** Lowercase word tokens (letters and digits). */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Language with the most stopword hits (English when none). */
+export function detect_language(tokens: string[]): StemLanguage {
+  let best: StemLanguage = 'english';
+  let bestHits = 0;
+  for (const lang of STEM_LANGUAGES) {
+    let hits = 0;
+    for (const token of tokens) {
+      if (STOPWORDS[lang].has(token)) { hits++; }
+    }
+    if (hits > bestHits) {
+      best = lang;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+export function is_stopword(token: string, lang: KeywordLanguage): boolean {
+  return (lang !== 'auto' && lang !== 'none') && STOPWORDS[lang].has(token);
+}
+
+/**
+ * Index terms of a text: tokens without stopwords, stemmed.
+ * With 'auto', the language is detected from the text itself.
+ */
+export function analyze(text: string, language: KeywordLanguage): string[] {
+  const tokens = tokenize(text);
+  const lang = (language === 'auto') ? detect_language(tokens) : language;
+  const terms: string[] = [];
+  for (const token of tokens) {
+    if (is_stopword(token, lang)) { continue; }
+    terms.push(stem(token, lang));
+  }
+  return terms;
+}
+
+/** Index terms a token may match: its stem in every language for 'auto'. */
+export function stem_variants(token: string, language: KeywordLanguage): string[] {
+  if (language === 'auto') {
+    return Array.from(new Set(STEM_LANGUAGES.map(lang => stem(token, lang))));
+  }
+  return [stem(token, language)];
+}
+
+export function stem(token: string, lang: KeywordLanguage): string {
+  if (token.length < 3 || /\d/.test(token)) {
+    return token;
+  }
+  switch (lang) {
+    case 'english': return stem_english(token);
+    case 'german': return stem_german(token);
+    case 'french': return stem_french(token);
+    case 'spanish': return stem_spanish(token);
+    default: return token;
+  }
+}
+
+// === English (Porter) ===
+
+function is_consonant(w: string, i: number): boolean {
+  const c = w[i];
+  if ('aeiou'.includes(c)) { return false; }
+  if (c === 'y') { return i === 0 || !is_consonant(w, i - 1); }
+  return true;
+}
+
+// number of VC sequences in w[0..end)
+function measure(w: string, end: number = w.length): number {
+  let m = 0;
+  let i = 0;
+  while (i < end && is_consonant(w, i)) { i++; }
+  while (i < end) {
+    while (i < end && !is_consonant(w, i)) { i++; }
+    if (i >= end) { break; }
+    m++;
+    while (i < end && is_consonant(w, i)) { i++; }
+  }
+  return m;
+}
+
+function has_vowel(w: string, end: number = w.length): boolean {
+  for (let i = 0; i < end; i++) {
+    if (!is_consonant(w, i)) { return true; }
+  }
+  return false;
+}
+
+function ends_double_consonant(w: string): boolean {
+  const n = w.length;
+  return n >= 2 && w[n - 1] === w[n - 2] && is_consonant(w, n - 1);
+}
+
+// consonant-vowel-consonant ending, where the last consonant is not w, x or y
+function ends_cvc(w: string, end: number = w.length): boolean {
+  return end >= 3 && is_consonant(w, end - 3) && !is_consonant(w, end - 2) && is_consonant(w, end - 1)
+    && !'wxy'.includes(w[end - 1]);
+}
+
+// replace suffix when the measure of the stem is above min_measure
+function replace_suffix(w: string, rules: [string, string][], min_measure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (w.endsWith(suffix)) {
+      const stemEnd = w.length - suffix.length;
+      return (measure(w, stemEnd) > min_measure) ? w.substring(0, stemEnd) + replacement : w;
+    }
+  }
+  return w;
+}
+
+const STEP2: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['bli', 'ble'],
+  ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'],
+  ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+const STEP3: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+const STEP4 = ['al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou',
+  'ism', 'ate', 'iti', 'ous', 'ive', 'ize'];
+
+function stem_english(w: string): string {
+  // step 1a
+  if (w.endsWith('sses')) { w = w.slice(0, -2); }
+  else if (w.endsWith('ies')) { w = w.slice(0, -2); }
+  else if (w.endsWith('ss')) { /* keep */ }
+  else if (w.endsWith('s')) { w = w.slice(0, -1); }
+
+  // step 1b
+  let step1b = false;
+  if (w.endsWith('eed')) {
+    if (measure(w, w.length - 3) > 0) { w = w.slice(0, -1); }
+  } else if (w.endsWith('ed') && has_vowel(w, w.length - 2)) {
+    w = w.slice(0, -2);
+    step1b = true;
+  } else if (w.endsWith('ing') && has_vowel(w, w.length - 3)) {
+    w = w.slice(0, -3);
+    step1b = true;
+  }
+  if (step1b) {
+    if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+      w += 'e';
+    } else if (ends_double_consonant(w) && !'lsz'.includes(w[w.length - 1])) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && ends_cvc(w)) {
+      w += 'e';
+    }
+  }
+
+  // step 1c
+  if (w.endsWith('y') && has_vowel(w, w.length - 1)) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  w = replace_suffix(w, STEP2, 0);
+  w = replace_suffix(w, STEP3, 0);
+
+  // step 4
+  for (const suffix of STEP4) {
+    if (w.endsWith(suffix)) {
+      const stemEnd = w.length - suffix.length;
+      if (measure(w, stemEnd) > 1 && (suffix !== 'ion' || 'st'.includes(w[stemEnd - 1]))) {
+        w = w.substring(0, stemEnd);
+      }
+      break;
+    }
+  }
+
+  // step 5
+  if (w.endsWith('e')) {
+    const m = measure(w, w.length - 1);
+    if (m > 1 || (m === 1 && !ends_cvc(w, w.length - 1))) {
+      w = w.slice(0, -1);
+    }
+  }
+  if (measure(w) > 1 && ends_double_consonant(w) && w.endsWith('l')) {
+    w = w.slice(0, -1);
+  }
+  return w;
+}
+
+// === German (light) ===
+
+function stem_german(w: string): string {
+  w = w.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u').replace(/ß/g, 'ss');
+  if (w.length > 6 && /(ern|em|er|en|es)$/.test(w)) {
+    return w.replace(/(ern|em|er|en|es)$/, '');
+  }
+  if (w.length > 5 && /(nd|st)$/.test(w)) {
+    return w.slice(0, -2);
+  }
+  if (w.length > 4 && /([en]|[^s]s)$/.test(w)) {
+    return w.slice(0, -1);
+  }
+  return w;
+}
+
+// === French (light) ===
+
+function stem_french(w: string): string {
+  if (w.length > 5 && w.endsWith('aux')) {
+    return w.slice(0, -3) + 'al';  // chevaux -> cheval
+  }
+  if (w.length > 3 && /[sx]$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  if (w.length > 5 && /(ement|ment)$/.test(w)) {
+    w = w.replace(/(ement|ment)$/, '');
+  } else if (w.length > 5 && /(euse|eux)$/.test(w)) {
+    w = w.replace(/(euse|eux)$/, 'eu');
+  } else if (w.length > 5 && /(trice|teur)$/.test(w)) {
+    w = w.replace(/(trice|teur)$/, 't');
+  } else if (w.length > 5 && /(ive|if)$/.test(w)) {
+    w = w.replace(/(ive|if)$/, 'i');
+  }
+  if (w.length > 4 && w.endsWith('ée')) {
+    w = w.slice(0, -2);
+  } else if (w.length > 4 && /[eé]$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  if (w.length > 4 && /(.)\1$/.test(w)) {
+    w = w.slice(0, -1);  // double consonant: belle -> bel
+  }
+  return w.replace(/[éèê]/g, 'e').replace(/[àâ]/g, 'a').replace(/[îï]/g, 'i').replace(/[ôö]/g, 'o').replace(/[ùûü]/g, 'u').replace(/ç/g, 'c');
+}
+
+// === Spanish (light) ===
+
+function stem_spanish(w: string): string {
+  w = w.replace(/á/g, 'a').replace(/é/g, 'e').replace(/í/g, 'i').replace(/ó/g, 'o').replace(/ú/g, 'u');
+  if (w.length > 5 && w.endsWith('mente')) {
+    w = w.slice(0, -5);
+  }
+  if (w.length > 4 && w.endsWith('ces')) {
+    return w.slice(0, -3) + 'z';  // luces -> luz
+  }
+  if (w.length > 4 && /[aeiou]s$/.test(w)) {
+    w = w.slice(0, -1);
+  } else if (w.length > 5 && w.endsWith('es')) {
+    w = w.slice(0, -2);  // ciudades -> ciudad
+  }
+  if (w.length > 4 && /[aeo]$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  return w;
+}
@@ -160,6 +160,10 @@ export async function read_user_data_embeddings(options: ReadEmbeddingsOptions):
         similarity: 0,
         q8: q8Row,
       };
+      if (metaRow.resourceId) {
+        block.resource_id = metaRow.resourceId;
+        block.resource_hash = metaRow.resourceHash;
+      }
       if (useCallback) {
         const shouldStop = onBlock!(block, noteId);
         rowsRead += 1;
@@ -43,6 +43,8 @@ export interface BlockRowMeta {
   bodyLength: number;
   lineNumber: number;
   headingPath?: string[];
+  resourceId?: string;  // attachment blocks (see BlockEmbedding.resource_id)
+  resourceHash?: string;
 }
 
 export interface EmbShard {
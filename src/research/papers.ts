@@ -206,35 +206,35 @@ async function run_scopus_query(query: string, papers: number, settings: JarvisS
 
 async function get_search_queries(model_gen: TextGenerationModel, prompt: string,
     settings: JarvisSettings, abortSignal?: AbortSignal): Promise<SearchParams> {
-  const response = await model_gen.complete(
+  const response = await model_gen.complete_json<{title: string, research_questions: string[], queries: string[]}>(
     `you are writing an academic text using structured evidence synthesis conventions.
     first, list a few research questions that arise from the prompt below, framing them using recognised evidence synthesis structures (for example, PICO/PECO where applicable).
     craft a concise descriptive title and avoid including phrases such as "systematic review" or "scoping review" unless the prompt explicitly requests them.
     ${search_prompts[settings.paper_search_engine]}
     PROMPT:\n${prompt}
-    use the following format for the response.
-    # [Title of the paper]
-
-    ## Research questions
-
-    1. [main question]
-    2. [secondary question]
-    3. [additional question]
-
-    ## Queries
-
-    1. [search query]
-    2. [search query]
-    3. [search query]
-    `, abortSignal);
-
-  const query = response.split(/# Research questions|# Queries/gi);
+    respond with the title of the paper, the research questions (main question first), and about 3 search queries.
+    `,
+    {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        research_questions: { type: 'array', minItems: 1, items: { type: 'string' } },
+        queries: { type: 'array', minItems: 1, items: { type: 'string' } },
+      },
+      required: ['title', 'research_questions', 'queries'],
+    },
+    abortSignal);
+
+  const numbered = (items: string[]) => items.map((item, i) => `${i + 1}. ${item.trim()}`).join('\n');
+  const questions = numbered(response.research_questions);
+  const queries = response.queries.map((q) => q.trim()).filter((q) => q.length > 0);
 
   return {
     prompt: prompt,
-    response: response.trim().replace(/## Research questions/gi, '## Prompt\n\n' + prompt + '\n\n## Research questions') + '\n\n## References\n\n',
-    queries: query[2].trim().split('\n').map((q) => { return q.substring(q.indexOf(' ') + 1); }),
-    questions: query[1].trim()
+    response: `# ${response.title.trim()}\n\n## Prompt\n\n${prompt}\n\n## Research questions\n\n${questions}\n\n` +
+      `## Queries\n\n${numbered(queries)}\n\n## References\n\n`,
+    queries: queries,
+    questions: questions,
   };
 }
 
@@ -14,18 +14,39 @@ export function with_timeout(msecs: number, promise: Promise<any>): Promise<any>
   return Promise.race([timeout, promise]);
 }
 
+// like with_timeout, but the deadline is pushed back every time the
+// promise reports progress by calling touch() (e.g. a streamed token)
+export function with_idle_timeout(msecs: number, promise_func: (touch: () => void) => Promise<any>): Promise<any> {
+  let timer: ReturnType<typeof setTimeout> = null;
+  let reject_timeout: (error: Error) => void = null;
+  const arm = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => reject_timeout(new Error("timeout")), msecs);
+  };
+  const timeout = new Promise((_resolve, reject) => {
+    reject_timeout = reject;
+    arm();
+  });
+  return Promise.race([timeout, promise_func(arm)])
+    .finally(() => clearTimeout(timer));
+}
+
 interface TimeoutOptions {
   interactive?: boolean;
+  idle?: boolean;  // restart the timer whenever promise_func calls touch()
 }
 
 export async function timeout_with_retry(
     msecs: number,
-    promise_func: () => Promise<any>,
+    promise_func: (touch?: () => void) => Promise<any>,
     default_value: any = '',
     options: TimeoutOptions = {}): Promise<any> {
 
   const interactive = options.interactive ?? true;
   try {
+    if (options.idle) {
+      return await with_idle_timeout(msecs, promise_func);
+    }
     return await with_timeout(msecs, promise_func());
   } catch (error) {
     console.log(error);
@@ -36,7 +57,7 @@ export async function timeout_with_retry(
       const choice = await joplin.views.dialogs.showMessageBox(`Error: Request timeout (${msecs / 1000} sec).\nPress OK to retry.`);
       if (choice === 0) {
         // OK button
-        return await timeout_with_retry(msecs, promise_func);
+        return await timeout_with_retry(msecs, promise_func, default_value, options);
       }
       // Cancel button
       throw new ModelError('Operation cancelled by user');
@@ -229,6 +250,16 @@ export function escape_regex(string: string): string {
     .trim();
 }
 
+// escape text for HTML content and attribute values
+export function escape_html(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // replace the last occurrence of a pattern in a string
 export function replace_last(str: string, pattern: string, replacement: string): string {
   const index = str.lastIndexOf(pattern);
@@ -246,6 +277,37 @@ export class ModelError extends Error {
   }
 }
 
+/**
+ * A view of an object that reads the given properties from values instead.
+ * Everything else, including writes, goes to the object, so that the view
+ * shares its state (e.g. a model with per-call options and shared rate limits).
+ */
+export function with_values<T extends object>(target: T, values: Partial<T>): T {
+  return new Proxy(target, {
+    get: (object, prop, receiver) =>
+      Object.prototype.hasOwnProperty.call(values, prop) ? (values as any)[prop] : Reflect.get(object, prop, receiver),
+  });
+}
+
+// rate limits, overloaded / unavailable servers, network failures and timeouts
+export function is_transient_error(message: string): boolean {
+  return /\b(429|5\d\d)\b|rate.?limit|quota|overloaded|resource_exhausted|unavailable|timeout|timed out|fetch failed|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT/i
+    .test(message ?? '');
+}
+
+/**
+ * Show a model error with the option to retry. Returns the button like
+ * showMessageBox: 0 to retry (OK), 1 to cancel. When not interactive (e.g. a
+ * model with a fallback), transient errors cancel without asking.
+ */
+export async function show_retry_dialog(dialog_message: string, error_message: string,
+    interactive: boolean = true): Promise<number> {
+  if (!interactive && is_transient_error(error_message)) {
+    return 1;
+  }
+  return await joplin.views.dialogs.showMessageBox(dialog_message);
+}
+
 /**
  * Truncate long error messages for display in dialogs.
  * Shows the first N chars, "....", and the last N chars.
@@ -474,15 +536,17 @@ export function clearApiResponse(response: any): null {
 // Following existing pattern in chat.ts:61
 const jarvisSummaryPattern = /<!-- jarvis-summary-start -->[\s\S]*?<!-- jarvis-summary-end -->/g;
 const jarvisLinksPattern = /<!-- jarvis-links-start -->[\s\S]*?<!-- jarvis-links-end -->/g;
+const jarvisCollectionPattern = /<!-- jarvis-collection-start -->[\s\S]*?<!-- jarvis-collection-end -->/g;
 const jarvisCmdPattern = /```jarvis[\s\S]*?```/gm;
 
 /**
  * Strip all Jarvis-generated blocks from text.
- * Removes: summary blocks, links blocks, and jarvis command blocks.
+ * Removes: summary blocks, links blocks, collection blocks, and jarvis command blocks.
  */
 export function stripJarvisBlocks(text: string): string {
   return text
     .replace(jarvisSummaryPattern, '')
     .replace(jarvisLinksPattern, '')
+    .replace(jarvisCollectionPattern, '')
     .replace(jarvisCmdPattern, '');
 }
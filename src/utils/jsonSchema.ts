@@ -0,0 +1,105 @@
+/**
+ * Minimal JSON extraction and JSON schema validation for structured model output.
+ *
+ * Supports the subset of JSON schema used by Jarvis prompts: type (including
+ * type arrays), properties, required, items, enum, minItems / maxItems.
+ * Unknown keywords are ignored, so provider-specific schemas still validate.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Parse the JSON value in a model response. Tolerates code fences and
+ * prose around the value by falling back to the outermost {...} or [...].
+ *
+ * @returns the parsed value, or undefined if no JSON was found
+ */
+export function extract_json(text: string): any {
+  if (typeof text !== 'string') { return undefined; }
+  const trimmed = text.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch (_jsonError) {
+    // fall through to the outermost object / array
+  }
+
+  for (const [open, close] of [['{', '}'], ['[', ']']]) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start < 0 || end <= start) { continue; }
+    try {
+      return JSON.parse(trimmed.substring(start, end + 1));
+    } catch (_jsonError) {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validate a value against a JSON schema.
+ *
+ * @returns a list of human-readable errors (empty when valid)
+ */
+export function validate_json(value: any, schema: JsonSchema, path: string = '$'): string[] {
+  if (!schema || typeof schema !== 'object') { return []; }
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matches_type(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describe_type(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${path}: expected one of ${schema.enum.map((v: any) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validate_json(item, schema.items, `${path}[${i}]`)));
+    }
+  } else if (value && typeof value === 'object') {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        errors.push(`${path}: missing property "${key}"`);
+      }
+    }
+    for (const [key, sub_schema] of Object.entries(schema.properties ?? {})) {
+      if (key in value) {
+        errors.push(...validate_json(value[key], sub_schema as JsonSchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matches_type(value: any, type: string): boolean {
+  switch (type) {
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function describe_type(value: any): string {
+  if (value === null) { return 'null'; }
+  if (value === undefined) { return 'nothing'; }
+  if (Array.isArray(value)) { return 'array'; }
+  return typeof value;
+}
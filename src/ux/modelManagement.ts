@@ -6,7 +6,9 @@ import { ensure_catalog_note, load_model_registry, remove_model_from_catalog } f
 import { read_model_metadata } from '../notes/catalogMetadataStore';
 import { estimate_shard_size } from '../notes/shards';
 import { clear_all_corpus_caches } from '../notes/embeddings';
-import { clearApiResponse, clearObjectReferences } from '../utils';
+import { delete_ann_index } from '../notes/annIndex';
+import { delete_keyword_index } from '../notes/keywordIndex';
+import { clearApiResponse, clearObjectReferences, escape_html } from '../utils';
 import { update_progress_bar } from './panel';
 import { JarvisSettings, clear_model_last_sweep_time, clear_model_first_build_completed } from './settings';
 
@@ -30,18 +32,6 @@ interface DeletionSummary {
   errors: number;
 }
 
-/**
- * Escape HTML special characters to prevent user-provided metadata from breaking dialog markup.
- */
-function escapeHtml(value: string): string {
-  return value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 /**
  * Convert a raw byte estimate to a human-readable approximation for UI display.
  */
@@ -240,6 +230,8 @@ async function delete_model_data(
   await remove_model_from_catalog(modelId);
   await clear_model_last_sweep_time(modelId);
   await clear_model_first_build_completed(modelId);
+  await delete_ann_index(modelId);
+  await delete_keyword_index(modelId);
 
   return summary;
 }
@@ -323,6 +315,8 @@ async function delete_all_model_data(
       await remove_model_from_catalog(item.modelId);
       await clear_model_last_sweep_time(item.modelId);
       await clear_model_first_build_completed(item.modelId);
+      await delete_ann_index(item.modelId);
+      await delete_keyword_index(item.modelId);
     } catch (error) {
       log.warn('Delete all: failed to remove model from catalog', { modelId: item.modelId, error });
     }
@@ -356,7 +350,7 @@ function build_dialog_html(items: ModelInventoryItem[], activeModelId: string, m
   }
 
   const header = message
-    ? `<div class="jarvis-model-manager__message">${escapeHtml(message)}</div>`
+    ? `<div class="jarvis-model-manager__message">${escape_html(message)}</div>`
     : '';
 
   const rows = items.map((item, index) => {
@@ -366,18 +360,18 @@ function build_dialog_html(items: ModelInventoryItem[], activeModelId: string, m
     return `
       <tr>
         <td class="jarvis-model-manager__select">
-          <input type="radio" name="modelId" value="${escapeHtml(item.modelId)}" ${checked}>
+          <input type="radio" name="modelId" value="${escape_html(item.modelId)}" ${checked}>
         </td>
         <td>
           <div class="jarvis-model-manager__model">
-            <span class="jarvis-model-manager__model-id">${escapeHtml(item.modelId)}</span>
+            <span class="jarvis-model-manager__model-id">${escape_html(item.modelId)}</span>
             ${activeBadge}
           </div>
-          <div class="jarvis-model-manager__meta">Last updated: ${escapeHtml(formatTimestamp(item.lastUpdated))}</div>
+          <div class="jarvis-model-manager__meta">Last updated: ${escape_html(formatTimestamp(item.lastUpdated))}</div>
         </td>
-        <td>${escapeHtml(noteSummary)}</td>
-        <td>${escapeHtml(formatBytes(item.approxBytes))}</td>
-        <td>${escapeHtml(item.version ?? 'unknown')}</td>
+        <td>${escape_html(noteSummary)}</td>
+        <td>${escape_html(formatBytes(item.approxBytes))}</td>
+        <td>${escape_html(item.version ?? 'unknown')}</td>
       </tr>
     `;
   }).join('');
@@ -386,7 +380,7 @@ function build_dialog_html(items: ModelInventoryItem[], activeModelId: string, m
     <form name="jarvisModelManager">
       <div id="jarvis-model-manager">
         <h3>Manage Embedding Models</h3>
-        <p>Active model: <strong>${escapeHtml(activeModelId || 'unknown')}</strong></p>
+        <p>Active model: <strong>${escape_html(activeModelId || 'unknown')}</strong></p>
         ${header}
         <p class="jarvis-model-manager__hint">Select a model to delete its embeddings from all notes. This cannot be undone, and will require <b>syncing your notes</b>.</p>
         <div class="jarvis-model-manager__table-wrapper">
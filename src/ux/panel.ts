@@ -1,6 +1,14 @@
 import joplin from 'api';
-import { NoteEmbedding } from '../notes/embeddings';
+import { BlockEmbedding, NoteEmbedding, convert_newlines, preprocess_note_for_hashing } from '../notes/embeddings';
+import { get_attachment_text } from '../notes/attachments';
+import { query_terms } from '../notes/keywordIndex';
+import { PanelCollection } from '../notes/savedSearches';
+import { stem_variants } from '../notes/textAnalysis';
 import { JarvisSettings } from './settings';
+import { clearObjectReferences, escape_html } from '../utils';
+
+const PREVIEW_CHARS = 400;
+const PREVIEW_CONTEXT_CHARS = 80;  // text shown before the first keyword match
 
 export interface CapacityWarning {
   percentage: number;
@@ -27,15 +35,40 @@ export async function register_panel(panel: string, settings: JarvisSettings, mo
   await joplin.views.panels.setHtml(panel, `<div class="container"><p class="jarvis-semantic-title">${settings.notes_panel_title}</p><p>${model_str}</p></div>`);
 }
 
+/**
+ * Open a note selected in a panel, and scroll the editor to a block line.
+ *
+ * @param line - 1-based line number (0 for the top of the note)
+ * @param delay_scroll - time (ms) to wait for the editor before scrolling
+ */
+export async function open_note_at_line(note_id: string, line: number, delay_scroll: number) {
+  // Dismiss plugin panels first (required for web/mobile to allow note opening)
+  try {
+    await joplin.commands.execute('dismissPluginPanels');
+  } catch {
+    // Ignore errors (not on mobile/web, or old version)
+  }
+  await joplin.commands.execute('openNote', note_id);
+  if (line > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay_scroll));
+    await joplin.commands.execute('editor.execCommand', {
+      name: 'scrollToJarvisLine',
+      args: [line - 1],
+    });
+  }
+}
+
 export async function update_panel(
   panel: string,
   nearest: NoteEmbedding[],
   settings: JarvisSettings,
   capacityWarning?: CapacityWarning | null,
-  message?: string
+  message?: string,
+  collections: PanelCollection[] = [],
 ) {
   // TODO: collapse according to settings
-  let search_box = '<p align="center"><input class="jarvis-semantic-query" type="search" id="jarvis-search" placeholder="Semantic search..."></p>';
+  let search_box = `<p align="center"><input class="jarvis-semantic-query" type="search" id="jarvis-search" placeholder="Semantic search...">
+    <button class="jarvis-save-search-button" title="Save search">&#128204;</button></p>`;
   if (!settings.notes_search_box) { search_box = ''; }
 
   // Capacity warning message (shown when library exceeds 80% of limit)
@@ -57,15 +90,32 @@ export async function update_panel(
     <p class="jarvis-semantic-title">${settings.notes_panel_title}</p>
     ${search_box}
     ${messageHtml}
+    ${collections.map((c) => `
+    <details class="jarvis-collection">
+      <summary class="jarvis-collection">&#128204; ${escape_html(c.name)} (${c.notes.length})
+      <a class="jarvis-collection-edit" href="#" data-search="${escape_html(c.id)}">edit</a></summary>
+      <div class="jarvis-semantic-section">
+      ${c.notes.map((n) => `
+        <a class="jarvis-semantic-note" href="#" data-note="${n.id}" data-line="0">${n.title}</a><br>
+      `).join('')}
+      </div>
+    </details>
+  `).join('')}
     ${(await Promise.all(nearest)).map((n) => `
     <details ${n.title === "Chat context" ? "open" : ""}>
       <summary class="jarvis-semantic-note">
       <a class="jarvis-semantic-note" href="#" data-note="${n.id}" data-line="0">${n.title}</a></summary>
       <div class="jarvis-semantic-section" >
       ${n.embeddings.map((embd) => `
-        <a class="jarvis-semantic-section" href="#" data-note="${embd.id}" data-line="${embd.line}">
-        (${(100 * embd.similarity).toFixed(0)}) L${String(embd.line).padStart(4, '0')}: ${embd.title}
-        </a><br>
+        <details class="jarvis-semantic-block" data-note="${embd.id}" data-resource="${embd.resource_id ?? ''}"
+          data-idx="${embd.body_idx}" data-length="${embd.length}" data-keywords="${escape_html(embd.explain?.keywords ?? '')}">
+        <summary>
+        <a class="jarvis-semantic-section" href="#" data-note="${embd.id}" data-line="${embd.resource_id ? 0 : embd.line}">
+        (${(100 * embd.similarity).toFixed(0)}) ${embd.resource_id ? '&#128206;' : `L${String(embd.line).padStart(4, '0')}`}: ${embd.title}
+        </a></summary>
+        <div class="jarvis-semantic-explain">${explain_block(embd)}</div>
+        <div class="jarvis-semantic-preview"></div>
+        </details>
       `).join('')}
       </div>
     </details>
@@ -75,6 +125,76 @@ export async function update_panel(
 `);
 }
 
+// retrieval details of a result: scores, RRF contributions and sub-query
+function explain_block(embd: BlockEmbedding): string {
+  const explain = embd.explain ?? {};
+  const parts = [`semantic ${(100 * embd.similarity).toFixed(0)}`];
+  if (explain.semantic_rank) {
+    parts[0] += ` (#${explain.semantic_rank}, RRF ${explain.semantic_rrf.toFixed(3)})`;
+  }
+  if (explain.keyword_rank) {
+    parts.push(`keyword #${explain.keyword_rank} (RRF ${explain.keyword_rrf.toFixed(3)})`);
+  }
+  if (explain.query) {
+    parts.push(`sub-query: ${escape_html(explain.query)}`);
+  }
+  return parts.join(' &middot; ');
+}
+
+/**
+ * Preview of a block, loaded when a result is expanded in the panel: the
+ * block text from the first keyword match, with matched words highlighted.
+ *
+ * @param block - data attributes of the result (note, resource, idx, length, keywords)
+ */
+export async function render_block_preview(
+  block: { note: string, resource?: string, idx: string, length: string, keywords?: string },
+  settings: JarvisSettings,
+): Promise<string> {
+  let note: any = null;
+  let text = '';
+  try {
+    if (block.resource) {
+      text = await get_attachment_text(block.resource) ?? '';
+    } else {
+      note = await joplin.data.get(['notes', block.note], { fields: ['id', 'title', 'body', 'markup_language'] });
+      await preprocess_note_for_hashing(note);
+      text = convert_newlines(note.body);
+    }
+  } catch (error) {
+    return '<i>Preview unavailable.</i>';
+  } finally {
+    clearObjectReferences(note);
+  }
+  const idx = parseInt(block.idx) || 0;
+  text = text.substring(idx, idx + (parseInt(block.length) || 0)).trim();
+
+  // words whose stems match a keyword term
+  const language = settings.notes_keyword_language;
+  const terms = new Set(query_terms(block.keywords ?? '', language).flat());
+  const matches: { start: number, end: number }[] = [];
+  if (terms.size > 0) {
+    for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+      if (stem_variants(word[0].toLowerCase(), language).some(term => terms.has(term))) {
+        matches.push({ start: word.index, end: word.index + word[0].length });
+      }
+    }
+  }
+
+  const start = Math.max(0, (matches[0]?.start ?? 0) - PREVIEW_CONTEXT_CHARS);
+  const end = Math.min(text.length, start + PREVIEW_CHARS);
+  let html = (start > 0) ? '&hellip;' : '';
+  let pos = start;
+  for (const match of matches) {
+    if (match.start < pos) { continue; }
+    if (match.end > end) { break; }
+    html += escape_html(text.substring(pos, match.start)) + `<mark>${escape_html(text.substring(match.start, match.end))}</mark>`;
+    pos = match.end;
+  }
+  html += escape_html(text.substring(pos, end)) + ((end < text.length) ? '&hellip;' : '');
+  return html.replace(/\n/g, '<br>');
+}
+
 export async function update_progress_bar(
   panel: string, 
   processed: number, 
@@ -0,0 +1,139 @@
+import joplin from 'api';
+import {
+  SavedSearch, delete_saved_search, load_saved_searches, new_search_id, run_saved_search, save_search, write_collection_note,
+} from '../notes/savedSearches';
+import { TextEmbeddingModel } from '../models/models';
+import { JarvisSettings } from './settings';
+import { escape_html } from '../utils';
+
+function empty_search(query: string = ''): SavedSearch {
+  return { id: '', name: '', query, filters: '', pinned: true };
+}
+
+/**
+ * Build the HTML of the saved search dialog: a picker of existing searches
+ * and the form of the search being edited.
+ */
+function build_dialog_html(searches: SavedSearch[], current: SavedSearch, message: string): string {
+  const options = [`<option value="" ${current.id ? '' : 'selected'}>New search</option>`]
+    .concat(searches.map(s =>
+      `<option value="${escape_html(s.id)}" ${s.id === current.id ? 'selected' : ''}>${escape_html(s.name)}</option>`))
+    .join('');
+
+  return `
+    <form name="savedSearch">
+      <h3>Saved Searches</h3>
+      ${message ? `<p>${escape_html(message)}</p>` : ''}
+      <div>
+        <select title="Saved search" name="selected">${options}</select>
+      </div>
+      <div>
+        <input type="text" name="name" placeholder="Name" value="${escape_html(current.name)}" />
+      </div>
+      <div>
+        <textarea name="query" placeholder="Semantic query">${escape_html(current.query)}</textarea>
+      </div>
+      <div>
+        <textarea name="filters" placeholder="Filters, one per line (e.g. Notebook: Projects, Tagged: review, Since: 30d)">${escape_html(current.filters)}</textarea>
+      </div>
+      <div>
+        <label>
+        <input type="checkbox" name="pinned" ${current.pinned ? 'checked' : ''} />
+        Pin in the related notes panel
+        </label>
+      </div>
+      <div>
+        <label>
+        <input type="checkbox" name="collection" ${current.note_id ? 'checked' : ''} />
+        Write results to a collection note
+        </label>
+      </div>
+    </form>
+  `;
+}
+
+/**
+ * Create, edit and delete saved searches.
+ *
+ * @param search_id - saved search to edit (empty to start from a new search)
+ * @param query - query of a new search (e.g. from the panel search box)
+ * @returns true if saved searches were changed
+ */
+export async function open_saved_search_dialog(
+  dialogHandle: string,
+  model: TextEmbeddingModel,
+  settings: JarvisSettings,
+  search_id: string = '',
+  query: string = '',
+): Promise<boolean> {
+  let searches = await load_saved_searches();
+  let current = searches.find(s => s.id === search_id) ?? empty_search(query);
+  let message = '';
+  let changed = false;
+
+  while (true) {
+    await joplin.views.dialogs.setFitToContent(dialogHandle, false);
+    await joplin.views.dialogs.setHtml(dialogHandle, build_dialog_html(searches, current, message));
+    message = '';
+
+    const buttons = [
+      { id: 'edit', title: 'Edit Selected' },
+      { id: 'save', title: 'Save' },
+    ];
+    if (current.id) {
+      buttons.push({ id: 'delete', title: 'Delete' });
+    }
+    buttons.push({ id: 'close', title: 'Close' });
+    await joplin.views.dialogs.setButtons(dialogHandle, buttons);
+    await joplin.views.dialogs.setFitToContent(dialogHandle, true);
+
+    const result = await joplin.views.dialogs.open(dialogHandle);
+    const action = result?.id ?? 'close';
+    const form = result?.formData?.savedSearch ?? {};
+
+    if (action === 'edit') {
+      current = searches.find(s => s.id === form.selected) ?? empty_search();
+
+    } else if (action === 'save') {
+      const edited: SavedSearch = {
+        id: current.id || new_search_id(),
+        name: String(form.name ?? '').trim(),
+        query: String(form.query ?? '').trim(),
+        filters: String(form.filters ?? '').trim(),
+        pinned: Boolean(form.pinned),
+        note_id: form.collection ? current.note_id : undefined,
+      };
+      if (!edited.query) {
+        current = edited;
+        message = 'Enter a query before saving.';
+        continue;
+      }
+      if (!edited.name) {
+        edited.name = edited.query.substring(0, 50);
+      }
+      if (form.collection) {
+        try {
+          edited.note_id = await write_collection_note(edited, await run_saved_search(edited, model, settings));
+        } catch (error) {
+          message = `Failed to write the collection note: ${error.message || error}`;
+        }
+      }
+      await save_search(edited);
+      changed = true;
+      searches = await load_saved_searches();
+      current = edited;
+      message = message || `Saved "${edited.name}".`;
+
+    } else if (action === 'delete') {
+      await delete_saved_search(current.id);
+      changed = true;
+      message = `Deleted "${current.name}".`;
+      searches = await load_saved_searches();
+      current = empty_search();
+
+    } else {
+      break;
+    }
+  }
+  return changed;
+}
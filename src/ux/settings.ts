@@ -1,12 +1,21 @@
 import joplin from 'api';
-import { SettingItemType } from 'api/types';
+import { SettingItem, SettingItemType } from 'api/types';
 import prompts = require('../assets/prompts.json');
+import { DEFAULT_OLLAMA_URL, list_models } from '../models/ollama';
+import type { KeywordLanguage } from '../notes/textAnalysis';
 
 export const ref_notes_prefix = 'Ref notes:';
 export const search_notes_cmd = 'Search:';
 export const user_notes_cmd = 'Notes:';
 export const context_cmd = 'Context:';
 export const notcontext_cmd = 'Not context:';
+export const notebook_cmd = 'Notebook:';
+export const tags_cmd = 'Tagged:';
+export const since_cmd = 'Since:';
+export const until_cmd = 'Until:';
+export const todo_cmd = 'To-do state:';
+export const markup_cmd = 'Markup:';
+export const filter_cmds = [notebook_cmd, tags_cmd, since_cmd, until_cmd, todo_cmd, markup_cmd];
 export const title_separator = ' ::: ';
 
 export const GENERATION_SETTING_KEYS = new Set([
@@ -15,11 +24,17 @@ export const GENERATION_SETTING_KEYS = new Set([
   'hf_api_key',
   'google_api_key',
   'model',
+  'chat_fallback_models',
   'chat_system_message',
   'chat_timeout',
   'chat_openai_model_id',
   'chat_openai_model_type',
+  'chat_custom_vision',
   'chat_openai_endpoint',
+  'chat_ollama_endpoint',
+  'chat_ollama_model_id',
+  'chat_ollama_num_ctx',
+  'chat_ollama_keep_alive',
   'max_tokens',
   'memory_tokens',
   'notes_context_tokens',
@@ -46,12 +61,17 @@ export const EMBEDDING_SETTING_KEYS = new Set([
   'notes_embed_path',
   'notes_embed_heading',
   'notes_embed_tags',
+  'notes_chunking',
+  'notes_chunk_overlap',
+  'notes_index_attachments',
+  'notes_attachments_max_size',
   'notes_parallel_jobs',
   'notes_max_tokens',
   'notes_openai_model_id',
   'notes_openai_endpoint',
   'notes_hf_model_id',
   'notes_hf_endpoint',
+  'notes_local_model_id',
   'notes_abort_on_error',
   'notes_embed_timeout',
 ]);
@@ -66,11 +86,20 @@ export interface JarvisSettings {
   pubmed_api_key: string;
   // OpenAI
   model: string;
+  chat_fallback_models: string;
   chat_timeout: number;
   chat_system_message: string;
+  chat_images: boolean;
+  chat_images_max_count: number;
+  chat_images_max_kb: number;
   chat_openai_model_id: string;
   chat_openai_model_type: boolean;
+  chat_custom_vision: boolean;
   chat_openai_endpoint: string;
+  chat_ollama_endpoint: string;
+  chat_ollama_model_id: string;
+  chat_ollama_num_ctx: number;
+  chat_ollama_keep_alive: string;
   chat_hf_model_id: string;
   chat_hf_endpoint: string;
   temperature: number;
@@ -80,6 +109,10 @@ export interface JarvisSettings {
   frequency_penalty: number;
   presence_penalty: number;
   include_prompt: boolean;
+  // usage
+  usage_monthly_budget: number;
+  usage_budget_action: string;
+  usage_prices: string;
   // related notes
   /// model
   notes_model: string;
@@ -90,16 +123,23 @@ export interface JarvisSettings {
   notes_openai_endpoint: string;
   notes_hf_model_id: string;
   notes_hf_endpoint: string;
+  notes_local_model_id: string;
   /// chunks
   notes_embed_title: boolean;
   notes_embed_path: boolean;
   notes_embed_heading: boolean;
   notes_embed_tags: boolean;
+  notes_chunking: 'headings' | 'window' | 'semantic' | 'structure';
+  notes_chunk_overlap: number;
   /// other
   notes_db_update_delay: number;
   notes_include_code: boolean;
+  notes_index_attachments: boolean;
+  notes_attachments_max_size: number;
   notes_include_links: number;
   notes_min_similarity: number;
+  notes_duplicates_threshold: number;
+  notes_cluster_count: number;
   notes_min_length: number;
   notes_max_hits: number;
   notes_context_history: number;
@@ -110,11 +150,27 @@ export interface JarvisSettings {
   notes_agg_similarity: string;
   notes_keyword_weight: number;
   notes_keyword_k: number;
+  notes_keyword_index: 'bm25' | 'joplin';
+  notes_keyword_language: KeywordLanguage;
+  notes_rerank: 'none' | 'local' | 'endpoint' | 'llm';
+  notes_rerank_top_n: number;
+  notes_rerank_model: string;
+  notes_rerank_endpoint: string;
   notes_decompose_query: boolean;
+  notes_query_languages: string[];
+  notes_agent_mode: boolean;
+  notes_agent_max_steps: number;
+  notes_verify_answers: 'none' | 'embedding' | 'llm';
+  notes_verify_min_similarity: number;
+  notes_verify_regenerate: number;
   notes_multi_chunk_search: boolean;
+  notes_ann_index: boolean;
+  notes_ann_probes: number;
   notes_exclude_folders: Set<string>;
   notes_panel_visible: boolean;
   chat_panel_visible: boolean;
+  graph_panel_visible: boolean;
+  notes_graph_neighbours: number;
   notes_panel_title: string;
   notes_panel_user_style: string;
   notes_abort_on_error: boolean;
@@ -237,7 +293,7 @@ export const search_prompts: { [engine: string] : string; } = {
 const title_prompt = `Summarize the following note in a title that contains a single sentence in {preferred_language} which encapsulates the note's main conclusion or idea.`;
 const summary_prompt = `Summarize the following note in a short paragraph in {preferred_language} that contains 2-4 sentences which encapsulates the note's main conclusion or idea in a concise way.`;
 const tags_prompt = {
-  'unsupervised': `Suggest keywords for the following note, based on its content. The keywords should make the note easier to find, and should be short and concise (perferably *single-word* keywords). Also select one keyword that describes the note type (such as: article, diary, review, guide, project, etc.). List all keywords in a single line, separated by commas.`,
+  'unsupervised': `Suggest keywords for the following note, based on its content. The keywords should make the note easier to find, and should be short and concise (perferably *single-word* keywords). Also select one keyword that describes the note type (such as: article, diary, review, guide, project, etc.).`,
   'from_list': `Suggest keywords for the following note, based on its content. The keywords should make the note easier to find, and should be short and concise. THIS IS IMPORTANT: You may only suggest keywords from the bank below.`,
   'from_notes': `Suggest keywords for the following note, based on its content. The keywords should make the note easier to find, and should be short and concise. Below are a few examples for notes with similar content, and their keywords. You may only suggest keywords from the examples given below.`,
 };
@@ -266,9 +322,49 @@ function parse_dropdown_value(setting: string, name: string): string {
   }
 }
 
-export async function get_settings(): Promise<JarvisSettings> {
+/** Dropdown of the models installed on the Ollama server. The current
+ *  value is always kept as an option so it survives an offline server. */
+function ollama_model_setting(models: string[], current: string): SettingItem {
+  const options: { [key: string]: string } = {};
+  if (current && !models.includes(current)) {
+    options[current] = `${current} (not found on server)`;
+  }
+  for (const name of models) {
+    options[name] = name;
+  }
+  if (Object.keys(options).length === 0) {
+    options[''] = 'No models found (start Ollama and reopen the settings)';
+  }
+  return {
+    value: '',
+    type: SettingItemType.String,
+    isEnum: true,
+    section: 'jarvis.chat',
+    public: true,
+    advanced: true,
+    label: 'Chat: Ollama model',
+    description: 'The Ollama model to use for text generation, from the models installed on the server (/api/tags). Default: first installed model',
+    options,
+  };
+}
+
+/** Re-register the Ollama model dropdown with the models currently installed on the server. */
+export async function refresh_ollama_models(): Promise<void> {
+  const endpoint = await joplin.settings.value('chat_ollama_endpoint');
+  const current = await joplin.settings.value('chat_ollama_model_id');
+  const models = await list_models(endpoint);
+  await joplin.settings.registerSettings({
+    'chat_ollama_model_id': ollama_model_setting(models, current),
+  });
+}
+
+// model (optional) replaces the chat model setting, e.g. to load a fallback model
+export async function get_settings(model: string = null): Promise<JarvisSettings> {
   // Bulk-fetch all plugin settings in a single API call
   const v = await joplin.settings.values(registeredSettingKeys);
+  if (model) {
+    v['model'] = model;
+  }
 
   let model_id = v['model'] as string;
   if (model_id == 'openai-custom') {
@@ -280,7 +376,10 @@ export async function get_settings(): Promise<JarvisSettings> {
     model_id = model_id.replace(/-exp$/, '');  // remove the exp suffix
   }
   // if model is in model_max_tokens, use its value, otherwise use the settings value
-  const max_tokens = model_max_tokens[model_id] || v['max_tokens'] as number;
+  let max_tokens = model_max_tokens[model_id] || v['max_tokens'] as number;
+  if (model_id == 'ollama' && (v['chat_ollama_num_ctx'] as number) > 0) {
+    max_tokens = v['chat_ollama_num_ctx'] as number;  // the context window requested from the server
+  }
 
   const annotate_tags_method = v['annotate_tags_method'] as string;
 
@@ -324,11 +423,15 @@ export async function get_settings(): Promise<JarvisSettings> {
     presence_penalty: (v['presence_penalty'] as number) / 10,
     notes_include_links: (v['notes_include_links'] as number) / 100,
     notes_min_similarity: (v['notes_min_similarity'] as number) / 100,
+    notes_duplicates_threshold: (v['notes_duplicates_threshold'] as number) / 100,
+    notes_verify_min_similarity: (v['notes_verify_min_similarity'] as number) / 100,
+    notes_verify_regenerate: (v['notes_verify_regenerate'] as number) / 100,
     notes_keyword_weight: (v['notes_keyword_weight'] as number) / 100,
 
     // computed / parsed
     max_tokens,
     notes_exclude_folders: new Set((v['notes_exclude_folders'] as string).split(',').map(s => s.trim())),
+    notes_query_languages: (v['notes_query_languages'] as string).split(',').map(s => s.trim()).filter(s => s.length > 0),
     notes_device_profile: rawProfileSetting,
     notes_device_profile_effective: effectiveProfile,
     notes_device_platform: detectedPlatform,
@@ -424,6 +527,26 @@ export async function register_settings() {
       label: 'Notes: Panel visible',
       description: 'Show or hide the related notes panel. Useful on mobile where toggle commands are not accessible.',
     },
+    'graph_panel_visible': {
+      value: false,
+      type: SettingItemType.Bool,
+      section: 'jarvis.notes',
+      public: true,
+      label: 'Notes: Graph panel visible',
+      description: 'Show or hide the note graph panel, which shows notes linked to their semantic neighbours.',
+    },
+    'notes_graph_neighbours': {
+      value: 3,
+      type: SettingItemType.Int,
+      minimum: 1,
+      maximum: 10,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Semantic neighbours in the note graph',
+      description: 'Number of most similar notes that each note is connected to in the note graph panel (in addition to links between notes). Default: 3',
+    },
     'toolbar_show_edit': {
       value: true,
       type: SettingItemType.Bool,
@@ -461,6 +584,14 @@ export async function register_settings() {
       public: true,
       label: 'Model: Anthropic API Key',
     },
+    'rerank_api_key': {
+      value: '',
+      type: SettingItemType.String,
+      secure: true,
+      section: 'jarvis.chat',
+      public: true,
+      label: 'Model: Rerank API Key',
+    },
     'hf_api_key': {
       value: '',
       type: SettingItemType.String,
@@ -488,6 +619,7 @@ export async function register_settings() {
       options: {
         'none': 'None (disable generation features)',
         'openai-custom': 'OpenAI-compatible custom model (e.g., Ollama, Claude)',
+        'ollama': 'Ollama (offline, native API)',
         'gpt-5-nano':'gpt-5-nano / OpenAI (in:400K, out:128K, cheapest reasoning)',
         'gpt-5-mini':'gpt-5-mini / OpenAI (in:400K, out:128K)',
         'gpt-5.5': 'gpt-5.5 / OpenAI (in:1M, out:128K, strongest reasoning)',
@@ -500,6 +632,15 @@ export async function register_settings() {
         'Hugging Face': 'Hugging Face',
       }
     },
+    'chat_fallback_models': {
+      value: '',
+      type: SettingItemType.String,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Fallback models',
+      description: 'Comma-separated models to try in order when the chat model is rate-limited, unavailable or times out (e.g. "gpt-5-mini, ollama"). Use the model IDs of the Chat: Model options; custom and Ollama models use their settings above. Default: empty (no fallback)',
+    },
     'chat_timeout': {
       value: 60,
       type: SettingItemType.Int,
@@ -512,6 +653,39 @@ export async function register_settings() {
       label: 'Chat: Timeout (sec)',
       description: 'The maximal time to wait for a response from the model in seconds. Default: 60',
     },
+    'usage_monthly_budget': {
+      value: 0,
+      type: SettingItemType.Int,
+      minimum: 0,
+      maximum: 10000,
+      step: 1,
+      section: 'jarvis.chat',
+      public: true,
+      label: 'Usage: Monthly budget (USD)',
+      description: 'The estimated cost of model calls (chat, annotation, research, indexing) allowed per calendar month. See Tools > Jarvis > Show usage and costs. Default: 0 (no budget)',
+    },
+    'usage_budget_action': {
+      value: 'warn',
+      type: SettingItemType.String,
+      isEnum: true,
+      section: 'jarvis.chat',
+      public: true,
+      label: 'Usage: When over budget',
+      description: 'What to do before a model call that would exceed the monthly budget. Default: Warn once per month',
+      options: {
+        'warn': 'Warn once per month',
+        'block': 'Block model calls',
+      },
+    },
+    'usage_prices': {
+      value: '',
+      type: SettingItemType.String,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Usage: Model prices',
+      description: 'Prices in USD per 1M tokens that override or extend the built-in table, matched by model ID prefix ({"model": [input, output], ...} JSON). Local models are free.',
+    },
     'chat_system_message': {
       value: 'You are Jarvis, the helpful assistant, and I am User.',
       type: SettingItemType.String,
@@ -521,6 +695,38 @@ export async function register_settings() {
       label: 'Chat: System message',
       description: 'The message to inform Jarvis who he is, what is his purpose, and more information about the user. Default: You are Jarvis, the helpful assistant, and I am User.',
     },
+    'chat_images': {
+      value: false,
+      type: SettingItemType.Bool,
+      section: 'jarvis.chat',
+      public: true,
+      label: 'Chat: Send note images to vision models',
+      description: 'Attach the images in the current note (and in retrieved notes, when chatting with your notes) to the chat. Requires a chat model with vision (OpenAI, Anthropic, Gemini, or a custom / Ollama vision model). Default: false',
+    },
+    'chat_images_max_count': {
+      value: 4,
+      type: SettingItemType.Int,
+      minimum: 1,
+      maximum: 20,
+      step: 1,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Maximal number of images',
+      description: 'The maximal number of images attached to a chat message. Default: 4',
+    },
+    'chat_images_max_kb': {
+      value: 1024,
+      type: SettingItemType.Int,
+      minimum: 16,
+      maximum: 20480,
+      step: 16,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Maximal image size (KB)',
+      description: 'Larger images are not attached. Default: 1024',
+    },
     'chat_openai_model_id': {
       value: '',
       type: SettingItemType.String,
@@ -539,6 +745,15 @@ export async function register_settings() {
       label: 'Chat: Custom model is a conversation model',
       description: 'Whether to use the conversation API or the legacy completion API. Default: true',
     },
+    'chat_custom_vision': {
+      value: false,
+      type: SettingItemType.Bool,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Custom model accepts images',
+      description: 'Whether the custom (OpenAI-compatible) or Ollama model has vision, to attach note images to the chat. Known vision models (e.g. gpt-4o, llava, gemma3) are detected by their ID. Default: false',
+    },
     'chat_openai_endpoint': {
       value: '',
       type: SettingItemType.String,
@@ -548,6 +763,37 @@ export async function register_settings() {
       label: 'Chat: Custom model API endpoint',
       description: "The OpenAI (or compatible) API endpoint to use for text generation. Default: empty (OpenAI's default public endpoint)",
     },
+    'chat_ollama_endpoint': {
+      value: DEFAULT_OLLAMA_URL,
+      type: SettingItemType.String,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Ollama server URL',
+      description: `The address of the Ollama server used by the native Ollama model. Default: ${DEFAULT_OLLAMA_URL}`,
+    },
+    'chat_ollama_model_id': ollama_model_setting([], ''),
+    'chat_ollama_num_ctx': {
+      value: 0,
+      type: SettingItemType.Int,
+      minimum: 0,
+      maximum: 262144,
+      step: 1024,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Ollama context window (num_ctx)',
+      description: 'The context length to load the Ollama model with. When set, it also replaces Max tokens. Higher values use more memory. Default: 0 (model default)',
+    },
+    'chat_ollama_keep_alive': {
+      value: '',
+      type: SettingItemType.String,
+      section: 'jarvis.chat',
+      public: true,
+      advanced: true,
+      label: 'Chat: Ollama keep alive',
+      description: 'How long Ollama keeps the model loaded after a request (e.g., 10m, 1h, -1 for always). Default: empty (server default)',
+    },
     'chat_hf_model_id': {
       value: 'MBZUAI/LaMini-Flan-T5-783M',
       type: SettingItemType.String,
@@ -653,6 +899,7 @@ export async function register_settings() {
         'Universal Sentence Encoder': 'Universal Sentence Encoder (offline) [English]',
         'openai-custom': 'OpenAI-compatible custom model (online/offline)',
         'ollama': 'Ollama (offline)',
+        'local': 'Local ONNX model (offline, desktop) [Multilingual]',
         'text-embedding-3-small': 'text-embedding-3-small / OpenAI (online) [Multilingual]',
         'text-embedding-3-large': 'text-embedding-3-large / OpenAI (online) [Multilingual]',
         'text-embedding-ada-002': 'text-embedding-ada-002 / OpenAI (online) [Multilingual]',
@@ -742,6 +989,34 @@ export async function register_settings() {
       label: 'Notes: Embed tags in chunk',
       description: 'Default: true',
     },
+    'notes_chunking': {
+      value: 'headings',
+      type: SettingItemType.String,
+      isEnum: true,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Chunking strategy',
+      description: 'How notes are split into chunks (up to Max tokens each). Headings: split on headings and code blocks, then by sentences. Fixed windows: overlapping windows that ignore headings (e.g., for long journal notes). Semantic: split long sections where the topic shifts (embeds each section several times, slower and costlier with API models). Lists & tables: split between paragraphs, list items and table rows, and merge tiny sections. Changing it rebuilds the database. Default: Headings',
+      options: {
+        'headings': 'Headings',
+        'window': 'Fixed windows with overlap',
+        'semantic': 'Semantic breakpoints',
+        'structure': 'Lists & tables aware',
+      },
+    },
+    'notes_chunk_overlap': {
+      value: 15,
+      type: SettingItemType.Int,
+      minimum: 0,
+      maximum: 50,
+      step: 5,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Chunk overlap (%)',
+      description: 'Fixed windows only: the share of each window that is repeated at the start of the next one. Default: 15',
+    },
     'notes_max_tokens': {
       value: 512,
       type: SettingItemType.Int,
@@ -811,6 +1086,15 @@ export async function register_settings() {
       label: 'Notes: Hugging Face API endpoint',
       description: "The Hugging Face API endpoint to use for calculating text embeddings. Default: empty (HF's default public endpoint)",
     },
+    'notes_local_model_id': {
+      value: 'Xenova/multilingual-e5-small',
+      type: SettingItemType.String,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Local ONNX model ID',
+      description: 'The Hugging Face model ID of a sentence embedding model with ONNX weights (e.g. Xenova/all-MiniLM-L6-v2, Xenova/bge-small-en-v1.5). It is downloaded once to the plugin data folder (models/), or may be placed there manually. Default: Xenova/multilingual-e5-small',
+    },
     'notes_db_update_delay': {
       value: 10,
       type: SettingItemType.Int,
@@ -841,6 +1125,26 @@ export async function register_settings() {
       label: 'Notes: Include code blocks in DB',
       description: 'Default: false',
     },
+    'notes_index_attachments': {
+      value: false,
+      type: SettingItemType.Bool,
+      section: 'jarvis.notes',
+      public: true,
+      label: 'Notes: Index attachments',
+      description: 'Extract and index the text of attached PDF, DOCX and plain text files (attachments with OCR text are already indexed with the note). PDF text is read without font decoding, so some PDFs yield no text. Default: false',
+    },
+    'notes_attachments_max_size': {
+      value: 10,
+      type: SettingItemType.Int,
+      minimum: 1,
+      maximum: 200,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Max attachment size (MB)',
+      description: 'Larger attachments are not indexed. Default: 10',
+    },
     'notes_include_links': {
       value: 0,
       type: SettingItemType.Int,
@@ -863,6 +1167,30 @@ export async function register_settings() {
       label: 'Notes: Minimal note similarity',
       description: 'Default: 50',
     },
+    'notes_duplicates_threshold': {
+      value: 90,
+      type: SettingItemType.Int,
+      minimum: 50,
+      maximum: 100,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Duplicate note similarity',
+      description: 'Notes whose mean or MaxSim (best matching blocks) similarity is above this threshold are reported by "Find duplicate notes". Default: 90',
+    },
+    'notes_cluster_count': {
+      value: 0,
+      type: SettingItemType.Int,
+      minimum: 0,
+      maximum: 100,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Number of topics for notebook organization',
+      description: 'Number of topic clusters used by "Suggest notebook organization". Set to 0 to choose automatically based on the number of notes. Default: 0',
+    },
     'notes_min_length': {
       value: 100,
       type: SettingItemType.Int,
@@ -947,7 +1275,7 @@ export async function register_settings() {
       public: true,
       advanced: true,
       label: 'Notes: Keyword search weight',
-      description: 'Weight of Joplin keyword search in hybrid retrieval. Applies to both the related notes panel (using note title) and chat (using the user query or LLM-generated keywords). Set to 0 to disable. Default: 30',
+      description: 'Weight of keyword search in hybrid retrieval. Applies to both the related notes panel (using note title) and chat (using the user query or LLM-generated keywords). Set to 0 to disable. Default: 30',
     },
     'notes_keyword_k': {
       value: 1,
@@ -960,6 +1288,84 @@ export async function register_settings() {
       label: 'Notes: Keyword search RRF k',
       description: 'RRF smoothing constant for hybrid retrieval. Lower values (1-3) let keyword results displace semantic results more aggressively. Higher values (30-60) make the blend gentler. Default: 1',
     },
+    'notes_keyword_index': {
+      value: 'bm25',
+      type: SettingItemType.String,
+      isEnum: true,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Keyword search index',
+      description: 'Keyword search in hybrid retrieval. Local BM25 ranks the same blocks (chunks) as semantic search, and is built during a full database sweep (Joplin search is used until then). Joplin search matches whole notes. Default: Local BM25',
+      options: {
+        'bm25': 'Local BM25 (block level)',
+        'joplin': 'Joplin search (note level)',
+      },
+    },
+    'notes_keyword_language': {
+      value: 'auto',
+      type: SettingItemType.String,
+      isEnum: true,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Keyword index language',
+      description: 'Stemming and stopwords of the local keyword index. Auto detects the language of each note, and matches query words in all languages. Changing this rebuilds the index. Default: Auto',
+      options: {
+        'auto': 'Auto',
+        'english': 'English',
+        'german': 'German',
+        'french': 'French',
+        'spanish': 'Spanish',
+        'none': 'None (exact words)',
+      },
+    },
+    'notes_rerank': {
+      value: 'none',
+      type: SettingItemType.String,
+      isEnum: true,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Rerank retrieved notes',
+      description: 'Chat only: score the top retrieved excerpts against the question and reorder them before they fill the context. Default: None',
+      options: {
+        'none': 'None',
+        'local': 'Local cross-encoder (offline, desktop)',
+        'endpoint': 'Rerank API (Cohere / Jina / Voyage)',
+        'llm': 'Chat model as a judge',
+      },
+    },
+    'notes_rerank_top_n': {
+      value: 20,
+      type: SettingItemType.Int,
+      minimum: 2,
+      maximum: 100,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Rerank top N excerpts',
+      description: 'The number of top retrieved excerpts to rerank. Default: 20',
+    },
+    'notes_rerank_model': {
+      value: '',
+      type: SettingItemType.String,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Rerank model ID',
+      description: 'A Hugging Face cross-encoder with ONNX weights (local), or the model of the rerank API (e.g. rerank-v3.5, jina-reranker-v2-base-multilingual, rerank-2). Default: empty (Xenova/ms-marco-MiniLM-L-6-v2 for local)',
+    },
+    'notes_rerank_endpoint': {
+      value: 'https://api.cohere.com/v2/rerank',
+      type: SettingItemType.String,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Rerank API endpoint',
+      description: 'The rerank endpoint, authorized with the Rerank API Key (e.g. https://api.jina.ai/v1/rerank, https://api.voyageai.com/v1/rerank). Default: https://api.cohere.com/v2/rerank',
+    },
     'notes_decompose_query': {
       value: true,
       type: SettingItemType.Bool,
@@ -969,6 +1375,75 @@ export async function register_settings() {
       label: 'Notes: LLM query decomposition',
       description: 'Chat only: use the chat model to decompose queries into focused sub-queries with targeted keywords. Adds latency per query. Default: on',
     },
+    'notes_query_languages': {
+      value: '',
+      type: SettingItemType.String,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Query translation languages',
+      description: 'Comma-separated list of languages (e.g. English, Hebrew, German). The chat model translates search queries into these languages, and notes matching any translation are retrieved. Applies to the panel search box, the API and chat (the last prompt is translated). Related notes of the current note are not translated. Adds latency per query. Default: empty (off)',
+    },
+    'notes_agent_mode': {
+      value: false,
+      type: SettingItemType.Bool,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Agent mode for chat',
+      description: 'Chat only: let the chat model search and read notes with tools over several steps before answering. Helps with multi-hop questions (e.g., comparing topics or periods), but is slower and uses more tokens. Chat commands (Search:, Notes:, Context:) are ignored in this mode. Default: off',
+    },
+    'notes_agent_max_steps': {
+      value: 6,
+      type: SettingItemType.Int,
+      minimum: 1,
+      maximum: 20,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Agent mode max steps',
+      description: 'Chat only: the maximal number of tool-calling rounds in agent mode before the model must answer. Default: 6',
+    },
+    'notes_verify_answers': {
+      value: 'none',
+      type: SettingItemType.String,
+      isEnum: true,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Verify answer grounding',
+      description: 'Chat only (not in agent mode): check each statement of the answer against the notes given to the model, and mark statements that are not found in them. Embedding similarity is fast; the chat model as a judge is more accurate but adds a model call. Default: None',
+      options: {
+        'none': 'None',
+        'embedding': 'Embedding similarity',
+        'llm': 'Chat model as a judge',
+      },
+    },
+    'notes_verify_min_similarity': {
+      value: 50,
+      type: SettingItemType.Int,
+      minimum: 0,
+      maximum: 100,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Grounding minimal similarity',
+      description: 'Embedding similarity verification: the minimal similarity between a statement and a note excerpt for the statement to count as found in the notes. Default: 50',
+    },
+    'notes_verify_regenerate': {
+      value: 0,
+      type: SettingItemType.Int,
+      minimum: 0,
+      maximum: 100,
+      step: 5,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Regenerate ungrounded answers (%)',
+      description: 'When answer grounding is verified: regenerate the answer once with a stricter instruction when more than this percentage of its statements are not found in the notes. 0 disables regeneration. Default: 0',
+    },
     'notes_multi_chunk_search': {
       value: true,
       type: SettingItemType.Bool,
@@ -978,6 +1453,27 @@ export async function register_settings() {
       label: 'Notes: Multi-chunk search',
       description: 'Related notes panel only: score each section of the current note independently for more diverse results in multi-topic notes. Default: on',
     },
+    'notes_ann_index': {
+      value: false,
+      type: SettingItemType.Bool,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Approximate search index (large libraries)',
+      description: 'Requires "Store embeddings in note properties". Index the embeddings of libraries with more than 20,000 note sections, and search only the sections closest to the query, which is much faster but may miss a few results. The index also compresses the cached embeddings about 4 times (similarities become approximate, and the top notes are re-scored exactly), so larger libraries fit in memory, including on mobile. The index is built in the background and saved with the plugin data (desktop). Default: off',
+    },
+    'notes_ann_probes': {
+      value: 16,
+      type: SettingItemType.Int,
+      minimum: 1,
+      maximum: 256,
+      step: 1,
+      section: 'jarvis.notes',
+      public: true,
+      advanced: true,
+      label: 'Notes: Approximate search index probes',
+      description: 'The number of index partitions to search (out of ~sqrt(sections) / 2). Higher values find more of the exact results, but are slower. Default: 16',
+    },
     'annotate_preferred_language': {
       value: 'English',
       type: SettingItemType.String,
@@ -1318,6 +1814,24 @@ export async function register_settings() {
       label: 'Notes: Last full sweep timestamps (internal)',
       description: 'Internal map tracking per-model last successful full sweep (Unix timestamp ms). Used for sync staleness detection. Do not modify.',
     },
+    'notes_saved_searches': {
+      value: '[]',
+      type: SettingItemType.String,
+      section: 'jarvis.notes',
+      public: false,
+      advanced: true,
+      label: 'Notes: Saved searches (internal)',
+      description: 'Internal list of saved searches and pinned collections. Edit with "Manage saved searches". Do not modify.',
+    },
+    'chat_panel_conversations': {
+      value: '[]',
+      type: SettingItemType.String,
+      section: 'jarvis.chat',
+      public: false,
+      advanced: true,
+      label: 'Chat: Panel conversations (internal)',
+      description: 'Internal list of recent chat panel conversations, used when the plugin data directory is not available (mobile). Do not modify.',
+    },
     'jarvis.releaseNotes': {
       value: '',
       type: SettingItemType.String,
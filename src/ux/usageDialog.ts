@@ -0,0 +1,168 @@
+import joplin from 'api';
+import {
+  UsageLedger, UsageTotals, add_totals, empty_totals, get_usage_ledger, get_usage_options, local_day, month_totals,
+} from '../models/usage';
+import { escape_html } from '../utils';
+
+function formatCost(totals: UsageTotals): string {
+  const cost = `$${totals.cost.toFixed(totals.cost > 0 && totals.cost < 0.01 ? 4 : 2)}`;
+  return totals.unpriced > 0 ? `${cost} + ${totals.unpriced} unpriced` : cost;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1e6) { return `${(tokens / 1e6).toFixed(1)}M`; }
+  if (tokens >= 1e4) { return `${Math.round(tokens / 1e3)}K`; }
+  return String(tokens);
+}
+
+function shift_month(month: string, delta: number): string {
+  const [year, index] = month.split('-').map(Number);
+  return local_day(new Date(year, index - 1 + delta, 1)).substring(0, 7);
+}
+
+/**
+ * Sum a month of the ledger by day and by command (with a per-model breakdown).
+ */
+function summarize_month(ledger: UsageLedger, month: string) {
+  const by_day: [string, UsageTotals][] = [];
+  const by_command = new Map<string, { totals: UsageTotals, models: Map<string, UsageTotals> }>();
+
+  for (const day of Object.keys(ledger).filter(d => d.startsWith(month)).sort().reverse()) {
+    const day_totals = empty_totals();
+    for (const [command, models] of Object.entries(ledger[day])) {
+      if (!by_command.has(command)) {
+        by_command.set(command, { totals: empty_totals(), models: new Map() });
+      }
+      const entry = by_command.get(command);
+      for (const [model, totals] of Object.entries(models)) {
+        add_totals(day_totals, totals);
+        add_totals(entry.totals, totals);
+        if (!entry.models.has(model)) { entry.models.set(model, empty_totals()); }
+        add_totals(entry.models.get(model), totals);
+      }
+    }
+    by_day.push([day, day_totals]);
+  }
+
+  const commands = [...by_command.entries()]
+    .sort((a, b) => (b[1].totals.cost - a[1].totals.cost) || (b[1].totals.calls - a[1].totals.calls));
+  return { by_day, commands };
+}
+
+function totals_cells(totals: UsageTotals): string {
+  return `
+    <td>${totals.calls}</td>
+    <td>${formatTokens(totals.input_tokens)}</td>
+    <td>${formatTokens(totals.output_tokens)}</td>
+    <td>${escape_html(formatCost(totals))}</td>
+  `;
+}
+
+/**
+ * Build the HTML of the usage dialog for one month.
+ */
+function build_dialog_html(ledger: UsageLedger, month: string): string {
+  const options = get_usage_options();
+  const totals = month_totals(ledger, month);
+  const { by_day, commands } = summarize_month(ledger, month);
+
+  const budget = options.monthly_budget > 0
+    ? `${escape_html(formatCost(totals))} of a $${options.monthly_budget} budget (${Math.round(100 * totals.cost / options.monthly_budget)}%, ${options.budget_action === 'block' ? 'blocks' : 'warns'} when exceeded)`
+    : `${escape_html(formatCost(totals))} (no monthly budget set)`;
+
+  if (by_day.length === 0) {
+    return `
+      <div id="jarvis-usage">
+        <h3>Usage and Costs: ${month}</h3>
+        <p>No model calls were recorded in this month.</p>
+      </div>
+    `;
+  }
+
+  const header = `
+    <tr>
+      <th></th>
+      <th>Calls</th>
+      <th>Input</th>
+      <th>Output</th>
+      <th>Cost</th>
+    </tr>
+  `;
+
+  const command_rows = commands.map(([command, entry]) => {
+    const model_rows = [...entry.models.entries()].map(([model, model_totals]) => `
+      <tr class="jarvis-usage__model">
+        <td>${escape_html(model)}</td>
+        ${totals_cells(model_totals)}
+      </tr>
+    `).join('');
+    return `
+      <tr class="jarvis-usage__command">
+        <td>${escape_html(command)}</td>
+        ${totals_cells(entry.totals)}
+      </tr>
+      ${model_rows}
+    `;
+  }).join('');
+
+  const day_rows = by_day.map(([day, day_totals]) => `
+    <tr>
+      <td>${day}</td>
+      ${totals_cells(day_totals)}
+    </tr>
+  `).join('');
+
+  return `
+    <div id="jarvis-usage">
+      <h3>Usage and Costs: ${month}</h3>
+      <p>Estimated cost: <strong>${budget}</strong></p>
+      <p class="jarvis-usage__hint">Costs are estimated from token counts and list prices. Local models are free; calls to models without a known price are counted separately (see the Usage: Model prices setting).</p>
+      <h4>By command</h4>
+      <div class="jarvis-usage__table-wrapper">
+        <table class="jarvis-usage__table">
+          <thead>${header}</thead>
+          <tbody>${command_rows}</tbody>
+        </table>
+      </div>
+      <h4>By day</h4>
+      <div class="jarvis-usage__table-wrapper">
+        <table class="jarvis-usage__table">
+          <thead>${header}</thead>
+          <tbody>${day_rows}</tbody>
+        </table>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Show the usage ledger by command and by day, browsing back month by month.
+ */
+export async function open_usage_dialog(dialogHandle: string): Promise<void> {
+  const current = local_day(new Date()).substring(0, 7);
+  let month = current;
+
+  while (true) {
+    const ledger = await get_usage_ledger();
+    await joplin.views.dialogs.setFitToContent(dialogHandle, false);
+    await joplin.views.dialogs.setHtml(dialogHandle, build_dialog_html(ledger, month));
+
+    const buttons = [{ id: 'previous', title: 'Previous Month' }];
+    if (month < current) {
+      buttons.push({ id: 'next', title: 'Next Month' });
+    }
+    buttons.push({ id: 'close', title: 'Close' });
+    await joplin.views.dialogs.setButtons(dialogHandle, buttons);
+    await joplin.views.dialogs.setFitToContent(dialogHandle, true);
+
+    const result = await joplin.views.dialogs.open(dialogHandle);
+    const action = result?.id ?? 'close';
+    if (action === 'previous') {
+      month = shift_month(month, -1);
+    } else if (action === 'next') {
+      month = shift_month(month, 1);
+    } else {
+      break;
+    }
+  }
+}
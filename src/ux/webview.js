@@ -10,6 +10,20 @@ document.addEventListener('click', event => {
 			line: element.dataset.line,
 		});
 	}
+	if (element.className === 'jarvis-collection-edit') {
+		event.preventDefault();
+		webviewApi.postMessage({
+			name: 'editSavedSearch',
+			id: element.dataset.search,
+		});
+	}
+	if (element.className === 'jarvis-save-search-button') {
+		const query = document.getElementById('jarvis-search');
+		webviewApi.postMessage({
+			name: 'saveSearch',
+			query: query ? query.value : '',
+		});
+	}
 	if (element.className === 'jarvis-cancel-button') {
 		webviewApi.postMessage({
 			name: 'abortUpdate'
@@ -26,3 +40,26 @@ document.addEventListener('search', event => {
 		});
 	}
 });
+
+// Load the preview of a result when it is expanded (toggle does not bubble)
+document.addEventListener('toggle', event => {
+	const element = event.target;
+	if (element.className !== 'jarvis-semantic-block' || !element.open) {
+		return;
+	}
+	const preview = element.querySelector('.jarvis-semantic-preview');
+	if (!preview || preview.dataset.loaded) {
+		return;
+	}
+	preview.dataset.loaded = 'true';
+	webviewApi.postMessage({
+		name: 'blockPreview',
+		note: element.dataset.note,
+		resource: element.dataset.resource,
+		idx: element.dataset.idx,
+		length: element.dataset.length,
+		keywords: element.dataset.keywords,
+	}).then(html => {
+		preview.innerHTML = html;
+	});
+}, true);
@@ -201,6 +201,10 @@ const pluginConfig = Object.assign({}, baseConfig, {
 			// and other Node.js builtins unavailable on mobile.
 			// The web build uses API-key auth only, which is what this plugin needs.
 			'@google/genai': path.resolve(__dirname, 'node_modules/@google/genai/dist/web/index.mjs'),
+			// Likewise, use the web builds of transformers.js and ONNX Runtime (WebAssembly)
+			// instead of the Node.js builds, which depend on native binaries (onnxruntime-node, sharp).
+			'@huggingface/transformers': path.resolve(__dirname, 'node_modules/@huggingface/transformers/dist/transformers.web.js'),
+			'onnxruntime-web': path.resolve(__dirname, 'node_modules/onnxruntime-web/dist/ort.min.mjs'),
 		},
 		// JSON files can also be required from scripts so we include this.
 		// https://github.com/joplin/plugin-bibtex/pull/2
@@ -231,6 +235,12 @@ const pluginConfig = Object.assign({}, baseConfig, {
 						],
 					},
 				},
+				{
+					// ONNX Runtime WebAssembly binaries for local embedding models
+					from: 'ort-wasm-simd-threaded.jsep.*',
+					context: path.resolve(__dirname, 'node_modules/@huggingface/transformers/dist'),
+					to: path.resolve(distDir, 'onnx'),
+				},
 			],
 		}),
 		{